@@ -0,0 +1,922 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Lock, Save, Plus, Trash2, MapPin, Zap, Clock, BarChart3, LogOut, Megaphone, ShieldCheck, Wrench, ClipboardCheck, Download } from 'lucide-react'
+import {
+  ApiError,
+  fetchAdminConfig,
+  saveAdminConfig,
+  saveAdminSites,
+  saveAdminPromptRules,
+  saveAdminAITools,
+  saveAdminConsentRules,
+  downloadConsentLogs,
+  fetchSiteAttendance,
+  fetchAnnouncements,
+  postAnnouncement,
+  deleteAnnouncement,
+  type SiteAttendance,
+} from '../lib/api'
+import { getDateKey } from '../lib/exp-rules'
+import type { AppConfig, ExpConfig } from '../lib/config'
+import type { LatLng, Site } from '../lib/sites'
+import type { Announcement } from '../lib/types'
+import { AI_TOOL_COLORS, type AITool, type AIToolColor } from '../lib/ai-tools'
+import { AI_TOOL_ICON_NAMES, isAIToolIcon } from '../lib/ai-tool-icons'
+import { LucideIcon } from '../components/LucideIcon'
+import type { ConsentRuleItem, ConsentRules } from '../lib/security-consent'
+import {
+  PROMPT_VALIDATORS,
+  runPromptRuleTests,
+  type PromptRule,
+  type PromptRulePack,
+  type PromptRuleSeverity,
+  type PromptValidator,
+} from '../lib/prompt-security'
+
+// ==================== Admin Console ====================
+// 운영자 전용: EXP 규칙, 출석 시간대, EXP 이벤트, 근무지(지오펜스), AI TOOL 목록, 보안 준수 문구/동의 기록, 프롬프트 보안 규칙, 공지 관리
+
+const ADMIN_PASSWORD_KEY = 'kepco_admin_password'
+
+const EXP_FIELDS: { key: keyof ExpConfig; label: string }[] = [
+  { key: 'nfc', label: 'NFC 출석 EXP' },
+  { key: 'gps', label: 'GPS 출석 EXP' },
+  { key: 'aiClick', label: 'AI 보안검증 EXP' },
+  { key: 'aiClickMaxDaily', label: 'AI 보안검증 일일 횟수' },
+  { key: 'linkClick', label: '링크/AI TOOL EXP' },
+  { key: 'gameMaxPerRound', label: '게임 1회 최대 EXP' },
+  { key: 'perLevel', label: '레벨당 필요 EXP' },
+]
+
+const inputClass = 'w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-kepco-cyan'
+
+// ISO 시각 <-> datetime-local 입력값 (브라우저 로컬 시간 기준)
+const toLocalInput = (iso: string | null): string => {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const fromLocalInput = (value: string): string | null => (value ? new Date(value).toISOString() : null)
+
+const formatPoints = (points: LatLng[]) => points.map((p) => `${p.lat}, ${p.lng}`).join('\n')
+
+const parsePoints = (text: string): LatLng[] =>
+  text
+    .split('\n')
+    .map((line) => line.split(',').map((v) => Number(v.trim())))
+    .filter(([lat, lng]) => Number.isFinite(lat) && Number.isFinite(lng))
+    .map(([lat, lng]) => ({ lat, lng }))
+
+const SEVERITY_LABELS: Record<PromptRuleSeverity, string> = {
+  high: '높음',
+  medium: '보통',
+  low: '낮음',
+}
+
+// 테스트 문장 <-> 입력값 (한 줄에 "+ 찾아야 할 문장" 또는 "- 찾으면 안 되는 문장")
+const formatTests = (tests: PromptRule['tests']) => tests.map((t) => `${t.shouldMatch ? '+' : '-'} ${t.text}`).join('\n')
+
+const parseTests = (text: string): PromptRule['tests'] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => /^[+-]\s*\S/.test(line))
+    .map((line) => ({ shouldMatch: line[0] === '+', text: line.slice(1).trim() }))
+
+// 보안 준수 문구 <-> 입력값 (한 줄에 "+ 권장 사항" 또는 "- 금지 사항")
+const formatConsentItems = (items: ConsentRuleItem[]) => items.map((item) => `${item.allowed ? '+' : '-'} ${item.text}`).join('\n')
+
+const parseConsentItems = (text: string): ConsentRuleItem[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => /^[+-]\s*\S/.test(line))
+    .map((line) => ({ allowed: line[0] === '+', text: line.slice(1).trim() }))
+
+// ==================== Section Card ====================
+const Section = ({ icon: Icon, title, children }: { icon: typeof Lock; title: string; children: React.ReactNode }) => (
+  <section className="glass rounded-2xl p-5 mb-4">
+    <div className="flex items-center gap-2 mb-4">
+      <Icon className="w-5 h-5 text-kepco-cyan" />
+      <h2 className="font-semibold text-white">{title}</h2>
+    </div>
+    {children}
+  </section>
+)
+
+const SaveButton = ({ onClick, saving }: { onClick: () => void; saving: boolean }) => (
+  <motion.button
+    className="mt-4 w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-gradient-to-r from-kepco-blue to-kepco-cyan text-white text-sm font-semibold disabled:opacity-50"
+    onClick={onClick}
+    disabled={saving}
+    whileTap={{ scale: 0.98 }}
+  >
+    <Save className="w-4 h-4" />
+    {saving ? '저장 중...' : '저장'}
+  </motion.button>
+)
+
+// ==================== Login ====================
+const AdminLogin = ({ onLogin }: { onLogin: (password: string) => Promise<void> }) => {
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    try {
+      await onLogin(password)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '로그인에 실패했습니다')
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6">
+      <form className="glass rounded-2xl p-6 w-full max-w-sm" onSubmit={handleSubmit}>
+        <div className="flex items-center gap-2 mb-4">
+          <Lock className="w-5 h-5 text-kepco-cyan" />
+          <h1 className="font-bold text-white">운영자 콘솔</h1>
+        </div>
+        <input
+          type="password"
+          className={inputClass}
+          placeholder="관리자 비밀번호"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoFocus
+        />
+        {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+        <button
+          type="submit"
+          className="mt-4 w-full py-3 rounded-xl bg-gradient-to-r from-kepco-blue to-kepco-cyan text-white text-sm font-semibold disabled:opacity-50"
+          disabled={!password}
+        >
+          로그인
+        </button>
+      </form>
+    </div>
+  )
+}
+
+// ==================== Site Editor ====================
+const SiteEditor = ({ site, onChange, onRemove }: { site: Site; onChange: (site: Site) => void; onRemove: () => void }) => {
+  const { geofence } = site
+  // 다각형 좌표는 입력 중 파싱하면 커서가 튀므로 텍스트로 보관
+  const [pointsText, setPointsText] = useState(geofence.type === 'polygon' ? formatPoints(geofence.points) : '')
+
+  const changeType = (type: 'circle' | 'polygon') => {
+    if (type === geofence.type) return
+    if (type === 'circle') {
+      const center = geofence.type === 'polygon' ? geofence.points[0] ?? { lat: 0, lng: 0 } : geofence.center
+      onChange({ ...site, geofence: { type: 'circle', center, radius: 100 } })
+    } else {
+      const points = geofence.type === 'circle' ? [geofence.center] : geofence.points
+      setPointsText(formatPoints(points))
+      onChange({ ...site, geofence: { type: 'polygon', points } })
+    }
+  }
+
+  return (
+    <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-2">
+      <div className="flex gap-2">
+        <input className={inputClass} placeholder="ID (예: gyeongnam-hq)" value={site.id} onChange={(e) => onChange({ ...site, id: e.target.value })} />
+        <input className={inputClass} placeholder="이름" value={site.name} onChange={(e) => onChange({ ...site, name: e.target.value })} />
+        <button className="p-2 text-red-400" onClick={onRemove} aria-label="근무지 삭제">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex gap-2 text-xs">
+        {(['circle', 'polygon'] as const).map((type) => (
+          <button
+            key={type}
+            className={`px-3 py-1 rounded-lg ${geofence.type === type ? 'bg-kepco-cyan/20 text-kepco-cyan' : 'bg-white/5 text-slate-400'}`}
+            onClick={() => changeType(type)}
+          >
+            {type === 'circle' ? '원형 (중심+반경)' : '다각형'}
+          </button>
+        ))}
+      </div>
+      {geofence.type === 'circle' ? (
+        <div className="grid grid-cols-3 gap-2">
+          <input
+            className={inputClass}
+            type="number"
+            step="any"
+            placeholder="위도"
+            value={geofence.center.lat}
+            onChange={(e) => onChange({ ...site, geofence: { ...geofence, center: { ...geofence.center, lat: Number(e.target.value) } } })}
+          />
+          <input
+            className={inputClass}
+            type="number"
+            step="any"
+            placeholder="경도"
+            value={geofence.center.lng}
+            onChange={(e) => onChange({ ...site, geofence: { ...geofence, center: { ...geofence.center, lng: Number(e.target.value) } } })}
+          />
+          <input
+            className={inputClass}
+            type="number"
+            placeholder="반경(m)"
+            value={geofence.radius}
+            onChange={(e) => onChange({ ...site, geofence: { ...geofence, radius: Number(e.target.value) } })}
+          />
+        </div>
+      ) : (
+        <textarea
+          className={`${inputClass} h-24 font-mono`}
+          placeholder={'꼭짓점 좌표 (한 줄에 "위도, 경도")'}
+          value={pointsText}
+          onChange={(e) => {
+            setPointsText(e.target.value)
+            onChange({ ...site, geofence: { type: 'polygon', points: parsePoints(e.target.value) } })
+          }}
+        />
+      )}
+      <input
+        className={inputClass}
+        placeholder="NFC 태그 ID (영문 소문자·숫자·하이픈, 쉼표로 구분)"
+        value={(site.nfcTagIds ?? []).join(', ')}
+        onChange={(e) => onChange({ ...site, nfcTagIds: e.target.value.split(',').map((v) => v.trim()) })}
+      />
+    </div>
+  )
+}
+
+// ==================== AI Tool Editor ====================
+const AIToolEditor = ({ tool, onChange, onRemove }: { tool: AITool; onChange: (tool: AITool) => void; onRemove: () => void }) => (
+  <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-2">
+    <div className="flex gap-2">
+      <input className={inputClass} placeholder="ID (예: notebooklm)" value={tool.id} onChange={(e) => onChange({ ...tool, id: e.target.value })} />
+      <input className={inputClass} placeholder="이름" value={tool.name} onChange={(e) => onChange({ ...tool, name: e.target.value })} />
+      <button className="p-2 text-red-400" onClick={onRemove} aria-label="도구 삭제">
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <input className={inputClass} placeholder="분류 (예: 자료조사)" value={tool.category} onChange={(e) => onChange({ ...tool, category: e.target.value })} />
+      <input className={inputClass} placeholder="https://" value={tool.url} onChange={(e) => onChange({ ...tool, url: e.target.value })} />
+    </div>
+    <input className={inputClass} placeholder="설명 (60자 이내)" maxLength={60} value={tool.description} onChange={(e) => onChange({ ...tool, description: e.target.value })} />
+    <div className="grid grid-cols-[2.5rem_1fr_1fr] gap-2 items-center">
+      <div className={`h-9 rounded-lg flex items-center justify-center ${AI_TOOL_COLORS[tool.color]?.bgClass ?? ''}`}>
+        <LucideIcon name={tool.icon} className="w-4 h-4 text-white" />
+      </div>
+      <input
+        className={`${inputClass} ${isAIToolIcon(tool.icon) ? '' : 'border-red-500/60'}`}
+        placeholder="lucide 아이콘 (예: book-open)"
+        list="ai-tool-icon-names"
+        value={tool.icon}
+        onChange={(e) => onChange({ ...tool, icon: e.target.value })}
+        title={isAIToolIcon(tool.icon) ? undefined : 'lucide 아이콘 이름이 아닙니다 (lucide.dev/icons)'}
+      />
+      <select className={inputClass} value={tool.color} onChange={(e) => onChange({ ...tool, color: e.target.value as AIToolColor })}>
+        {(Object.keys(AI_TOOL_COLORS) as AIToolColor[]).map((color) => (
+          <option key={color} value={color}>
+            {color}
+          </option>
+        ))}
+      </select>
+    </div>
+    <label className="flex items-center gap-1 text-xs text-slate-400">
+      <input type="checkbox" checked={tool.approved} onChange={(e) => onChange({ ...tool, approved: e.target.checked })} />
+      사내 사용 승인
+    </label>
+  </div>
+)
+
+// ==================== Prompt Rule Editor ====================
+const PromptRuleEditor = ({ rule, onChange, onRemove }: { rule: PromptRule; onChange: (rule: PromptRule) => void; onRemove: () => void }) => {
+  // 단어/테스트 문장은 입력 중 파싱하면 줄바꿈이 사라지므로 텍스트로 보관
+  const [wordsText, setWordsText] = useState((rule.words ?? []).join(', '))
+  const [testsText, setTestsText] = useState(formatTests(rule.tests))
+
+  // 입력할 때마다 테스트 문장 미리 실행 (저장 시 서버도 같은 검사)
+  let results: ReturnType<typeof runPromptRuleTests> = []
+  let patternError = false
+  try {
+    results = runPromptRuleTests(rule)
+  } catch {
+    patternError = true
+  }
+
+  return (
+    <div className={`p-4 rounded-xl bg-white/5 border border-white/10 space-y-2 ${rule.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex gap-2">
+        <input className={inputClass} placeholder="ID (예: rrn)" value={rule.id} onChange={(e) => onChange({ ...rule, id: e.target.value })} />
+        <input className={inputClass} placeholder="이름" value={rule.label} onChange={(e) => onChange({ ...rule, label: e.target.value })} />
+        <button className="p-2 text-red-400" onClick={onRemove} aria-label="규칙 삭제">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(['regex', 'dictionary'] as const).map((kind) => (
+          <button
+            key={kind}
+            className={`px-3 py-1 rounded-lg ${rule.kind === kind ? 'bg-kepco-cyan/20 text-kepco-cyan' : 'bg-white/5 text-slate-400'}`}
+            onClick={() => onChange({ ...rule, kind })}
+          >
+            {kind === 'regex' ? '정규식' : '단어 목록'}
+          </button>
+        ))}
+        <span className="w-px bg-white/10" />
+        {(Object.keys(SEVERITY_LABELS) as PromptRuleSeverity[]).map((severity) => (
+          <button
+            key={severity}
+            className={`px-3 py-1 rounded-lg ${rule.severity === severity ? 'bg-kepco-cyan/20 text-kepco-cyan' : 'bg-white/5 text-slate-400'}`}
+            onClick={() => onChange({ ...rule, severity })}
+          >
+            {SEVERITY_LABELS[severity]}
+          </button>
+        ))}
+      </div>
+      {rule.kind === 'regex' ? (
+        <>
+          <input
+            className={`${inputClass} font-mono`}
+            placeholder="정규식 (g 플래그 자동)"
+            value={rule.pattern ?? ''}
+            onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              className={inputClass}
+              value={rule.validator ?? ''}
+              onChange={(e) => onChange({ ...rule, validator: (e.target.value || undefined) as PromptValidator | undefined })}
+            >
+              <option value="">검증기 없음</option>
+              {PROMPT_VALIDATORS.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.label}
+                </option>
+              ))}
+            </select>
+            <input
+              className={inputClass}
+              type="number"
+              min={1}
+              max={9}
+              placeholder="가릴 캡처 그룹 (기본: 전체)"
+              value={rule.group ?? ''}
+              onChange={(e) => onChange({ ...rule, group: e.target.value ? Number(e.target.value) : undefined })}
+            />
+          </div>
+        </>
+      ) : (
+        <textarea
+          className={`${inputClass} h-16`}
+          placeholder="찾을 단어 (쉼표로 구분)"
+          value={wordsText}
+          onChange={(e) => {
+            setWordsText(e.target.value)
+            onChange({ ...rule, words: e.target.value.split(',').map((w) => w.trim()).filter(Boolean) })
+          }}
+        />
+      )}
+      <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+        {([
+          ['enabled', '사용'],
+          ['redact', '가린 문장에서 가리기'],
+          ['ignoreCase', '대소문자 무시'],
+        ] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-1">
+            <input type="checkbox" checked={rule[key] === true} onChange={(e) => onChange({ ...rule, [key]: e.target.checked })} />
+            {label}
+          </label>
+        ))}
+      </div>
+      <textarea
+        className={`${inputClass} h-20 font-mono`}
+        placeholder={'테스트 문장 (한 줄에 "+ 찾아야 할 문장" 또는 "- 찾으면 안 되는 문장")'}
+        value={testsText}
+        onChange={(e) => {
+          setTestsText(e.target.value)
+          onChange({ ...rule, tests: parseTests(e.target.value) })
+        }}
+      />
+      {patternError ? (
+        <p className="text-[11px] text-red-400">정규식이 올바르지 않습니다</p>
+      ) : (
+        <div className="space-y-0.5">
+          {results.map((result, i) => (
+            <p key={i} className={`text-[11px] ${result.passed ? 'text-green-400' : 'text-red-400'}`}>
+              {result.passed ? '통과' : '실패'} · {result.text}
+              {result.matched.length > 0 && <span className="text-slate-500"> → {result.matched.join(', ')}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ==================== Admin Dashboard ====================
+const AdminDashboard = ({
+  password,
+  initialConfig,
+  initialSites,
+  initialRulePack,
+  initialAITools,
+  initialConsentRules,
+  onLogout,
+}: {
+  password: string
+  initialConfig: AppConfig
+  initialSites: Site[]
+  initialRulePack: PromptRulePack
+  initialAITools: AITool[]
+  initialConsentRules: ConsentRules
+  onLogout: () => void
+}) => {
+  const [config, setConfig] = useState<AppConfig>(initialConfig)
+  const [sites, setSites] = useState<Site[]>(initialSites)
+  const [rulePack, setRulePack] = useState<PromptRulePack>(initialRulePack)
+  const [aiTools, setAITools] = useState<AITool[]>(initialAITools)
+  const [consentRules, setConsentRules] = useState<ConsentRules>(initialConsentRules)
+  const [consentText, setConsentText] = useState(formatConsentItems(initialConsentRules.items))
+  const [forceReconsent, setForceReconsent] = useState(false)
+  const [consentRange, setConsentRange] = useState(() => ({ from: getDateKey(), to: getDateKey() }))
+  const [saving, setSaving] = useState<'config' | 'sites' | 'ai-tools' | 'consent' | 'prompt-rules' | null>(null)
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [range, setRange] = useState(() => ({ from: getDateKey(), to: getDateKey() }))
+  // 조회 버튼을 누른 기간 (입력 중인 날짜로는 다시 불러오지 않음)
+  const [attendanceQuery, setAttendanceQuery] = useState(range)
+  const [attendance, setAttendance] = useState<SiteAttendance[]>([])
+  const [announcements, setAnnouncements] = useState<Announcement[]>([])
+  const [draft, setDraft] = useState({ title: '', body: '' })
+
+  const showError = useCallback((error: unknown) => {
+    setNotice({ type: 'error', message: error instanceof Error ? error.message : '저장에 실패했습니다' })
+  }, [])
+
+  useEffect(() => {
+    fetchSiteAttendance(password, attendanceQuery.from, attendanceQuery.to)
+      .then(({ attendance }) => setAttendance(attendance))
+      .catch(showError)
+  }, [password, attendanceQuery, showError])
+
+  useEffect(() => {
+    fetchAnnouncements(password).then(setAnnouncements).catch(showError)
+  }, [password, showError])
+
+  const handlePostAnnouncement = async () => {
+    setNotice(null)
+    try {
+      const announcement = await postAnnouncement(password, draft.title, draft.body)
+      setAnnouncements((prev) => [announcement, ...prev])
+      setDraft({ title: '', body: '' })
+      setNotice({ type: 'success', message: '공지가 게시되었습니다. 사용자 알림함에 전달됩니다.' })
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const handleDeleteAnnouncement = async (id: string) => {
+    try {
+      await deleteAnnouncement(password, id)
+      setAnnouncements((prev) => prev.filter((a) => a.id !== id))
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const handleSaveConfig = async () => {
+    setSaving('config')
+    setNotice(null)
+    try {
+      setConfig(await saveAdminConfig(password, config))
+      setNotice({ type: 'success', message: 'EXP 규칙이 저장되었습니다. 대시보드에 바로 반영됩니다.' })
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleSaveSites = async () => {
+    setSaving('sites')
+    setNotice(null)
+    try {
+      const cleaned = sites.map((site) => ({ ...site, nfcTagIds: (site.nfcTagIds ?? []).filter(Boolean) }))
+      setSites(await saveAdminSites(password, cleaned))
+      setNotice({ type: 'success', message: '근무지가 저장되었습니다.' })
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleSaveAITools = async () => {
+    setSaving('ai-tools')
+    setNotice(null)
+    try {
+      setAITools(await saveAdminAITools(password, aiTools))
+      setNotice({ type: 'success', message: 'AI TOOL 목록이 저장되었습니다.' })
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleSaveConsentRules = async () => {
+    setSaving('consent')
+    setNotice(null)
+    try {
+      const saved = await saveAdminConsentRules(password, parseConsentItems(consentText), forceReconsent)
+      const bumped = saved.version !== consentRules.version
+      setConsentRules(saved)
+      setConsentText(formatConsentItems(saved.items))
+      setForceReconsent(false)
+      setNotice({
+        type: 'success',
+        message: bumped ? `보안 준수 문구 v${saved.version}이 저장되었습니다. 사용자는 다음 이동 때 다시 동의합니다.` : '바뀐 내용이 없습니다.',
+      })
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleExportConsents = async (format: 'csv' | 'json') => {
+    setNotice(null)
+    try {
+      const blob = await downloadConsentLogs(password, consentRange.from, consentRange.to, format)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `security-consents_${consentRange.from}_${consentRange.to}.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const handleSavePromptRules = async () => {
+    setSaving('prompt-rules')
+    setNotice(null)
+    try {
+      setRulePack(await saveAdminPromptRules(password, rulePack.rules))
+      setNotice({ type: 'success', message: '프롬프트 보안 규칙이 저장되었습니다. 다음 검사부터 적용됩니다.' })
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const updateExp = (key: keyof ExpConfig, value: number) => {
+    setConfig((prev) => ({ ...prev, exp: { ...prev.exp, [key]: value } }))
+  }
+
+  const updateSlot = (index: number, patch: Partial<AppConfig['timeSlots'][number]>) => {
+    setConfig((prev) => ({
+      ...prev,
+      timeSlots: prev.timeSlots.map((slot, i) => (i === index ? { ...slot, ...patch } : slot)),
+    }))
+  }
+
+  const updateEvent = (patch: Partial<AppConfig['event']>) => {
+    setConfig((prev) => ({ ...prev, event: { ...prev.event, ...patch } }))
+  }
+
+  return (
+    <div className="min-h-screen px-4 py-6 max-w-2xl mx-auto">
+      <header className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-xl font-bold text-white">운영자 콘솔</h1>
+          <p className="text-xs text-slate-500">
+            마지막 저장: {config.updatedAt ? new Date(config.updatedAt).toLocaleString('ko-KR') : '기본값 사용 중'}
+          </p>
+        </div>
+        <button className="flex items-center gap-1 text-xs text-slate-400" onClick={onLogout}>
+          <LogOut className="w-4 h-4" />
+          로그아웃
+        </button>
+      </header>
+
+      {notice && (
+        <p className={`mb-4 px-4 py-3 rounded-xl text-sm ${notice.type === 'success' ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'}`}>
+          {notice.message}
+        </p>
+      )}
+
+      <Section icon={Zap} title="EXP 규칙">
+        <div className="grid grid-cols-2 gap-3">
+          {EXP_FIELDS.map(({ key, label }) => (
+            <label key={key} className="text-xs text-slate-400">
+              {label}
+              <input
+                className={`${inputClass} mt-1`}
+                type="number"
+                min={0}
+                value={config.exp[key]}
+                onChange={(e) => updateExp(key, Number(e.target.value))}
+              />
+            </label>
+          ))}
+        </div>
+
+        <h3 className="text-sm font-medium text-white mt-6 mb-2">EXP 이벤트</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-slate-400">
+            이벤트 이름
+            <input className={`${inputClass} mt-1`} placeholder="예: 2배 EXP 주간" value={config.event.label} onChange={(e) => updateEvent({ label: e.target.value })} />
+          </label>
+          <label className="text-xs text-slate-400">
+            배율 (1~5)
+            <input
+              className={`${inputClass} mt-1`}
+              type="number"
+              min={1}
+              max={5}
+              step={0.5}
+              value={config.event.multiplier}
+              onChange={(e) => updateEvent({ multiplier: Number(e.target.value) })}
+            />
+          </label>
+          <label className="text-xs text-slate-400">
+            시작
+            <input
+              className={`${inputClass} mt-1`}
+              type="datetime-local"
+              value={toLocalInput(config.event.startsAt)}
+              onChange={(e) => updateEvent({ startsAt: fromLocalInput(e.target.value) })}
+            />
+          </label>
+          <label className="text-xs text-slate-400">
+            종료
+            <input
+              className={`${inputClass} mt-1`}
+              type="datetime-local"
+              value={toLocalInput(config.event.endsAt)}
+              onChange={(e) => updateEvent({ endsAt: fromLocalInput(e.target.value) })}
+            />
+          </label>
+        </div>
+        <p className="text-[11px] text-slate-500 mt-2">배율은 출석 · AI 보안검증 · 링크 · 게임 EXP에 적용됩니다.</p>
+      </Section>
+
+      <Section icon={Clock} title="출석 시간대 (한국 시간)">
+        <div className="space-y-2">
+          {config.timeSlots.map((slot, index) => (
+            <div key={slot.id} className="grid grid-cols-[3rem_1fr_5rem_5rem] gap-2 items-center">
+              <input className={`${inputClass} text-center`} value={slot.icon} onChange={(e) => updateSlot(index, { icon: e.target.value })} />
+              <input className={inputClass} value={slot.name} onChange={(e) => updateSlot(index, { name: e.target.value })} />
+              <input
+                className={inputClass}
+                type="number"
+                min={0}
+                max={23}
+                value={slot.startHour}
+                onChange={(e) => updateSlot(index, { startHour: Number(e.target.value) })}
+              />
+              <input
+                className={inputClass}
+                type="number"
+                min={1}
+                max={24}
+                value={slot.endHour}
+                onChange={(e) => updateSlot(index, { endHour: Number(e.target.value) })}
+              />
+            </div>
+          ))}
+        </div>
+        <SaveButton onClick={handleSaveConfig} saving={saving === 'config'} />
+      </Section>
+
+      <Section icon={MapPin} title="근무지">
+        <div className="space-y-3">
+          {sites.map((site, index) => (
+            <SiteEditor
+              key={index}
+              site={site}
+              onChange={(next) => setSites((prev) => prev.map((s, i) => (i === index ? next : s)))}
+              onRemove={() => setSites((prev) => prev.filter((_, i) => i !== index))}
+            />
+          ))}
+        </div>
+        <button
+          className="mt-3 w-full flex items-center justify-center gap-1 py-2 rounded-xl border border-dashed border-white/20 text-slate-400 text-sm"
+          onClick={() => setSites((prev) => [...prev, { id: '', name: '', geofence: { type: 'circle', center: { lat: 0, lng: 0 }, radius: 100 }, nfcTagIds: [] }])}
+        >
+          <Plus className="w-4 h-4" />
+          근무지 추가
+        </button>
+        <SaveButton onClick={handleSaveSites} saving={saving === 'sites'} />
+      </Section>
+
+      <Section icon={Wrench} title="AI TOOL 목록">
+        <div className="space-y-3">
+          {aiTools.map((tool, index) => (
+            <AIToolEditor
+              key={index}
+              tool={tool}
+              onChange={(next) => setAITools((prev) => prev.map((t, i) => (i === index ? next : t)))}
+              onRemove={() => setAITools((prev) => prev.filter((_, i) => i !== index))}
+            />
+          ))}
+        </div>
+        {/* 아이콘 입력 자동완성 (lucide 전체 아이콘 이름) */}
+        <datalist id="ai-tool-icon-names">
+          {AI_TOOL_ICON_NAMES.map((icon) => (
+            <option key={icon} value={icon} />
+          ))}
+        </datalist>
+        <button
+          className="mt-3 w-full flex items-center justify-center gap-1 py-2 rounded-xl border border-dashed border-white/20 text-slate-400 text-sm"
+          onClick={() =>
+            setAITools((prev) => [...prev, { id: '', name: '', category: '', description: '', url: 'https://', icon: 'sparkles', color: 'purple', approved: false }])
+          }
+        >
+          <Plus className="w-4 h-4" />
+          도구 추가
+        </button>
+        <SaveButton onClick={handleSaveAITools} saving={saving === 'ai-tools'} />
+      </Section>
+
+      <Section icon={ClipboardCheck} title={`보안 준수 문구 (v${consentRules.version})`}>
+        <p className="text-[11px] text-slate-500 mb-2">
+          외부 AI 도구로 이동하기 전 동의 화면에 표시됩니다. 문구를 바꾸면 버전이 올라가고 모든 사용자가 다시 동의해야 합니다.
+        </p>
+        <textarea
+          className={`${inputClass} h-28`}
+          placeholder={'한 줄에 "- 금지 사항" 또는 "+ 권장 사항"'}
+          value={consentText}
+          onChange={(e) => setConsentText(e.target.value)}
+        />
+        <label className="flex items-center gap-1 mt-2 text-xs text-slate-400">
+          <input type="checkbox" checked={forceReconsent} onChange={(e) => setForceReconsent(e.target.checked)} />
+          문구가 같아도 재동의 요청 (버전 +1)
+        </label>
+        <SaveButton onClick={handleSaveConsentRules} saving={saving === 'consent'} />
+
+        <h3 className="text-sm font-medium text-white mt-6 mb-2">동의 기록 내보내기</h3>
+        <div className="flex gap-2">
+          <input className={inputClass} type="date" value={consentRange.from} onChange={(e) => setConsentRange({ ...consentRange, from: e.target.value })} />
+          <input className={inputClass} type="date" value={consentRange.to} onChange={(e) => setConsentRange({ ...consentRange, to: e.target.value })} />
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              className="flex items-center gap-1 px-3 rounded-lg bg-kepco-cyan/20 text-kepco-cyan text-sm whitespace-nowrap"
+              onClick={() => handleExportConsents(format)}
+            >
+              <Download className="w-4 h-4" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </Section>
+
+      <Section icon={ShieldCheck} title={`프롬프트 보안 규칙 (v${rulePack.version})`}>
+        <p className="text-[11px] text-slate-500 mb-3">
+          위에 있는 규칙이 우선합니다. 규칙마다 테스트 문장을 모두 통과해야 저장됩니다.
+        </p>
+        <div className="space-y-3">
+          {rulePack.rules.map((rule, index) => (
+            <PromptRuleEditor
+              key={index}
+              rule={rule}
+              onChange={(next) => setRulePack((prev) => ({ ...prev, rules: prev.rules.map((r, i) => (i === index ? next : r)) }))}
+              onRemove={() => setRulePack((prev) => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }))}
+            />
+          ))}
+        </div>
+        <button
+          className="mt-3 w-full flex items-center justify-center gap-1 py-2 rounded-xl border border-dashed border-white/20 text-slate-400 text-sm"
+          onClick={() =>
+            setRulePack((prev) => ({
+              ...prev,
+              rules: [...prev.rules, { id: '', label: '', kind: 'regex', pattern: '', severity: 'medium', redact: true, enabled: true, tests: [] }],
+            }))
+          }
+        >
+          <Plus className="w-4 h-4" />
+          규칙 추가
+        </button>
+        <SaveButton onClick={handleSavePromptRules} saving={saving === 'prompt-rules'} />
+      </Section>
+
+      <Section icon={Megaphone} title="공지">
+        <input
+          className={inputClass}
+          placeholder="제목 (40자 이내)"
+          maxLength={40}
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+        />
+        <textarea
+          className={`${inputClass} h-20 mt-2`}
+          placeholder="내용 (500자 이내)"
+          maxLength={500}
+          value={draft.body}
+          onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+        />
+        <button
+          className="mt-2 w-full py-2 rounded-xl bg-purple-500/20 text-purple-300 text-sm disabled:opacity-50"
+          onClick={handlePostAnnouncement}
+          disabled={!draft.title.trim()}
+        >
+          공지 게시
+        </button>
+        <div className="mt-4 space-y-2">
+          {announcements.map((a) => (
+            <div key={a.id} className="flex items-start gap-2 p-3 rounded-xl bg-white/5">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white">{a.title}</p>
+                {a.body && <p className="text-xs text-slate-400 mt-0.5 whitespace-pre-line">{a.body}</p>}
+                <p className="text-[10px] text-slate-500 mt-1">{new Date(a.createdAt).toLocaleString('ko-KR')}</p>
+              </div>
+              <button className="p-1 text-red-400" onClick={() => handleDeleteAnnouncement(a.id)} aria-label="공지 삭제">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      <Section icon={BarChart3} title="근무지별 출석 현황">
+        <div className="flex gap-2 mb-3">
+          <input className={inputClass} type="date" value={range.from} onChange={(e) => setRange({ ...range, from: e.target.value })} />
+          <input className={inputClass} type="date" value={range.to} onChange={(e) => setRange({ ...range, to: e.target.value })} />
+          <button className="px-4 rounded-lg bg-kepco-cyan/20 text-kepco-cyan text-sm whitespace-nowrap" onClick={() => setAttendanceQuery({ ...range })}>
+            조회
+          </button>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-slate-500 text-left">
+              <th className="py-2">근무지</th>
+              <th className="py-2 text-right">출석</th>
+              <th className="py-2 text-right">인원</th>
+            </tr>
+          </thead>
+          <tbody>
+            {attendance.map((row) => (
+              <tr key={row.siteId ?? 'unknown'} className="border-t border-white/5 text-slate-300">
+                <td className="py-2">{row.name}</td>
+                <td className="py-2 text-right">{row.checkIns}</td>
+                <td className="py-2 text-right">{row.users}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+    </div>
+  )
+}
+
+export default function AdminPage() {
+  const [session, setSession] = useState<{ password: string; config: AppConfig; sites: Site[]; promptRulePack: PromptRulePack; aiTools: AITool[]; consentRules: ConsentRules } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const login = async (password: string) => {
+    const { config, sites, promptRulePack, aiTools, consentRules } = await fetchAdminConfig(password)
+    sessionStorage.setItem(ADMIN_PASSWORD_KEY, password)
+    setSession({ password, config, sites, promptRulePack, aiTools, consentRules })
+  }
+
+  useEffect(() => {
+    // 같은 탭에서는 다시 로그인하지 않도록 sessionStorage에 보관
+    const saved = sessionStorage.getItem(ADMIN_PASSWORD_KEY)
+    if (!saved) {
+      setIsLoading(false)
+      return
+    }
+    login(saved)
+      .catch((error) => {
+        if (error instanceof ApiError && error.status === 403) sessionStorage.removeItem(ADMIN_PASSWORD_KEY)
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const logout = () => {
+    sessionStorage.removeItem(ADMIN_PASSWORD_KEY)
+    setSession(null)
+  }
+
+  return (
+    <main className="min-h-screen noise-overlay">
+      {isLoading ? null : session ? (
+        <AdminDashboard
+          password={session.password}
+          initialConfig={session.config}
+          initialSites={session.sites}
+          initialRulePack={session.promptRulePack}
+          initialAITools={session.aiTools}
+          initialConsentRules={session.consentRules}
+          onLogout={logout}
+        />
+      ) : (
+        <AdminLogin onLogin={login} />
+      )}
+    </main>
+  )
+}
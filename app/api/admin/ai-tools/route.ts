@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { updateDatabase } from '../../../server/db'
+import { handleError, readJson, requireAdmin } from '../../../server/http'
+import { parseAITools } from '../../../server/config'
+import type { AITool } from '../../../lib/ai-tools'
+
+// ==================== Admin AI Tools API ====================
+// PUT /api/admin/ai-tools  - AI TOOL 목록 전체 저장 (목록에서 빠진 도구는 고정 목록에서도 제외)
+
+export async function PUT(request: Request) {
+  try {
+    requireAdmin(request)
+    const { aiTools } = await readJson<{ aiTools: Partial<AITool>[] }>(request)
+    const parsed = parseAITools(aiTools)
+    await updateDatabase((db) => {
+      db.aiTools = parsed
+    })
+    return NextResponse.json({ aiTools: parsed })
+  } catch (error) {
+    return handleError(error)
+  }
+}
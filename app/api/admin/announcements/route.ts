@@ -0,0 +1,59 @@
+import { randomUUID } from 'crypto'
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../../server/db'
+import { HttpError, handleError, readJson, requireAdmin } from '../../../server/http'
+import type { Announcement } from '../../../lib/types'
+
+// ==================== Admin Announcements API ====================
+// GET    /api/admin/announcements       - 공지 목록
+// POST   /api/admin/announcements       - 공지 게시 (사용자가 알림함을 열 때 전달)
+// DELETE /api/admin/announcements?id=   - 공지 삭제 (이미 전달된 알림은 유지)
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request)
+    const db = await readDatabase()
+    return NextResponse.json({ announcements: [...db.announcements].reverse() })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    requireAdmin(request)
+    const { title, body } = await readJson<Partial<Announcement>>(request)
+    if (typeof title !== 'string' || !title.trim() || title.trim().length > 40) {
+      throw new HttpError(400, '공지 제목은 1~40자여야 합니다')
+    }
+    if (typeof body !== 'string' || body.trim().length > 500) {
+      throw new HttpError(400, '공지 내용은 500자 이하여야 합니다')
+    }
+
+    const announcement: Announcement = {
+      id: randomUUID(),
+      title: title.trim(),
+      body: body.trim(),
+      createdAt: Date.now(),
+    }
+    await updateDatabase((db) => {
+      db.announcements.push(announcement)
+    })
+    return NextResponse.json({ announcement })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    requireAdmin(request)
+    const id = new URL(request.url).searchParams.get('id')
+    await updateDatabase((db) => {
+      db.announcements = db.announcements.filter((a) => a.id !== id)
+    })
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../../server/db'
+import { handleError, readJson, requireAdmin } from '../../../server/http'
+import { parseAppConfig } from '../../../server/config'
+import type { AppConfig } from '../../../lib/config'
+
+// ==================== Admin Config API ====================
+// GET /api/admin/config  - 현재 설정 (운영자 로그인 확인용)
+// PUT /api/admin/config  - EXP 규칙/출석 시간대/EXP 이벤트 저장
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request)
+    const db = await readDatabase()
+    return NextResponse.json({ config: db.config, sites: db.sites, promptRulePack: db.promptRulePack, aiTools: db.aiTools, consentRules: db.consentRules })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    requireAdmin(request)
+    const config = parseAppConfig(await readJson<Partial<AppConfig>>(request))
+    await updateDatabase((db) => {
+      db.config = config
+    })
+    return NextResponse.json({ config })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { updateDatabase } from '../../../server/db'
+import { handleError, readJson, requireAdmin } from '../../../server/http'
+import { parseConsentRules } from '../../../server/config'
+import type { ConsentRuleItem } from '../../../lib/security-consent'
+
+// ==================== Admin Consent Rules API ====================
+// PUT /api/admin/consent-rules  { items, forceReconsent? }  - 보안 준수 문구 저장 (바뀌었거나 재동의 요청이면 버전 +1)
+
+export async function PUT(request: Request) {
+  try {
+    requireAdmin(request)
+    const body = await readJson<{ items?: Partial<ConsentRuleItem>[]; forceReconsent?: unknown }>(request)
+    const consentRules = await updateDatabase((db) => {
+      db.consentRules = parseConsentRules(body, db.consentRules)
+      return db.consentRules
+    })
+    return NextResponse.json({ consentRules })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../../server/db'
+import { HttpError, handleError, requireAdmin } from '../../../server/http'
+import { getConsentLogs, toConsentCsv } from '../../../server/consents'
+import { getDateKey } from '../../../lib/exp-rules'
+
+// ==================== Admin Consent Log API ====================
+// GET /api/admin/consents?from=2025-01-01&to=2025-01-31&format=csv|json  - 보안 준수 동의 기록 내보내기
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request)
+    const params = new URL(request.url).searchParams
+    const to = params.get('to') || getDateKey()
+    const from = params.get('from') || to
+    const format = params.get('format') || 'json'
+    if (!DATE_KEY_PATTERN.test(from) || !DATE_KEY_PATTERN.test(to)) {
+      throw new HttpError(400, '기간은 YYYY-MM-DD 형식이어야 합니다')
+    }
+    if (format !== 'json' && format !== 'csv') throw new HttpError(400, 'format은 csv 또는 json 이어야 합니다')
+
+    const db = await readDatabase()
+    const consents = getConsentLogs(db, from, to)
+    const filename = `security-consents_${from}_${to}.${format}`
+
+    if (format === 'csv') {
+      return new NextResponse(toConsentCsv(consents), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      })
+    }
+    return NextResponse.json(
+      { from, to, currentVersion: db.consentRules.version, consents },
+      { headers: { 'Content-Disposition': `attachment; filename="${filename}"` } }
+    )
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { updateDatabase } from '../../../server/db'
+import { handleError, readJson, requireAdmin } from '../../../server/http'
+import { parsePromptRulePack } from '../../../server/config'
+import type { PromptRulePack } from '../../../lib/prompt-security'
+
+// ==================== Admin Prompt Rules API ====================
+// PUT /api/admin/prompt-rules  { rules }  - 프롬프트 보안 규칙 팩 전체 저장 (규칙별 테스트 문장을 모두 통과해야 저장, 버전 +1)
+
+export async function PUT(request: Request) {
+  try {
+    requireAdmin(request)
+    const body = await readJson<Partial<PromptRulePack>>(request)
+    const pack = await updateDatabase((db) => {
+      db.promptRulePack = parsePromptRulePack(body, db.promptRulePack)
+      return db.promptRulePack
+    })
+    return NextResponse.json({ promptRulePack: pack })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { updateDatabase } from '../../../server/db'
+import { handleError, readJson, requireAdmin } from '../../../server/http'
+import { parseSites } from '../../../server/config'
+import type { Site } from '../../../lib/sites'
+
+// ==================== Admin Sites API ====================
+// PUT /api/admin/sites  - 출석 근무지 목록 전체 저장
+
+export async function PUT(request: Request) {
+  try {
+    requireAdmin(request)
+    const { sites } = await readJson<{ sites: Partial<Site>[] }>(request)
+    const parsed = parseSites(sites)
+    await updateDatabase((db) => {
+      db.sites = parsed
+    })
+    return NextResponse.json({ sites: parsed })
+  } catch (error) {
+    return handleError(error)
+  }
+}
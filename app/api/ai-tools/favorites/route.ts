@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../../server/http'
+import { getToolFavorites, setToolFavorite } from '../../../server/ai-tools'
+
+// ==================== AI Tool Favorites API ====================
+// GET /api/ai-tools/favorites                     - 내가 고정한 AI TOOL ID 목록
+// PUT /api/ai-tools/favorites  { toolId, pinned } - 고정/해제
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const db = await readDatabase()
+    return NextResponse.json({ favorites: getToolFavorites(db, userId) })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const { toolId, pinned } = await readJson<{ toolId?: unknown; pinned?: unknown }>(request)
+    if (typeof toolId !== 'string' || !toolId) throw new HttpError(400, 'toolId가 필요합니다')
+    const favorites = await updateDatabase((db) => setToolFavorite(db, userId, toolId, pinned === true))
+    return NextResponse.json({ favorites })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../server/db'
+import { HttpError, handleError, requireUserId } from '../../server/http'
+import { getAttendanceCalendar } from '../../server/streaks'
+import { getDateKey } from '../../lib/exp-rules'
+
+// ==================== Attendance API ====================
+// GET /api/attendance?month=2025-01  - 월별 출석 달력 + 연속 출석 현황
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const month = new URL(request.url).searchParams.get('month') || getDateKey().slice(0, 7)
+    if (!MONTH_PATTERN.test(month)) {
+      throw new HttpError(400, '월 형식은 YYYY-MM 이어야 합니다')
+    }
+
+    const db = await readDatabase()
+    return NextResponse.json(getAttendanceCalendar(db, userId, month))
+  } catch (error) {
+    return handleError(error)
+  }
+}
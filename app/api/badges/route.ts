@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../server/db'
+import { handleError, requireUserId } from '../../server/http'
+import { getBadgeProgress } from '../../server/badges'
+
+// ==================== Badges API ====================
+// GET /api/badges  - 전체 뱃지의 획득 여부와 진행도
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const db = await readDatabase()
+    return NextResponse.json({ badges: getBadgeProgress(db, userId) })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../server/db'
+import { handleError } from '../../server/http'
+
+// ==================== Config API ====================
+// GET /api/config  - 대시보드가 런타임에 읽는 보상/시간대 설정 + AI TOOL 목록 + 보안 준수 문구
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const db = await readDatabase()
+    return NextResponse.json({ config: db.config, aiTools: db.aiTools, consentRules: db.consentRules })
+  } catch (error) {
+    return handleError(error)
+  }
+}
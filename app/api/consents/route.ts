@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../server/http'
+import { getConsentedVersion, recordConsent } from '../../server/consents'
+
+// ==================== Security Consent API ====================
+// GET  /api/consents                          - 내가 마지막으로 동의한 문구 버전 (최신 버전과 다르면 재동의 필요)
+// POST /api/consents  { toolId, rulesVersion } - 외부 AI 도구 이동 전 보안 준수 동의 기록
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const db = await readDatabase()
+    return NextResponse.json({
+      consentedVersion: getConsentedVersion(db, userId),
+      currentVersion: db.consentRules.version,
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const { toolId, rulesVersion } = await readJson<{ toolId?: unknown; rulesVersion?: unknown }>(request)
+    if (typeof toolId !== 'string' || typeof rulesVersion !== 'number') {
+      throw new HttpError(400, 'toolId와 rulesVersion이 필요합니다')
+    }
+    const consent = await updateDatabase((db) => recordConsent(db, userId, toolId, rulesVersion))
+    return NextResponse.json({ consent })
+  } catch (error) {
+    return handleError(error)
+  }
+}
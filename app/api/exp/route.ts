@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../server/http'
+import { getDailySummary, getTotalExp, grantExp } from '../../server/ledger'
+import { getLevel } from '../../lib/exp-rules'
+import type { ExpGrantRequest } from '../../lib/types'
+
+// ==================== EXP API ====================
+// GET  /api/exp  - 서버 기준 누적 EXP와 오늘의 획득 현황
+// POST /api/exp  - EXP 지급 요청 (서버가 규칙을 검증하고 지급량을 결정, idempotencyKey로 재전송 중복 방지)
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const db = await readDatabase()
+    const totalExp = getTotalExp(db, userId)
+    return NextResponse.json({
+      totalExp,
+      level: getLevel(totalExp, db.config.exp.perLevel),
+      badges: db.profiles[userId]?.badges ?? 0,
+      today: getDailySummary(db, userId),
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const body = await readJson<ExpGrantRequest>(request)
+    if (typeof body.source !== 'string') {
+      throw new HttpError(400, 'EXP 경로(source)가 필요합니다')
+    }
+    const result = await grantExp(userId, {
+      source: body.source,
+      metadata: body.metadata && typeof body.metadata === 'object' ? body.metadata : {},
+      testMode: body.testMode === true,
+      idempotencyKey: typeof body.idempotencyKey === 'string' ? body.idempotencyKey : undefined,
+      occurredAt: typeof body.occurredAt === 'number' ? body.occurredAt : undefined,
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { HttpError, handleError, readJson } from '../../../server/http'
+import { signGameResult } from '../../../server/game-bridge'
+
+// ==================== External Game Dev Signer ====================
+// POST /api/games/dev-sign  { gameId, nonce, score, durationMs }
+// 로컬 테스트용 스텁 게임(/dev/game-bridge-stub.html)이 게임 서버 대신 결과에 서명 (운영에서는 404)
+
+export async function POST(request: Request) {
+  try {
+    if (process.env.NODE_ENV === 'production') throw new HttpError(404, '찾을 수 없습니다')
+
+    const { gameId, nonce, score, durationMs } = await readJson<Record<string, unknown>>(request)
+    if (typeof gameId !== 'string' || typeof nonce !== 'string') {
+      throw new HttpError(400, 'gameId와 nonce가 필요합니다')
+    }
+    const result = { gameId, nonce, score: Number(score), durationMs: Number(durationMs) }
+    if (!Number.isInteger(result.score) || !Number.isInteger(result.durationMs)) {
+      throw new HttpError(400, '점수와 플레이 시간은 정수여야 합니다')
+    }
+    return NextResponse.json({ ...result, signature: signGameResult(result) })
+  } catch (error) {
+    return handleError(error)
+  }
+}
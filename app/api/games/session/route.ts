@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { updateDatabase } from '../../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../../server/http'
+import { issueGameSession } from '../../../server/game-bridge'
+
+// ==================== External Game Session API ====================
+// POST /api/games/session  { gameId }  - 외부 게임을 열기 전 일회용 nonce 발급
+
+export async function POST(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const { gameId } = await readJson<{ gameId?: string }>(request)
+    if (typeof gameId !== 'string') throw new HttpError(400, 'gameId가 필요합니다')
+
+    const session = await updateDatabase((db) => {
+      if (!db.profiles[userId]) throw new HttpError(404, '프로필이 없습니다')
+      return issueGameSession(db, userId, gameId)
+    })
+    return NextResponse.json(session)
+  } catch (error) {
+    return handleError(error)
+  }
+}
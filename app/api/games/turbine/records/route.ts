@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../../../server/http'
+import { TURBINE_RECORD_PERIODS, getTurbineHighScores, recordTurbineRound } from '../../../../server/turbine-records'
+import { isTurbineMode } from '../../../../lib/turbine'
+import type { TurbineRecordPeriod } from '../../../../lib/types'
+
+// ==================== Turbine Records API ====================
+// GET  /api/games/turbine/records?period=daily|weekly&mode=beginner|standard|typhoon  - 풍력 게임 순위표 + 내 최고 기록
+// POST /api/games/turbine/records  { mode?, trace, durationMs, windStart?, windEnd? }  - 한 판 기록 저장 (서버 재현 값)
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const { searchParams } = new URL(request.url)
+    const period = (searchParams.get('period') || 'daily') as TurbineRecordPeriod
+    if (!TURBINE_RECORD_PERIODS.includes(period)) {
+      throw new HttpError(400, '기록 기간은 daily, weekly 중 하나여야 합니다')
+    }
+    const mode = searchParams.get('mode') || 'standard'
+    if (!isTurbineMode(mode)) throw new HttpError(400, '알 수 없는 게임 모드입니다')
+
+    const db = await readDatabase()
+    return NextResponse.json(getTurbineHighScores(db, userId, period, mode))
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const round = await readJson<Record<string, unknown>>(request)
+    const result = await updateDatabase((db) => recordTurbineRound(db, userId, round))
+    return NextResponse.json(result)
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../../server/http'
+import { parseGameResult, verifyGameResult } from '../../../server/game-bridge'
+
+// ==================== External Game Verify API ====================
+// POST /api/games/verify  { gameId, nonce, score, durationMs, signature }
+// 외부 게임 결과 사전 검증 + 예상 EXP (nonce 사용 처리는 EXP 지급 시점에 수행)
+
+export async function POST(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const result = parseGameResult(await readJson<Record<string, unknown>>(request))
+    if (!result) throw new HttpError(400, '게임 결과가 올바르지 않습니다')
+
+    const db = await readDatabase()
+    const verification = verifyGameResult(db, userId, result)
+    return NextResponse.json(
+      verification.valid ? { valid: true, exp: verification.exp } : verification
+    )
+  } catch (error) {
+    return handleError(error)
+  }
+}
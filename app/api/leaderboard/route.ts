@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../server/db'
+import { HttpError, handleError, requireUserId } from '../../server/http'
+import { LEADERBOARD_PERIODS, getLeaderboard } from '../../server/leaderboard'
+import type { LeaderboardPeriod } from '../../lib/types'
+
+// ==================== Leaderboard API ====================
+// GET /api/leaderboard?period=weekly|monthly|all  - 개인/부서 EXP 랭킹
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const period = (new URL(request.url).searchParams.get('period') || 'weekly') as LeaderboardPeriod
+    if (!LEADERBOARD_PERIODS.includes(period)) {
+      throw new HttpError(400, '랭킹 기간은 weekly, monthly, all 중 하나여야 합니다')
+    }
+
+    const db = await readDatabase()
+    return NextResponse.json(getLeaderboard(db, userId, period))
+  } catch (error) {
+    return handleError(error)
+  }
+}
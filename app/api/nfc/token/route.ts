@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { HttpError, handleError, requireAdmin } from '../../../server/http'
+import { issueNfcToken } from '../../../server/nfc'
+
+// ==================== NFC Token API (운영자) ====================
+// GET /api/nfc/token?tagId=gn-lobby  - 태그에 기록할 일회용 토큰과 URL 발급 (부를 때마다 새 토큰)
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request)
+    const url = new URL(request.url)
+    const tagId = url.searchParams.get('tagId')
+    if (!tagId) throw new HttpError(400, 'tagId가 필요합니다')
+
+    const { token, expiresAt } = issueNfcToken(tagId)
+    return NextResponse.json({
+      token,
+      expiresAt,
+      url: `${url.origin}/check-in?source=nfc&t=${encodeURIComponent(token)}`,
+    })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../../server/http'
+import { verifyNfcToken } from '../../../server/nfc'
+
+// ==================== NFC Verify API ====================
+// POST /api/nfc/verify  - 태그 토큰 사전 검증 (사용 처리는 EXP 지급 시점에 수행)
+
+export async function POST(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const { token } = await readJson<{ token?: string }>(request)
+    if (typeof token !== 'string') throw new HttpError(400, '토큰이 필요합니다')
+
+    const db = await readDatabase()
+    const verification = verifyNfcToken(db, userId, token)
+    return NextResponse.json(
+      verification.valid ? { valid: true, tagId: verification.tagId } : verification
+    )
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../server/db'
+import { handleError, readJson, requireUserId } from '../../server/http'
+import { getNotifications, hasPendingNotifications, listNotifications, markNotificationsRead } from '../../server/notifications'
+
+// ==================== Notifications API ====================
+// GET   /api/notifications  - 알림 목록 + 안 읽은 수 (출석 시간 알림/공지는 이때 생성, 새 알림이 없으면 읽기만)
+// PATCH /api/notifications  - 읽음 처리 ({ ids } 생략 시 전체)
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const db = await readDatabase()
+    const result = hasPendingNotifications(db, userId)
+      ? await updateDatabase((current) => getNotifications(current, userId))
+      : listNotifications(db, userId)
+    return NextResponse.json(result)
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const { ids } = await readJson<{ ids?: unknown }>(request)
+    // 프로필이 없는 사용자 ID는 쓰기 없이 빈 목록
+    const db = await readDatabase()
+    if (!db.profiles[userId]) return NextResponse.json(listNotifications(db, userId))
+    const result = await updateDatabase((current) => {
+      markNotificationsRead(current, userId, Array.isArray(ids) ? ids.map(String) : undefined)
+      return getNotifications(current, userId)
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../../server/db'
+import { handleError, requireUserId } from '../../../server/http'
+import { getProfileOverview } from '../../../server/profile'
+
+// ==================== Profile Overview API ====================
+// GET /api/profile/overview  - 프로필 화면 집계 (레벨 기록, 경로별 EXP, 출석 통계, 뱃지)
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const db = await readDatabase()
+    return NextResponse.json(getProfileOverview(db, userId))
+  } catch (error) {
+    return handleError(error)
+  }
+}
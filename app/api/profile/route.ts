@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../server/http'
+import { syncProfileTotals } from '../../server/ledger'
+import { deleteUserData, toUserData } from '../../server/profile'
+import { pushNotification } from '../../server/notifications'
+import { isDepartment } from '../../lib/departments'
+import { getCharacter } from '../../lib/characters'
+import type { UserData } from '../../lib/types'
+
+// ==================== Profile API ====================
+// GET    /api/profile  - 저장된 프로필 조회
+// PUT    /api/profile  - 프로필 저장 (updatedAt 기준 최신본만 반영)
+// DELETE /api/profile  - 프로필 삭제 (데이터 초기화, 원장/기록/구독도 함께 삭제)
+//
+// totalExp/level/exp는 EXP 원장에서만, badges는 뱃지 평가로만 계산되며 클라이언트가 보낸 값은 무시합니다.
+// 서버 원장 도입 전 이 기기에만 쌓인 EXP는 조작 여부를 확인할 수 없어 옮기지 않고 0부터 시작하며,
+// 서버 프로필을 처음 만들 때 초기화 안내를 알림함에 남깁니다.
+
+const parseUserData = (body: Partial<UserData>): UserData => {
+  const { nickname, characterId, department, level, exp, badges, totalExp, updatedAt } = body
+  if (typeof nickname !== 'string' || !nickname.trim() || nickname.trim().length > 10) {
+    throw new HttpError(400, '닉네임은 1~10자여야 합니다')
+  }
+  if (department !== undefined && !isDepartment(department)) {
+    throw new HttpError(400, '소속 부서가 올바르지 않습니다')
+  }
+  const numbers = [characterId, level, exp, badges, totalExp]
+  if (numbers.some((n) => typeof n !== 'number' || !Number.isFinite(n) || n < 0)) {
+    throw new HttpError(400, '프로필 수치가 올바르지 않습니다')
+  }
+  if (!getCharacter(characterId as number)) {
+    throw new HttpError(400, '캐릭터가 올바르지 않습니다')
+  }
+  return {
+    nickname: nickname.trim(),
+    characterId: characterId as number,
+    department,
+    level: level as number,
+    exp: exp as number,
+    badges: badges as number,
+    totalExp: totalExp as number,
+    updatedAt: typeof updatedAt === 'number' ? updatedAt : Date.now(),
+  }
+}
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const db = await readDatabase()
+    const stored = db.profiles[userId]
+    return NextResponse.json({ profile: stored ? toUserData(stored) : null })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const data = parseUserData(await readJson<Partial<UserData>>(request))
+
+    const profile = await updateDatabase((db) => {
+      const existing = db.profiles[userId]
+      // 다른 기기에서 더 최근에 저장된 경우 서버 데이터 유지
+      if (existing && existing.updatedAt > (data.updatedAt ?? 0)) {
+        return existing
+      }
+
+      db.profiles[userId] = {
+        ...data,
+        userId,
+        totalExp: existing?.totalExp ?? 0,
+        level: existing?.level ?? 1,
+        exp: existing?.exp ?? 0,
+        badges: existing?.badges ?? 0,
+        createdAt: existing?.createdAt ?? Date.now(),
+        updatedAt: data.updatedAt ?? Date.now(),
+      }
+
+      syncProfileTotals(db, userId)
+
+      if (!existing && data.totalExp > 0) {
+        pushNotification(
+          db,
+          userId,
+          'announcement',
+          '📢 EXP 기록이 서버로 옮겨졌습니다',
+          `이 기기에만 저장돼 있던 Lv.${data.level} · ${data.totalExp} EXP · 뱃지 ${data.badges}개는 옮겨지지 않아 0부터 다시 시작합니다. 이제부터 얻는 EXP는 서버에 기록되어 기기를 바꿔도 유지됩니다.`,
+          { key: 'legacy-reset' }
+        )
+      }
+
+      return db.profiles[userId]
+    })
+
+    return NextResponse.json({ profile: toUserData(profile) })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    await updateDatabase((db) => deleteUserData(db, userId))
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    return handleError(error)
+  }
+}
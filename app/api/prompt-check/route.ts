@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { updateDatabase } from '../../server/db'
+import { handleError, readJson, requireUserId } from '../../server/http'
+import { parsePromptCheckSummary, recordPromptCheck } from '../../server/prompt-checks'
+
+// ==================== Prompt Check API ====================
+// POST /api/prompt-check  { length, findingCount, risk, packVersion, promptHash? }
+//   - 기기에서 마친 검사의 요약 기록 (EXP 요청용 checkId 발급). 프롬프트 원문은 받지 않음
+
+export async function POST(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const summary = parsePromptCheckSummary(await readJson<Record<string, unknown>>(request))
+    const result = await updateDatabase((db) => recordPromptCheck(db, userId, summary))
+    return NextResponse.json(result)
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../../server/db'
+import { handleError } from '../../../server/http'
+
+// ==================== Prompt Rules API ====================
+// GET /api/prompt-check/rules  - 현재 프롬프트 보안 규칙 팩 (보안검증 화면이 이 팩으로 기기에서 검사)
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const db = await readDatabase()
+    return NextResponse.json({ promptRulePack: db.promptRulePack })
+  } catch (error) {
+    return handleError(error)
+  }
+}
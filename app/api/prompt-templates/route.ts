@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../server/http'
+import { getPromptTemplates, recordTemplateUse, setTemplateFavorite } from '../../server/prompt-templates'
+
+// ==================== Prompt Templates API ====================
+// GET   /api/prompt-templates                           - 템플릿 목록 (내 즐겨찾기/사용 횟수 포함)
+// PATCH /api/prompt-templates  { templateId, favorite } - 즐겨찾기 설정
+// POST  /api/prompt-templates  { templateId }           - 사용 기록 (복사/도구로 보내기)
+
+export const dynamic = 'force-dynamic'
+
+const readTemplateId = (value: unknown): string => {
+  if (typeof value !== 'string' || !value) throw new HttpError(400, 'templateId가 필요합니다')
+  return value
+}
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const db = await readDatabase()
+    return NextResponse.json({ templates: getPromptTemplates(db, userId) })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const { templateId, favorite } = await readJson<{ templateId?: unknown; favorite?: unknown }>(request)
+    const id = readTemplateId(templateId)
+    const templates = await updateDatabase((db) => {
+      setTemplateFavorite(db, userId, id, favorite === true)
+      return getPromptTemplates(db, userId)
+    })
+    return NextResponse.json({ templates })
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const { templateId } = await readJson<{ templateId?: unknown }>(request)
+    const id = readTemplateId(templateId)
+    const templates = await updateDatabase((db) => {
+      recordTemplateUse(db, userId, id)
+      return getPromptTemplates(db, userId)
+    })
+    return NextResponse.json({ templates })
+  } catch (error) {
+    return handleError(error)
+  }
+}
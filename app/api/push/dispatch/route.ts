@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { handleError, requireScheduler } from '../../../server/http'
+import { dispatchSlotReminders } from '../../../server/push'
+
+// ==================== Push Dispatch API ====================
+// GET /api/push/dispatch  - 열린 출석 시간대의 미출석 구독자에게 알림 발송 (앱과 같은 서버의 스케줄러가 10분마다 호출)
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    requireScheduler(request)
+    const result = await dispatchSlotReminders()
+    return NextResponse.json(result)
+  } catch (error) {
+    return handleError(error)
+  }
+}
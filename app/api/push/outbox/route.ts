@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { handleError, requireAdmin } from '../../../server/http'
+import { getPushOutbox } from '../../../server/push'
+
+// ==================== Push Outbox API ====================
+// GET /api/push/outbox  - PUSH_TRANSPORT=local 일 때 실제 푸시 대신 기록된 발송 내역 (운영자 전용)
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request)
+    return NextResponse.json({ outbox: await getPushOutbox() })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { readDatabase, updateDatabase } from '../../../server/db'
+import { HttpError, handleError, readJson, requireUserId } from '../../../server/http'
+import {
+  getSubscription,
+  getVapidPublicKey,
+  parseSubscription,
+  removeSubscription,
+  requireVapidKeys,
+  saveSubscription,
+} from '../../../server/push'
+import type { PushPreferences } from '../../../lib/types'
+
+// ==================== Push Subscription API ====================
+// GET    /api/push/subscription?endpoint=  - VAPID 공개키(푸시 미설정이면 null) + 이 기기의 구독/시간대 설정
+// PUT    /api/push/subscription            - 구독 저장 ({ subscription, slots })
+// DELETE /api/push/subscription?endpoint=  - 구독 해지
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const endpoint = new URL(request.url).searchParams.get('endpoint')
+    const db = await readDatabase()
+    const subscription = endpoint ? getSubscription(db, userId, endpoint) : null
+    const preferences: PushPreferences = {
+      publicKey: getVapidPublicKey(),
+      subscribed: subscription !== null,
+      slots: subscription?.slots ?? [],
+    }
+    return NextResponse.json(preferences)
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const input = await readJson<unknown>(request)
+    const { publicKey } = requireVapidKeys()
+    const saved = await updateDatabase((db) => {
+      if (!db.profiles[userId]) throw new HttpError(404, '프로필이 없습니다')
+      return saveSubscription(db, userId, parseSubscription(db, input))
+    })
+    const preferences: PushPreferences = {
+      publicKey,
+      subscribed: true,
+      slots: saved.slots,
+    }
+    return NextResponse.json(preferences)
+  } catch (error) {
+    return handleError(error)
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const userId = requireUserId(request)
+    const endpoint = new URL(request.url).searchParams.get('endpoint')
+    if (!endpoint) throw new HttpError(400, 'endpoint가 필요합니다')
+    await updateDatabase((db) => removeSubscription(db, userId, endpoint))
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    return handleError(error)
+  }
+}
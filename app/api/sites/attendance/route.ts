@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../../server/db'
+import { handleError, requireAdmin } from '../../../server/http'
+import { getDateKey } from '../../../lib/exp-rules'
+
+// ==================== Site Attendance API (운영자) ====================
+// GET /api/sites/attendance?from=2025-01-01&to=2025-01-31  - 근무지별 출석 집계
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request)
+    const params = new URL(request.url).searchParams
+    const to = params.get('to') || getDateKey()
+    const from = params.get('from') || to
+
+    const db = await readDatabase()
+    const checkIns = db.ledger.filter(
+      (t) => (t.source === 'nfc' || t.source === 'gps') &&
+        !t.metadata.testMode &&
+        t.dateKey >= from &&
+        t.dateKey <= to
+    )
+
+    const attendance = [...db.sites, { id: '', name: '근무지 미확인' }].map((site) => {
+      const siteCheckIns = checkIns.filter((t) => String(t.metadata.siteId ?? '') === site.id)
+      return {
+        siteId: site.id || null,
+        name: site.name,
+        checkIns: siteCheckIns.length,
+        users: new Set(siteCheckIns.map((t) => t.userId)).size,
+      }
+    })
+
+    return NextResponse.json({ from, to, attendance })
+  } catch (error) {
+    return handleError(error)
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { readDatabase } from '../../server/db'
+import { handleError } from '../../server/http'
+
+// ==================== Sites API ====================
+// GET /api/sites  - 출석 가능한 근무지와 지오펜스 목록
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const db = await readDatabase()
+    return NextResponse.json({ sites: db.sites })
+  } catch (error) {
+    return handleError(error)
+  }
+}
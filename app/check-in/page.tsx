@@ -10,9 +10,13 @@ function CheckInRedirect() {
   const searchParams = useSearchParams()
 
   useEffect(() => {
-    // source 파라미터를 유지하면서 메인 페이지로 리다이렉트
+    // source, t(NFC 태그 토큰) 파라미터를 유지하면서 메인 페이지로 리다이렉트
+    const query = new URLSearchParams()
     const source = searchParams.get('source')
-    const redirectUrl = source ? `/?source=${source}` : '/'
+    const token = searchParams.get('t')
+    if (source) query.set('source', source)
+    if (token) query.set('t', token)
+    const redirectUrl = query.toString() ? `/?${query}` : '/'
     router.replace(redirectUrl)
   }, [router, searchParams])
 
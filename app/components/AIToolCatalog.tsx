@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { ExternalLink, Search, ShieldCheck, Star } from 'lucide-react'
+import { fetchToolFavorites, setToolFavorite } from '../lib/api'
+import { useAITools } from '../lib/config-context'
+import { AI_TOOL_COLORS, type AITool } from '../lib/ai-tools'
+import { LucideIcon } from './LucideIcon'
+
+// ==================== AI Tool Catalog ====================
+// AI TOOL 카드 펼침 영역: 분류 칩 + 검색 + 내가 고정한 도구(맨 앞)
+// 도구 목록은 /api/config, 고정 목록은 /api/ai-tools/favorites (서버에 사용자별 저장)
+
+const ALL = '전체'
+
+export const AIToolCatalog = ({
+  onSelect,
+  canEarnExp,
+  expAmount,
+}: {
+  onSelect: (e: React.MouseEvent, tool: AITool) => void
+  canEarnExp: (toolId: string) => boolean
+  expAmount: number
+}) => {
+  const tools = useAITools()
+  const [category, setCategory] = useState(ALL)
+  const [query, setQuery] = useState('')
+  const [favorites, setFavorites] = useState<string[]>([])
+
+  useEffect(() => {
+    fetchToolFavorites()
+      .then(setFavorites)
+      .catch(() => {})
+  }, [])
+
+  const togglePin = (e: React.MouseEvent, toolId: string) => {
+    e.stopPropagation()
+    const pinned = !favorites.includes(toolId)
+    // 화면은 바로 바꾸고 실패하면 되돌림
+    const previous = favorites
+    setFavorites(pinned ? [...favorites, toolId] : favorites.filter((id) => id !== toolId))
+    setToolFavorite(toolId, pinned)
+      .then(setFavorites)
+      .catch(() => setFavorites(previous))
+  }
+
+  const categories = [ALL, ...Array.from(new Set(tools.map((tool) => tool.category)))]
+  const keyword = query.trim().toLowerCase()
+  const visible = tools
+    .filter((tool) => category === ALL || tool.category === category)
+    .filter((tool) => !keyword || `${tool.name} ${tool.category} ${tool.description}`.toLowerCase().includes(keyword))
+  const pinnedOrder = (tool: AITool) => {
+    const index = favorites.indexOf(tool.id)
+    return index === -1 ? favorites.length : index
+  }
+  const sorted = [...visible].sort((a, b) => pinnedOrder(a) - pinnedOrder(b))
+
+  return (
+    <div className="pt-3 border-t border-white/10" onClick={(e) => e.stopPropagation()}>
+      {/* Search */}
+      <div className="relative mb-2">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-500" />
+        <input
+          className="w-full pl-8 pr-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-white focus:outline-none focus:border-kepco-cyan"
+          placeholder="도구 이름, 분류, 설명 검색"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      {/* Category Chips */}
+      <div className="flex gap-1.5 mb-3 overflow-x-auto">
+        {categories.map((c) => (
+          <button
+            key={c}
+            className={`px-2.5 py-1 rounded-full text-[10px] whitespace-nowrap ${
+              category === c ? 'bg-purple-500/30 text-purple-200' : 'bg-white/5 text-slate-400'
+            }`}
+            onClick={() => setCategory(c)}
+          >
+            {c}
+          </button>
+        ))}
+      </div>
+
+      {sorted.length === 0 && <p className="py-4 text-center text-[10px] text-slate-500">찾는 도구가 없습니다</p>}
+
+      <div className="grid grid-cols-2 gap-2">
+        {sorted.map((tool) => {
+          const color = AI_TOOL_COLORS[tool.color] ?? AI_TOOL_COLORS.purple
+          const pinned = favorites.includes(tool.id)
+          return (
+            <motion.div
+              key={tool.id}
+              role="button"
+              tabIndex={0}
+              className={`py-3 px-3 rounded-xl ${color.bgClass} text-left relative overflow-hidden transition-colors cursor-pointer`}
+              whileHover={{ scale: 1.02, boxShadow: `0 0 20px ${color.hoverShadow}` }}
+              whileTap={{ scale: 0.98 }}
+              onClick={(e) => onSelect(e, tool)}
+            >
+              <div className="relative z-10">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-[10px] text-slate-400 font-medium" style={{ wordBreak: 'keep-all' }}>[{tool.category}]</span>
+                  <div className="flex items-center gap-1">
+                    {canEarnExp(tool.id) && <span className="text-[10px] text-green-400 font-bold">+{expAmount}</span>}
+                    <button onClick={(e) => togglePin(e, tool.id)} aria-label={pinned ? '고정 해제' : '맨 앞에 고정'}>
+                      <Star className={`w-3.5 h-3.5 ${pinned ? 'fill-yellow-400 text-yellow-400' : 'text-slate-500'}`} />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <LucideIcon name={tool.icon} className="w-4 h-4 text-white/80 flex-shrink-0" />
+                  <span className="text-xs text-white font-medium truncate">{tool.name}</span>
+                  <ExternalLink className="w-3 h-3 text-slate-400 flex-shrink-0" />
+                </div>
+                {tool.description && (
+                  <p className="mt-1 text-[10px] text-slate-400 line-clamp-2" style={{ wordBreak: 'keep-all' }}>
+                    {tool.description}
+                  </p>
+                )}
+                <p className={`mt-1 flex items-center gap-0.5 text-[9px] ${tool.approved ? 'text-green-400/80' : 'text-yellow-400'}`}>
+                  <ShieldCheck className="w-3 h-3" />
+                  {tool.approved ? '사내 사용 승인' : '미승인 · 업무자료 입력 금지'}
+                </p>
+              </div>
+            </motion.div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
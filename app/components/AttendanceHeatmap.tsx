@@ -0,0 +1,137 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ChevronLeft, ChevronRight, Flame, Trophy } from 'lucide-react'
+import { fetchAttendance } from '../lib/api'
+import { useAppConfig } from '../lib/config-context'
+import { STREAK_MILESTONES, getDateKey } from '../lib/exp-rules'
+import type { AttendanceCalendar } from '../lib/types'
+
+// ==================== Attendance Heatmap ====================
+// 월별 출석 달력 + 연속 출석 카운터 (출석 기록이 있는 화면에서 공통 사용)
+
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토']
+const HEATMAP_COLORS = ['bg-white/5', 'bg-kepco-cyan/25', 'bg-kepco-cyan/50', 'bg-kepco-cyan/80']
+
+const shiftMonth = (month: string, delta: number): string => {
+  const date = new Date(`${month}-01T00:00:00Z`)
+  date.setUTCMonth(date.getUTCMonth() + delta)
+  return date.toISOString().slice(0, 7)
+}
+
+export const AttendanceHeatmap = () => {
+  const { timeSlots } = useAppConfig()
+  const currentMonth = getDateKey().slice(0, 7)
+  const [month, setMonth] = useState(currentMonth)
+  const [calendar, setCalendar] = useState<AttendanceCalendar | null>(null)
+  const [loadFailed, setLoadFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoadFailed(false)
+    fetchAttendance(month)
+      .then((data) => {
+        if (!cancelled) setCalendar(data)
+      })
+      .catch(() => {
+        if (!cancelled) setLoadFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [month])
+
+  const firstWeekday = new Date(`${month}-01T00:00:00Z`).getUTCDay()
+  const [year, monthIndex] = month.split('-').map(Number)
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate()
+  const streak = calendar?.streak
+
+  return (
+    <div>
+      {/* Streak Counters */}
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="p-3 rounded-xl bg-gradient-to-br from-orange-500/15 to-red-500/10 border border-orange-500/30 text-center">
+          <div className="flex items-center justify-center gap-1">
+            <Flame className="w-5 h-5 text-orange-400" />
+            <span className="text-2xl font-bold text-white">{streak?.current ?? '-'}</span>
+          </div>
+          <p className="text-xs text-slate-400">현재 연속 출석</p>
+        </div>
+        <div className="p-3 rounded-xl bg-white/5 border border-white/10 text-center">
+          <div className="flex items-center justify-center gap-1">
+            <Trophy className="w-5 h-5 text-yellow-500" />
+            <span className="text-2xl font-bold text-white">{streak?.longest ?? '-'}</span>
+          </div>
+          <p className="text-xs text-slate-400">최장 연속 출석</p>
+        </div>
+      </div>
+      {streak?.nextMilestone && (
+        <p className="text-xs text-slate-400 text-center mb-4">
+          <span className="text-orange-400 font-medium">{streak.nextMilestone - streak.current}일</span> 더 출석하면{' '}
+          {streak.nextMilestone}일 연속 보너스 +{STREAK_MILESTONES.find((m) => m.days === streak.nextMilestone)?.exp} EXP
+        </p>
+      )}
+
+      {/* Month Navigation */}
+      <div className="flex items-center justify-between mb-3">
+        <button className="p-1 text-slate-400 hover:text-white" onClick={() => setMonth(shiftMonth(month, -1))} aria-label="이전 달">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="text-sm font-medium text-white">{year}년 {monthIndex}월</span>
+        <button
+          className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+          onClick={() => setMonth(shiftMonth(month, 1))}
+          disabled={month >= currentMonth}
+          aria-label="다음 달"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Calendar Grid */}
+      <div className="grid grid-cols-7 gap-1.5">
+        {WEEKDAY_LABELS.map((label) => (
+          <span key={label} className="text-[10px] text-slate-500 text-center">{label}</span>
+        ))}
+        {[...Array(firstWeekday)].map((_, i) => (
+          <span key={`empty-${i}`} />
+        ))}
+        {[...Array(daysInMonth)].map((_, i) => {
+          const dateKey = `${month}-${String(i + 1).padStart(2, '0')}`
+          const slots = calendar?.days[dateKey] ?? []
+          return (
+            <div
+              key={dateKey}
+              className={`aspect-square rounded-lg flex flex-col items-center justify-center ${HEATMAP_COLORS[Math.min(slots.length, 3)]}`}
+              title={slots.length > 0 ? timeSlots.filter((s) => slots.includes(s.id)).map((s) => s.name).join(', ') : undefined}
+            >
+              <span className={`text-[10px] ${slots.length > 0 ? 'text-white' : 'text-slate-500'}`}>{i + 1}</span>
+              {/* 시간대별 출석 표시 (출근/점심/퇴근 순) */}
+              <div className="flex gap-0.5 mt-0.5">
+                {timeSlots.map((slot) => (
+                  <span
+                    key={slot.id}
+                    className={`w-1 h-1 rounded-full ${slots.includes(slot.id) ? 'bg-white' : 'bg-white/10'}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {loadFailed && (
+        <p className="text-center text-xs text-slate-500 mt-3">출석 기록을 불러오지 못했습니다</p>
+      )}
+
+      {/* Legend */}
+      <div className="flex items-center justify-end gap-1 mt-3 text-[10px] text-slate-500">
+        <span>적음</span>
+        {HEATMAP_COLORS.map((color) => (
+          <span key={color} className={`w-3 h-3 rounded ${color}`} />
+        ))}
+        <span>많음</span>
+      </div>
+    </div>
+  )
+}
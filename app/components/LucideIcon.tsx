@@ -0,0 +1,35 @@
+'use client'
+
+import { Suspense, lazy } from 'react'
+import { Sparkles, type LucideProps } from 'lucide-react'
+import dynamicIconImports from 'lucide-react/dynamicIconImports'
+import { toAIToolIconName, type AIToolIconName } from '../lib/ai-tool-icons'
+
+// ==================== Lucide Icon ====================
+// 운영자가 이름으로 지정한 아이콘 (AI TOOL 목록 등). 아이콘마다 따로 불러오며, 없는 이름이면 기본 아이콘
+
+const loadIcon = (name: AIToolIconName) => lazy(dynamicIconImports[name])
+
+// 이름별 lazy 컴포넌트 (렌더할 때마다 새로 만들면 매번 다시 불러옴)
+const loadedIcons = new Map<AIToolIconName, ReturnType<typeof loadIcon>>()
+
+const getIcon = (name: AIToolIconName) => {
+  const cached = loadedIcons.get(name)
+  if (cached) return cached
+  const Icon = loadIcon(name)
+  loadedIcons.set(name, Icon)
+  return Icon
+}
+
+export const LucideIcon = ({ name, ...props }: { name: string } & Omit<LucideProps, 'ref'>) => {
+  const iconName = toAIToolIconName(name)
+  if (!iconName) return <Sparkles {...props} />
+
+  const Icon = getIcon(iconName)
+  // 불러오는 동안 같은 크기의 빈 자리
+  return (
+    <Suspense fallback={<span className={`inline-block ${props.className ?? ''}`} />}>
+      <Icon {...props} />
+    </Suspense>
+  )
+}
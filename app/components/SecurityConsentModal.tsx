@@ -0,0 +1,180 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Check, ShieldAlert, X } from 'lucide-react'
+import { ApiError, fetchConsentState, recordConsent } from '../lib/api'
+import { useConsentRules } from '../lib/config-context'
+import type { AITool } from '../lib/ai-tools'
+
+// ==================== Security Consent Modal ====================
+// 외부 AI 서비스로 이동하기 전 보안 준수 확인 (AI TOOL 카드, 프롬프트 템플릿 공통)
+// 동의가 서버 감사 기록에 저장된 뒤에만 도구로 이동하고(실패하면 다시 시도), 문구 버전이 바뀐 뒤 처음 이동할 때는
+// 체크박스로 명시적 재동의를 받습니다.
+// 팝업 차단을 피하려고 클릭 즉시 빈 창을 열어 두고, 저장되면 도구 주소로 이동 / 실패하면 닫습니다.
+
+// 마지막으로 동의한 문구 버전 (서버 확인 전 바로 표시용)
+const CONSENTED_VERSION_KEY = 'kepco_consented_version'
+
+const springConfig = {
+  type: 'spring',
+  stiffness: 400,
+  damping: 25,
+}
+
+export interface SecurityConsentModalProps {
+  // 이동할 도구 (null이면 닫힘)
+  tool: AITool | null
+  onClose: () => void
+  // 클릭 직후(동의 저장 전) 실행: 사용자 동작이 있어야 하는 작업 (클립보드 복사 등)
+  onStart?: () => void
+  // 동의가 저장되고 도구 창을 연 뒤 실행
+  onConfirm: () => void
+}
+
+export const SecurityConsentModal = ({ tool, onClose, onStart, onConfirm }: SecurityConsentModalProps) => {
+  const rules = useConsentRules()
+  const [consentedVersion, setConsentedVersion] = useState<number | null>(null)
+  const [acknowledged, setAcknowledged] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!tool) return
+    setAcknowledged(false)
+    setError(null)
+    setConsentedVersion(Number(localStorage.getItem(CONSENTED_VERSION_KEY)) || null)
+    fetchConsentState()
+      .then(({ consentedVersion: version }) => setConsentedVersion(version))
+      .catch(() => {})
+  }, [tool])
+
+  if (!tool) return null
+
+  // 처음이거나 문구가 바뀐 뒤 첫 이동
+  const needsReconsent = consentedVersion !== rules.version
+  const rulesChanged = needsReconsent && consentedVersion !== null
+
+  // 기록이 저장되지 않으면(오프라인 등) 도구를 열지 않음
+  const handleConfirm = async () => {
+    // await 뒤에는 사용자 동작이 만료되어 새 창/클립보드가 막히므로 먼저 시작
+    onStart?.()
+    const toolWindow = window.open('about:blank', '_blank')
+    // noopener를 주면 창 핸들을 받을 수 없어 직접 끊음
+    if (toolWindow) toolWindow.opener = null
+
+    setSaving(true)
+    setError(null)
+    try {
+      await recordConsent(tool.id, rules.version)
+      localStorage.setItem(CONSENTED_VERSION_KEY, String(rules.version))
+      if (toolWindow) toolWindow.location.href = tool.url
+      else window.open(tool.url, '_blank', 'noopener,noreferrer')
+      onConfirm()
+    } catch (e) {
+      toolWindow?.close()
+      setError(e instanceof ApiError ? e.message : '동의 기록을 저장하지 못했습니다. 연결을 확인하고 다시 시도하세요')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-[500] flex items-center justify-center p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        {/* Backdrop */}
+        <motion.div
+          className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <motion.div
+          className="relative glass-strong rounded-2xl p-6 max-w-sm w-full shadow-2xl border border-yellow-500/30"
+          initial={{ scale: 0.9, y: 20 }}
+          animate={{ scale: 1, y: 0 }}
+          exit={{ scale: 0.9, y: 20 }}
+          transition={springConfig}
+        >
+          {/* Header */}
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-yellow-500 to-orange-500 flex items-center justify-center">
+              <ShieldAlert className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h3 className="font-bold text-lg text-white" style={{ wordBreak: 'keep-all' }}>보안 준수 확인</h3>
+              <p className="text-xs text-slate-400">{tool.name}</p>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="space-y-3 mb-6">
+            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
+              <p className="text-sm text-yellow-200 leading-relaxed" style={{ wordBreak: 'keep-all' }}>
+                외부 AI 서비스 이용 시 아래 사항을 준수해 주세요.
+              </p>
+            </div>
+
+            {rulesChanged && (
+              <p className="text-xs text-orange-300" style={{ wordBreak: 'keep-all' }}>
+                보안 준수 사항이 변경되었습니다. 다시 확인하고 동의해 주세요.
+              </p>
+            )}
+
+            <ul className="space-y-2 text-sm text-slate-300">
+              {rules.items.map((item, i) => (
+                <li key={i} className="flex items-start gap-2" style={{ wordBreak: 'keep-all' }}>
+                  {item.allowed ? (
+                    <Check className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <X className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                  )}
+                  <span>{item.text}</span>
+                </li>
+              ))}
+            </ul>
+
+            {needsReconsent && (
+              <label className="flex items-center gap-2 text-xs text-slate-300" style={{ wordBreak: 'keep-all' }}>
+                <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />
+                위 사항을 읽었으며 준수하겠습니다 (v{rules.version})
+              </label>
+            )}
+          </div>
+
+          {error && (
+            <p className="mb-3 text-xs text-red-400" style={{ wordBreak: 'keep-all' }}>
+              {error}
+            </p>
+          )}
+
+          {/* Buttons */}
+          <div className="flex gap-3">
+            <motion.button
+              className="flex-1 py-3 px-4 rounded-xl bg-white/10 border border-white/20 text-slate-300 font-medium"
+              onClick={onClose}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              취소
+            </motion.button>
+            <motion.button
+              className="flex-1 py-3 px-4 rounded-xl bg-gradient-to-r from-green-500 to-emerald-600 text-white font-bold shadow-lg disabled:opacity-50"
+              onClick={handleConfirm}
+              disabled={saving || (needsReconsent && !acknowledged)}
+              whileHover={{ scale: 1.02, boxShadow: '0 0 30px rgba(34, 197, 94, 0.5)' }}
+              whileTap={{ scale: 0.98 }}
+            >
+              {saving ? '기록 중...' : error ? '다시 시도' : '동의 및 이동'}
+            </motion.button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
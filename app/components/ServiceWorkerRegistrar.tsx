@@ -0,0 +1,15 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// ==================== Service Worker Registrar ====================
+// 오프라인 셸 캐시용 서비스 워커 등록 (개발 모드에서는 캐시가 HMR을 방해하므로 등록하지 않음)
+
+export const ServiceWorkerRegistrar = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+    navigator.serviceWorker.register('/sw.js').catch(() => undefined)
+  }, [])
+
+  return null
+}
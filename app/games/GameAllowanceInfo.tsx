@@ -0,0 +1,30 @@
+'use client'
+
+import type { GameAllowance } from '../lib/games'
+
+// ==================== Game Allowance ====================
+// 게임 준비 화면의 오늘 남은 플레이 횟수 / 받을 수 있는 EXP 표시 (최종 판정은 서버)
+
+export const GameAllowanceInfo = ({ allowance }: { allowance?: GameAllowance | null }) => {
+  if (!allowance) return null
+
+  if (allowance.remainingRounds <= 0 || allowance.remainingExp <= 0) {
+    return (
+      <div className="mb-3 py-2 rounded-lg bg-slate-800/60 text-xs text-slate-400">
+        오늘 받을 수 있는 EXP를 모두 받았어요 · 연습 플레이만 가능합니다
+      </div>
+    )
+  }
+
+  return (
+    <div className="mb-3 py-2 rounded-lg bg-white/5 text-xs text-slate-300">
+      <p>
+        오늘 남은 플레이 <span className="font-bold text-white">{allowance.remainingRounds}회</span>
+        {' · '}받을 수 있는 EXP <span className="font-bold text-green-400">{allowance.remainingExp}</span>
+      </p>
+      {allowance.multiplier < 1 && (
+        <p className="mt-0.5 text-[10px] text-orange-400">연속 플레이로 이번 판 EXP x{allowance.multiplier} 적용</p>
+      )}
+    </div>
+  )
+}
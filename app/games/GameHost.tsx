@@ -0,0 +1,32 @@
+'use client'
+
+import { GAME_COMPONENTS, type GameRoundStats } from './registry'
+import { getGame, getGameAllowance } from '../lib/games'
+import type { DailyExpSummary } from '../lib/types'
+
+// ==================== Game Host ====================
+// 선택된 앱 내 게임 하나를 마운트 (게임별 표시 상태 대신 gameId 하나로 관리)
+
+interface GameHostProps {
+  gameId: string | null
+  onClose: () => void
+  onEarnExp: (gameId: string, exp: number, stats: GameRoundStats) => void
+  // 서버 기준 오늘 게임별 플레이 현황
+  played?: DailyExpSummary['games']
+}
+
+export const GameHost = ({ gameId, onClose, onEarnExp, played }: GameHostProps) => {
+  const game = gameId ? getGame(gameId) : undefined
+  const Game = game?.available && game.kind === 'internal' ? GAME_COMPONENTS[game.id] : undefined
+  if (!game || !Game) return null
+
+  const allowance = game.policy && played ? getGameAllowance(game.policy, played[game.id]) : null
+  return (
+    <Game
+      isOpen
+      onClose={onClose}
+      onEarnExp={(exp, stats) => onEarnExp(game.id, exp, stats)}
+      allowance={allowance}
+    />
+  )
+}
@@ -0,0 +1,594 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Sun, Cloud, Trophy, BookOpen, MoveHorizontal } from 'lucide-react'
+import type { GameComponentProps } from './registry'
+import { GameAllowanceInfo } from './GameAllowanceInfo'
+
+// ==================== Constants ====================
+const GAME_DURATION = 30
+const ENERGY_PER_EXP = 40
+const SUN_ENERGY = 10
+const CLOUD_PENALTY = 15
+
+// 낙하 오브젝트 (좌표는 필드 대비 %)
+const SPAWN_INTERVAL_START = 700 // ms
+const SPAWN_INTERVAL_END = 380
+const FALL_SPEED_START = 0.55 // 프레임당 %
+const FALL_SPEED_END = 1.1
+const CLOUD_RATIO_START = 0.2
+const CLOUD_RATIO_END = 0.4
+const ITEM_SIZE = 10
+
+// 패널
+const PANEL_WIDTH = 24
+const PANEL_Y = 86
+const PANEL_HEIGHT = 5
+const KEY_SPEED = 2.2 // 프레임당 %
+const SHADE_DURATION = 900 // 구름에 가려진 시간 (ms)
+
+// 콤보 배율 (연속으로 잡은 햇빛 수)
+const COMBO_L1 = 5
+const COMBO_L2 = 10
+const COMBO_L3 = 20
+const COMBO_MULTIPLIERS = [1, 1.5, 2, 3]
+
+type FallingKind = 'sun' | 'cloud'
+
+interface FallingItem {
+  id: number
+  kind: FallingKind
+  x: number
+  y: number
+  speed: number
+}
+
+interface Burst {
+  id: number
+  x: number
+  y: number
+  label: string
+  color: string
+}
+
+const getComboLevel = (combo: number) =>
+  combo >= COMBO_L3 ? 3 : combo >= COMBO_L2 ? 2 : combo >= COMBO_L1 ? 1 : 0
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t
+
+export default function SolarCatchGame({ isOpen, onClose, onEarnExp, allowance }: GameComponentProps) {
+  const [gameState, setGameState] = useState<'ready' | 'countdown' | 'playing' | 'finished'>('ready')
+  const [countdown, setCountdown] = useState(3)
+  const [showGuide, setShowGuide] = useState(true)
+  const [items, setItems] = useState<FallingItem[]>([])
+  const [bursts, setBursts] = useState<Burst[]>([])
+  const [finalStats, setFinalStats] = useState({ energy: 0, catches: 0, misses: 0, cloudHits: 0, maxCombo: 0, accuracy: 0, exp: 0 })
+
+  // UI State (렌더링용)
+  const [displayTime, setDisplayTime] = useState(GAME_DURATION)
+  const [comboLevel, setComboLevel] = useState(0)
+  const [shaded, setShaded] = useState(false)
+
+  // DOM Refs
+  const fieldRef = useRef<HTMLDivElement>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+  const energyRef = useRef<HTMLParagraphElement>(null)
+  const comboTextRef = useRef<HTMLSpanElement>(null)
+
+  // Game Refs (타이머와 완전 독립)
+  const itemsRef = useRef<FallingItem[]>([])
+  const panelXRef = useRef(50)
+  const keysRef = useRef({ left: false, right: false })
+  const lastFrameRef = useRef(0)
+  const lastSpawnRef = useRef(0)
+  const elapsedRef = useRef(0)
+  const shadeUntilRef = useRef(0)
+  const animationRef = useRef<number>()
+
+  // 타이머 독립 Refs
+  const timeLeftRef = useRef(GAME_DURATION)
+  const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  // 기록 Refs
+  const energyTotalRef = useRef(0)
+  const catchesRef = useRef(0)
+  const missesRef = useRef(0)
+  const cloudHitsRef = useRef(0)
+  const comboRef = useRef(0)
+  const maxComboRef = useRef(0)
+  const comboLevelRef = useRef(0) // 렌더링 없이 참조용
+
+  // ==================== Panel Control ====================
+  const movePanelTo = useCallback((clientX: number) => {
+    if (!fieldRef.current) return
+    const r = fieldRef.current.getBoundingClientRect()
+    const x = ((clientX - r.left) / r.width) * 100
+    panelXRef.current = Math.min(Math.max(x, PANEL_WIDTH / 2), 100 - PANEL_WIDTH / 2)
+  }, [])
+
+  const onDown = useCallback((e: React.PointerEvent) => {
+    if (gameState !== 'playing') return
+    e.preventDefault()
+    fieldRef.current?.setPointerCapture(e.pointerId)
+    movePanelTo(e.clientX)
+    setShowGuide(false)
+  }, [gameState, movePanelTo])
+
+  const onMove = useCallback((e: React.PointerEvent) => {
+    if (gameState !== 'playing') return
+    // 마우스는 누르지 않아도 따라가고, 터치는 드래그 중에만 이동
+    if (e.pointerType !== 'mouse' && !fieldRef.current?.hasPointerCapture(e.pointerId)) return
+    movePanelTo(e.clientX)
+  }, [gameState, movePanelTo])
+
+  const onUp = useCallback((e: React.PointerEvent) => {
+    if (fieldRef.current?.hasPointerCapture(e.pointerId)) {
+      fieldRef.current.releasePointerCapture(e.pointerId)
+    }
+  }, [])
+
+  // 키보드 (←/→, A/D)
+  useEffect(() => {
+    if (gameState !== 'playing') return
+    const setKey = (e: KeyboardEvent, pressed: boolean) => {
+      if (e.key === 'ArrowLeft' || e.key === 'a' || e.key === 'A') keysRef.current.left = pressed
+      else if (e.key === 'ArrowRight' || e.key === 'd' || e.key === 'D') keysRef.current.right = pressed
+      else return
+      e.preventDefault()
+      if (pressed) setShowGuide(false)
+    }
+    const down = (e: KeyboardEvent) => setKey(e, true)
+    const up = (e: KeyboardEvent) => setKey(e, false)
+    window.addEventListener('keydown', down)
+    window.addEventListener('keyup', up)
+    return () => {
+      window.removeEventListener('keydown', down)
+      window.removeEventListener('keyup', up)
+      keysRef.current = { left: false, right: false }
+    }
+  }, [gameState])
+
+  // ==================== Effects ====================
+  const addBurst = useCallback((x: number, label: string, color: string) => {
+    setBursts(prev => [...prev.slice(-6), { id: Date.now() + Math.random(), x, y: PANEL_Y - 6, label, color }])
+  }, [])
+
+  const updateCombo = useCallback((combo: number) => {
+    comboRef.current = combo
+    if (combo > maxComboRef.current) maxComboRef.current = combo
+    const level = getComboLevel(combo)
+    if (level !== comboLevelRef.current) {
+      comboLevelRef.current = level
+      setComboLevel(level)
+      if (level >= 2) navigator.vibrate?.([20, 10, 20])
+    }
+    if (comboTextRef.current) comboTextRef.current.textContent = combo.toString()
+  }, [])
+
+  // ==================== Game Loop (이동 + 충돌 + 렌더링만) ====================
+  const gameLoop = useCallback((timestamp: number) => {
+    if (gameState !== 'playing') return
+
+    const dt = lastFrameRef.current ? Math.min((timestamp - lastFrameRef.current) / 16.67, 3) : 1
+    lastFrameRef.current = timestamp
+    elapsedRef.current += dt * 16.67
+
+    // 진행도에 따라 난이도 상승
+    const progress = Math.min(elapsedRef.current / (GAME_DURATION * 1000), 1)
+
+    // 키보드 이동
+    const { left, right } = keysRef.current
+    if (left !== right) {
+      const next = panelXRef.current + (right ? KEY_SPEED : -KEY_SPEED) * dt
+      panelXRef.current = Math.min(Math.max(next, PANEL_WIDTH / 2), 100 - PANEL_WIDTH / 2)
+    }
+
+    // 생성
+    if (elapsedRef.current - lastSpawnRef.current >= lerp(SPAWN_INTERVAL_START, SPAWN_INTERVAL_END, progress)) {
+      lastSpawnRef.current = elapsedRef.current
+      const kind: FallingKind = Math.random() < lerp(CLOUD_RATIO_START, CLOUD_RATIO_END, progress) ? 'cloud' : 'sun'
+      const baseSpeed = lerp(FALL_SPEED_START, FALL_SPEED_END, progress)
+      itemsRef.current.push({
+        id: Date.now() + Math.random(),
+        kind,
+        x: ITEM_SIZE / 2 + Math.random() * (100 - ITEM_SIZE),
+        y: -ITEM_SIZE,
+        speed: baseSpeed * (kind === 'cloud' ? 0.8 : 1) * (0.85 + Math.random() * 0.3),
+      })
+    }
+
+    // 이동 + 충돌
+    const now = Date.now()
+    const isShaded = now < shadeUntilRef.current
+    const panelX = panelXRef.current
+    const remaining: FallingItem[] = []
+
+    for (const item of itemsRef.current) {
+      const prevY = item.y
+      item.y += item.speed * dt
+      const bottom = item.y + ITEM_SIZE / 2
+      const crossedPanel = prevY + ITEM_SIZE / 2 < PANEL_Y && bottom >= PANEL_Y
+      const overlaps = Math.abs(item.x - panelX) <= (PANEL_WIDTH + ITEM_SIZE) / 2 - 1
+
+      if (crossedPanel && overlaps) {
+        if (item.kind === 'sun') {
+          if (isShaded) {
+            // 구름 그늘에서는 발전 불가 (콤보는 유지)
+            addBurst(item.x, '그늘', '#94A3B8')
+          } else {
+            const combo = comboRef.current + 1
+            const gained = Math.round(SUN_ENERGY * COMBO_MULTIPLIERS[getComboLevel(combo)])
+            energyTotalRef.current += gained
+            catchesRef.current += 1
+            updateCombo(combo)
+            addBurst(item.x, `+${gained}`, '#FBBF24')
+            navigator.vibrate?.([8])
+          }
+        } else {
+          cloudHitsRef.current += 1
+          energyTotalRef.current = Math.max(energyTotalRef.current - CLOUD_PENALTY, 0)
+          shadeUntilRef.current = now + SHADE_DURATION
+          updateCombo(0)
+          addBurst(item.x, `-${CLOUD_PENALTY}`, '#94A3B8')
+          setShaded(true)
+          setTimeout(() => setShaded(Date.now() < shadeUntilRef.current), SHADE_DURATION)
+          navigator.vibrate?.([40, 20, 40])
+        }
+        continue
+      }
+
+      if (item.y - ITEM_SIZE / 2 > 100) {
+        // 놓친 햇빛은 콤보 초기화
+        if (item.kind === 'sun') {
+          missesRef.current += 1
+          updateCombo(0)
+        }
+        continue
+      }
+      remaining.push(item)
+    }
+    itemsRef.current = remaining
+    setItems(remaining.map(item => ({ ...item })))
+
+    // DOM 직접 업데이트 (성능 최적화)
+    if (panelRef.current) {
+      panelRef.current.style.left = `${panelX - PANEL_WIDTH / 2}%`
+    }
+    if (energyRef.current) {
+      energyRef.current.textContent = energyTotalRef.current.toString()
+    }
+
+    animationRef.current = requestAnimationFrame(gameLoop)
+  }, [gameState, addBurst, updateCombo])
+
+  // ==================== 독립 타이머 (1초마다 정확히 실행) ====================
+  useEffect(() => {
+    if (gameState !== 'playing') return
+
+    timerIntervalRef.current = setInterval(() => {
+      timeLeftRef.current -= 1
+      const currentTime = timeLeftRef.current
+      setDisplayTime(currentTime)
+
+      // 게임 종료
+      if (currentTime <= 0) {
+        if (timerIntervalRef.current) clearInterval(timerIntervalRef.current)
+        if (animationRef.current) cancelAnimationFrame(animationRef.current)
+
+        const catches = catchesRef.current
+        const seen = catches + missesRef.current
+        const comboBonus = Math.floor(maxComboRef.current / COMBO_L1)
+        const exp = Math.floor(energyTotalRef.current / ENERGY_PER_EXP) + comboBonus
+
+        itemsRef.current = []
+        setItems([])
+        setFinalStats({
+          energy: energyTotalRef.current,
+          catches,
+          misses: missesRef.current,
+          cloudHits: cloudHitsRef.current,
+          maxCombo: maxComboRef.current,
+          accuracy: seen > 0 ? Math.round((catches / seen) * 100) : 0,
+          exp,
+        })
+        setGameState('finished')
+      }
+    }, 1000)
+
+    // 게임 루프 시작
+    lastFrameRef.current = 0
+    animationRef.current = requestAnimationFrame(gameLoop)
+
+    return () => {
+      if (timerIntervalRef.current) clearInterval(timerIntervalRef.current)
+      if (animationRef.current) cancelAnimationFrame(animationRef.current)
+    }
+  }, [gameState, gameLoop])
+
+  // ==================== Countdown ====================
+  useEffect(() => {
+    if (gameState !== 'countdown') return
+    if (countdown > 0) {
+      const t = setTimeout(() => setCountdown(c => c - 1), 1000)
+      return () => clearTimeout(t)
+    } else {
+      setTimeout(() => setGameState('playing'), 700)
+    }
+  }, [gameState, countdown])
+
+  // ==================== Touch Prevention ====================
+  useEffect(() => {
+    const el = fieldRef.current
+    if (!el || gameState !== 'playing') return
+    const prevent = (e: TouchEvent) => e.preventDefault()
+    el.addEventListener('touchstart', prevent, { passive: false })
+    el.addEventListener('touchmove', prevent, { passive: false })
+    return () => {
+      el.removeEventListener('touchstart', prevent)
+      el.removeEventListener('touchmove', prevent)
+    }
+  }, [gameState])
+
+  // ==================== Actions ====================
+  const startCountdown = () => {
+    // 모든 상태 초기화
+    itemsRef.current = []
+    panelXRef.current = 50
+    lastSpawnRef.current = 0
+    elapsedRef.current = 0
+    shadeUntilRef.current = 0
+    timeLeftRef.current = GAME_DURATION
+    energyTotalRef.current = 0
+    catchesRef.current = 0
+    missesRef.current = 0
+    cloudHitsRef.current = 0
+    comboRef.current = 0
+    maxComboRef.current = 0
+    comboLevelRef.current = 0
+
+    setShowGuide(true)
+    setItems([])
+    setBursts([])
+    setComboLevel(0)
+    setShaded(false)
+    setDisplayTime(GAME_DURATION)
+    setCountdown(3)
+    setGameState('countdown')
+  }
+
+  const handleRecord = () => {
+    if (finalStats.exp > 0) {
+      onEarnExp(finalStats.exp, { catches: finalStats.catches, maxCombo: finalStats.maxCombo })
+    }
+    onClose()
+    setGameState('ready')
+  }
+
+  if (!isOpen) return null
+
+  const comboColors = ['#FBBF24', '#F59E0B', '#F97316', '#EF4444']
+  const glowColor = comboColors[comboLevel]
+  const isLowTime = displayTime <= 5 && displayTime > 0 && gameState === 'playing'
+
+  return (
+    <AnimatePresence>
+      <motion.div className="fixed inset-0 z-[700] flex items-center justify-center p-4"
+        initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+        <div className="absolute inset-0 bg-black/90" onClick={gameState === 'ready' ? onClose : undefined} />
+
+        {/* Low Time Warning Border */}
+        {isLowTime && (
+          <motion.div
+            className="absolute inset-0 z-20 pointer-events-none border-4 rounded-3xl"
+            animate={{
+              borderColor: ['rgba(239,68,68,0.8)', 'rgba(239,68,68,0.2)', 'rgba(239,68,68,0.8)'],
+              boxShadow: ['0 0 30px rgba(239,68,68,0.5)', '0 0 10px rgba(239,68,68,0.2)', '0 0 30px rgba(239,68,68,0.5)']
+            }}
+            transition={{ duration: 0.5, repeat: Infinity }}
+          />
+        )}
+
+        {/* Countdown */}
+        <AnimatePresence>
+          {gameState === 'countdown' && (
+            <motion.div className="absolute inset-0 flex items-center justify-center z-50 pointer-events-none">
+              <motion.div key={countdown}
+                initial={{ scale: 0.3, opacity: 0, rotate: -20 }}
+                animate={{ scale: 1.3, opacity: 1, rotate: 0 }}
+                exit={{ scale: 3, opacity: 0 }}
+                transition={{ type: 'spring', stiffness: 500, damping: 15 }}
+                className="text-[140px] font-black"
+                style={{
+                  color: countdown > 0 ? '#FFD700' : '#00FF88',
+                  textShadow: `0 0 60px ${countdown > 0 ? '#FFD700' : '#00FF88'}, 0 0 120px ${countdown > 0 ? '#FF6B00' : '#00D4FF'}`
+                }}>
+                {countdown > 0 ? countdown : 'GO!'}
+              </motion.div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Main Container */}
+        <motion.div
+          className="relative w-full max-w-md bg-gradient-to-b from-slate-900 to-slate-950 rounded-3xl overflow-hidden border border-white/10"
+          initial={{ scale: 0.9 }} animate={{ scale: 1 }} transition={{ duration: 0.2 }}
+          style={{ boxShadow: `0 0 ${30 + comboLevel * 25}px ${glowColor}50` }}>
+
+          {gameState === 'ready' && (
+            <button onClick={onClose} className="absolute top-4 right-4 z-20 text-slate-400">
+              <X className="w-6 h-6" />
+            </button>
+          )}
+
+          {/* Header */}
+          <div className="p-4 border-b border-white/10 text-center">
+            <div className="flex items-center gap-2 justify-center">
+              <Sun className="w-6 h-6 text-yellow-400" />
+              <h2 className="text-xl font-bold text-white">태양광 모으기</h2>
+              {comboLevel > 0 && (
+                <motion.span initial={{ scale: 0 }} animate={{ scale: 1 }}
+                  className={`text-xs font-bold px-2 py-0.5 rounded ${
+                    comboLevel === 3 ? 'bg-red-500/30 text-red-400'
+                    : comboLevel === 2 ? 'bg-orange-500/30 text-orange-400'
+                    : 'bg-yellow-500/30 text-yellow-400'
+                  }`}>
+                  {comboLevel === 3 ? '⚡ x3.0!' : comboLevel === 2 ? '🔥 x2.0' : '✨ x1.5'}
+                </motion.span>
+              )}
+            </div>
+          </div>
+
+          {/* Ready Screen */}
+          {gameState === 'ready' && (
+            <div className="p-6 text-center">
+              <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-gradient-to-br from-yellow-400 to-orange-500 flex items-center justify-center">
+                <Sun className="w-10 h-10 text-white" />
+              </div>
+              <h3 className="text-xl font-bold text-white mb-2">30초 발전 챌린지!</h3>
+              <p className="text-slate-400 text-sm mb-2">패널을 움직여 햇빛을 모으고 구름을 피하세요</p>
+              <GameAllowanceInfo allowance={allowance} />
+              <div className="text-xs text-slate-500 mb-4 space-y-1">
+                <p>✨ {COMBO_L1}연속 = <span className="text-yellow-400">x1.5</span></p>
+                <p>🔥 {COMBO_L2}연속 = <span className="text-orange-400">x2.0</span></p>
+                <p>⚡ {COMBO_L3}연속 = <span className="text-red-400">x3.0</span></p>
+                <p className="mt-2 text-slate-400">☁️ 구름에 닿으면 콤보 초기화 + 잠시 발전 중단</p>
+              </div>
+              <button onClick={startCountdown} className="w-full py-4 rounded-xl bg-gradient-to-r from-yellow-400 to-orange-500 text-white font-bold text-lg">
+                게임 시작!
+              </button>
+            </div>
+          )}
+
+          {/* Playing Screen */}
+          {(gameState === 'playing' || gameState === 'countdown') && (
+            <div className="p-4">
+              {/* Stats Row */}
+              <div className="flex justify-between items-center mb-2">
+                <div className="text-center">
+                  <p className="text-[10px] text-slate-500">남은 시간</p>
+                  <motion.p
+                    className={`text-xl font-bold ${isLowTime ? 'text-red-500' : 'text-white'}`}
+                    animate={isLowTime ? { scale: [1, 1.1, 1], color: ['#EF4444', '#FF0000', '#EF4444'] } : {}}
+                    transition={{ duration: 0.5, repeat: isLowTime ? Infinity : 0 }}
+                  >
+                    {displayTime}s
+                  </motion.p>
+                </div>
+                <div className="text-center">
+                  <p className="text-[10px] text-slate-500">콤보</p>
+                  <p className="text-lg font-bold" style={{ color: glowColor }}>
+                    <span ref={comboTextRef}>0</span>
+                    <span className="text-xs ml-1">x{COMBO_MULTIPLIERS[comboLevel].toFixed(1)}</span>
+                  </p>
+                </div>
+                <div className="text-center">
+                  <p className="text-[10px] text-slate-500">발전량</p>
+                  <p ref={energyRef} className="text-xl font-bold text-yellow-400">0</p>
+                </div>
+              </div>
+
+              {/* Field */}
+              <div ref={fieldRef}
+                className="relative w-full aspect-[3/4] rounded-2xl overflow-hidden select-none bg-gradient-to-b from-sky-900/60 via-slate-900/60 to-slate-900"
+                style={{ touchAction: 'none' }}
+                onPointerDown={onDown} onPointerMove={onMove} onPointerUp={onUp} onPointerCancel={onUp}>
+
+                {/* Falling Items */}
+                {items.map(item => (
+                  <div key={item.id} className="absolute pointer-events-none flex items-center justify-center"
+                    style={{
+                      left: `${item.x - ITEM_SIZE / 2}%`, top: `${item.y - ITEM_SIZE / 2}%`,
+                      width: `${ITEM_SIZE}%`, aspectRatio: '1'
+                    }}>
+                    {item.kind === 'sun'
+                      ? <Sun className="w-full h-full text-yellow-300" style={{ filter: 'drop-shadow(0 0 8px #FBBF24)' }} />
+                      : <Cloud className="w-full h-full text-slate-300" fill="#CBD5E1" />}
+                  </div>
+                ))}
+
+                {/* Bursts */}
+                <AnimatePresence>
+                  {bursts.map(b => (
+                    <motion.div key={b.id} className="absolute pointer-events-none text-sm font-black -translate-x-1/2"
+                      initial={{ y: 0, opacity: 1 }} animate={{ y: -30, opacity: 0 }}
+                      transition={{ duration: 0.6 }} style={{ left: `${b.x}%`, top: `${b.y}%`, color: b.color }}>
+                      {b.label}
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+
+                {/* Panel */}
+                <div ref={panelRef} className="absolute pointer-events-none rounded-md border-2 transition-colors duration-200"
+                  style={{
+                    left: `${50 - PANEL_WIDTH / 2}%`, top: `${PANEL_Y}%`,
+                    width: `${PANEL_WIDTH}%`, height: `${PANEL_HEIGHT}%`,
+                    borderColor: shaded ? '#64748B' : glowColor,
+                    background: shaded
+                      ? 'repeating-linear-gradient(90deg,#1E293B 0 6px,#334155 6px 8px)'
+                      : 'repeating-linear-gradient(90deg,#1D4ED8 0 6px,#60A5FA 6px 8px)',
+                    boxShadow: shaded ? 'none' : `0 0 ${12 + comboLevel * 8}px ${glowColor}`
+                  }} />
+
+                {/* Guide */}
+                {showGuide && gameState === 'playing' && (
+                  <div className="absolute inset-x-0 bottom-[18%] flex justify-center pointer-events-none animate-pulse">
+                    <div className="text-center">
+                      <MoveHorizontal className="w-10 h-10 text-yellow-400 mx-auto mb-1" />
+                      <p className="text-yellow-400 text-xs font-bold">좌우로 드래그!</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Finished Screen */}
+          {gameState === 'finished' && (
+            <div className="p-6 text-center">
+              <Trophy className="w-12 h-12 text-yellow-400 mx-auto mb-3" />
+              <h3 className="text-xl font-bold text-white mb-4">30초 완료!</h3>
+              <div className="bg-white/5 rounded-xl p-3 mb-4 grid grid-cols-2 gap-2 text-sm">
+                <div className="bg-slate-800/50 rounded-lg p-2">
+                  <p className="text-[10px] text-slate-500">총 발전량</p>
+                  <p className="text-lg font-bold text-yellow-400">{finalStats.energy}</p>
+                </div>
+                <div className="bg-slate-800/50 rounded-lg p-2">
+                  <p className="text-[10px] text-slate-500">모은 햇빛</p>
+                  <p className="text-lg font-bold text-orange-400">{finalStats.catches}</p>
+                </div>
+                <div className="bg-slate-800/50 rounded-lg p-2">
+                  <p className="text-[10px] text-slate-500">최대 콤보</p>
+                  <p className="text-lg font-bold text-red-400">{finalStats.maxCombo}</p>
+                </div>
+                <div className="bg-slate-800/50 rounded-lg p-2">
+                  <p className="text-[10px] text-slate-500">정확도</p>
+                  <p className="text-lg font-bold text-blue-400">{finalStats.accuracy}%</p>
+                </div>
+              </div>
+              {(finalStats.cloudHits > 0 || finalStats.misses > 0) && (
+                <div className="bg-slate-500/10 border border-slate-500/30 rounded-lg p-2 mb-4">
+                  <p className="text-slate-300 text-sm font-bold">
+                    ☁️ 구름 {finalStats.cloudHits}회 · 놓친 햇빛 {finalStats.misses}개
+                  </p>
+                </div>
+              )}
+              <div className="bg-slate-800/30 rounded-lg p-3 mb-4">
+                <div className="flex justify-between items-center">
+                  <span className="text-slate-300">획득 EXP</span>
+                  <span className="text-2xl font-black text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-orange-500">
+                    {finalStats.exp} EXP
+                  </span>
+                </div>
+              </div>
+              <button onClick={handleRecord} className="w-full py-3 rounded-xl bg-gradient-to-r from-green-500 to-emerald-500 text-white font-bold mb-2">
+                <BookOpen className="w-5 h-5 inline mr-2" />기록하기
+              </button>
+              <button onClick={startCountdown} className="w-full py-2.5 rounded-xl bg-white/10 text-slate-300">다시 도전</button>
+            </div>
+          )}
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Image from 'next/image'
+import { motion } from 'framer-motion'
+import { fetchTurbineHighScores } from '../lib/api'
+import { getCharacter } from '../lib/characters'
+import type { TurbineMode } from '../lib/turbine'
+import type { TurbineHighScoreEntry, TurbineHighScores as HighScores, TurbineRecordPeriod } from '../lib/types'
+
+// ==================== Turbine High Scores ====================
+// 풍력 게임 준비 화면에서 여는 일간/주간 순위표 + 내 최고 기록 (선택한 모드 기준)
+
+const PERIOD_LABELS: Record<TurbineRecordPeriod, string> = {
+  daily: '오늘',
+  weekly: '이번 주',
+}
+
+const RANK_COLORS = ['text-yellow-400', 'text-slate-300', 'text-orange-400']
+
+export const TurbineHighScores = ({ mode, rpsDisplayBoost }: { mode: TurbineMode; rpsDisplayBoost: number }) => {
+  const [period, setPeriod] = useState<TurbineRecordPeriod>('daily')
+  const [scores, setScores] = useState<HighScores | null>(null)
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading')
+
+  useEffect(() => {
+    let cancelled = false
+    setStatus('loading')
+    fetchTurbineHighScores(period, mode)
+      .then((data) => {
+        if (cancelled) return
+        setScores(data)
+        setStatus('ready')
+      })
+      .catch(() => {
+        if (!cancelled) setStatus('error')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [period, mode])
+
+  const formatRps = (rps: number) => (Math.round(rps * rpsDisplayBoost * 10) / 10).toFixed(1)
+
+  const renderEntry = (entry: TurbineHighScoreEntry) => {
+    const character = getCharacter(entry.characterId)
+    return (
+      <div
+        key={`${entry.rank}-${entry.nickname}-${entry.isMe}`}
+        className={`flex items-center gap-2 px-2 py-1.5 rounded-lg ${
+          entry.isMe ? 'bg-cyan-500/15 border border-cyan-400/40' : 'bg-slate-800/50'
+        }`}
+      >
+        <span className={`w-5 text-center text-xs font-bold ${RANK_COLORS[entry.rank - 1] ?? 'text-slate-500'}`}>
+          {entry.rank}
+        </span>
+        <div className="w-6 h-6 rounded-full bg-slate-900 overflow-hidden relative flex-shrink-0">
+          {character && (
+            <Image src={`/images/character/${character.file}`} alt={character.name} fill className="object-contain" sizes="24px" />
+          )}
+        </div>
+        <span className="flex-1 min-w-0 truncate text-xs text-white text-left">
+          {entry.nickname}
+          {entry.isMe && <span className="ml-1 text-[10px] text-cyan-400">나</span>}
+        </span>
+        <span className="text-xs font-bold text-cyan-400">{entry.spins}회전</span>
+        <span className="w-12 text-right text-[10px] text-slate-400">{formatRps(entry.maxRps)} RPS</span>
+      </div>
+    )
+  }
+
+  const best = scores?.personalBest
+  const meOutsideTop = scores?.me && !scores.entries.some((e) => e.isMe)
+
+  return (
+    <div className="mb-4 text-left">
+      <div className="flex gap-1 p-1 mb-2 bg-white/5 rounded-lg">
+        {(Object.keys(PERIOD_LABELS) as TurbineRecordPeriod[]).map((p) => (
+          <button
+            key={p}
+            className={`flex-1 py-1 rounded-md text-xs ${period === p ? 'bg-white/10 text-white' : 'text-slate-500'}`}
+            onClick={() => setPeriod(p)}
+          >
+            {PERIOD_LABELS[p]}
+          </button>
+        ))}
+      </div>
+
+      <div className="h-52 overflow-y-auto space-y-1">
+        {status === 'loading' && (
+          <div className="flex justify-center py-8">
+            <motion.div
+              className="w-6 h-6 border-2 border-cyan-400/30 border-t-cyan-400 rounded-full"
+              animate={{ rotate: 360 }}
+              transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+            />
+          </div>
+        )}
+        {status === 'error' && <p className="py-8 text-center text-xs text-slate-500">기록을 불러오지 못했습니다</p>}
+        {status === 'ready' && scores && scores.entries.length === 0 && (
+          <p className="py-8 text-center text-xs text-slate-500">아직 기록이 없습니다. 첫 기록에 도전하세요!</p>
+        )}
+        {status === 'ready' && scores?.entries.map(renderEntry)}
+        {status === 'ready' && meOutsideTop && scores?.me && (
+          <>
+            <p className="text-center text-[10px] text-slate-600">···</p>
+            {renderEntry(scores.me)}
+          </>
+        )}
+      </div>
+
+      {best && (
+        <div className="mt-2 grid grid-cols-3 gap-1 text-center">
+          <div className="bg-slate-800/50 rounded-lg p-1.5">
+            <p className="text-[9px] text-slate-500">내 최고 회전수</p>
+            <p className="text-sm font-bold text-cyan-400">{best.spins}</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-1.5">
+            <p className="text-[9px] text-slate-500">내 최고 RPS</p>
+            <p className="text-sm font-bold text-yellow-400">{formatRps(best.maxRps)}</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-1.5">
+            <p className="text-[9px] text-slate-500">내 최장 콤보</p>
+            <p className="text-sm font-bold text-orange-400">{best.maxCombo}s</p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
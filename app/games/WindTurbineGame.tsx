@@ -2,44 +2,64 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Wind, Trophy, BookOpen, RotateCcw, Zap, Clock } from 'lucide-react'
-
-interface WindTurbineGameProps {
-  isOpen: boolean
-  onClose: () => void
-  onEarnExp: (exp: number) => void
-}
+import { X, Wind, Trophy, BookOpen, RotateCcw, Zap, Clock, ListOrdered } from 'lucide-react'
+import type { GameComponentProps } from './registry'
+import { GameAllowanceInfo } from './GameAllowanceInfo'
+import { TurbineHighScores } from './TurbineHighScores'
+import { submitTurbineRound } from '../lib/api'
+import type { TurbineRecordResult, TurbineStatKey } from '../lib/types'
+import {
+  GAME_DURATION,
+  MAX_RPS,
+  MAX_TRACE_STROKES,
+  TURBINE_MODES,
+  TURBINE_MODE_IDS,
+  WIND_DURATION,
+  WIND_TORQUE,
+  advanceTurbine,
+  createTurbineSim,
+  dragTurbine,
+  encodeTurbineTrace,
+  getScheduledWind,
+  getTurbineResult,
+  getTurbineTimeLeft,
+  pressTurbine,
+  releaseTurbine,
+  roundAngle,
+  type TraceSample,
+  type TurbineClock,
+  type TurbineMode,
+  type TurbineWindKind,
+} from '../lib/turbine'
 
 // ==================== Constants ====================
-const GAME_DURATION = 30
-const SPINS_PER_EXP = 500
+// 물리/점수 규칙은 서버 검증과 공유 (app/lib/turbine.ts)
 const RPS_DISPLAY_BOOST = 1.2
 
-// 플라이휠 물리
-const INERTIA = 0.15
-const BASE_FRICTION = 0.97
-const HIGH_SPEED_DRAG = 0.012
-const MAX_RPS = 10
-
-// 동적 콤보 기준
-const COMBO_L1_RATIO = 0.80
-const COMBO_L2_RATIO = 0.90
-const COMBO_L3_RATIO = 0.95
-
-// Time Boost 설정
-const TIME_BOOST_THRESHOLD = 0.90 // 90% 이상
-const TIME_BOOST_DURATION = 1000 // 1초 유지
-const TIME_BOOST_BONUS = 0.10 // 10% 보너스
-
 // 히트박스
 const SNAP_INNER = 20
 const TRACK_OUTER = 60
 
-export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurbineGameProps) {
+// 입력 기록 최대 샘플 수 (넘으면 더 이상 입력을 받지 않음)
+const MAX_TRACE_SAMPLES = 12000
+
+// 남은 시간 확인 주기 (남은 시간은 경과 시각으로 계산하므로 주기는 표시/종료 지연에만 영향)
+const TIMER_TICK_MS = 100
+
+// 바람 종류별 표시 (화면 효과 색 / 안내 문구)
+const WIND_STYLES: Record<TurbineWindKind, { streak: string; badge: string; label: string }> = {
+  gust: { streak: 'via-green-400', badge: 'bg-green-500/20 border-green-400/50 text-green-400', label: `🌪️ WIND x${WIND_TORQUE.gust}` },
+  lull: { streak: 'via-slate-400', badge: 'bg-slate-500/20 border-slate-400/50 text-slate-300', label: `🍃 무풍 x${WIND_TORQUE.lull}` },
+  reverse: { streak: 'via-red-400', badge: 'bg-red-500/20 border-red-400/50 text-red-400', label: '🌀 역풍! 회전이 느려져요' },
+}
+
+export default function WindTurbineGame({ isOpen, onClose, onEarnExp, allowance }: GameComponentProps) {
   const [gameState, setGameState] = useState<'ready' | 'countdown' | 'playing' | 'finished'>('ready')
   const [countdown, setCountdown] = useState(3)
   const [showGuide, setShowGuide] = useState(true)
-  const [windActive, setWindActive] = useState(false)
+  const [mode, setMode] = useState<TurbineMode>('standard')
+  // 현재 부는 바람 (무작위 돌풍 또는 태풍 모드의 정해진 바람)
+  const [wind, setWind] = useState<TurbineWindKind | null>(null)
   const [sparks, setSparks] = useState<{id: number, x: number, y: number}[]>([])
   const [finalStats, setFinalStats] = useState({ spins: 0, avgRps: 0, maxRps: 0, maxCombo: 0, exp: 0, timeBoosts: 0 })
 
@@ -50,6 +70,10 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
   const [timeBoostActive, setTimeBoostActive] = useState(false)
   const [timeBoostFlash, setTimeBoostFlash] = useState(false)
 
+  // 기록 (개인 최고 기록 / 순위표)
+  const [showHighScores, setShowHighScores] = useState(false)
+  const [recordResult, setRecordResult] = useState<TurbineRecordResult | null>(null)
+
   // DOM Refs
   const containerRef = useRef<HTMLDivElement>(null)
   const bladesRef = useRef<HTMLDivElement>(null)
@@ -59,41 +83,48 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
   const comboGaugeRef = useRef<HTMLDivElement>(null)
   const mainContainerRef = useRef<HTMLDivElement>(null)
 
-  // Physics Refs (타이머와 완전 독립)
-  const rotationRef = useRef(0)
-  const velocityRef = useRef(0)
-  const torqueRef = useRef(0)
-  const totalRotRef = useRef(0)
-  const lastFrameRef = useRef(0)
-  const lastAngleRef = useRef<number | null>(null)
+  // Physics Refs (타이머와 완전 독립, 고정 간격 시뮬레이션)
+  const simRef = useRef(createTurbineSim())
   const pointerIdRef = useRef<number | null>(null)
   const isDraggingRef = useRef(false)
   const animationRef = useRef<number>()
 
   // 타이머 독립 Refs
-  const timeLeftRef = useRef(GAME_DURATION)
+  // 받은 Time Boost 보너스 시간 (초)
+  const bonusSecondsRef = useRef(0)
   const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const gameStartTimeRef = useRef<number>(0)
-
-  // 동적 난이도용 Refs
-  const maxRpsReachedRef = useRef(1)
-  const rpsHistoryRef = useRef<number[]>([])
-  const comboStartRef = useRef<number | null>(null)
-  const maxComboRef = useRef(0)
   const comboLevelRef = useRef(0) // 렌더링 없이 참조용
 
-  // Time Boost Refs
-  const timeBoostStartRef = useRef<number | null>(null)
-  const timeBoostCountRef = useRef(0)
-  const timeBoostUsedThisCycleRef = useRef(false)
-
   // Wind Refs
   const windActiveRef = useRef(false)
   const windTimeRef = useRef<number | null>(null)
   const windUsedRef = useRef(false)
-
-  // 현재 RPS Ref (타이머에서 참조용)
-  const currentRpsRef = useRef(0)
+  const windKindRef = useRef<TurbineWindKind | null>(null)
+
+  // 서버 검증용 입력 기록 (포인터 각도 + 시각)
+  const traceRef = useRef<TraceSample[][]>([])
+  const traceSizeRef = useRef(0)
+  const windWindowRef = useRef<{ start: number; end: number } | null>(null)
+  const roundRecordRef = useRef<{ mode: TurbineMode; trace: string; durationMs: number; windStart?: number; windEnd?: number }>({
+    mode: 'standard',
+    trace: '',
+    durationMs: 0,
+  })
+
+  // 남은 시간 / Time Boost 보너스 반영
+  const clockRef = useRef<TurbineClock>({
+    getTimeLeft: (time) => getTurbineTimeLeft(time, bonusSecondsRef.current),
+    addTime: (seconds) => {
+      bonusSecondsRef.current += seconds
+      setTimeBoostFlash(true)
+      navigator.vibrate?.([100, 50, 100])
+      setTimeout(() => setTimeBoostFlash(false), 500)
+    },
+  })
+
+  // 게임 시작 후 경과 시간 (ms, 입력 기록과 같은 단위)
+  const getElapsed = () => Math.round(performance.now() - gameStartTimeRef.current)
 
   // ==================== Coords ====================
   const getCoords = useCallback((x: number, y: number) => {
@@ -113,116 +144,64 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
     e.preventDefault()
     const { dist, angle } = getCoords(e.clientX, e.clientY)
     if (dist < SNAP_INNER || dist > TRACK_OUTER) return
+    if (traceSizeRef.current >= MAX_TRACE_SAMPLES || traceRef.current.length >= MAX_TRACE_STROKES) return
 
     navigator.vibrate?.([8])
     containerRef.current?.setPointerCapture(e.pointerId)
     pointerIdRef.current = e.pointerId
-    lastAngleRef.current = angle
     isDraggingRef.current = true
     setShowGuide(false)
+
+    const sample = { t: getElapsed(), angle: roundAngle(angle) }
+    advanceTurbine(simRef.current, sample.t, clockRef.current)
+    pressTurbine(simRef.current, sample.angle)
+    traceRef.current.push([sample])
+    traceSizeRef.current += 1
   }, [gameState, getCoords])
 
   const onMove = useCallback((e: React.PointerEvent) => {
     if (!isDraggingRef.current || pointerIdRef.current !== e.pointerId) return
     e.preventDefault()
 
+    if (traceSizeRef.current >= MAX_TRACE_SAMPLES) return
+
+    // 입력 직전까지 물리를 진행한 뒤 입력 적용 (서버 재현과 같은 순서)
     const { angle } = getCoords(e.clientX, e.clientY)
-    if (lastAngleRef.current === null) { lastAngleRef.current = angle; return }
-
-    let delta = angle - lastAngleRef.current
-    if (delta > 180) delta -= 360
-    if (delta < -180) delta += 360
-
-    if (delta > 0.2) {
-      const boost = windActiveRef.current ? 2.5 : 1
-      torqueRef.current += delta * INERTIA * boost
-    } else if (delta < -2) {
-      velocityRef.current *= 0.3
-      torqueRef.current = 0
+    const sample = { t: getElapsed(), angle: roundAngle(angle) }
+    advanceTurbine(simRef.current, sample.t, clockRef.current)
+    if (dragTurbine(simRef.current, sample.angle, windActiveRef.current) === 'brake') {
       navigator.vibrate?.([12])
     }
-    lastAngleRef.current = angle
+    traceRef.current[traceRef.current.length - 1]?.push(sample)
+    traceSizeRef.current += 1
   }, [getCoords])
 
   const onUp = useCallback((e: React.PointerEvent) => {
     if (pointerIdRef.current !== e.pointerId) return
     containerRef.current?.releasePointerCapture(e.pointerId)
     pointerIdRef.current = null
-    lastAngleRef.current = null
+    releaseTurbine(simRef.current)
     isDraggingRef.current = false
   }, [])
 
   // ==================== Game Loop (물리 + 렌더링만) ====================
-  const gameLoop = useCallback((timestamp: number) => {
+  const gameLoop = useCallback(() => {
     if (gameState !== 'playing') return
 
-    const dt = lastFrameRef.current ? Math.min((timestamp - lastFrameRef.current) / 16.67, 3) : 1
-    lastFrameRef.current = timestamp
-
-    // 물리 계산
-    velocityRef.current += torqueRef.current * 0.28 * dt
-    torqueRef.current *= Math.pow(0.5, dt)
-
-    const realRps = Math.abs(velocityRef.current) / 6
-    const drag = 1 - (HIGH_SPEED_DRAG * realRps * dt)
-    velocityRef.current *= Math.pow(BASE_FRICTION, dt) * Math.max(drag, 0.92)
-
-    if (Math.abs(velocityRef.current) < 0.05) velocityRef.current = 0
+    // 물리 계산 (고정 간격으로 현재 시각까지 진행)
+    const sim = simRef.current
+    advanceTurbine(sim, getElapsed(), clockRef.current)
 
-    rotationRef.current -= velocityRef.current * dt
-    totalRotRef.current += Math.abs(velocityRef.current) * dt
+    const currentRps = sim.currentRps
+    const newCombo = sim.comboLevel
+    setTimeBoostActive(sim.timeBoostActive)
 
-    const currentRps = Math.min(realRps, MAX_RPS)
-    currentRpsRef.current = currentRps // 타이머에서 참조할 수 있도록
-    rpsHistoryRef.current.push(currentRps)
-
-    // 최고 RPS 갱신
-    if (currentRps > maxRpsReachedRef.current) {
-      maxRpsReachedRef.current = currentRps
-    }
-
-    // 콤보 체크
-    const maxRps = maxRpsReachedRef.current
-    let newCombo = 0
-    if (currentRps >= maxRps * COMBO_L3_RATIO) newCombo = 3
-    else if (currentRps >= maxRps * COMBO_L2_RATIO) newCombo = 2
-    else if (currentRps >= maxRps * COMBO_L1_RATIO) newCombo = 1
-
-    // 콤보 시간 추적
-    if (newCombo > 0) {
-      if (comboStartRef.current === null) comboStartRef.current = Date.now()
-      const comboTime = (Date.now() - comboStartRef.current) / 1000
-      if (comboTime > maxComboRef.current) maxComboRef.current = comboTime
-    } else {
-      comboStartRef.current = null
-    }
-
-    // Time Boost 체크 (90% 이상 유지)
-    const rpsRatio = currentRps / maxRps
-    if (rpsRatio >= TIME_BOOST_THRESHOLD) {
-      if (timeBoostStartRef.current === null) {
-        timeBoostStartRef.current = Date.now()
-        timeBoostUsedThisCycleRef.current = false
-      } else if (!timeBoostUsedThisCycleRef.current) {
-        const boostDuration = Date.now() - timeBoostStartRef.current
-        if (boostDuration >= TIME_BOOST_DURATION) {
-          // Time Boost 발동!
-          const bonusTime = Math.ceil(timeLeftRef.current * TIME_BOOST_BONUS)
-          if (bonusTime > 0) {
-            timeLeftRef.current += bonusTime
-            timeBoostCountRef.current += 1
-            timeBoostUsedThisCycleRef.current = true
-            setTimeBoostFlash(true)
-            navigator.vibrate?.([100, 50, 100])
-            setTimeout(() => setTimeBoostFlash(false), 500)
-          }
-        }
-      }
-      setTimeBoostActive(true)
-    } else {
-      timeBoostStartRef.current = null
-      timeBoostUsedThisCycleRef.current = false
-      setTimeBoostActive(false)
+    // 바람 변경 (UI용)
+    const currentWind = windActiveRef.current ? 'gust' : getScheduledWind(sim.mode, sim.time)
+    if (currentWind !== windKindRef.current) {
+      windKindRef.current = currentWind
+      setWind(currentWind)
+      if (currentWind) navigator.vibrate?.([60, 30, 60])
     }
 
     // 콤보 레벨 변경 (UI용)
@@ -254,7 +233,7 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
 
     if (bladesRef.current) {
       const blur = displayRps > 6 ? 5 : displayRps > 4 ? 3 : displayRps > 2 ? 1 : 0
-      bladesRef.current.style.transform = `rotate(${rotationRef.current}deg)`
+      bladesRef.current.style.transform = `rotate(${sim.rotation}deg)`
       bladesRef.current.style.filter = `blur(${blur}px)`
     }
     if (rpmBarRef.current) {
@@ -269,10 +248,10 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
       rpmTextRef.current.textContent = displayRps.toFixed(1)
     }
     if (spinsRef.current) {
-      spinsRef.current.textContent = Math.floor(totalRotRef.current / 360).toString()
+      spinsRef.current.textContent = Math.floor(sim.totalRot / 360).toString()
     }
     if (comboGaugeRef.current) {
-      const gauge = Math.min(100, (currentRps / maxRps) * 100)
+      const gauge = Math.min(100, (currentRps / sim.maxRpsReached) * 100)
       comboGaugeRef.current.style.width = `${gauge}%`
       comboGaugeRef.current.style.background = glowColor
     }
@@ -280,25 +259,27 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
     animationRef.current = requestAnimationFrame(gameLoop)
   }, [gameState]) // comboLevel 의존성 제거!
 
-  // ==================== 독립 타이머 (1초마다 정확히 실행) ====================
+  // ==================== 독립 타이머 (경과 시각 기준) ====================
   useEffect(() => {
     if (gameState !== 'playing') return
 
-    // 게임 시작 시간 기록
-    gameStartTimeRef.current = Date.now()
+    // 게임 시작 시간 기록 (물리/입력 기록의 기준 시각)
+    gameStartTimeRef.current = performance.now()
 
-    // Wind: 5~25초 사이 발생
-    if (!windUsedRef.current && windTimeRef.current === null) {
+    // Wind: 5~25초 사이 발생 (정해진 바람이 있는 태풍 모드는 제외)
+    if (!TURBINE_MODES[simRef.current.mode].windEvents && !windUsedRef.current && windTimeRef.current === null) {
       windTimeRef.current = GAME_DURATION - (Math.random() * 20 + 5)
     }
 
-    // 타이머 시작 (완전 독립)
+    // 타이머 시작: 남은 시간은 입력 기록과 같은 시계(경과 시각)로 계산 (interval 지연이 쌓여도 서버 재현과 같음)
     timerIntervalRef.current = setInterval(() => {
-      timeLeftRef.current -= 1
-      const currentTime = timeLeftRef.current
+      // 탭이 백그라운드라 게임 루프가 멈춰 있어도 Time Boost 보너스가 반영되도록 물리를 먼저 진행
+      const elapsed = getElapsed()
+      advanceTurbine(simRef.current, elapsed, clockRef.current)
+      const currentTime = getTurbineTimeLeft(elapsed, bonusSecondsRef.current)
 
-      // UI 업데이트
-      setDisplayTime(currentTime)
+      // UI 업데이트 (같은 값이면 다시 렌더링하지 않음)
+      setDisplayTime(Math.max(currentTime, 0))
 
       // Wind check
       const wt = windTimeRef.current
@@ -306,13 +287,13 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
         if (currentTime <= wt && currentTime > wt - 5) {
           if (!windActiveRef.current) {
             windActiveRef.current = true
-            setWindActive(true)
-            navigator.vibrate?.([60, 30, 60])
+            const start = getElapsed()
+            windWindowRef.current = { start, end: start + WIND_DURATION * 1000 }
           }
-        } else if (currentTime <= wt - 5) {
+        } else if (currentTime <= wt - WIND_DURATION) {
           windActiveRef.current = false
           windUsedRef.current = true
-          setWindActive(false)
+          if (windWindowRef.current) windWindowRef.current.end = getElapsed()
         }
       }
 
@@ -321,27 +302,37 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
         if (timerIntervalRef.current) clearInterval(timerIntervalRef.current)
         if (animationRef.current) cancelAnimationFrame(animationRef.current)
 
-        const spins = Math.floor(totalRotRef.current / 360)
-        const avgRps = rpsHistoryRef.current.length > 0
-          ? rpsHistoryRef.current.reduce((a, b) => a + b, 0) / rpsHistoryRef.current.length : 0
-        const comboBonus = Math.floor(maxComboRef.current / 2)
-        const timeBoostBonus = timeBoostCountRef.current * 2
-        const exp = Math.floor(spins / SPINS_PER_EXP) + comboBonus + timeBoostBonus
+        const durationMs = getElapsed()
+        advanceTurbine(simRef.current, durationMs, clockRef.current)
+        const result = getTurbineResult(simRef.current)
+        const windWindow = windWindowRef.current
+        const record = {
+          mode: simRef.current.mode,
+          trace: encodeTurbineTrace(traceRef.current),
+          durationMs,
+          ...(windWindow ? { windStart: windWindow.start, windEnd: windWindow.end } : {}),
+        }
+        roundRecordRef.current = record
+        // 개인 최고 기록/순위표 반영 (서버가 입력 기록으로 재현한 값 기준, 실패해도 게임 결과는 그대로)
+        submitTurbineRound(record)
+          .then((result) => {
+            if (roundRecordRef.current === record) setRecordResult(result)
+          })
+          .catch(() => undefined)
 
         setFinalStats({
-          spins,
-          avgRps: Math.round(avgRps * RPS_DISPLAY_BOOST * 10) / 10,
-          maxRps: Math.round(maxRpsReachedRef.current * RPS_DISPLAY_BOOST * 10) / 10,
-          maxCombo: Math.round(maxComboRef.current * 10) / 10,
-          exp,
-          timeBoosts: timeBoostCountRef.current
+          spins: result.spins,
+          avgRps: Math.round(result.avgRps * RPS_DISPLAY_BOOST * 10) / 10,
+          maxRps: Math.round(result.maxRps * RPS_DISPLAY_BOOST * 10) / 10,
+          maxCombo: Math.round(result.maxCombo * 10) / 10,
+          exp: result.exp,
+          timeBoosts: result.timeBoosts
         })
         setGameState('finished')
       }
-    }, 1000)
+    }, TIMER_TICK_MS)
 
     // 게임 루프 시작
-    lastFrameRef.current = 0
     animationRef.current = requestAnimationFrame(gameLoop)
 
     return () => {
@@ -377,27 +368,23 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
   // ==================== Actions ====================
   const startCountdown = () => {
     // 모든 상태 초기화
-    rotationRef.current = 0
-    velocityRef.current = 0
-    torqueRef.current = 0
-    totalRotRef.current = 0
-    maxRpsReachedRef.current = 1
-    rpsHistoryRef.current = []
-    comboStartRef.current = null
-    maxComboRef.current = 0
+    simRef.current = createTurbineSim(mode)
     comboLevelRef.current = 0
-    timeLeftRef.current = GAME_DURATION
-    timeBoostStartRef.current = null
-    timeBoostCountRef.current = 0
-    timeBoostUsedThisCycleRef.current = false
-    currentRpsRef.current = 0
+    bonusSecondsRef.current = 0
+    traceRef.current = []
+    traceSizeRef.current = 0
+    windWindowRef.current = null
+    roundRecordRef.current = { mode, trace: '', durationMs: 0 }
+    setRecordResult(null)
+    setShowHighScores(false)
     windTimeRef.current = null
     windUsedRef.current = false
     windActiveRef.current = false
+    windKindRef.current = null
 
     setShowGuide(true)
     setComboLevel(0)
-    setWindActive(false)
+    setWind(null)
     setSparks([])
     setDisplayTime(GAME_DURATION)
     setShakeIntensity(0)
@@ -408,7 +395,10 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
   }
 
   const handleRecord = () => {
-    if (finalStats.exp > 0) onEarnExp(finalStats.exp)
+    // 서버가 입력 기록으로 물리를 재현해 회전수/EXP를 검증
+    if (finalStats.exp > 0) {
+      onEarnExp(finalStats.exp, { spins: finalStats.spins, ...roundRecordRef.current })
+    }
     onClose()
     setGameState('ready')
   }
@@ -416,6 +406,11 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
   if (!isOpen) return null
 
   const comboColors = ['#00D4FF', '#FBBF24', '#F97316', '#EF4444']
+  const isNewRecord = (key: TurbineStatKey) => recordResult?.newRecords.includes(key) ?? false
+  const formatRps = (rps: number) => Math.round(rps * RPS_DISPLAY_BOOST * 10) / 10
+  const toPercent = (ratio: number) => Math.round(ratio * 100)
+  const modeConfig = TURBINE_MODES[mode]
+  const best = recordResult?.personalBest
   const glowColor = comboColors[comboLevel]
   const isLowTime = displayTime <= 5 && displayTime > 0 && gameState === 'playing'
 
@@ -471,11 +466,11 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
         </AnimatePresence>
 
         {/* Wind Effect */}
-        {windActive && (
+        {wind && (
           <div className="absolute inset-0 overflow-hidden pointer-events-none z-20">
-            {[...Array(8)].map((_, i) => (
-              <div key={i} className="absolute h-1 bg-gradient-to-r from-transparent via-green-400 to-transparent animate-wind"
-                style={{ top: `${15 + i * 10}%`, animationDelay: `${i * 0.1}s` }} />
+            {[...Array(wind === 'lull' ? 3 : 8)].map((_, i) => (
+              <div key={i} className={`absolute h-1 bg-gradient-to-r from-transparent ${WIND_STYLES[wind].streak} to-transparent ${wind === 'reverse' ? 'animate-wind-reverse' : 'animate-wind'}`}
+                style={{ top: `${15 + i * (wind === 'lull' ? 25 : 10)}%`, animationDelay: `${i * 0.1}s` }} />
             ))}
           </div>
         )}
@@ -527,12 +522,36 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
               </div>
               <h3 className="text-xl font-bold text-white mb-2">30초 버스트!</h3>
               <p className="text-slate-400 text-sm mb-2">자신의 최고 속도에 도전하세요</p>
-              <div className="text-xs text-slate-500 mb-4 space-y-1">
-                <p>✨ 최고속도 80% = <span className="text-yellow-400">x1.5</span></p>
-                <p>🔥 최고속도 90% = <span className="text-orange-400">x2.0</span></p>
-                <p>⚡ 최고속도 95% = <span className="text-red-400">x3.0</span></p>
-                <p className="mt-2 text-green-400">⏱️ 90% 이상 1초 유지 = <span className="font-bold">Time Boost!</span></p>
+              <GameAllowanceInfo allowance={allowance} />
+              <div className="grid grid-cols-3 gap-1 p-1 mb-1 bg-white/5 rounded-xl">
+                {TURBINE_MODE_IDS.map((id) => (
+                  <button
+                    key={id}
+                    onClick={() => setMode(id)}
+                    className={`py-1.5 rounded-lg text-sm ${mode === id ? 'bg-cyan-500/25 text-white font-bold' : 'text-slate-400'}`}
+                  >
+                    {TURBINE_MODES[id].name}
+                    <span className="block text-[10px] font-normal text-slate-400">EXP x{TURBINE_MODES[id].expMultiplier}</span>
+                  </button>
+                ))}
               </div>
+              <p className="text-[11px] text-slate-400 mb-3">{modeConfig.description}</p>
+              {showHighScores ? (
+                <TurbineHighScores mode={mode} rpsDisplayBoost={RPS_DISPLAY_BOOST} />
+              ) : (
+                <div className="text-xs text-slate-500 mb-4 space-y-1">
+                  <p>✨ 최고속도 {toPercent(modeConfig.comboRatios[0])}% = <span className="text-yellow-400">x1.5</span></p>
+                  <p>🔥 최고속도 {toPercent(modeConfig.comboRatios[1])}% = <span className="text-orange-400">x2.0</span></p>
+                  <p>⚡ 최고속도 {toPercent(modeConfig.comboRatios[2])}% = <span className="text-red-400">x3.0</span></p>
+                  <p className="mt-2 text-green-400">⏱️ 90% 이상 1초 유지 = <span className="font-bold">Time Boost!</span></p>
+                  {modeConfig.windEvents && (
+                    <p className="text-red-400">🌀 역풍이 불 때는 회전이 느려지고, 🍃 무풍일 때는 힘이 덜 들어가요</p>
+                  )}
+                </div>
+              )}
+              <button onClick={() => setShowHighScores(v => !v)} className="w-full py-2 mb-2 rounded-xl bg-white/10 text-slate-300 text-sm">
+                <ListOrdered className="w-4 h-4 inline mr-1.5" />{showHighScores ? '게임 방법 보기' : '기록 · 순위표'}
+              </button>
               <button onClick={startCountdown} className="w-full py-4 rounded-xl bg-gradient-to-r from-blue-500 to-cyan-400 text-white font-bold text-lg">
                 게임 시작!
               </button>
@@ -581,9 +600,9 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
               )}
 
               {/* Wind Indicator */}
-              {windActive && !timeBoostActive && (
-                <div className="mb-2 py-1.5 rounded-lg bg-green-500/20 border border-green-400/50 text-center">
-                  <span className="text-green-400 font-bold text-sm">🌪️ WIND x2.5</span>
+              {wind && !timeBoostActive && (
+                <div className={`mb-2 py-1.5 rounded-lg border text-center ${WIND_STYLES[wind].badge}`}>
+                  <span className="font-bold text-sm">{WIND_STYLES[wind].label}</span>
                 </div>
               )}
 
@@ -680,29 +699,42 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
           {gameState === 'finished' && (
             <div className="p-6 text-center">
               <Trophy className="w-12 h-12 text-yellow-400 mx-auto mb-3" />
-              <h3 className="text-xl font-bold text-white mb-4">30초 완료!</h3>
+              <h3 className="text-xl font-bold text-white mb-1">30초 완료!</h3>
+              <p className="text-xs text-slate-400 mb-4">{modeConfig.name} 모드 · EXP x{modeConfig.expMultiplier}</p>
+              {recordResult && recordResult.newRecords.length > 0 && (
+                <motion.div
+                  className="mb-3 py-1.5 rounded-lg bg-yellow-400/15 border border-yellow-400/50"
+                  initial={{ scale: 0.6, opacity: 0 }}
+                  animate={{ scale: [0.6, 1.1, 1], opacity: 1 }}
+                  transition={{ duration: 0.5 }}
+                >
+                  <p className="text-yellow-300 font-black tracking-widest">🏆 NEW RECORD!</p>
+                </motion.div>
+              )}
               <div className="bg-white/5 rounded-xl p-3 mb-4 grid grid-cols-2 gap-2 text-sm">
-                <div className="bg-slate-800/50 rounded-lg p-2">
-                  <p className="text-[10px] text-slate-500">총 회전수</p>
-                  <p className="text-lg font-bold text-cyan-400">{finalStats.spins}</p>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-2">
-                  <p className="text-[10px] text-slate-500">최고 RPS</p>
-                  <p className="text-lg font-bold text-yellow-400">{finalStats.maxRps}</p>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-2">
-                  <p className="text-[10px] text-slate-500">평균 RPS</p>
-                  <p className="text-lg font-bold text-blue-400">{finalStats.avgRps}</p>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-2">
-                  <p className="text-[10px] text-slate-500">최장 콤보</p>
-                  <p className="text-lg font-bold text-orange-400">{finalStats.maxCombo}s</p>
-                </div>
+                {([
+                  { key: 'spins', label: '총 회전수', value: finalStats.spins, best: best?.spins, color: 'text-cyan-400' },
+                  { key: 'maxRps', label: '최고 RPS', value: finalStats.maxRps, best: best && formatRps(best.maxRps), color: 'text-yellow-400' },
+                  { key: 'avgRps', label: '평균 RPS', value: finalStats.avgRps, best: best && formatRps(best.avgRps), color: 'text-blue-400' },
+                  { key: 'maxCombo', label: '최장 콤보', value: `${finalStats.maxCombo}s`, best: best && `${best.maxCombo}s`, color: 'text-orange-400' },
+                ] as const).map(stat => (
+                  <div key={stat.key} className={`relative bg-slate-800/50 rounded-lg p-2 ${isNewRecord(stat.key) ? 'ring-1 ring-yellow-400/70' : ''}`}>
+                    {isNewRecord(stat.key) && (
+                      <span className="absolute -top-1.5 -right-1.5 bg-yellow-400 text-black text-[8px] font-black px-1 rounded">NEW</span>
+                    )}
+                    <p className="text-[10px] text-slate-500">{stat.label}</p>
+                    <p className={`text-lg font-bold ${stat.color}`}>{stat.value}</p>
+                    {stat.best !== undefined && stat.best !== null && (
+                      <p className="text-[9px] text-slate-500">최고 {stat.best}</p>
+                    )}
+                  </div>
+                ))}
               </div>
               {finalStats.timeBoosts > 0 && (
                 <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-2 mb-4">
                   <p className="text-green-400 text-sm font-bold">
                     ⏱️ Time Boost {finalStats.timeBoosts}회 발동! (+{finalStats.timeBoosts * 2} EXP)
+                    {isNewRecord('timeBoosts') && <span className="ml-1 text-yellow-300">NEW</span>}
                   </p>
                 </div>
               )}
@@ -734,6 +766,10 @@ export default function WindTurbineGame({ isOpen, onClose, onEarnExp }: WindTurb
           animation: wind 1.5s linear infinite;
           width: 30%;
         }
+        .animate-wind-reverse {
+          animation: wind 1.5s linear infinite reverse;
+          width: 30%;
+        }
       `}</style>
     </AnimatePresence>
   )
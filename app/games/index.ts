@@ -1,34 +1,20 @@
 // ==================== Games Index ====================
-// 새로운 게임을 추가할 때 이 파일에 export 추가하세요
+// 새로운 게임을 추가할 때:
+//   1) app/lib/games.ts 의 GAMES_LIST 에 메타데이터/EXP 정책 추가
+//   2) 앱 내 게임이면 ./registry.ts 의 GAME_COMPONENTS 에 같은 id로 컴포넌트 등록
+//   3) 외부 게임이면 url, EXP 연동 시 bridge 설정 (결과 전달 방식은 app/server/game-bridge.ts)
 
+export {
+  GAMES_LIST,
+  getGame,
+  getGamesBySection,
+  getGameAllowance,
+  type GameInfo,
+  type GameExpPolicy,
+  type GameAllowance,
+  type GameBridgePolicy,
+} from '../lib/games'
+export { GAME_COMPONENTS, type GameComponentProps, type GameRoundStats } from './registry'
+export { GameHost } from './GameHost'
 export { default as WindTurbineGame } from './WindTurbineGame'
-
-// 게임 메타데이터 (목록 표시용)
-export interface GameInfo {
-  id: string
-  name: string
-  description: string
-  icon: string
-  color: string
-  available: boolean
-}
-
-export const GAMES_LIST: GameInfo[] = [
-  {
-    id: 'wind-turbine',
-    name: '풍력 끙차돌리기',
-    description: '발전기를 돌려 EXP를 획득하세요!',
-    icon: 'Wind',
-    color: 'from-cyan-500 to-blue-500',
-    available: true,
-  },
-  // 새 게임 추가 시 여기에 메타데이터 추가
-  // {
-  //   id: 'solar-catch',
-  //   name: '태양광 모으기',
-  //   description: '태양빛을 모아 에너지를 생산하세요!',
-  //   icon: 'Sun',
-  //   color: 'from-yellow-500 to-orange-500',
-  //   available: false,
-  // },
-]
+export { default as SolarCatchGame } from './SolarCatchGame'
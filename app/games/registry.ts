@@ -0,0 +1,24 @@
+import type { ComponentType } from 'react'
+import WindTurbineGame from './WindTurbineGame'
+import SolarCatchGame from './SolarCatchGame'
+import type { GameAllowance } from '../lib/games'
+
+// ==================== Game Registry ====================
+// 앱 내 게임 컴포넌트 등록 (id는 app/lib/games.ts 의 GAMES_LIST 와 동일)
+
+// 게임 한 판의 기록 (뱃지/기록 집계 + 서버 검증용, 예: { spins: 420, trace: '...' })
+export type GameRoundStats = Record<string, number | string>
+
+// 모든 앱 내 게임 컴포넌트가 따르는 계약
+export interface GameComponentProps {
+  isOpen: boolean
+  onClose: () => void
+  onEarnExp: (exp: number, stats: GameRoundStats) => void
+  // 오늘 남은 플레이/EXP (준비 화면 표시용, 서버 현황을 모르면 없음)
+  allowance?: GameAllowance | null
+}
+
+export const GAME_COMPONENTS: Record<string, ComponentType<GameComponentProps>> = {
+  'wind-turbine': WindTurbineGame,
+  'solar-catch': SolarCatchGame,
+}
@@ -1,10 +1,20 @@
 import type { Metadata, Viewport } from 'next'
 import './globals.css'
+import { ServiceWorkerRegistrar } from './components/ServiceWorkerRegistrar'
 
 export const metadata: Metadata = {
   title: 'KEPCO AI ZONE',
   description: '(비공식) KN AI 혁신 플랫폼',
   manifest: '/manifest.json',
+  icons: {
+    icon: '/icons/icon-192.png',
+    apple: '/icons/apple-touch-icon.png',
+  },
+  appleWebApp: {
+    capable: true,
+    title: 'AI ZONE',
+    statusBarStyle: 'black-translucent',
+  },
 }
 
 export const viewport: Viewport = {
@@ -24,6 +34,7 @@ export default function RootLayout({
     <html lang="ko">
       <body className="antialiased">
         {children}
+        <ServiceWorkerRegistrar />
       </body>
     </html>
   )
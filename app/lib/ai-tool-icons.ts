@@ -0,0 +1,31 @@
+import dynamicIconImports from 'lucide-react/dynamicIconImports'
+
+// ==================== AI Tool Icons ====================
+// AI TOOL 카드 아이콘은 lucide 아이콘 이름(kebab-case, 예: book-open)으로 지정합니다.
+// dynamicIconImports 로 쓰는 아이콘만 따로 불러오므로, 전체 아이콘 중 어느 이름이든 번들 크기와 상관없이 쓸 수 있습니다.
+// 이전에 저장한 컴포넌트 이름(BookOpen, Code2 등)도 같은 아이콘으로 읽습니다.
+
+export type AIToolIconName = keyof typeof dynamicIconImports
+
+export const AI_TOOL_ICON_NAMES = Object.keys(dynamicIconImports) as AIToolIconName[]
+
+// lucide에서 이름이 바뀐 이전 아이콘
+const RENAMED_ICONS: Record<string, AIToolIconName> = {
+  'code-2': 'code-xml',
+  'wand-2': 'wand-sparkles',
+}
+
+const isIconName = (name: string): name is AIToolIconName => Object.prototype.hasOwnProperty.call(dynamicIconImports, name)
+
+// 아이콘 이름 정리 (컴포넌트 이름 → kebab-case). 없는 아이콘이면 null
+export const toAIToolIconName = (name: string): AIToolIconName | null => {
+  const kebab = name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([a-zA-Z])(\d)/g, '$1-$2')
+    .toLowerCase()
+  const renamed = RENAMED_ICONS[kebab] ?? kebab
+  return isIconName(renamed) ? renamed : null
+}
+
+export const isAIToolIcon = (name: string): boolean => toAIToolIconName(name) !== null
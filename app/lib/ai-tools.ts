@@ -0,0 +1,48 @@
+// ==================== AI Tools ====================
+// AI TOOL 카드 목록. 운영자 콘솔에서 수정하고(db.aiTools) 대시보드는 /api/config 로 읽습니다.
+// 서버는 같은 목록으로 도구별 하루 1회 EXP를 검증합니다.
+
+// Tailwind는 소스에 있는 클래스만 생성하므로 색상은 정해진 팔레트에서 고름
+export type AIToolColor = 'blue' | 'cyan' | 'teal' | 'green' | 'yellow' | 'orange' | 'red' | 'pink' | 'fuchsia' | 'purple' | 'violet' | 'indigo'
+
+export const AI_TOOL_COLORS: Record<AIToolColor, { bgClass: string; hoverShadow: string }> = {
+  blue: { bgClass: 'bg-blue-500/20 hover:bg-blue-500/30', hoverShadow: 'rgba(59, 130, 246, 0.4)' },
+  cyan: { bgClass: 'bg-cyan-500/20 hover:bg-cyan-500/30', hoverShadow: 'rgba(6, 182, 212, 0.4)' },
+  teal: { bgClass: 'bg-teal-500/20 hover:bg-teal-500/30', hoverShadow: 'rgba(20, 184, 166, 0.4)' },
+  green: { bgClass: 'bg-green-500/20 hover:bg-green-500/30', hoverShadow: 'rgba(34, 197, 94, 0.4)' },
+  yellow: { bgClass: 'bg-yellow-500/20 hover:bg-yellow-500/30', hoverShadow: 'rgba(234, 179, 8, 0.4)' },
+  orange: { bgClass: 'bg-orange-500/20 hover:bg-orange-500/30', hoverShadow: 'rgba(249, 115, 22, 0.4)' },
+  red: { bgClass: 'bg-red-500/20 hover:bg-red-500/30', hoverShadow: 'rgba(239, 68, 68, 0.4)' },
+  pink: { bgClass: 'bg-pink-500/20 hover:bg-pink-500/30', hoverShadow: 'rgba(236, 72, 153, 0.4)' },
+  fuchsia: { bgClass: 'bg-fuchsia-500/20 hover:bg-fuchsia-500/30', hoverShadow: 'rgba(217, 70, 239, 0.4)' },
+  purple: { bgClass: 'bg-purple-500/20 hover:bg-purple-500/30', hoverShadow: 'rgba(168, 85, 247, 0.4)' },
+  violet: { bgClass: 'bg-violet-500/20 hover:bg-violet-500/30', hoverShadow: 'rgba(139, 92, 246, 0.4)' },
+  indigo: { bgClass: 'bg-indigo-500/20 hover:bg-indigo-500/30', hoverShadow: 'rgba(99, 102, 241, 0.4)' },
+}
+
+export interface AITool {
+  id: string
+  name: string
+  category: string
+  description: string
+  url: string
+  // lucide 아이콘 이름 (kebab-case, 예: book-open, https://lucide.dev/icons)
+  icon: string
+  color: AIToolColor
+  // 사내 사용 승인 여부 (미승인 도구는 카드에 표시)
+  approved: boolean
+}
+
+export const DEFAULT_AI_TOOLS: AITool[] = [
+  // 자료조사
+  { id: 'notebooklm', name: 'NotebookLM', category: '자료조사', description: '올린 자료를 근거로 요약·질의응답', url: 'https://notebooklm.google/', icon: 'book-open', color: 'blue', approved: true },
+  // 바이브코딩 (4개)
+  { id: 'claude-ai', name: 'Claude AI', category: '바이브코딩', description: '대화로 코드·문서 작성', url: 'https://claude.ai/new', icon: 'code-xml', color: 'purple', approved: true },
+  { id: 'google-ai-studio', name: 'Google AI Studio', category: '바이브코딩', description: 'Gemini 모델로 앱 프로토타입 만들기', url: 'https://aistudio.google.com/', icon: 'code-xml', color: 'violet', approved: true },
+  { id: 'bolt-new', name: 'Bolt.new', category: '바이브코딩', description: '브라우저에서 웹앱 생성·배포', url: 'https://bolt.new/', icon: 'code-xml', color: 'indigo', approved: true },
+  { id: 'cursor-ai', name: 'Cursor AI', category: '바이브코딩', description: 'AI 코드 에디터', url: 'https://cursor.com/agents', icon: 'code-xml', color: 'fuchsia', approved: true },
+  // 영상생성
+  { id: 'invideo', name: 'Invideo', category: '영상생성', description: '대본으로 홍보 영상 만들기', url: 'https://ai.invideo.io', icon: 'video', color: 'red', approved: true },
+  // 음악생성
+  { id: 'suno', name: 'Suno AI', category: '음악생성', description: '가사와 분위기로 음악 만들기', url: 'https://suno.com/', icon: 'music', color: 'green', approved: true },
+]
@@ -0,0 +1,341 @@
+import type { Announcement, AppNotification, AttendanceCalendar, DailyExpSummary, ExpGrantRequest, ExpGrantResult, GameBridgeResult, GameResultCheck, GameSessionTicket, Leaderboard, LeaderboardPeriod, ProfileOverview, PromptCheckResult, PromptTemplateItem, PushPreferences, TurbineHighScores, TurbineRecordPeriod, TurbineRecordResult, UserData } from './types'
+import type { TimeSlot } from './exp-rules'
+import type { Site } from './sites'
+import type { BadgeProgress } from './badges'
+import type { AppConfig } from './config'
+import type { TurbineMode } from './turbine'
+import type { PromptCheckSummary, PromptRule, PromptRulePack } from './prompt-security'
+import type { AITool } from './ai-tools'
+import type { ConsentLogEntry, ConsentRuleItem, ConsentRules } from './security-consent'
+
+// ==================== API Client ====================
+// 브라우저에서 서버 route handler를 호출하는 헬퍼
+
+const USER_ID_KEY = 'kepco_ai_zone_user_id'
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+const createId = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+  // http(비보안 컨텍스트)에서는 randomUUID가 없으므로 직접 생성
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// 기기별 익명 사용자 ID (최초 접속 시 발급)
+export const getUserId = (): string => {
+  let userId = localStorage.getItem(USER_ID_KEY)
+  if (!userId) {
+    userId = createId()
+    localStorage.setItem(USER_ID_KEY, userId)
+  }
+  return userId
+}
+
+// 다른 기기의 연동 코드로 사용자 ID 교체
+export const setUserId = (userId: string) => {
+  localStorage.setItem(USER_ID_KEY, userId)
+}
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-user-id': getUserId(),
+      ...init.headers,
+    },
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new ApiError(response.status, body.error || `요청 실패 (${response.status})`)
+  }
+  return body as T
+}
+
+// ==================== Profile ====================
+export const fetchProfile = async (): Promise<UserData | null> => {
+  const { profile } = await request<{ profile: UserData | null }>('/api/profile')
+  return profile
+}
+
+export const saveProfile = async (data: UserData): Promise<UserData> => {
+  const { profile } = await request<{ profile: UserData }>('/api/profile', {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  })
+  return profile
+}
+
+export const deleteProfile = async (): Promise<void> => {
+  await request('/api/profile', { method: 'DELETE' })
+}
+
+export const fetchProfileOverview = () => request<ProfileOverview>('/api/profile/overview')
+
+// ==================== EXP ====================
+export const fetchExpSummary = () =>
+  request<{ totalExp: number; level: number; badges: number; today: DailyExpSummary }>('/api/exp')
+
+// userId: 오프라인 대기열 이벤트는 저장할 때의 사용자로 전송 (그 사이 연동 코드 복원/초기화로 바뀔 수 있음)
+export const grantExp = (grantRequest: ExpGrantRequest, userId: string = getUserId()) =>
+  request<ExpGrantResult>('/api/exp', {
+    method: 'POST',
+    headers: { 'x-user-id': userId },
+    body: JSON.stringify(grantRequest),
+  })
+
+// ==================== NFC ====================
+export const verifyNfcToken = (token: string) =>
+  request<{ valid: boolean; tagId?: string; message?: string }>('/api/nfc/verify', {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  })
+
+// ==================== External Games ====================
+export const createGameSession = (gameId: string) =>
+  request<GameSessionTicket>('/api/games/session', {
+    method: 'POST',
+    body: JSON.stringify({ gameId }),
+  })
+
+export const verifyGameResult = (result: GameBridgeResult) =>
+  request<GameResultCheck>('/api/games/verify', {
+    method: 'POST',
+    body: JSON.stringify(result),
+  })
+
+export const fetchTurbineHighScores = (period: TurbineRecordPeriod, mode: TurbineMode) =>
+  request<TurbineHighScores>(`/api/games/turbine/records?period=${period}&mode=${mode}`)
+
+export const submitTurbineRound = (round: {
+  mode: TurbineMode
+  trace: string
+  durationMs: number
+  windStart?: number
+  windEnd?: number
+}) =>
+  request<TurbineRecordResult>('/api/games/turbine/records', {
+    method: 'POST',
+    body: JSON.stringify(round),
+  })
+
+// ==================== Prompt Security ====================
+// 기기에서 마친 검사의 요약만 기록 (원문은 보내지 않음)
+export const recordPromptCheck = (summary: PromptCheckSummary) =>
+  request<PromptCheckResult>('/api/prompt-check', {
+    method: 'POST',
+    body: JSON.stringify(summary),
+  })
+
+export const fetchPromptRulePack = async (): Promise<PromptRulePack> => {
+  const { promptRulePack } = await request<{ promptRulePack: PromptRulePack }>('/api/prompt-check/rules')
+  return promptRulePack
+}
+
+// ==================== Prompt Templates ====================
+export const fetchPromptTemplates = async (): Promise<PromptTemplateItem[]> => {
+  const { templates } = await request<{ templates: PromptTemplateItem[] }>('/api/prompt-templates')
+  return templates
+}
+
+export const setPromptTemplateFavorite = async (templateId: string, favorite: boolean): Promise<PromptTemplateItem[]> => {
+  const { templates } = await request<{ templates: PromptTemplateItem[] }>('/api/prompt-templates', {
+    method: 'PATCH',
+    body: JSON.stringify({ templateId, favorite }),
+  })
+  return templates
+}
+
+export const recordPromptTemplateUse = async (templateId: string): Promise<PromptTemplateItem[]> => {
+  const { templates } = await request<{ templates: PromptTemplateItem[] }>('/api/prompt-templates', {
+    method: 'POST',
+    body: JSON.stringify({ templateId }),
+  })
+  return templates
+}
+
+// ==================== Sites ====================
+export const fetchSites = async (): Promise<Site[]> => {
+  const { sites } = await request<{ sites: Site[] }>('/api/sites')
+  return sites
+}
+
+// ==================== Attendance ====================
+export const fetchAttendance = (month: string) =>
+  request<AttendanceCalendar>(`/api/attendance?month=${month}`)
+
+// ==================== Notifications ====================
+export interface NotificationInbox {
+  notifications: AppNotification[]
+  unreadCount: number
+}
+
+export const fetchNotifications = () => request<NotificationInbox>('/api/notifications')
+
+// ids 생략 시 전체 읽음
+export const markNotificationsRead = (ids?: string[]) =>
+  request<NotificationInbox>('/api/notifications', {
+    method: 'PATCH',
+    body: JSON.stringify({ ids }),
+  })
+
+// ==================== Web Push ====================
+// endpoint 생략 시 VAPID 공개키만 조회
+export const fetchPushPreferences = (endpoint?: string) =>
+  request<PushPreferences>(
+    endpoint ? `/api/push/subscription?endpoint=${encodeURIComponent(endpoint)}` : '/api/push/subscription'
+  )
+
+export const savePushSubscription = (subscription: PushSubscriptionJSON, slots: TimeSlot[]) =>
+  request<PushPreferences>('/api/push/subscription', {
+    method: 'PUT',
+    body: JSON.stringify({ subscription, slots }),
+  })
+
+export const deletePushSubscription = async (endpoint: string): Promise<void> => {
+  await request(`/api/push/subscription?endpoint=${encodeURIComponent(endpoint)}`, { method: 'DELETE' })
+}
+
+// ==================== Badges ====================
+export const fetchBadges = async (): Promise<BadgeProgress[]> => {
+  const { badges } = await request<{ badges: BadgeProgress[] }>('/api/badges')
+  return badges
+}
+
+// ==================== Leaderboard ====================
+export const fetchLeaderboard = (period: LeaderboardPeriod) =>
+  request<Leaderboard>(`/api/leaderboard?period=${period}`)
+
+// ==================== Config ====================
+export const fetchAppConfig = () => request<{ config: AppConfig; aiTools: AITool[]; consentRules: ConsentRules }>('/api/config')
+
+// ==================== AI Tools ====================
+export const fetchToolFavorites = async (): Promise<string[]> => {
+  const { favorites } = await request<{ favorites: string[] }>('/api/ai-tools/favorites')
+  return favorites
+}
+
+export const setToolFavorite = async (toolId: string, pinned: boolean): Promise<string[]> => {
+  const { favorites } = await request<{ favorites: string[] }>('/api/ai-tools/favorites', {
+    method: 'PUT',
+    body: JSON.stringify({ toolId, pinned }),
+  })
+  return favorites
+}
+
+// ==================== Security Consent ====================
+export const fetchConsentState = () =>
+  request<{ consentedVersion: number | null; currentVersion: number }>('/api/consents')
+
+export const recordConsent = async (toolId: string, rulesVersion: number): Promise<ConsentLogEntry> => {
+  const { consent } = await request<{ consent: ConsentLogEntry }>('/api/consents', {
+    method: 'POST',
+    body: JSON.stringify({ toolId, rulesVersion }),
+  })
+  return consent
+}
+
+// ==================== Admin ====================
+// 운영자 콘솔 전용 (x-admin-password 헤더)
+const adminRequest = <T>(path: string, password: string, init: RequestInit = {}) =>
+  request<T>(path, {
+    ...init,
+    headers: { 'x-admin-password': password, ...init.headers },
+  })
+
+export const fetchAdminConfig = (password: string) =>
+  adminRequest<{ config: AppConfig; sites: Site[]; promptRulePack: PromptRulePack; aiTools: AITool[]; consentRules: ConsentRules }>(
+    '/api/admin/config',
+    password,
+  )
+
+export const saveAdminConfig = async (password: string, config: AppConfig): Promise<AppConfig> => {
+  const { config: saved } = await adminRequest<{ config: AppConfig }>('/api/admin/config', password, {
+    method: 'PUT',
+    body: JSON.stringify(config),
+  })
+  return saved
+}
+
+export const saveAdminAITools = async (password: string, aiTools: AITool[]): Promise<AITool[]> => {
+  const { aiTools: saved } = await adminRequest<{ aiTools: AITool[] }>('/api/admin/ai-tools', password, {
+    method: 'PUT',
+    body: JSON.stringify({ aiTools }),
+  })
+  return saved
+}
+
+export const saveAdminConsentRules = async (
+  password: string,
+  items: ConsentRuleItem[],
+  forceReconsent: boolean
+): Promise<ConsentRules> => {
+  const { consentRules } = await adminRequest<{ consentRules: ConsentRules }>('/api/admin/consent-rules', password, {
+    method: 'PUT',
+    body: JSON.stringify({ items, forceReconsent }),
+  })
+  return consentRules
+}
+
+// 동의 기록 파일 (CSV/JSON) - JSON 응답이 아니므로 request 대신 직접 받음
+export const downloadConsentLogs = async (password: string, from: string, to: string, format: 'csv' | 'json'): Promise<Blob> => {
+  const response = await fetch(`/api/admin/consents?${new URLSearchParams({ from, to, format }).toString()}`, {
+    headers: { 'x-admin-password': password },
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new ApiError(response.status, body.error || `요청 실패 (${response.status})`)
+  }
+  return response.blob()
+}
+
+export const saveAdminPromptRules = async (password: string, rules: PromptRule[]): Promise<PromptRulePack> => {
+  const { promptRulePack } = await adminRequest<{ promptRulePack: PromptRulePack }>('/api/admin/prompt-rules', password, {
+    method: 'PUT',
+    body: JSON.stringify({ rules }),
+  })
+  return promptRulePack
+}
+
+export const saveAdminSites = async (password: string, sites: Site[]): Promise<Site[]> => {
+  const { sites: saved } = await adminRequest<{ sites: Site[] }>('/api/admin/sites', password, {
+    method: 'PUT',
+    body: JSON.stringify({ sites }),
+  })
+  return saved
+}
+
+export interface SiteAttendance {
+  siteId: string | null
+  name: string
+  checkIns: number
+  users: number
+}
+
+export const fetchSiteAttendance = (password: string, from: string, to: string) =>
+  adminRequest<{ from: string; to: string; attendance: SiteAttendance[] }>(
+    `/api/sites/attendance?${new URLSearchParams({ from, to }).toString()}`,
+    password,
+  )
+
+export const fetchAnnouncements = async (password: string): Promise<Announcement[]> => {
+  const { announcements } = await adminRequest<{ announcements: Announcement[] }>('/api/admin/announcements', password)
+  return announcements
+}
+
+export const postAnnouncement = async (password: string, title: string, body: string): Promise<Announcement> => {
+  const { announcement } = await adminRequest<{ announcement: Announcement }>('/api/admin/announcements', password, {
+    method: 'POST',
+    body: JSON.stringify({ title, body }),
+  })
+  return announcement
+}
+
+export const deleteAnnouncement = async (password: string, id: string): Promise<void> => {
+  await adminRequest(`/api/admin/announcements?id=${encodeURIComponent(id)}`, password, { method: 'DELETE' })
+}
@@ -0,0 +1,103 @@
+// ==================== Badges ====================
+// 뱃지 카탈로그. 서버가 EXP 지급 때마다 진행도를 평가해 달성한 뱃지를 지급합니다.
+
+export type BadgeId =
+  | 'first-check-in'
+  | 'golden-pass'
+  | 'streak-7'
+  | 'streak-30'
+  | 'ai-explorer'
+  | 'security-guardian'
+  | 'turbine-1000'
+  | 'level-10'
+
+// 뱃지 평가에 쓰는 누적 통계 (원장에서 계산)
+export interface BadgeStats {
+  checkIns: number
+  nfcCheckIns: number
+  longestStreak: number
+  aiToolsTried: number
+  aiToolsTotal: number
+  aiClicks: number
+  turbineSpins: number
+  level: number
+}
+
+export interface BadgeDefinition {
+  id: BadgeId
+  name: string
+  description: string
+  icon: string
+  // 통계에서 진행값/목표값 계산
+  progress: (stats: BadgeStats) => { current: number; target: number }
+}
+
+export interface BadgeProgress {
+  id: BadgeId
+  current: number
+  target: number
+  // 획득 시각 (미획득이면 null)
+  earnedAt: number | null
+}
+
+export const BADGES: BadgeDefinition[] = [
+  {
+    id: 'first-check-in',
+    name: '첫 출석',
+    description: '처음으로 출석 체크하기',
+    icon: '✅',
+    progress: (s) => ({ current: s.checkIns, target: 1 }),
+  },
+  {
+    id: 'golden-pass',
+    name: '골든 패스',
+    description: 'NFC 키링으로 첫 하이패스 출석',
+    icon: '👑',
+    progress: (s) => ({ current: s.nfcCheckIns, target: 1 }),
+  },
+  {
+    id: 'streak-7',
+    name: '일주일 개근',
+    description: '7일 연속 출석',
+    icon: '🔥',
+    progress: (s) => ({ current: s.longestStreak, target: 7 }),
+  },
+  {
+    id: 'streak-30',
+    name: '한 달 개근',
+    description: '30일 연속 출석',
+    icon: '🏅',
+    progress: (s) => ({ current: s.longestStreak, target: 30 }),
+  },
+  {
+    id: 'ai-explorer',
+    name: 'AI 탐험가',
+    description: 'AI TOOL 목록의 모든 도구 사용해보기',
+    icon: '🧭',
+    // 목록이 비어 있으면(운영자가 모두 삭제) 바로 획득되거나 0/0으로 보이지 않도록 목표는 최소 1
+    progress: (s) => ({ current: s.aiToolsTried, target: Math.max(1, s.aiToolsTotal) }),
+  },
+  {
+    id: 'security-guardian',
+    name: '보안 지킴이',
+    description: 'AI 프롬프트 보안검증 50회 활용',
+    icon: '🛡️',
+    progress: (s) => ({ current: s.aiClicks, target: 50 }),
+  },
+  {
+    id: 'turbine-1000',
+    name: '풍력 마스터',
+    description: '풍력 발전기 누적 1,000회전',
+    icon: '🌬️',
+    progress: (s) => ({ current: s.turbineSpins, target: 1000 }),
+  },
+  {
+    id: 'level-10',
+    name: '에너지 리더',
+    description: '레벨 10 달성',
+    icon: '⚡',
+    progress: (s) => ({ current: s.level, target: 10 }),
+  },
+]
+
+export const getBadge = (id: BadgeId): BadgeDefinition | undefined => BADGES.find((b) => b.id === id)
@@ -0,0 +1,20 @@
+// ==================== Characters ====================
+// 온보딩/프로필에서 고르는 캐릭터 (이미지: public/images/character)
+
+export interface Character {
+  id: number
+  name: string
+  file: string
+  description: string
+}
+
+export const CHARACTERS: Character[] = [
+  { id: 1, name: 'Tobby', file: '1. Tobby.png', description: '신입사원' },
+  { id: 2, name: 'Volty', file: '2. Volty.png', description: '신입사원' },
+  { id: 3, name: 'Lumi', file: '3. Lumi.png', description: '신입사원' },
+  { id: 4, name: 'Windy', file: '4. Windy.png', description: '신입사원' },
+  { id: 5, name: 'Solar', file: '5. Solar.png', description: '신입사원' },
+  { id: 6, name: 'Green', file: '7. Green.png', description: '신입사원' },
+]
+
+export const getCharacter = (id: number): Character | undefined => CHARACTERS.find((c) => c.id === id)
@@ -0,0 +1,99 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react'
+import { DEFAULT_APP_CONFIG, getRewardRules, type AppConfig, type RewardRules } from './config'
+import { fetchAppConfig } from './api'
+import { DEFAULT_AI_TOOLS, type AITool } from './ai-tools'
+import { DEFAULT_CONSENT_RULES, type ConsentRules } from './security-consent'
+
+// ==================== Config Context ====================
+// 서버 설정(/api/config), AI TOOL 목록, 보안 준수 문구를 대시보드 전역에 제공. 오프라인이면 마지막으로 받은 값을 사용
+
+const CONFIG_CACHE_KEY = 'kepco_app_config'
+const AI_TOOLS_CACHE_KEY = 'kepco_ai_tools'
+const CONSENT_RULES_CACHE_KEY = 'kepco_consent_rules'
+// 이벤트 시작/종료가 새로고침 없이 반영되도록 주기적으로 배율 재계산
+const RULES_REFRESH_MS = 60 * 1000
+
+const ConfigContext = createContext<AppConfig>(DEFAULT_APP_CONFIG)
+const AIToolsContext = createContext<AITool[]>(DEFAULT_AI_TOOLS)
+const ConsentRulesContext = createContext<ConsentRules>(DEFAULT_CONSENT_RULES)
+
+const getCachedConfig = (): AppConfig => {
+  if (typeof window === 'undefined') return DEFAULT_APP_CONFIG
+  const stored = localStorage.getItem(CONFIG_CACHE_KEY)
+  if (!stored) return DEFAULT_APP_CONFIG
+  try {
+    return { ...DEFAULT_APP_CONFIG, ...JSON.parse(stored) }
+  } catch {
+    return DEFAULT_APP_CONFIG
+  }
+}
+
+const getCachedAITools = (): AITool[] => {
+  if (typeof window === 'undefined') return DEFAULT_AI_TOOLS
+  try {
+    const stored = JSON.parse(localStorage.getItem(AI_TOOLS_CACHE_KEY) ?? 'null')
+    return Array.isArray(stored) ? stored : DEFAULT_AI_TOOLS
+  } catch {
+    return DEFAULT_AI_TOOLS
+  }
+}
+
+const getCachedConsentRules = (): ConsentRules => {
+  if (typeof window === 'undefined') return DEFAULT_CONSENT_RULES
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONSENT_RULES_CACHE_KEY) ?? 'null')
+    return stored?.items ? stored : DEFAULT_CONSENT_RULES
+  } catch {
+    return DEFAULT_CONSENT_RULES
+  }
+}
+
+export const ConfigProvider = ({ children }: { children: ReactNode }) => {
+  const [config, setConfig] = useState<AppConfig>(DEFAULT_APP_CONFIG)
+  const [aiTools, setAITools] = useState<AITool[]>(DEFAULT_AI_TOOLS)
+  const [consentRules, setConsentRules] = useState<ConsentRules>(DEFAULT_CONSENT_RULES)
+
+  useEffect(() => {
+    setConfig(getCachedConfig())
+    setAITools(getCachedAITools())
+    setConsentRules(getCachedConsentRules())
+    fetchAppConfig()
+      .then(({ config: serverConfig, aiTools: serverTools, consentRules: serverConsentRules }) => {
+        localStorage.setItem(CONFIG_CACHE_KEY, JSON.stringify(serverConfig))
+        localStorage.setItem(AI_TOOLS_CACHE_KEY, JSON.stringify(serverTools))
+        localStorage.setItem(CONSENT_RULES_CACHE_KEY, JSON.stringify(serverConsentRules))
+        setConfig(serverConfig)
+        setAITools(serverTools)
+        setConsentRules(serverConsentRules)
+      })
+      .catch(() => {})
+  }, [])
+
+  return (
+    <ConfigContext.Provider value={config}>
+      <AIToolsContext.Provider value={aiTools}>
+        <ConsentRulesContext.Provider value={consentRules}>{children}</ConsentRulesContext.Provider>
+      </AIToolsContext.Provider>
+    </ConfigContext.Provider>
+  )
+}
+
+export const useAppConfig = () => useContext(ConfigContext)
+
+export const useAITools = () => useContext(AIToolsContext)
+
+export const useConsentRules = () => useContext(ConsentRulesContext)
+
+export const useRewardRules = (): RewardRules => {
+  const config = useAppConfig()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), RULES_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  return getRewardRules(config, now)
+}
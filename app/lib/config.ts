@@ -0,0 +1,79 @@
+import type { TimeSlotInfo } from './exp-rules'
+
+// ==================== App Config ====================
+// 운영자 콘솔(/admin)에서 수정하는 보상 경제 설정. 서버(db.config)에 저장되고
+// 대시보드는 /api/config 로 런타임에 읽어옵니다.
+
+export interface ExpConfig {
+  nfc: number
+  gps: number
+  aiClick: number
+  aiClickMaxDaily: number
+  linkClick: number
+  perLevel: number
+  gameMaxPerRound: number
+}
+
+// 기간 한정 EXP 배율 이벤트 (예: 2배 EXP 주간)
+export interface ExpEvent {
+  label: string
+  multiplier: number
+  // ISO 8601 시각 (null이면 이벤트 없음)
+  startsAt: string | null
+  endsAt: string | null
+}
+
+export interface AppConfig {
+  exp: ExpConfig
+  timeSlots: TimeSlotInfo[]
+  event: ExpEvent
+  updatedAt: number
+}
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  exp: {
+    nfc: 20,
+    gps: 10,
+    aiClick: 2,
+    aiClickMaxDaily: 5,
+    linkClick: 5,
+    perLevel: 100,
+    gameMaxPerRound: 30,
+  },
+  timeSlots: [
+    { id: 'morning', name: '출근', startHour: 8, endHour: 10, icon: '🌅' },
+    { id: 'lunch', name: '점심', startHour: 11, endHour: 13, icon: '🍱' },
+    { id: 'evening', name: '퇴근', startHour: 17, endHour: 19, icon: '🌆' },
+  ],
+  event: {
+    label: '',
+    multiplier: 1,
+    startsAt: null,
+    endsAt: null,
+  },
+  updatedAt: 0,
+}
+
+export const getActiveMultiplier = ({ event }: AppConfig, now: number = Date.now()): number => {
+  if (!event.startsAt || !event.endsAt) return 1
+  const active = now >= Date.parse(event.startsAt) && now < Date.parse(event.endsAt)
+  return active ? event.multiplier : 1
+}
+
+// 이벤트 배율이 적용된 실제 지급량 (일일 횟수/레벨 기준값은 그대로)
+export interface RewardRules extends ExpConfig {
+  multiplier: number
+}
+
+export const getRewardRules = (config: AppConfig, now: number = Date.now()): RewardRules => {
+  const multiplier = getActiveMultiplier(config, now)
+  const boost = (amount: number) => Math.round(amount * multiplier)
+  return {
+    ...config.exp,
+    nfc: boost(config.exp.nfc),
+    gps: boost(config.exp.gps),
+    aiClick: boost(config.exp.aiClick),
+    linkClick: boost(config.exp.linkClick),
+    multiplier,
+  }
+}
@@ -0,0 +1,19 @@
+// ==================== Departments ====================
+// 온보딩에서 선택하는 소속 부서 (부서 랭킹 집계 단위)
+
+export const DEPARTMENTS = [
+  '기획관리실',
+  '경영지원처',
+  '전력사업처',
+  '고객지원처',
+  '배전운영처',
+  '전력공급처',
+  'ICT운영처',
+  '사업소',
+  '기타',
+] as const
+
+export type Department = (typeof DEPARTMENTS)[number]
+
+export const isDepartment = (value: unknown): value is Department =>
+  typeof value === 'string' && (DEPARTMENTS as readonly string[]).includes(value)
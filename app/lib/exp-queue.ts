@@ -0,0 +1,189 @@
+import { ApiError, getUserId, grantExp } from './api'
+import type { ExpGrantRequest, ExpGrantResult } from './types'
+
+// ==================== Offline EXP Queue ====================
+// 모든 EXP 요청은 먼저 IndexedDB 대기열에 저장한 뒤 서버로 보냅니다 (오프라인 우선).
+//   - 요청마다 멱등 키(idempotencyKey)와 획득 시각(occurredAt)을 붙여, 재전송해도 서버가 한 번만 지급
+//   - 저장할 때의 사용자 ID로 전송 (연동 코드 복원/초기화로 사용자가 바뀌어도 원래 사용자에게 적립)
+//   - 서버가 응답하면(지급/거절) 대기열에서 삭제, 네트워크 오류나 5xx면 남겨 두고 다음 동기화 때 재시도
+//   - 동기화는 화면 진입, 온라인 복귀, 대기열이 남아 있는 동안 주기적으로 실행
+// 여러 기기/탭의 요청은 서버 원장에서 도착 순서대로 합쳐지므로 어느 쪽도 유실되거나 중복 지급되지 않습니다.
+
+const DB_NAME = 'kepco-ai-zone'
+const DB_VERSION = 1
+const STORE_NAME = 'exp-events'
+// 이전 버전(localStorage) 대기열 키 (최초 실행 시 IndexedDB로 이관)
+const LEGACY_QUEUE_KEY = 'kepco_exp_queue'
+const SYNC_LOCK_NAME = 'kepco-exp-sync'
+
+export interface QueuedExpEvent {
+  // 멱등 키와 동일
+  id: string
+  // EXP를 받을 사용자 (저장 시점의 사용자 ID)
+  userId: string
+  request: ExpGrantRequest
+  queuedAt: number
+  attempts: number
+}
+
+export interface ExpQueueFlushResult {
+  granted: ExpGrantResult[]
+  rejected: { request: ExpGrantRequest; message: string }[]
+  remaining: number
+}
+
+// 서버 응답(ApiError)이 아닌 fetch 실패 = 오프라인
+export const isOfflineError = (error: unknown): boolean =>
+  !(error instanceof ApiError) && (error instanceof TypeError || !navigator.onLine)
+
+// 다시 보내면 성공할 수 있는 실패 (오프라인, 서버 일시 오류)
+const isRetryable = (error: unknown): boolean =>
+  isOfflineError(error) || (error instanceof ApiError && error.status >= 500)
+
+const createEventId = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// ==================== IndexedDB ====================
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+      .then(async (db) => {
+        await migrateLegacyQueue(db)
+        return db
+      })
+      .catch((error) => {
+        dbPromise = null
+        throw error
+      })
+  }
+  return dbPromise
+}
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase()
+  return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+}
+
+const migrateLegacyQueue = async (db: IDBDatabase) => {
+  const raw = localStorage.getItem(LEGACY_QUEUE_KEY)
+  if (!raw) return
+  try {
+    const legacy: { request: ExpGrantRequest; queuedAt: number }[] = JSON.parse(raw)
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+    await Promise.all(
+      legacy.map(({ request, queuedAt }) => {
+        const id = createEventId()
+        return promisify(
+          store.put({ id, userId: getUserId(), request: { ...request, idempotencyKey: id, occurredAt: queuedAt }, queuedAt, attempts: 0 })
+        )
+      })
+    )
+  } catch {
+    // 손상된 이전 대기열은 버림
+  }
+  localStorage.removeItem(LEGACY_QUEUE_KEY)
+}
+
+const getQueuedEvents = async (): Promise<QueuedExpEvent[]> => {
+  const events = await withStore<QueuedExpEvent[]>('readonly', (store) => store.getAll())
+  // userId 없이 저장된 이전 버전 이벤트는 현재 사용자 것으로 처리
+  return events.map((event) => ({ ...event, userId: event.userId ?? getUserId() })).sort((a, b) => a.queuedAt - b.queuedAt)
+}
+
+const putEvent = (event: QueuedExpEvent) => withStore('readwrite', (store) => store.put(event))
+
+const deleteEvent = (id: string) => withStore('readwrite', (store) => store.delete(id))
+
+// ==================== Send / Sync ====================
+// 지금 전송 중인 이벤트 (즉시 전송과 백그라운드 동기화가 같은 이벤트를 동시에 보내지 않도록)
+const inFlight = new Set<string>()
+
+const sendEvent = async (event: QueuedExpEvent): Promise<ExpGrantResult> => {
+  inFlight.add(event.id)
+  try {
+    const result = await grantExp(event.request, event.userId)
+    await deleteEvent(event.id).catch(() => undefined)
+    return result
+  } catch (error) {
+    if (isRetryable(error)) {
+      await putEvent({ ...event, attempts: event.attempts + 1 }).catch(() => undefined)
+    } else {
+      await deleteEvent(event.id).catch(() => undefined)
+    }
+    throw error
+  } finally {
+    inFlight.delete(event.id)
+  }
+}
+
+// 대기열에 저장 후 즉시 전송. 오프라인이면 대기열에 남고 isOfflineError 인 오류를 던짐
+export const submitExp = async (request: ExpGrantRequest): Promise<ExpGrantResult> => {
+  const id = createEventId()
+  const event: QueuedExpEvent = {
+    id,
+    userId: getUserId(),
+    request: { ...request, idempotencyKey: id, occurredAt: Date.now() },
+    queuedAt: Date.now(),
+    attempts: 0,
+  }
+  // IndexedDB를 쓸 수 없는 환경(일부 사파리 비공개 모드)에서는 대기열 없이 바로 전송
+  const persisted = await putEvent(event).then(() => true, () => false)
+  if (!persisted) return grantExp(event.request, event.userId)
+  return sendEvent(event)
+}
+
+const flush = async (): Promise<ExpQueueFlushResult> => {
+  const result: ExpQueueFlushResult = { granted: [], rejected: [], remaining: 0 }
+  const events = (await getQueuedEvents()).filter((event) => !inFlight.has(event.id))
+
+  for (let index = 0; index < events.length; index++) {
+    const event = events[index]
+    try {
+      const granted = await sendEvent(event)
+      // 다른 탭/이전 세션에서 이미 지급된 요청, 다른 사용자(연동 전 ID)의 요청은 화면에 표시하지 않음
+      if (!granted.replayed && event.userId === getUserId()) result.granted.push(granted)
+    } catch (error) {
+      if (isRetryable(error)) {
+        result.remaining = events.length - index
+        break
+      }
+      if (event.userId !== getUserId()) continue
+      result.rejected.push({
+        request: event.request,
+        message: error instanceof Error ? error.message : 'EXP 적립에 실패했습니다',
+      })
+    }
+  }
+  return result
+}
+
+let flushing: Promise<ExpQueueFlushResult> | null = null
+
+// 동시에 여러 번 호출돼도 한 번만 전송 (Web Locks 지원 브라우저는 탭 간에도 하나만)
+export const flushExpQueue = (): Promise<ExpQueueFlushResult> => {
+  if (!flushing) {
+    const run = async () => (navigator.locks ? await navigator.locks.request(SYNC_LOCK_NAME, flush) : flush())
+    flushing = run().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
@@ -0,0 +1,97 @@
+// ==================== EXP Rules ====================
+// 클라이언트 표시와 서버 검증이 함께 쓰는 보상 규칙
+// 지급량/시간대 값은 운영자 콘솔에서 바꿀 수 있으므로 ./config 의 AppConfig를 사용합니다.
+
+export type TimeSlot = 'morning' | 'lunch' | 'evening'
+
+// EXP 획득 경로
+export type ExpSource = 'nfc' | 'gps' | 'ai-click' | 'link' | 'ai-tool' | 'game' | 'streak-bonus'
+
+export const EXP_SOURCE_LABELS: Record<ExpSource, string> = {
+  nfc: 'NFC 출석',
+  gps: 'GPS 출석',
+  'ai-click': 'AI 보안검증',
+  link: '링크 방문',
+  'ai-tool': 'AI TOOL',
+  game: '게임',
+  'streak-bonus': '연속 출석 보너스',
+}
+
+export interface TimeSlotInfo {
+  id: TimeSlot
+  name: string
+  startHour: number
+  endHour: number
+  icon: string
+}
+
+// 연속 출석 달성 보너스 (해당 일수에 도달한 날 첫 출석 때 지급)
+export const STREAK_MILESTONES = [
+  { days: 7, exp: 50 },
+  { days: 30, exp: 200 },
+  { days: 100, exp: 1000 },
+]
+
+// 하루 1회 EXP가 지급되는 외부 링크 (Simulation, News)
+export const REWARD_LINK_IDS = ['v2g', 'vpp', 'energy-insight']
+
+// 서비스 기준 시간대 (서버가 UTC로 동작해도 날짜/시간대 판정은 한국 시간 기준)
+export const SERVICE_TIME_ZONE = 'Asia/Seoul'
+
+export const getDateKey = (timestamp: number = Date.now()): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: SERVICE_TIME_ZONE }).format(new Date(timestamp))
+
+// YYYY-MM-DD 날짜 키를 days 만큼 이동 (주간/연속 출석 계산용)
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+// 날짜 목록에서 가장 긴 연속 일수
+export const getLongestStreak = (dateKeys: string[]): number => {
+  const sorted = Array.from(new Set(dateKeys)).sort()
+  let longest = 0
+  let current = 0
+  sorted.forEach((key, i) => {
+    current = i > 0 && shiftDateKey(sorted[i - 1], 1) === key ? current + 1 : 1
+    longest = Math.max(longest, current)
+  })
+  return longest
+}
+
+// today(또는 아직 출석 전이면 어제)까지 이어지는 연속 일수
+export const getCurrentStreak = (dateKeys: string[], today: string): number => {
+  const days = new Set(dateKeys)
+  let cursor = days.has(today) ? today : shiftDateKey(today, -1)
+  let streak = 0
+  while (days.has(cursor)) {
+    streak += 1
+    cursor = shiftDateKey(cursor, -1)
+  }
+  return streak
+}
+
+// 해당 날짜가 속한 주의 월요일
+export const getWeekStartKey = (dateKey: string): string => {
+  const day = new Date(`${dateKey}T00:00:00Z`).getUTCDay()
+  return shiftDateKey(dateKey, -((day + 6) % 7))
+}
+
+export const getServiceHour = (timestamp: number = Date.now()): number =>
+  Number(new Intl.DateTimeFormat('en-US', { timeZone: SERVICE_TIME_ZONE, hour: 'numeric', hourCycle: 'h23' }).format(new Date(timestamp)))
+
+export const getTimeSlotAt = (timeSlots: TimeSlotInfo[], timestamp: number = Date.now()): TimeSlot | null => {
+  const hour = getServiceHour(timestamp)
+  const slot = timeSlots.find((s) => hour >= s.startHour && hour < s.endHour)
+  return slot ? slot.id : null
+}
+
+// 누적 EXP 기반 레벨 계산
+export const getLevel = (totalExp: number, expPerLevel: number): number => Math.floor(totalExp / expPerLevel) + 1
+
+// "08-10시, 11-13시, 17-19시" 형태의 출석 시간 안내
+export const formatTimeSlots = (timeSlots: TimeSlotInfo[]): string =>
+  timeSlots
+    .map((s) => `${String(s.startHour).padStart(2, '0')}-${String(s.endHour).padStart(2, '0')}시`)
+    .join(', ')
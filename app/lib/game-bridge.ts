@@ -0,0 +1,90 @@
+import { createGameSession } from './api'
+import type { GameInfo } from './games'
+import type { GameBridgeResult } from './types'
+
+// ==================== External Game Bridge (Client) ====================
+// 외부 게임 창을 열고 postMessage로 완료 결과를 받습니다. 프로토콜은 app/server/game-bridge.ts 참고.
+//   게임 → 대시보드: { type: 'kepco:game-result', gameId, nonce, score, durationMs, signature }
+//   대시보드 → 게임: { type: 'kepco:game-result-ack', nonce, ok, exp?, message? }
+// 게임 창이 window.opener 로 응답해야 하므로 noopener 없이 엽니다 (EXP 연동 게임만).
+
+export const GAME_RESULT_MESSAGE = 'kepco:game-result'
+export const GAME_RESULT_ACK_MESSAGE = 'kepco:game-result-ack'
+
+// 개발 환경에서 NEXT_PUBLIC_GAME_BRIDGE_STUB=true 면 실제 게임 대신 로컬 스텁 게임을 엽니다
+const STUB_PATH = '/dev/game-bridge-stub.html'
+const POPUP_CHECK_INTERVAL_MS = 3000
+
+// 결과 처리 후 게임 창에 알려줄 지급 EXP (실패 시 throw → 오류 메시지 전달)
+export type GameResultHandler = (result: GameBridgeResult) => Promise<number>
+
+const getLaunchUrl = (game: GameInfo): URL => {
+  if (process.env.NEXT_PUBLIC_GAME_BRIDGE_STUB === 'true') return new URL(STUB_PATH, window.location.origin)
+  return new URL(game.url ?? '', window.location.origin)
+}
+
+const isGameResult = (data: unknown): data is GameBridgeResult & { type: string } => {
+  if (!data || typeof data !== 'object') return false
+  const message = data as Record<string, unknown>
+  return (
+    message.type === GAME_RESULT_MESSAGE &&
+    typeof message.gameId === 'string' &&
+    typeof message.nonce === 'string' &&
+    typeof message.score === 'number' &&
+    typeof message.durationMs === 'number' &&
+    typeof message.signature === 'string'
+  )
+}
+
+// 외부 게임 열기. EXP 연동 게임이면 nonce를 발급받아 URL에 붙이고, 게임 창이 닫히거나 nonce가 만료될 때까지 결과를 기다림
+export const launchExternalGame = (game: GameInfo, onResult: GameResultHandler) => {
+  if (!game.url) return
+  if (!game.bridge) {
+    window.open(game.url, '_blank', 'noopener,noreferrer')
+    return
+  }
+
+  // 팝업 차단을 피하려고 클릭 시점에 먼저 창을 열고, nonce 발급 후 이동
+  const popup = window.open('about:blank', '_blank')
+  if (!popup) return
+
+  createGameSession(game.id)
+    .then(({ nonce, expiresAt }) => {
+      const url = getLaunchUrl(game)
+      url.searchParams.set('kepco_game', game.id)
+      url.searchParams.set('kepco_nonce', nonce)
+      url.searchParams.set('kepco_origin', window.location.origin)
+      popup.location.href = url.toString()
+
+      let handled = false
+      const cleanup = () => {
+        window.removeEventListener('message', handleMessage)
+        clearInterval(watcher)
+      }
+      const reply = (ack: { ok: boolean; exp?: number; message?: string }) => {
+        if (!popup.closed) popup.postMessage({ type: GAME_RESULT_ACK_MESSAGE, nonce, ...ack }, url.origin)
+      }
+      const handleMessage = (event: MessageEvent) => {
+        if (event.source !== popup || event.origin !== url.origin) return
+        if (!isGameResult(event.data) || event.data.nonce !== nonce || handled) return
+        handled = true
+
+        const { gameId, score, durationMs, signature } = event.data
+        onResult({ gameId, nonce, score, durationMs, signature })
+          .then((exp) => reply({ ok: true, exp }))
+          .catch((error) => reply({ ok: false, message: error instanceof Error ? error.message : 'EXP 적립에 실패했습니다' }))
+          .finally(cleanup)
+      }
+      // 결과 없이 창을 닫았거나 nonce가 만료되면 대기 종료
+      const watcher = setInterval(() => {
+        if (handled) return
+        if (popup.closed || Date.now() > expiresAt) cleanup()
+      }, POPUP_CHECK_INTERVAL_MS)
+
+      window.addEventListener('message', handleMessage)
+    })
+    .catch(() => {
+      // nonce 발급 실패 시 EXP 연동 없이 게임만 열기
+      popup.location.href = game.url ?? '/'
+    })
+}
@@ -0,0 +1,149 @@
+// ==================== Games ====================
+// GAME 카드 목록과 게임별 EXP 정책 (서버에서 게임 EXP 검증에도 사용)
+// 게임 컴포넌트는 app/games/index.ts 의 GAME_COMPONENTS 에 같은 id로 등록합니다.
+
+export type GameKind = 'internal' | 'external'
+
+// 게임별 EXP 정책 (운영자 설정의 1회 최대 EXP와 함께 적용, 더 작은 값이 우선)
+export interface GameExpPolicy {
+  maxExpPerRound: number
+  maxRoundsPerDay: number
+  maxExpPerDay: number
+  // 오늘 diminishAfterRounds 판을 넘기면 이후 판마다 EXP에 diminishRate 를 한 번 더 곱함
+  diminishAfterRounds: number
+  diminishRate: number
+}
+
+// 오늘 남은 게임 EXP 현황 (서버 지급 판정과 준비 화면 표시에 공통 사용)
+export interface GameAllowance {
+  remainingRounds: number
+  remainingExp: number
+  // 다음 판 EXP 배율 (1 미만이면 감소 구간)
+  multiplier: number
+}
+
+// 외부 게임 완료 결과 → EXP 환산 (서명 검증 후 적용)
+export interface GameBridgePolicy {
+  scorePerExp: number
+  maxScore: number
+  minDurationMs: number
+}
+
+export interface GameInfo {
+  id: string
+  name: string
+  description: string
+  icon: 'Wind' | 'Zap' | 'Sun'
+  // 버튼 배경 그라데이션 / 글자색 / hover 그림자
+  color: string
+  textClass: string
+  hoverShadow: string
+  available: boolean
+  // 표시할 대시보드 카드 (기본: GAME)
+  section?: 'game' | 'simulation'
+  // internal: 앱 안에서 GameHost로 실행, external: 새 창으로 외부 게임 열기
+  kind: GameKind
+  url?: string
+  beta?: boolean
+  // null 이면 EXP 지급 없음
+  policy: GameExpPolicy | null
+  // 외부 게임 결과 연동 (없으면 열기만 함)
+  bridge?: GameBridgePolicy
+}
+
+export const GAMES_LIST: GameInfo[] = [
+  {
+    id: 'wind-turbine',
+    name: '풍력 끙차돌리기',
+    description: '발전기를 돌려 EXP를 획득하세요!',
+    icon: 'Wind',
+    color: 'from-cyan-500/30 to-blue-500/30',
+    textClass: 'text-cyan-300',
+    hoverShadow: 'rgba(0, 212, 255, 0.4)',
+    available: true,
+    kind: 'internal',
+    policy: { maxExpPerRound: 30, maxRoundsPerDay: 10, maxExpPerDay: 100, diminishAfterRounds: 5, diminishRate: 0.8 },
+  },
+  {
+    id: 'energy-grid',
+    name: 'EGG: 에너지그리드',
+    description: '경남 전력망 운영 시뮬레이션',
+    icon: 'Zap',
+    color: 'from-yellow-500/20 to-amber-500/20',
+    textClass: 'text-yellow-300',
+    hoverShadow: 'rgba(250, 204, 21, 0.5)',
+    available: true,
+    kind: 'external',
+    url: 'https://energy-grid-game.vercel.app/',
+    beta: true,
+    policy: { maxExpPerRound: 30, maxRoundsPerDay: 5, maxExpPerDay: 60, diminishAfterRounds: 3, diminishRate: 0.7 },
+    bridge: { scorePerExp: 100, maxScore: 10000, minDurationMs: 30 * 1000 },
+  },
+  {
+    id: 'solar-catch',
+    name: '태양광 모으기',
+    description: '태양빛을 모아 에너지를 생산하세요!',
+    icon: 'Sun',
+    color: 'from-yellow-500/30 to-orange-500/30',
+    textClass: 'text-yellow-300',
+    hoverShadow: 'rgba(249, 115, 22, 0.4)',
+    available: true,
+    kind: 'internal',
+    policy: { maxExpPerRound: 30, maxRoundsPerDay: 10, maxExpPerDay: 100, diminishAfterRounds: 5, diminishRate: 0.8 },
+  },
+  {
+    id: 'v2g',
+    name: 'V2G System',
+    description: '전기차 양방향 충방전 시뮬레이션',
+    icon: 'Zap',
+    color: 'from-emerald-500/30 to-teal-500/30',
+    textClass: 'text-emerald-300',
+    hoverShadow: 'rgba(16, 185, 129, 0.4)',
+    available: true,
+    section: 'simulation',
+    kind: 'external',
+    url: 'https://kepco-v2g-game.vercel.app/',
+    policy: { maxExpPerRound: 20, maxRoundsPerDay: 3, maxExpPerDay: 40, diminishAfterRounds: 2, diminishRate: 0.5 },
+    bridge: { scorePerExp: 100, maxScore: 5000, minDurationMs: 60 * 1000 },
+  },
+  {
+    id: 'vpp',
+    name: 'VPP 가상발전소',
+    description: '분산자원 통합 운영 시뮬레이션',
+    icon: 'Zap',
+    color: 'from-teal-500/30 to-cyan-500/30',
+    textClass: 'text-teal-300',
+    hoverShadow: 'rgba(20, 184, 166, 0.4)',
+    available: true,
+    section: 'simulation',
+    kind: 'external',
+    url: 'https://vpp-game.vercel.app/',
+    policy: { maxExpPerRound: 20, maxRoundsPerDay: 3, maxExpPerDay: 40, diminishAfterRounds: 2, diminishRate: 0.5 },
+    bridge: { scorePerExp: 100, maxScore: 5000, minDurationMs: 60 * 1000 },
+  },
+]
+
+export const getGame = (id: string): GameInfo | undefined => GAMES_LIST.find((game) => game.id === id)
+
+export const getGamesBySection = (section: 'game' | 'simulation'): GameInfo[] =>
+  GAMES_LIST.filter((game) => (game.section ?? 'game') === section)
+
+// ==================== Daily Allowance ====================
+// 감소 배율 하한 (너무 작아져 1 EXP도 못 받는 일이 없도록)
+const MIN_DIMINISH_MULTIPLIER = 0.2
+
+// 오늘 rounds 판을 한 뒤 다음 판에 적용할 배율
+export const getGameMultiplier = (policy: GameExpPolicy, rounds: number): number => {
+  const over = rounds - policy.diminishAfterRounds + 1
+  if (over <= 0) return 1
+  return Math.max(MIN_DIMINISH_MULTIPLIER, Math.round(policy.diminishRate ** over * 100) / 100)
+}
+
+export const getGameAllowance = (
+  policy: GameExpPolicy,
+  played: { rounds: number; exp: number } = { rounds: 0, exp: 0 }
+): GameAllowance => ({
+  remainingRounds: Math.max(0, policy.maxRoundsPerDay - played.rounds),
+  remainingExp: Math.max(0, policy.maxExpPerDay - played.exp),
+  multiplier: getGameMultiplier(policy, played.rounds),
+})
@@ -0,0 +1,359 @@
+// ==================== Prompt Security Rules ====================
+// 외부(공개) AI에 보내기 전에 프롬프트에서 민감정보를 찾아 가리는 규칙 엔진
+// 규칙은 운영자 콘솔에서 고치는 규칙 팩(JSON)으로 관리하고, 보안검증 화면이 /api/prompt-check/rules 로 현재 팩을 받아 기기에서 검사합니다.
+// 프롬프트 원문과 찾은 값은 서버로 보내지 않고, EXP 지급에 필요한 요약(summarizePromptScan)만 보냅니다.
+//   - regex: 정규식 (선택: 체크섬/형식 검증기로 오탐 제거)
+//   - dictionary: 단어 목록 (대외비, 기밀 등)
+// 규칙마다 심각도와 테스트 문장(걸려야 할 문장/걸리면 안 되는 문장)을 두고, 저장할 때 테스트를 모두 통과해야 합니다.
+
+// 한 번에 검사할 수 있는 최대 길이
+export const MAX_PROMPT_LENGTH = 10000
+
+export type PromptRisk = 'safe' | 'warning' | 'danger'
+export type PromptRuleSeverity = 'high' | 'medium' | 'low'
+export type PromptRuleKind = 'regex' | 'dictionary'
+
+// 정규식으로 찾은 값의 추가 검증
+//   rrn: 주민등록번호 생년월일 + 체크섬 (2020년 10월 이후 발급 번호는 체크섬이 없어 놓칠 수 있음)
+//   rrn-birth: 주민등록번호 생년월일/성별 자리만 확인
+//   brn: 사업자등록번호 체크섬
+//   ipv4: IPv4 각 자리 0~255
+export type PromptValidator = 'rrn' | 'rrn-birth' | 'brn' | 'ipv4'
+
+export const PROMPT_VALIDATORS: { id: PromptValidator; label: string }[] = [
+  { id: 'rrn', label: '주민등록번호 체크섬' },
+  { id: 'rrn-birth', label: '주민등록번호 생년월일' },
+  { id: 'brn', label: '사업자등록번호 체크섬' },
+  { id: 'ipv4', label: 'IPv4 범위' },
+]
+
+export interface PromptRuleTestCase {
+  text: string
+  // true: 이 규칙에 걸려야 함, false: 걸리면 안 됨
+  shouldMatch: boolean
+}
+
+export interface PromptRule {
+  // 영문 소문자/숫자/하이픈 (검사 결과의 항목 ID)
+  id: string
+  label: string
+  kind: PromptRuleKind
+  // kind === 'regex': 정규식 본문 (g 플래그는 자동)
+  pattern?: string
+  // kind === 'dictionary': 찾을 단어 목록
+  words?: string[]
+  ignoreCase?: boolean
+  // 가릴 부분 (정규식 캡처 그룹 번호, 기본: 전체)
+  group?: number
+  validator?: PromptValidator
+  severity: PromptRuleSeverity
+  // false 면 표시만 하고 가린 문장에는 그대로 둠 (보안 표시 키워드 등)
+  redact: boolean
+  enabled: boolean
+  tests: PromptRuleTestCase[]
+}
+
+export interface PromptRulePack {
+  // 저장할 때마다 1씩 증가
+  version: number
+  updatedAt: number | null
+  // 앞 규칙이 우선 (같은 위치에 여러 규칙이 맞으면 앞 규칙만 표시)
+  rules: PromptRule[]
+}
+
+export interface PromptFinding {
+  ruleId: string
+  label: string
+  severity: PromptRuleSeverity
+  // 원문 위치 (문자 인덱스, end 미포함)
+  start: number
+  end: number
+  text: string
+}
+
+export interface PromptScanResult {
+  risk: PromptRisk
+  findings: PromptFinding[]
+  // 민감정보를 [항목명]으로 바꾼 문장
+  redacted: string
+  packVersion: number
+}
+
+// ==================== Validators ====================
+const digitsOf = (text: string) => text.replace(/\D/g, '').split('').map(Number)
+
+const isValidBirth = (digits: number[]): boolean => {
+  const month = digits[2] * 10 + digits[3]
+  const day = digits[4] * 10 + digits[5]
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31 && digits[6] >= 1 && digits[6] <= 8
+}
+
+const RRN_WEIGHTS = [2, 3, 4, 5, 6, 7, 8, 9, 2, 3, 4, 5]
+const BRN_WEIGHTS = [1, 3, 7, 1, 3, 7, 1, 3, 5]
+
+const VALIDATORS: Record<PromptValidator, (value: string) => boolean> = {
+  'rrn-birth': (value) => {
+    const digits = digitsOf(value)
+    return digits.length === 13 && isValidBirth(digits)
+  },
+  rrn: (value) => {
+    const digits = digitsOf(value)
+    if (digits.length !== 13 || !isValidBirth(digits)) return false
+    const sum = RRN_WEIGHTS.reduce((acc, weight, i) => acc + weight * digits[i], 0)
+    return (11 - (sum % 11)) % 10 === digits[12]
+  },
+  brn: (value) => {
+    const digits = digitsOf(value)
+    if (digits.length !== 10) return false
+    const sum = BRN_WEIGHTS.reduce((acc, weight, i) => acc + weight * digits[i], 0) + Math.floor((digits[8] * 5) / 10)
+    return (10 - (sum % 10)) % 10 === digits[9]
+  },
+  ipv4: (value) => value.split('.').every((part) => Number(part) <= 255),
+}
+
+// ==================== Default Pack ====================
+// 숫자/영문 사이에 붙은 값은 제외 (예: 긴 일련번호 안의 숫자)
+const B = '(?<![0-9A-Za-z])'
+const E = '(?![0-9A-Za-z])'
+
+export const DEFAULT_PROMPT_RULE_PACK: PromptRulePack = {
+  version: 1,
+  updatedAt: null,
+  rules: [
+    {
+      id: 'rrn',
+      label: '주민등록번호',
+      kind: 'regex',
+      pattern: `${B}\\d{6}\\s?-?\\s?[1-8]\\d{6}${E}`,
+      validator: 'rrn-birth',
+      severity: 'high',
+      redact: true,
+      enabled: true,
+      tests: [
+        { text: '홍길동 900101-1234567', shouldMatch: true },
+        { text: '문서번호 901301-1234567', shouldMatch: false },
+      ],
+    },
+    {
+      id: 'account',
+      label: '고객·계약 번호',
+      kind: 'regex',
+      pattern: '(?:고객\\s?번호|계약\\s?번호|납부자\\s?번호|전기\\s?사용자\\s?번호|계좌\\s?번호?)\\s*[:：]?\\s*([0-9][0-9-]{6,22}[0-9])',
+      group: 1,
+      severity: 'high',
+      redact: true,
+      enabled: true,
+      tests: [
+        { text: '고객번호: 12-3456-7890 요금 조회', shouldMatch: true },
+        { text: '번호 1234567890', shouldMatch: false },
+      ],
+    },
+    {
+      id: 'brn',
+      label: '사업자등록번호',
+      kind: 'regex',
+      pattern: `${B}\\d{3}-?\\d{2}-?\\d{5}${E}`,
+      validator: 'brn',
+      severity: 'medium',
+      redact: true,
+      enabled: true,
+      tests: [
+        { text: '협력사 120-81-47521', shouldMatch: true },
+        { text: '협력사 120-81-47522', shouldMatch: false },
+      ],
+    },
+    {
+      id: 'phone',
+      label: '전화번호',
+      kind: 'regex',
+      pattern: `${B}(?:01[016789][-.\\s]?\\d{3,4}[-.\\s]?\\d{4}|0(?:2|[3-6][1-5]|70)[-.\\s]\\d{3,4}[-.\\s]\\d{4})${E}`,
+      severity: 'high',
+      redact: true,
+      enabled: true,
+      tests: [
+        { text: '연락처 010-1234-5678', shouldMatch: true },
+        { text: '사무실 055-123-4567', shouldMatch: true },
+        { text: '버전 2024.10.15', shouldMatch: false },
+      ],
+    },
+    {
+      id: 'email',
+      label: '이메일',
+      kind: 'regex',
+      pattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}',
+      severity: 'high',
+      redact: true,
+      enabled: true,
+      tests: [
+        { text: 'hong.gd@kepco.co.kr 로 회신', shouldMatch: true },
+        { text: '@멘션 주세요', shouldMatch: false },
+      ],
+    },
+    {
+      id: 'ip',
+      label: 'IP 주소',
+      kind: 'regex',
+      pattern: `${B}(?:\\d{1,3}\\.){3}\\d{1,3}${E}`,
+      validator: 'ipv4',
+      severity: 'medium',
+      redact: true,
+      enabled: true,
+      tests: [
+        { text: '서버 10.20.30.40 접속', shouldMatch: true },
+        { text: '버전 999.1.1.1', shouldMatch: false },
+      ],
+    },
+    {
+      // 변전소(SS)/변압기(TR)/배전선로(DL)/차단기(CB)/개폐기(SW)/전주(PL) 설비 관리번호
+      id: 'asset-id',
+      label: '전력설비 ID',
+      kind: 'regex',
+      pattern: `${B}(?:SS|TR|MTR|DL|CB|SW|PL)-?\\d{3,6}(?:-\\d{1,4})?${E}`,
+      severity: 'medium',
+      redact: true,
+      enabled: true,
+      tests: [
+        { text: '설비 TR-12345-01 점검', shouldMatch: true },
+        { text: 'TRX-1234 모델', shouldMatch: false },
+      ],
+    },
+    {
+      id: 'confidential',
+      label: '보안 표시',
+      kind: 'dictionary',
+      words: ['대외비', '극비', '기밀', '비밀문서', '취급주의', '내부자료', '외부유출금지', '보안등급', 'CONFIDENTIAL', 'INTERNAL ONLY'],
+      ignoreCase: true,
+      severity: 'high',
+      redact: false,
+      enabled: true,
+      tests: [
+        { text: '[대외비] 사업계획', shouldMatch: true },
+        { text: 'internal only 문서', shouldMatch: true },
+        { text: '공개 보도자료', shouldMatch: false },
+      ],
+    },
+  ],
+}
+
+// ==================== Engine ====================
+interface CompiledRule {
+  rule: PromptRule
+  pattern: RegExp
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// 사전 단어는 띄어쓰기가 달라도 찾도록 글자 사이 공백 허용
+const dictionaryPattern = (words: string[]) =>
+  words
+    .map((word) => word.replace(/\s+/g, ''))
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((word) => word.split('').map(escapeRegExp).join('\\s?'))
+    .join('|')
+
+// 잘못된 정규식이면 예외 (서버 저장 시 검증)
+export const compilePromptRule = (rule: PromptRule): CompiledRule => {
+  const source = rule.kind === 'dictionary' ? dictionaryPattern(rule.words ?? []) : rule.pattern ?? ''
+  return { rule, pattern: new RegExp(source || '(?!)', rule.ignoreCase ? 'gi' : 'g') }
+}
+
+const findMatches = ({ rule, pattern }: CompiledRule, prompt: string) => {
+  const matches: { start: number; end: number; text: string }[] = []
+  pattern.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(prompt)) !== null) {
+    if (match[0] === '') {
+      pattern.lastIndex += 1
+      continue
+    }
+    const text = rule.group ? match[rule.group] : match[0]
+    if (!text) continue
+    if (rule.validator && !VALIDATORS[rule.validator](text)) continue
+    const start = match.index + (rule.group ? match[0].indexOf(text) : 0)
+    matches.push({ start, end: start + text.length, text })
+  }
+  return matches
+}
+
+export const scanPrompt = (prompt: string, pack: PromptRulePack = DEFAULT_PROMPT_RULE_PACK): PromptScanResult => {
+  const found: (PromptFinding & { priority: number; redact: boolean })[] = []
+  pack.rules.forEach((rule, priority) => {
+    if (!rule.enabled) return
+    findMatches(compilePromptRule(rule), prompt).forEach((m) => {
+      found.push({ ruleId: rule.id, label: rule.label, severity: rule.severity, ...m, priority, redact: rule.redact })
+    })
+  })
+
+  // 겹치는 결과는 우선순위가 높은 규칙 하나만 남김
+  found.sort((a, b) => a.priority - b.priority || a.start - b.start)
+  const kept: typeof found = []
+  found.forEach((m) => {
+    if (!kept.some((k) => m.start < k.end && k.start < m.end)) kept.push(m)
+  })
+  kept.sort((a, b) => a.start - b.start)
+
+  let redacted = ''
+  let cursor = 0
+  kept.forEach((m) => {
+    if (!m.redact) return
+    redacted += `${prompt.slice(cursor, m.start)}[${m.label}]`
+    cursor = m.end
+  })
+  redacted += prompt.slice(cursor)
+
+  const severities = kept.map((m) => m.severity)
+  return {
+    risk: severities.includes('high') ? 'danger' : severities.length > 0 ? 'warning' : 'safe',
+    findings: kept.map(({ ruleId, label, severity, start, end, text }) => ({ ruleId, label, severity, start, end, text })),
+    redacted,
+    packVersion: pack.version,
+  }
+}
+
+// ==================== Rule Tests ====================
+export interface PromptRuleTestResult extends PromptRuleTestCase {
+  matched: string[]
+  passed: boolean
+}
+
+// 규칙 하나만으로 테스트 문장 검사 (운영자 콘솔 미리보기 + 서버 저장 전 검증)
+export const runPromptRuleTests = (rule: PromptRule): PromptRuleTestResult[] => {
+  const compiled = compilePromptRule(rule)
+  return rule.tests.map((test) => {
+    const matched = findMatches(compiled, test.text).map((m) => m.text)
+    return { ...test, matched, passed: matched.length > 0 === test.shouldMatch }
+  })
+}
+
+// ==================== Check Summary ====================
+// 서버에 보내는 검사 요약: 원문/찾은 값 없이 길이, 발견 개수, 위험도, 규칙 버전과 반복 검사 판별용 해시만
+export interface PromptCheckSummary {
+  // 공백 제외 글자 수
+  length: number
+  findingCount: number
+  risk: PromptRisk
+  packVersion: number
+  // sha256(userId + 프롬프트), base64url. 해시를 만들 수 없는 환경(비보안 http)에서는 생략
+  promptHash?: string
+}
+
+const hashPrompt = async (userId: string, prompt: string): Promise<string | undefined> => {
+  if (!globalThis.crypto?.subtle) return undefined
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${userId}:${prompt.trim()}`))
+  return btoa(String.fromCharCode(...Array.from(new Uint8Array(digest))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+export const summarizePromptScan = async (userId: string, prompt: string, scan: PromptScanResult): Promise<PromptCheckSummary> => {
+  const promptHash = await hashPrompt(userId, prompt)
+  return {
+    length: prompt.replace(/\s/g, '').length,
+    findingCount: scan.findings.length,
+    risk: scan.risk,
+    packVersion: scan.packVersion,
+    ...(promptHash ? { promptHash } : {}),
+  }
+}
@@ -0,0 +1,116 @@
+// ==================== Prompt Templates ====================
+// AI app 카드의 "프롬프트 템플릿": 업무용 프롬프트 틀에 {{변수}} 값을 채워 복사하거나 AI TOOL로 보냅니다.
+// 템플릿은 서버(db.promptTemplates)에 두고, 사용자별 즐겨찾기/사용 횟수도 서버에 저장합니다.
+
+export interface PromptTemplateVariable {
+  // 본문의 {{key}} 와 같은 이름
+  key: string
+  label: string
+  placeholder: string
+  // 여러 줄 입력 (회의 메모, 보고서 원문 등)
+  multiline?: boolean
+}
+
+export interface PromptTemplate {
+  id: string
+  title: string
+  category: string
+  description: string
+  body: string
+  variables: PromptTemplateVariable[]
+  // 보내기 추천 도구 (AI TOOL id, 목록에 없는 도구는 표시하지 않음)
+  toolIds: string[]
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_-]+)\s*\}\}/g
+
+// 비어 있는 변수는 {{이름}} 그대로 둠 (미리보기에서 빈칸 확인용)
+export const fillPromptTemplate = (template: PromptTemplate, values: Record<string, string>): string =>
+  template.body.replace(VARIABLE_PATTERN, (placeholder, key: string) => values[key]?.trim() || placeholder)
+
+export const getMissingVariables = (template: PromptTemplate, values: Record<string, string>): PromptTemplateVariable[] =>
+  template.variables.filter((v) => !values[v.key]?.trim())
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'meeting-minutes',
+    title: '회의록 정리',
+    category: '문서작성',
+    description: '회의 메모를 결정사항/할 일 중심 회의록으로 정리합니다.',
+    body: [
+      '다음은 "{{topic}}" 회의 메모입니다. 공기업 보고 양식에 맞춰 회의록으로 정리해 주세요.',
+      '',
+      '- 참석 부서: {{attendees}}',
+      '- 형식: 1) 회의 개요 2) 주요 논의 3) 결정사항 4) 후속 조치(담당/기한) 표',
+      '- 메모에 없는 내용은 추측하지 말고 "확인 필요"로 표시',
+      '',
+      '[회의 메모]',
+      '{{notes}}',
+    ].join('\n'),
+    variables: [
+      { key: 'topic', label: '회의 주제', placeholder: '예: 하계 전력수급 대책 점검' },
+      { key: 'attendees', label: '참석 부서', placeholder: '예: 전력공급부, 배전운영부' },
+      { key: 'notes', label: '회의 메모', placeholder: '이름/연락처 등 개인정보는 빼고 붙여넣으세요', multiline: true },
+    ],
+    toolIds: ['claude-ai', 'notebooklm'],
+  },
+  {
+    id: 'outage-summary',
+    title: '정전 보고서 요약',
+    category: '보고',
+    description: '정전(고장) 보고서를 경영진 보고용 요약으로 만듭니다.',
+    body: [
+      '다음 {{region}} 지역 정전 보고서를 경영진 보고용으로 5줄 이내로 요약해 주세요.',
+      '',
+      '- 포함 항목: 발생 일시, 원인, 영향 범위(호수/시간), 복구 조치, 재발 방지 대책',
+      '- 숫자는 원문 그대로 쓰고, 원문에 없으면 "미기재"로 표시',
+      '- 마지막 줄에 보고서에서 보완이 필요한 점 1가지',
+      '',
+      '[보고서 원문]',
+      '{{report}}',
+    ].join('\n'),
+    variables: [
+      { key: 'region', label: '지역', placeholder: '예: 창원' },
+      { key: 'report', label: '보고서 원문', placeholder: '고객번호/설비번호는 지우고 붙여넣으세요', multiline: true },
+    ],
+    toolIds: ['claude-ai', 'notebooklm'],
+  },
+  {
+    id: 'regulation-lookup',
+    title: '규정 찾아보기',
+    category: '자료조사',
+    description: '공개된 법령·기본공급약관 기준으로 질문에 답을 찾습니다.',
+    body: [
+      '전기사업법과 한국전력공사 기본공급약관 등 공개 규정을 기준으로 답해 주세요.',
+      '',
+      '질문: {{question}}',
+      '',
+      '- 근거 조항(법령명, 조/항)을 함께 적어 주세요',
+      '- 규정이 개정되었을 수 있으니 확인이 필요한 부분은 따로 표시',
+      '- 답을 모르면 추측하지 말고 확인할 곳을 알려 주세요',
+    ].join('\n'),
+    variables: [{ key: 'question', label: '질문', placeholder: '예: 전기요금 분할납부 대상과 신청 기한은?', multiline: true }],
+    toolIds: ['notebooklm', 'claude-ai'],
+  },
+  {
+    id: 'customer-reply',
+    title: '민원 답변 초안',
+    category: '문서작성',
+    description: '고객 문의에 대한 정중한 답변 초안을 만듭니다.',
+    body: [
+      '전력 고객센터 담당자로서 아래 문의에 대한 답변 초안을 작성해 주세요.',
+      '',
+      '- 어조: {{tone}}',
+      '- 사과/공감 → 안내 → 추가 문의 방법 순서로, 300자 이내',
+      '- 고객 이름, 고객번호 등은 [고객명], [고객번호]로 표시',
+      '',
+      '[문의 내용]',
+      '{{inquiry}}',
+    ].join('\n'),
+    variables: [
+      { key: 'tone', label: '어조', placeholder: '예: 정중하고 간결하게' },
+      { key: 'inquiry', label: '문의 내용', placeholder: '개인정보를 지운 문의 내용을 붙여넣으세요', multiline: true },
+    ],
+    toolIds: ['claude-ai'],
+  },
+]
@@ -0,0 +1,63 @@
+import { deletePushSubscription, fetchPushPreferences, savePushSubscription } from './api'
+import type { TimeSlot } from './exp-rules'
+import type { PushPreferences } from './types'
+
+// ==================== Web Push (Client) ====================
+// 서비스 워커 등록 → 브라우저 푸시 구독 → 서버에 구독/알림 시간대 저장
+
+// 개발 모드에서는 오프라인 캐시 없이 푸시만 처리하는 모드로 등록 (캐시가 HMR을 방해하므로)
+const SERVICE_WORKER_URL = process.env.NODE_ENV === 'production' ? '/sw.js' : '/sw.js?mode=push'
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window
+
+// VAPID 공개키(base64url) → applicationServerKey
+const decodeBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = atob(base64)
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length))
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+const getBrowserSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration('/')
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+export const getPushPreferences = async (): Promise<PushPreferences> => {
+  const subscription = await getBrowserSubscription()
+  return fetchPushPreferences(subscription?.endpoint)
+}
+
+// 알림 권한 요청 후 구독 (이미 구독 중이면 시간대만 갱신)
+export const subscribePush = async (slots: TimeSlot[]): Promise<PushPreferences> => {
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') {
+    throw new Error('브라우저 알림 권한이 허용되지 않았습니다')
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+  await navigator.serviceWorker.ready
+  let subscription = await registration.pushManager.getSubscription()
+  if (!subscription) {
+    const { publicKey } = await fetchPushPreferences()
+    if (!publicKey) throw new Error('서버에 푸시 알림이 설정되지 않았습니다')
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(publicKey),
+    })
+  }
+
+  return savePushSubscription(subscription.toJSON(), slots)
+}
+
+export const unsubscribePush = async (): Promise<void> => {
+  const subscription = await getBrowserSubscription()
+  if (!subscription) return
+  await deletePushSubscription(subscription.endpoint)
+  await subscription.unsubscribe()
+}
@@ -0,0 +1,47 @@
+// ==================== Security Consent ====================
+// 외부 AI 서비스로 이동하기 전 보안 준수 확인(SecurityConsentModal) 문구와 버전
+// 문구는 운영자 콘솔에서 수정하고(db.consentRules) 대시보드는 /api/config 로 읽습니다.
+// 문구를 바꾸면(또는 운영자가 재동의를 요청하면) 버전이 올라가고, 사용자는 다음 이동 때 다시 명시적으로 동의해야 합니다.
+// 동의할 때마다 누가/어떤 도구/어떤 버전에 동의했는지 서버 감사 기록(db.consentLogs)에 남깁니다.
+
+export interface ConsentRuleItem {
+  // true: 권장 사항(✓), false: 금지 사항(✗)
+  allowed: boolean
+  text: string
+}
+
+export interface ConsentRules {
+  version: number
+  items: ConsentRuleItem[]
+  updatedAt: number | null
+}
+
+export const DEFAULT_CONSENT_RULES: ConsentRules = {
+  version: 1,
+  items: [
+    { allowed: false, text: '회사 내부 자료 입력 금지' },
+    { allowed: false, text: '개인정보 및 민감정보 입력 금지' },
+    { allowed: false, text: '업무용 비밀번호 입력 금지' },
+    { allowed: true, text: '학습 및 업무 효율화 목적으로만 사용' },
+  ],
+  updatedAt: null,
+}
+
+// 감사 기록 한 건 (내보내기 형식과 같음)
+export interface ConsentLogEntry {
+  id: string
+  userId: string
+  // 동의 당시 닉네임/부서 (프로필이 바뀌어도 기록은 유지)
+  nickname: string
+  department: string
+  toolId: string
+  toolName: string
+  // 사용자가 화면에서 본 문구 버전
+  rulesVersion: number
+  // 동의 당시 서버의 최신 버전 (화면 문구가 오래된 경우 rulesVersion과 다름)
+  currentVersion: number
+  createdAt: number
+  dateKey: string
+  // 사용자가 데이터를 초기화한 시각 (기록은 감사용으로 남김)
+  userDeletedAt?: number
+}
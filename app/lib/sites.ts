@@ -0,0 +1,99 @@
+// ==================== Check-In Sites ====================
+// GPS 출석이 가능한 근무지(지사/변전소) 목록과 지오펜스 계산
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export type Geofence =
+  | { type: 'circle'; center: LatLng; radius: number }
+  | { type: 'polygon'; points: LatLng[] }
+
+export interface Site {
+  id: string
+  name: string
+  geofence: Geofence
+  // 이 근무지에 설치된 NFC 태그 ID
+  nfcTagIds?: string[]
+}
+
+// 기본 근무지 (운영자 콘솔에서 추가/수정)
+export const DEFAULT_SITES: Site[] = [
+  {
+    id: 'gyeongnam-hq',
+    name: '경남본부',
+    geofence: { type: 'circle', center: { lat: 35.1795, lng: 129.0756 }, radius: 100 },
+  },
+]
+
+export const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const R = 6371e3
+  const φ1 = (lat1 * Math.PI) / 180
+  const φ2 = (lat2 * Math.PI) / 180
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180
+  const Δλ = ((lng2 - lng1) * Math.PI) / 180
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return R * c
+}
+
+// 짧은 거리에서는 평면 근사 (m 단위 x/y)
+const toLocalMeters = (origin: LatLng, point: LatLng) => ({
+  x: ((point.lng - origin.lng) * Math.PI / 180) * 6371e3 * Math.cos(origin.lat * Math.PI / 180),
+  y: ((point.lat - origin.lat) * Math.PI / 180) * 6371e3,
+})
+
+const isInsidePolygon = (points: LatLng[], point: LatLng): boolean => {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i]
+    const b = points[j]
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    if (crosses) inside = !inside
+  }
+  return inside
+}
+
+const distanceToSegment = (point: LatLng, a: LatLng, b: LatLng): number => {
+  const p = toLocalMeters(a, point)
+  const q = toLocalMeters(a, b)
+  const lengthSq = q.x * q.x + q.y * q.y
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (p.x * q.x + p.y * q.y) / lengthSq))
+  return Math.hypot(p.x - t * q.x, p.y - t * q.y)
+}
+
+// 지오펜스 경계까지의 거리 (안에 있으면 0)
+export const distanceToGeofence = (geofence: Geofence, point: LatLng): number => {
+  if (geofence.type === 'circle') {
+    const distance = calculateDistance(point.lat, point.lng, geofence.center.lat, geofence.center.lng)
+    return Math.max(0, distance - geofence.radius)
+  }
+  if (isInsidePolygon(geofence.points, point)) return 0
+  return Math.min(
+    ...geofence.points.map((a, i) => distanceToSegment(point, a, geofence.points[(i + 1) % geofence.points.length]))
+  )
+}
+
+export type SiteMatch =
+  | { inside: true; site: Site }
+  | { inside: false; nearest: Site | null; distance: number }
+
+export const findSiteAt = (sites: Site[], point: LatLng): SiteMatch => {
+  let nearest: Site | null = null
+  let nearestDistance = Infinity
+  for (const site of sites) {
+    const distance = distanceToGeofence(site.geofence, point)
+    if (distance === 0) return { inside: true, site }
+    if (distance < nearestDistance) {
+      nearest = site
+      nearestDistance = distance
+    }
+  }
+  return { inside: false, nearest, distance: nearestDistance }
+}
+
+export const findSiteByTag = (sites: Site[], tagId: string): Site | undefined =>
+  sites.find((site) => site.nfcTagIds?.includes(tagId))
@@ -0,0 +1,409 @@
+// ==================== Wind Turbine Physics ====================
+// 풍력 게임(WindTurbineGame)과 서버 검증(app/server/anti-cheat.ts)이 함께 쓰는 물리/점수 규칙
+// 물리는 고정 간격(60fps)으로 진행하므로, 같은 입력 기록을 넣으면 서버에서도 같은 결과가 나옵니다.
+// 난이도(모드)별로 마찰/콤보 기준/바람 이벤트/EXP 배율이 다르고, 서버 재현에도 같은 모드를 씁니다.
+
+export const GAME_DURATION = 30
+export const SPINS_PER_EXP = 500
+
+// 플라이휠 물리
+export const INERTIA = 0.15
+export const BASE_FRICTION = 0.97
+export const HIGH_SPEED_DRAG = 0.012
+export const MAX_RPS = 10
+const STEP_MS = 1000 / 60
+
+// 입력 판정 (각도 변화, 도)
+const SPIN_MIN_DELTA = 0.2
+const BRAKE_DELTA = -2
+export const WIND_BOOST = 2.5
+export const WIND_DURATION = 5
+
+// 동적 콤보 기준 (표준 모드)
+export const COMBO_L1_RATIO = 0.80
+export const COMBO_L2_RATIO = 0.90
+export const COMBO_L3_RATIO = 0.95
+
+// Time Boost 설정
+export const TIME_BOOST_THRESHOLD = 0.90 // 90% 이상
+export const TIME_BOOST_DURATION = 1000 // 1초 유지
+export const TIME_BOOST_BONUS = 0.10 // 10% 보너스
+// 한 판에서 받을 수 있는 보너스 시간 합계 (상한이 없으면 Time Boost를 반복해 게임이 끝나지 않을 수 있음)
+export const MAX_TIME_BOOST_SECONDS = 30
+// 게임이 가장 길게 이어질 수 있는 시간 (서버는 이 범위를 벗어난 기록을 재현 전에 거부)
+export const MAX_GAME_DURATION_MS = (GAME_DURATION + MAX_TIME_BOOST_SECONDS) * 1000
+
+// ==================== Modes ====================
+export type TurbineMode = 'beginner' | 'standard' | 'typhoon'
+
+// gust: 입력 토크 증가, lull: 입력 토크 감소, reverse: 역풍 (회전을 계속 늦춤)
+export type TurbineWindKind = 'gust' | 'lull' | 'reverse'
+
+// 게임 시작 기준 ms
+export interface TurbineWindEvent {
+  kind: TurbineWindKind
+  start: number
+  end: number
+}
+
+export interface TurbineModeConfig {
+  id: TurbineMode
+  name: string
+  description: string
+  friction: number
+  // 최고속도 대비 콤보 L1/L2/L3 기준
+  comboRatios: [number, number, number]
+  expMultiplier: number
+  // 정해진 바람 이벤트 (null 이면 무작위 돌풍 1회)
+  windEvents: TurbineWindEvent[] | null
+}
+
+export const TURBINE_MODES: Record<TurbineMode, TurbineModeConfig> = {
+  beginner: {
+    id: 'beginner',
+    name: '입문',
+    description: '마찰이 적어 천천히 돌려도 잘 돌아가요',
+    friction: 0.98,
+    comboRatios: [0.75, 0.85, 0.9],
+    expMultiplier: 0.8,
+    windEvents: null,
+  },
+  standard: {
+    id: 'standard',
+    name: '표준',
+    description: '기본 규칙, 무작위 돌풍 1회',
+    friction: BASE_FRICTION,
+    comboRatios: [COMBO_L1_RATIO, COMBO_L2_RATIO, COMBO_L3_RATIO],
+    expMultiplier: 1,
+    windEvents: null,
+  },
+  typhoon: {
+    id: 'typhoon',
+    name: '태풍',
+    description: '돌풍·무풍·역풍이 정해진 시각에 몰아쳐요',
+    friction: BASE_FRICTION,
+    comboRatios: [0.85, 0.93, 0.97],
+    expMultiplier: 1.5,
+    windEvents: [
+      { kind: 'gust', start: 4000, end: 8000 },
+      { kind: 'lull', start: 10000, end: 13000 },
+      { kind: 'reverse', start: 15000, end: 18000 },
+      { kind: 'gust', start: 20000, end: 24000 },
+      { kind: 'reverse', start: 26000, end: 29000 },
+    ],
+  },
+}
+
+export const TURBINE_MODE_IDS = Object.keys(TURBINE_MODES) as TurbineMode[]
+
+export const isTurbineMode = (value: unknown): value is TurbineMode =>
+  typeof value === 'string' && TURBINE_MODE_IDS.includes(value as TurbineMode)
+
+// 바람 종류별 입력 토크 배율
+export const WIND_TORQUE: Record<TurbineWindKind, number> = {
+  gust: WIND_BOOST,
+  lull: 0.5,
+  reverse: 1,
+}
+// 역풍: 매 스텝 줄어드는 속도 (역방향으로 돌지는 않음)
+const REVERSE_WIND_PULL = 0.4
+
+export const getScheduledWind = (mode: TurbineMode, time: number): TurbineWindKind | null =>
+  TURBINE_MODES[mode].windEvents?.find((event) => time >= event.start && time < event.end)?.kind ?? null
+
+export interface TurbineSim {
+  mode: TurbineMode
+  // 시뮬레이션 경과 시간 (ms)
+  time: number
+  velocity: number
+  torque: number
+  rotation: number
+  totalRot: number
+  currentRps: number
+  maxRpsReached: number
+  rpsSum: number
+  steps: number
+  comboLevel: number
+  comboStart: number | null
+  maxCombo: number
+  timeBoostStart: number | null
+  timeBoostUsedThisCycle: boolean
+  timeBoostActive: boolean
+  timeBoostCount: number
+  // 지금까지 받은 보너스 시간 합계 (초)
+  timeBoostSeconds: number
+  lastAngle: number | null
+}
+
+// 남은 시간 조회 / Time Boost 보너스 반영 (게임 타이머 또는 서버 재현용 타이머)
+export interface TurbineClock {
+  getTimeLeft: (time: number) => number
+  addTime: (seconds: number) => void
+}
+
+// 게임 시작 후 경과 시각(ms)과 받은 보너스 시간으로 계산한 남은 시간 (초)
+// 게임 타이머도 setInterval 횟수가 아니라 입력 기록과 같은 시계(performance.now)로 이 식을 써야 서버 재현과 어긋나지 않음
+export const getTurbineTimeLeft = (elapsedMs: number, bonusSeconds: number): number =>
+  GAME_DURATION + bonusSeconds - Math.floor(elapsedMs / 1000)
+
+export interface TurbineResult {
+  spins: number
+  avgRps: number
+  maxRps: number
+  maxCombo: number
+  timeBoosts: number
+  exp: number
+}
+
+export const createTurbineSim = (mode: TurbineMode = 'standard'): TurbineSim => ({
+  mode,
+  time: 0,
+  velocity: 0,
+  torque: 0,
+  rotation: 0,
+  totalRot: 0,
+  currentRps: 0,
+  maxRpsReached: 1,
+  rpsSum: 0,
+  steps: 0,
+  comboLevel: 0,
+  comboStart: null,
+  maxCombo: 0,
+  timeBoostStart: null,
+  timeBoostUsedThisCycle: false,
+  timeBoostActive: false,
+  timeBoostCount: 0,
+  timeBoostSeconds: 0,
+  lastAngle: null,
+})
+
+// 입력 기록과 재현이 같은 값을 쓰도록 0.1도 단위로 반올림
+export const roundAngle = (angle: number) => Math.round(angle * 10) / 10
+
+// ==================== Input ====================
+export const pressTurbine = (sim: TurbineSim, angle: number) => {
+  sim.lastAngle = angle
+}
+
+export const releaseTurbine = (sim: TurbineSim) => {
+  sim.lastAngle = null
+}
+
+// 반시계 방향 드래그는 가속, 반대 방향은 브레이크
+// windActive: 무작위 돌풍 (표준/입문), 태풍 모드는 정해진 바람 이벤트를 따름
+export const dragTurbine = (sim: TurbineSim, angle: number, windActive: boolean): 'spin' | 'brake' | null => {
+  if (sim.lastAngle === null) {
+    sim.lastAngle = angle
+    return null
+  }
+
+  let delta = angle - sim.lastAngle
+  if (delta > 180) delta -= 360
+  if (delta < -180) delta += 360
+  sim.lastAngle = angle
+
+  if (delta > SPIN_MIN_DELTA) {
+    const wind = windActive ? 'gust' : getScheduledWind(sim.mode, sim.time)
+    sim.torque += delta * INERTIA * (wind ? WIND_TORQUE[wind] : 1)
+    return 'spin'
+  }
+  if (delta < BRAKE_DELTA) {
+    sim.velocity *= 0.3
+    sim.torque = 0
+    return 'brake'
+  }
+  return null
+}
+
+// ==================== Step ====================
+const stepTurbine = (sim: TurbineSim, clock: TurbineClock) => {
+  const config = TURBINE_MODES[sim.mode]
+  sim.time += STEP_MS
+
+  // 물리 계산
+  sim.velocity += sim.torque * 0.28
+  sim.torque *= 0.5
+
+  const realRps = Math.abs(sim.velocity) / 6
+  const drag = 1 - HIGH_SPEED_DRAG * realRps
+  sim.velocity *= config.friction * Math.max(drag, 0.92)
+  if (getScheduledWind(sim.mode, sim.time) === 'reverse') {
+    sim.velocity = Math.max(0, sim.velocity - REVERSE_WIND_PULL)
+  }
+
+  if (Math.abs(sim.velocity) < 0.05) sim.velocity = 0
+
+  sim.rotation -= sim.velocity
+  sim.totalRot += Math.abs(sim.velocity)
+
+  const currentRps = Math.min(realRps, MAX_RPS)
+  sim.currentRps = currentRps
+  sim.rpsSum += currentRps
+  sim.steps += 1
+
+  // 최고 RPS 갱신
+  if (currentRps > sim.maxRpsReached) sim.maxRpsReached = currentRps
+
+  // 콤보 체크
+  const maxRps = sim.maxRpsReached
+  const [l1, l2, l3] = config.comboRatios
+  sim.comboLevel = currentRps >= maxRps * l3 ? 3
+    : currentRps >= maxRps * l2 ? 2
+    : currentRps >= maxRps * l1 ? 1 : 0
+
+  // 콤보 시간 추적
+  if (sim.comboLevel > 0) {
+    if (sim.comboStart === null) sim.comboStart = sim.time
+    const comboTime = (sim.time - sim.comboStart) / 1000
+    if (comboTime > sim.maxCombo) sim.maxCombo = comboTime
+  } else {
+    sim.comboStart = null
+  }
+
+  // Time Boost 체크 (90% 이상 유지)
+  if (currentRps / maxRps >= TIME_BOOST_THRESHOLD) {
+    if (sim.timeBoostStart === null) {
+      sim.timeBoostStart = sim.time
+      sim.timeBoostUsedThisCycle = false
+    } else if (!sim.timeBoostUsedThisCycle && sim.time - sim.timeBoostStart >= TIME_BOOST_DURATION) {
+      // Time Boost 발동!
+      const bonusTime = Math.min(
+        Math.ceil(clock.getTimeLeft(sim.time) * TIME_BOOST_BONUS),
+        MAX_TIME_BOOST_SECONDS - sim.timeBoostSeconds
+      )
+      if (bonusTime > 0) {
+        sim.timeBoostCount += 1
+        sim.timeBoostSeconds += bonusTime
+        sim.timeBoostUsedThisCycle = true
+        clock.addTime(bonusTime)
+      }
+    }
+    sim.timeBoostActive = true
+  } else {
+    sim.timeBoostStart = null
+    sim.timeBoostUsedThisCycle = false
+    sim.timeBoostActive = false
+  }
+}
+
+// time(ms)까지 고정 간격으로 진행
+export const advanceTurbine = (sim: TurbineSim, time: number, clock: TurbineClock) => {
+  while (sim.time + STEP_MS <= time) stepTurbine(sim, clock)
+}
+
+export const getTurbineResult = (sim: TurbineSim): TurbineResult => {
+  const spins = Math.floor(sim.totalRot / 360)
+  const comboBonus = Math.floor(sim.maxCombo / 2)
+  const timeBoostBonus = sim.timeBoostCount * 2
+  return {
+    spins,
+    avgRps: sim.steps > 0 ? sim.rpsSum / sim.steps : 0,
+    maxRps: sim.maxRpsReached,
+    maxCombo: sim.maxCombo,
+    timeBoosts: sim.timeBoostCount,
+    exp: Math.floor((Math.floor(spins / SPINS_PER_EXP) + comboBonus + timeBoostBonus) * TURBINE_MODES[sim.mode].expMultiplier),
+  }
+}
+
+// ==================== Input Trace ====================
+// 포인터 각도 기록: 누른 순간부터 뗄 때까지를 한 획(stroke)으로 묶음
+// 문자열 형식: 획은 '|', 샘플은 ';' 로 구분, 샘플은 `직전 샘플 이후 ms,각도×10` (첫 샘플은 게임 시작 기준)
+
+// 한 판의 최대 획 수 (1분 동안 초당 15번 넘게 누를 수는 없음)
+export const MAX_TRACE_STROKES = 1000
+export interface TraceSample {
+  t: number
+  angle: number
+}
+
+export const encodeTurbineTrace = (strokes: TraceSample[][]): string => {
+  let last = 0
+  return strokes
+    .map((stroke) =>
+      stroke
+        .map(({ t, angle }) => {
+          const sample = `${t - last},${Math.round(angle * 10)}`
+          last = t
+          return sample
+        })
+        .join(';')
+    )
+    .join('|')
+}
+
+// 형식이 틀리면 null
+export const decodeTurbineTrace = (trace: string): TraceSample[][] | null => {
+  if (trace === '') return []
+  let last = 0
+  const strokes: TraceSample[][] = []
+  for (const strokeText of trace.split('|')) {
+    const stroke: TraceSample[] = []
+    for (const sampleText of strokeText.split(';')) {
+      const match = /^(\d{1,6}),(-?\d{1,4})$/.exec(sampleText)
+      if (!match) return null
+      const angle = Number(match[2]) / 10
+      if (angle < -180 || angle > 180) return null
+      last += Number(match[1])
+      stroke.push({ t: last, angle })
+    }
+    strokes.push(stroke)
+  }
+  return strokes
+}
+
+// ==================== Replay ====================
+export interface TurbineReplay extends TurbineResult {
+  // 0.5초 구간별 가속 입력 각도의 최댓값을 초당 값으로 환산 (도/초)
+  peakInputRate: number
+  // 게임이 끝났어야 하는 시각 (ms, Time Boost 포함)
+  endTime: number
+}
+
+const INPUT_RATE_WINDOW_MS = 500
+
+export const replayTurbine = (
+  strokes: TraceSample[][],
+  durationMs: number,
+  wind: { start: number; end: number } | null,
+  mode: TurbineMode = 'standard'
+): TurbineReplay => {
+  const sim = createTurbineSim(mode)
+  let bonusSeconds = 0
+  const clock: TurbineClock = {
+    getTimeLeft: (time) => getTurbineTimeLeft(time, bonusSeconds),
+    addTime: (seconds) => {
+      bonusSeconds += seconds
+    },
+  }
+
+  const inputByWindow = new Map<number, number>()
+  for (const stroke of strokes) {
+    stroke.forEach(({ t, angle }, index) => {
+      advanceTurbine(sim, t, clock)
+      if (index === 0) {
+        pressTurbine(sim, angle)
+        return
+      }
+      const before = sim.lastAngle ?? angle
+      const windActive = wind !== null && t >= wind.start && t <= wind.end
+      if (dragTurbine(sim, angle, windActive) === 'spin') {
+        let delta = angle - before
+        if (delta < -180) delta += 360
+        const bucket = Math.floor(t / INPUT_RATE_WINDOW_MS)
+        inputByWindow.set(bucket, (inputByWindow.get(bucket) ?? 0) + delta)
+      }
+    })
+    releaseTurbine(sim)
+  }
+  advanceTurbine(sim, durationMs, clock)
+
+  let peakInput = 0
+  inputByWindow.forEach((degrees) => {
+    peakInput = Math.max(peakInput, degrees)
+  })
+  return {
+    ...getTurbineResult(sim),
+    peakInputRate: peakInput * (1000 / INPUT_RATE_WINDOW_MS),
+    endTime: (GAME_DURATION + bonusSeconds) * 1000,
+  }
+}
@@ -0,0 +1,253 @@
+import type { ExpSource, TimeSlot } from './exp-rules'
+import type { Department } from './departments'
+import type { BadgeId, BadgeProgress } from './badges'
+import type { TurbineMode } from './turbine'
+import type { PromptTemplate } from './prompt-templates'
+
+// ==================== Shared Types ====================
+// 클라이언트(page.tsx)와 서버(route handler)가 함께 쓰는 타입
+
+export interface UserData {
+  nickname: string
+  characterId: number
+  level: number
+  exp: number
+  badges: number
+  totalExp: number
+  // 소속 부서 (부서 랭킹용, 기존 사용자는 미지정일 수 있음)
+  department?: Department
+  // 마지막 수정 시각 (서버/로컬 캐시 중 최신본 판별용)
+  updatedAt?: number
+}
+
+// ==================== EXP Ledger ====================
+export type ExpMetadata = Record<string, string | number | boolean>
+
+export interface ExpTransaction {
+  id: string
+  userId: string
+  source: ExpSource
+  amount: number
+  createdAt: number
+  // 서비스 시간대 기준 날짜 (YYYY-MM-DD)
+  dateKey: string
+  metadata: ExpMetadata
+  // 클라이언트가 발급한 멱등 키 (같은 키의 재전송은 한 번만 지급)
+  idempotencyKey?: string
+}
+
+// 오늘 하루 동안의 EXP 획득 현황 (일일 제한 표시용)
+export interface DailyExpSummary {
+  date: string
+  checkIns: TimeSlot[]
+  // 시간대별 출석 근무지 ID
+  checkInSites: Partial<Record<TimeSlot, string>>
+  aiClicks: number
+  links: string[]
+  tools: string[]
+  // 게임별 오늘 플레이 횟수와 획득 EXP
+  games: Record<string, { rounds: number; exp: number }>
+}
+
+export interface ExpGrantRequest {
+  source: ExpSource
+  metadata?: ExpMetadata
+  testMode?: boolean
+  // 오프라인 대기열에서 재전송할 때: 멱등 키와 실제 획득 시각
+  idempotencyKey?: string
+  occurredAt?: number
+}
+
+export interface ExpGrantResult {
+  transaction: ExpTransaction
+  totalExp: number
+  level: number
+  // 획득 뱃지 수와 이번 지급으로 새로 획득한 뱃지
+  badges: number
+  newBadges: BadgeId[]
+  // 이번 출석으로 연속 출석 마일스톤을 달성한 경우 보너스 거래
+  streakBonus: ExpTransaction | null
+  today: DailyExpSummary
+  // 이미 처리된 멱등 키의 재전송이면 true (새로 지급하지 않음)
+  replayed?: boolean
+}
+
+// ==================== Notifications ====================
+export type NotificationType = 'level-up' | 'badge' | 'check-in-reminder' | 'announcement'
+
+export interface AppNotification {
+  id: string
+  type: NotificationType
+  title: string
+  body: string
+  createdAt: number
+  // 읽은 시각 (안 읽었으면 null)
+  readAt: number | null
+}
+
+// 운영자 공지 (알림함으로 전달)
+export interface Announcement {
+  id: string
+  title: string
+  body: string
+  createdAt: number
+}
+
+// ==================== Attendance ====================
+export interface StreakSummary {
+  current: number
+  longest: number
+  // 다음 보너스까지 필요한 연속 일수 (모두 달성했으면 null)
+  nextMilestone: number | null
+}
+
+export interface AttendanceCalendar {
+  // YYYY-MM
+  month: string
+  // 날짜별 출석한 시간대
+  days: Record<string, TimeSlot[]>
+  streak: StreakSummary
+}
+
+// ==================== Profile Overview ====================
+export interface LevelMilestone {
+  level: number
+  reachedAt: number
+}
+
+export interface CheckInStats {
+  // 누적 출석 횟수 / 출석한 날 수
+  total: number
+  days: number
+  bySlot: Partial<Record<TimeSlot, number>>
+  nfc: number
+  gps: number
+  streak: StreakSummary
+}
+
+export interface ProfileOverview {
+  profile: UserData
+  joinedAt: number
+  // 레벨 달성 시각 (원장 누적 EXP 기준, 오래된 순)
+  levelHistory: LevelMilestone[]
+  expBySource: Partial<Record<ExpSource, number>>
+  checkIns: CheckInStats
+  badges: BadgeProgress[]
+}
+
+// ==================== Leaderboard ====================
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'all'
+
+export interface LeaderboardEntry {
+  rank: number
+  nickname: string
+  characterId: number
+  department?: Department
+  level: number
+  // 기간 내 획득 EXP (all = 누적 EXP)
+  exp: number
+  isMe: boolean
+}
+
+export interface DepartmentRanking {
+  rank: number
+  department: Department
+  members: number
+  exp: number
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod
+  // 집계 시작일 (all 이면 null)
+  from: string | null
+  entries: LeaderboardEntry[]
+  // 내 순위 (상위 목록 밖이어도 포함)
+  me: LeaderboardEntry | null
+  departments: DepartmentRanking[]
+}
+
+// ==================== Web Push ====================
+export interface PushPreferences {
+  // VAPID 공개키 (브라우저 구독 시 applicationServerKey, 서버에 푸시가 설정되지 않았으면 null)
+  publicKey: string | null
+  // 이 기기(endpoint)가 구독 중인지
+  subscribed: boolean
+  // 알림 받을 출석 시간대
+  slots: TimeSlot[]
+}
+
+// ==================== External Game Bridge ====================
+// 외부 게임이 postMessage로 보내는 서명된 완료 결과 (app/server/game-bridge.ts 참고)
+export interface GameBridgeResult {
+  gameId: string
+  nonce: string
+  score: number
+  durationMs: number
+  signature: string
+}
+
+export interface GameSessionTicket {
+  nonce: string
+  expiresAt: number
+}
+
+export type GameResultCheck =
+  | { valid: true; exp: number }
+  | { valid: false; message: string }
+
+// ==================== Turbine Records ====================
+export type TurbineRecordPeriod = 'daily' | 'weekly'
+
+// 풍력 게임 한 판의 기록 (서버가 입력 기록으로 재현한 값, RPS는 표시 보정 전)
+export interface TurbineRoundStats {
+  spins: number
+  avgRps: number
+  maxRps: number
+  maxCombo: number
+  timeBoosts: number
+}
+
+export type TurbineStatKey = keyof TurbineRoundStats
+
+// 기록은 모드(입문/표준/태풍)별로 따로 집계
+export interface TurbineRecordResult {
+  mode: TurbineMode
+  stats: TurbineRoundStats
+  // 이번 판 이전의 개인 최고 기록 (첫 판이면 null)
+  previousBest: TurbineRoundStats | null
+  personalBest: TurbineRoundStats
+  newRecords: TurbineStatKey[]
+}
+
+export interface TurbineHighScoreEntry {
+  rank: number
+  nickname: string
+  characterId: number
+  spins: number
+  maxRps: number
+  isMe: boolean
+}
+
+export interface TurbineHighScores {
+  mode: TurbineMode
+  period: TurbineRecordPeriod
+  from: string
+  entries: TurbineHighScoreEntry[]
+  // 순위표 밖이어도 내 기록은 포함
+  me: TurbineHighScoreEntry | null
+  personalBest: TurbineRoundStats | null
+}
+
+// ==================== Prompt Security ====================
+// 검사 요약을 기록하고 받은 EXP 요청용 일회용 검사 ID
+export interface PromptCheckResult {
+  checkId: string
+}
+
+// ==================== Prompt Templates ====================
+// 템플릿 + 내 즐겨찾기/사용 기록
+export interface PromptTemplateItem extends PromptTemplate {
+  favorite: boolean
+  uses: number
+  lastUsedAt: number | null
+}
@@ -0,0 +1,47 @@
+import { saveProfile } from './api'
+import { getLevel } from './exp-rules'
+import type { UserData } from './types'
+
+// ==================== User Data Cache ====================
+// 프로필의 로컬 캐시(localStorage)와 서버 저장. 메인 화면과 프로필 화면이 함께 사용합니다.
+
+const STORAGE_KEY = 'kepco_ai_zone_user'
+export const PROFILE_SYNC_PENDING_KEY = 'kepco_ai_zone_sync_pending'
+
+// 누적 EXP 기준으로 레벨/EXP 동기화
+export const normalizeUserData = (data: UserData, perLevel: number): UserData => {
+  const totalExp = data.totalExp ?? 0
+  return {
+    ...data,
+    totalExp,
+    level: getLevel(totalExp, perLevel),
+    exp: totalExp % perLevel,
+  }
+}
+
+// localStorage는 오프라인 캐시로 사용
+export const getCachedUserData = (perLevel: number): UserData | null => {
+  const stored = localStorage.getItem(STORAGE_KEY)
+  if (!stored) return null
+  try {
+    return normalizeUserData(JSON.parse(stored), perLevel)
+  } catch {
+    return null
+  }
+}
+
+export const cacheUserData = (data: UserData) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data))
+}
+
+// 서버에 저장 (실패 시 온라인 복귀 후 재시도)
+export const pushUserData = async (data: UserData): Promise<UserData | null> => {
+  try {
+    const saved = await saveProfile(data)
+    localStorage.removeItem(PROFILE_SYNC_PENDING_KEY)
+    return saved
+  } catch {
+    localStorage.setItem(PROFILE_SYNC_PENDING_KEY, 'true')
+    return null
+  }
+}
@@ -34,31 +34,53 @@ import {
   Newspaper,
   ExternalLink,
   Wind,
+  Sun,
   Wrench,
-  BookOpen,
-  Code2,
-  Video,
-  Music,
-  ShieldAlert,
+  Smartphone,
+  Copy,
+  Medal,
+  Building2,
+  Award,
+  Flame,
+  Megaphone,
 } from 'lucide-react'
 
 // Games
-import { WindTurbineGame } from './games'
+import { GameHost, getGame, getGameAllowance, getGamesBySection, type GameInfo, type GameRoundStats } from './games'
 
-// ==================== Types ====================
-interface UserData {
-  nickname: string
-  characterId: number
-  level: number
-  exp: number
-  badges: number
-  totalExp: number
-}
+// Server API
+import type { AppNotification, DailyExpSummary, ExpGrantResult, ExpMetadata, GameBridgeResult, Leaderboard, LeaderboardPeriod, NotificationType, UserData } from './lib/types'
+import { ApiError, fetchProfile, deleteProfile, getUserId, setUserId, fetchExpSummary, verifyNfcToken, fetchSites, fetchLeaderboard, fetchBadges, fetchNotifications, markNotificationsRead, verifyGameResult } from './lib/api'
+import {
+  STREAK_MILESTONES,
+  formatTimeSlots,
+  getDateKey,
+  getLevel,
+  getTimeSlotAt,
+  type ExpSource,
+  type TimeSlot,
+  type TimeSlotInfo,
+} from './lib/exp-rules'
+import { ConfigProvider, useAppConfig, useRewardRules } from './lib/config-context'
+import { getPushPreferences, isPushSupported, subscribePush, unsubscribePush } from './lib/push'
+import { flushExpQueue, isOfflineError, submitExp } from './lib/exp-queue'
+import { launchExternalGame } from './lib/game-bridge'
+import { CHARACTERS, type Character } from './lib/characters'
+import { PROFILE_SYNC_PENDING_KEY, cacheUserData, getCachedUserData, normalizeUserData, pushUserData } from './lib/user-data'
+import type { AITool } from './lib/ai-tools'
+import { SecurityConsentModal } from './components/SecurityConsentModal'
+import { AIToolCatalog } from './components/AIToolCatalog'
+import { DEFAULT_SITES, findSiteAt, type Site } from './lib/sites'
+import { DEPARTMENTS, type Department } from './lib/departments'
+import { getBadge, type BadgeId, type BadgeProgress } from './lib/badges'
 
+// ==================== Types ====================
 interface CheckInRecord {
   morning: boolean
   lunch: boolean
   evening: boolean
+  // 시간대별 출석 근무지 ID
+  sites?: Partial<Record<TimeSlot, string>>
 }
 
 interface CheckInHistory {
@@ -75,76 +97,12 @@ interface LinkClickRecord {
   clickedLinks: string[]
 }
 
-type TimeSlot = 'morning' | 'lunch' | 'evening'
-
-interface Character {
-  id: number
-  name: string
-  file: string
-  description: string
-}
-
 // ==================== Constants ====================
-const CHARACTERS: Character[] = [
-  { id: 1, name: 'Tobby', file: '1. Tobby.png', description: '신입사원' },
-  { id: 2, name: 'Volty', file: '2. Volty.png', description: '신입사원' },
-  { id: 3, name: 'Lumi', file: '3. Lumi.png', description: '신입사원' },
-  { id: 4, name: 'Windy', file: '4. Windy.png', description: '신입사원' },
-  { id: 5, name: 'Solar', file: '5. Solar.png', description: '신입사원' },
-  { id: 6, name: 'Green', file: '7. Green.png', description: '신입사원' },
-]
-
-const STORAGE_KEY = 'kepco_ai_zone_user'
 const CHECKIN_HISTORY_KEY = 'checkInHistory'
 const TEST_MODE_KEY = 'kepco_test_mode'
 const AI_CLICK_KEY = 'kepco_ai_click'
 const LINK_CLICK_KEY = 'kepco_link_click'
 
-// GPS 설정 - 한전 경남본부 좌표 (필요시 수정)
-const TARGET_LAT = 35.1795
-const TARGET_LNG = 129.0756
-const ALLOWED_RADIUS = 100
-
-// EXP 설정
-const EXP_NFC = 20
-const EXP_GPS = 10
-const EXP_AI_CLICK = 2
-const EXP_AI_CLICK_MAX_DAILY = 5
-const EXP_LINK_CLICK = 5
-const EXP_PER_LEVEL = 100
-
-// 타임슬롯 설정
-const TIME_SLOTS: { id: TimeSlot; name: string; startHour: number; endHour: number; icon: string }[] = [
-  { id: 'morning', name: '출근', startHour: 8, endHour: 10, icon: '🌅' },
-  { id: 'lunch', name: '점심', startHour: 11, endHour: 13, icon: '🍱' },
-  { id: 'evening', name: '퇴근', startHour: 17, endHour: 19, icon: '🌆' },
-]
-
-// AI TOOL 설정
-interface AITool {
-  id: string
-  name: string
-  category: string
-  url: string
-  bgClass: string
-  hoverShadow: string
-  icon: 'BookOpen' | 'Code2' | 'Video' | 'Music'
-}
-
-const AI_TOOLS: AITool[] = [
-  // 자료조사
-  { id: 'notebooklm', name: 'NotebookLM', category: '자료조사', url: 'https://notebooklm.google/', bgClass: 'bg-blue-500/20 hover:bg-blue-500/30', hoverShadow: 'rgba(59, 130, 246, 0.4)', icon: 'BookOpen' },
-  // 바이브코딩 (4개)
-  { id: 'claude-ai', name: 'Claude AI', category: '바이브코딩', url: 'https://claude.ai/new', bgClass: 'bg-purple-500/20 hover:bg-purple-500/30', hoverShadow: 'rgba(168, 85, 247, 0.4)', icon: 'Code2' },
-  { id: 'google-ai-studio', name: 'Google AI Studio', category: '바이브코딩', url: 'https://aistudio.google.com/', bgClass: 'bg-violet-500/20 hover:bg-violet-500/30', hoverShadow: 'rgba(139, 92, 246, 0.4)', icon: 'Code2' },
-  { id: 'bolt-new', name: 'Bolt.new', category: '바이브코딩', url: 'https://bolt.new/', bgClass: 'bg-indigo-500/20 hover:bg-indigo-500/30', hoverShadow: 'rgba(99, 102, 241, 0.4)', icon: 'Code2' },
-  { id: 'cursor-ai', name: 'Cursor AI', category: '바이브코딩', url: 'https://cursor.com/agents', bgClass: 'bg-fuchsia-500/20 hover:bg-fuchsia-500/30', hoverShadow: 'rgba(217, 70, 239, 0.4)', icon: 'Code2' },
-  // 영상생성
-  { id: 'invideo', name: 'Invideo', category: '영상생성', url: 'https://ai.invideo.io', bgClass: 'bg-red-500/20 hover:bg-red-500/30', hoverShadow: 'rgba(239, 68, 68, 0.4)', icon: 'Video' },
-  // 음악생성
-  { id: 'suno', name: 'Suno AI', category: '음악생성', url: 'https://suno.com/', bgClass: 'bg-green-500/20 hover:bg-green-500/30', hoverShadow: 'rgba(34, 197, 94, 0.4)', icon: 'Music' },
-]
-
 const AI_TOOL_CLICK_KEY = 'kepco_ai_tool_click'
 
 interface AIToolClickRecord {
@@ -179,20 +137,12 @@ const springConfig = {
 }
 
 // ==================== Check-In Utilities ====================
-const getTodayKey = () => {
-  const now = new Date()
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
-}
+// 날짜/시간대는 서버와 같은 서비스 시간대(한국 시간) 기준
+const getTodayKey = () => getDateKey()
 
-const getCurrentTimeSlot = (testMode: boolean = false): TimeSlot | null => {
+const getCurrentTimeSlot = (timeSlots: TimeSlotInfo[], testMode: boolean = false): TimeSlot | null => {
   if (testMode) return 'morning' // 테스트 모드에서는 항상 출석 가능
-  const hour = new Date().getHours()
-  for (const slot of TIME_SLOTS) {
-    if (hour >= slot.startHour && hour < slot.endHour) {
-      return slot.id
-    }
-  }
-  return null
+  return getTimeSlotAt(timeSlots)
 }
 
 const getCheckInHistory = (): CheckInHistory => {
@@ -253,16 +203,19 @@ const saveAIToolClickRecord = (record: AIToolClickRecord) => {
   localStorage.setItem(AI_TOOL_CLICK_KEY, JSON.stringify(record))
 }
 
-const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-  const R = 6371e3
-  const φ1 = (lat1 * Math.PI) / 180
-  const φ2 = (lat2 * Math.PI) / 180
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180
-  const Δλ = ((lng2 - lng1) * Math.PI) / 180
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  return R * c
+// 서버의 오늘 획득 현황을 로컬 캐시에 반영
+const cacheDailySummary = (today: DailyExpSummary) => {
+  saveAIClickRecord({ date: today.date, count: today.aiClicks })
+  saveLinkClickRecord({ date: today.date, clickedLinks: today.links })
+  saveAIToolClickRecord({ date: today.date, clickedTools: today.tools })
+
+  const history = getCheckInHistory()
+  const record = history[today.date] || { morning: false, lunch: false, evening: false }
+  today.checkIns.forEach((slot) => {
+    record[slot] = true
+  })
+  record.sites = { ...record.sites, ...today.checkInSites }
+  saveCheckInHistory({ ...history, [today.date]: record })
 }
 
 // ==================== Utility Components ====================
@@ -315,6 +268,117 @@ const GradientButton = ({
   </motion.button>
 )
 
+// ==================== Push Reminder Settings ====================
+// 출석 시간대별 Web Push 알림 구독 (설정 패널 안)
+const PushReminderSettings = () => {
+  const { timeSlots } = useAppConfig()
+  // 사용할 수 없는 이유 (null이면 사용 가능)
+  const [unavailable, setUnavailable] = useState<string | null>(null)
+  const [subscribed, setSubscribed] = useState(false)
+  const [slots, setSlots] = useState<TimeSlot[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isPushSupported()) {
+      setUnavailable('이 브라우저는 푸시 알림을 지원하지 않습니다 (iOS는 홈 화면에 추가 후 사용)')
+      return
+    }
+    getPushPreferences()
+      .then((preferences) => {
+        if (!preferences.publicKey) {
+          setUnavailable('푸시 알림이 아직 준비되지 않았습니다')
+          return
+        }
+        setSubscribed(preferences.subscribed)
+        setSlots(preferences.subscribed ? preferences.slots : timeSlots.map((slot) => slot.id))
+      })
+      .catch(() => setSlots(timeSlots.map((slot) => slot.id)))
+  }, [timeSlots])
+
+  const apply = async (nextSlots: TimeSlot[], enable: boolean) => {
+    setBusy(true)
+    setError(null)
+    try {
+      if (enable && nextSlots.length > 0) {
+        const preferences = await subscribePush(nextSlots)
+        setSubscribed(true)
+        setSlots(preferences.slots)
+      } else {
+        await unsubscribePush()
+        setSubscribed(false)
+        setSlots(nextSlots)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '알림 설정에 실패했습니다')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleToggleSlot = (slotId: TimeSlot) => {
+    const nextSlots = slots.includes(slotId) ? slots.filter((id) => id !== slotId) : [...slots, slotId]
+    if (subscribed) {
+      apply(nextSlots, true)
+    } else {
+      setSlots(nextSlots)
+    }
+  }
+
+  return (
+    <div className="mb-4 p-3 bg-white/5 rounded-xl border border-white/10">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Bell className="w-4 h-4 text-kepco-cyan" />
+          <p className="text-sm font-medium text-white">출석 알림</p>
+        </div>
+        {!unavailable && (
+          <motion.button
+            className={`relative w-12 h-6 rounded-full transition-colors disabled:opacity-50 ${
+              subscribed ? 'bg-kepco-cyan' : 'bg-slate-600'
+            }`}
+            onClick={() => apply(slots, !subscribed)}
+            disabled={busy || (!subscribed && slots.length === 0)}
+            whileTap={{ scale: 0.95 }}
+          >
+            <motion.div
+              className="absolute top-1 w-4 h-4 bg-white rounded-full shadow-md"
+              animate={{ left: subscribed ? '26px' : '4px' }}
+              transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+            />
+          </motion.button>
+        )}
+      </div>
+
+      {!unavailable ? (
+        <>
+          <p className="text-xs text-slate-500 mb-2">시간대가 열렸는데 아직 출석하지 않았으면 알려드려요</p>
+          <div className="flex gap-1.5">
+            {timeSlots.map((slot) => (
+              <motion.button
+                key={slot.id}
+                className={`flex-1 py-1.5 rounded-lg text-xs border transition-colors disabled:opacity-50 ${
+                  slots.includes(slot.id)
+                    ? 'bg-kepco-cyan/20 border-kepco-cyan/50 text-kepco-cyan'
+                    : 'bg-black/20 border-white/10 text-slate-400'
+                }`}
+                onClick={() => handleToggleSlot(slot.id)}
+                disabled={busy}
+                whileTap={{ scale: 0.95 }}
+              >
+                {slot.icon} {slot.name}
+              </motion.button>
+            ))}
+          </div>
+          {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        </>
+      ) : (
+        <p className="text-xs text-slate-500">{unavailable}</p>
+      )}
+    </div>
+  )
+}
+
 // ==================== Settings Panel ====================
 const SettingsPanel = ({
   isOpen,
@@ -330,6 +394,18 @@ const SettingsPanel = ({
   onResetData: () => void
 }) => {
   const [showResetConfirm, setShowResetConfirm] = useState(false)
+  const [syncCode, setSyncCode] = useState('')
+  const [codeCopied, setCodeCopied] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) setSyncCode(getUserId())
+  }, [isOpen])
+
+  const handleCopySyncCode = async () => {
+    await navigator.clipboard?.writeText(syncCode).catch(() => undefined)
+    setCodeCopied(true)
+    setTimeout(() => setCodeCopied(false), 1500)
+  }
 
   if (!isOpen) return null
 
@@ -419,6 +495,26 @@ const SettingsPanel = ({
             </AnimatePresence>
           </div>
 
+          {/* Push Reminders */}
+          <PushReminderSettings />
+
+          {/* Device Sync Code */}
+          <div className="mb-4 p-3 bg-white/5 rounded-xl border border-white/10">
+            <div className="flex items-center gap-2 mb-2">
+              <Smartphone className="w-4 h-4 text-kepco-cyan" />
+              <p className="text-sm font-medium text-white">기기 연동 코드</p>
+            </div>
+            <p className="text-xs text-slate-500 mb-2">새 기기의 시작 화면에서 입력하면 기록을 이어갑니다</p>
+            <motion.button
+              className="w-full flex items-center justify-between gap-2 px-3 py-2 bg-black/30 rounded-lg"
+              onClick={handleCopySyncCode}
+              whileTap={{ scale: 0.98 }}
+            >
+              <span className="text-[10px] text-slate-300 font-mono truncate">{syncCode}</span>
+              {codeCopied ? <Check className="w-3.5 h-3.5 text-green-400 flex-shrink-0" /> : <Copy className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" />}
+            </motion.button>
+          </div>
+
           {/* Divider */}
           <div className="border-t border-white/10 my-4" />
 
@@ -527,27 +623,10 @@ const SettingsButton = ({
   </motion.button>
 )
 
-// ==================== Floating EXP Animation ====================
-const FloatingPointAnimation = ({ show, x, y, amount }: { show: boolean; x: number; y: number; amount: number }) => {
-  if (!show) return null
-
-  return (
-    <motion.div
-      className="fixed z-[300] pointer-events-none"
-      style={{ left: x, top: y }}
-      initial={{ opacity: 1, y: 0, scale: 1 }}
-      animate={{ opacity: 0, y: -60, scale: 1.5 }}
-      transition={{ duration: 1.2, ease: 'easeOut' }}
-    >
-      <span className="text-2xl font-black text-transparent bg-clip-text bg-gradient-to-r from-kepco-cyan to-green-400 drop-shadow-lg">
-        +{amount}
-      </span>
-    </motion.div>
-  )
-}
-
 // ==================== Link EXP Celebration Animation ====================
 const LinkExpCelebration = ({ show, onComplete }: { show: boolean; onComplete: () => void }) => {
+  const { linkClick } = useRewardRules()
+
   useEffect(() => {
     if (show) {
       const timer = setTimeout(onComplete, 2000)
@@ -595,7 +674,7 @@ const LinkExpCelebration = ({ show, onComplete }: { show: boolean; onComplete: (
           animate={{ scale: [1, 1.1, 1] }}
           transition={{ duration: 0.3, repeat: 3 }}
         >
-          +{EXP_LINK_CLICK} EXP!
+          +{linkClick} EXP!
         </motion.div>
         <motion.p
           className="text-white/80 text-sm mt-2"
@@ -612,6 +691,8 @@ const LinkExpCelebration = ({ show, onComplete }: { show: boolean; onComplete: (
 
 // ==================== AI Tool EXP Toast ====================
 const AIToolExpToast = ({ show, onComplete }: { show: boolean; onComplete: () => void }) => {
+  const { linkClick } = useRewardRules()
+
   useEffect(() => {
     if (show) {
       const timer = setTimeout(onComplete, 2500)
@@ -639,7 +720,7 @@ const AIToolExpToast = ({ show, onComplete }: { show: boolean; onComplete: () =>
           </motion.div>
           <div>
             <p className="text-green-400 font-semibold text-sm" style={{ wordBreak: 'keep-all' }}>오늘의 AI 학습 포인트</p>
-            <p className="text-white font-bold">+{EXP_LINK_CLICK} EXP 지급 완료!</p>
+            <p className="text-white font-bold">+{linkClick} EXP 지급 완료!</p>
           </div>
         </div>
       </div>
@@ -647,100 +728,27 @@ const AIToolExpToast = ({ show, onComplete }: { show: boolean; onComplete: () =>
   )
 }
 
-// ==================== Security Consent Modal ====================
-interface SecurityConsentModalProps {
-  isOpen: boolean
-  onClose: () => void
-  onConfirm: () => void
-  toolName: string
-}
-
-const SecurityConsentModal = ({ isOpen, onClose, onConfirm, toolName }: SecurityConsentModalProps) => {
-  if (!isOpen) return null
+// ==================== EXP Error Toast ====================
+const ExpErrorToast = ({ message, onComplete }: { message: string; onComplete: () => void }) => {
+  useEffect(() => {
+    const timer = setTimeout(onComplete, 2500)
+    return () => clearTimeout(timer)
+  }, [message, onComplete])
 
   return (
-    <AnimatePresence>
-      <motion.div
-        className="fixed inset-0 z-[500] flex items-center justify-center p-4"
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        exit={{ opacity: 0 }}
-      >
-        {/* Backdrop */}
-        <motion.div
-          className="absolute inset-0 bg-black/70 backdrop-blur-sm"
-          onClick={onClose}
-        />
-
-        {/* Modal */}
-        <motion.div
-          className="relative glass-strong rounded-2xl p-6 max-w-sm w-full shadow-2xl border border-yellow-500/30"
-          initial={{ scale: 0.9, y: 20 }}
-          animate={{ scale: 1, y: 0 }}
-          exit={{ scale: 0.9, y: 20 }}
-          transition={springConfig}
-        >
-          {/* Header */}
-          <div className="flex items-center gap-3 mb-4">
-            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-yellow-500 to-orange-500 flex items-center justify-center">
-              <ShieldAlert className="w-6 h-6 text-white" />
-            </div>
-            <div>
-              <h3 className="font-bold text-lg text-white" style={{ wordBreak: 'keep-all' }}>보안 준수 확인</h3>
-              <p className="text-xs text-slate-400">{toolName}</p>
-            </div>
-          </div>
-
-          {/* Content */}
-          <div className="space-y-3 mb-6">
-            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
-              <p className="text-sm text-yellow-200 leading-relaxed" style={{ wordBreak: 'keep-all' }}>
-                외부 AI 서비스 이용 시 아래 사항을 준수해 주세요.
-              </p>
-            </div>
-
-            <ul className="space-y-2 text-sm text-slate-300">
-              <li className="flex items-start gap-2" style={{ wordBreak: 'keep-all' }}>
-                <X className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
-                <span>회사 내부 자료 입력 금지</span>
-              </li>
-              <li className="flex items-start gap-2" style={{ wordBreak: 'keep-all' }}>
-                <X className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
-                <span>개인정보 및 민감정보 입력 금지</span>
-              </li>
-              <li className="flex items-start gap-2" style={{ wordBreak: 'keep-all' }}>
-                <X className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
-                <span>업무용 비밀번호 입력 금지</span>
-              </li>
-              <li className="flex items-start gap-2" style={{ wordBreak: 'keep-all' }}>
-                <Check className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
-                <span>학습 및 업무 효율화 목적으로만 사용</span>
-              </li>
-            </ul>
-          </div>
-
-          {/* Buttons */}
-          <div className="flex gap-3">
-            <motion.button
-              className="flex-1 py-3 px-4 rounded-xl bg-white/10 border border-white/20 text-slate-300 font-medium"
-              onClick={onClose}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              취소
-            </motion.button>
-            <motion.button
-              className="flex-1 py-3 px-4 rounded-xl bg-gradient-to-r from-green-500 to-emerald-600 text-white font-bold shadow-lg"
-              onClick={onConfirm}
-              whileHover={{ scale: 1.02, boxShadow: '0 0 30px rgba(34, 197, 94, 0.5)' }}
-              whileTap={{ scale: 0.98 }}
-            >
-              동의 및 이동
-            </motion.button>
-          </div>
-        </motion.div>
-      </motion.div>
-    </AnimatePresence>
+    <motion.div
+      className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[450] pointer-events-none"
+      initial={{ opacity: 0, y: 20, scale: 0.9 }}
+      animate={{ opacity: 1, y: 0, scale: 1 }}
+      exit={{ opacity: 0, y: -10, scale: 0.9 }}
+    >
+      <div className="glass-strong rounded-2xl px-5 py-3 shadow-2xl border border-red-500/30">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-300" style={{ wordBreak: 'keep-all' }}>{message}</p>
+        </div>
+      </div>
+    </motion.div>
   )
 }
 
@@ -844,8 +852,200 @@ const LevelUpPopup = ({ show, level, onClose }: { show: boolean; level: number;
   )
 }
 
+// ==================== Badge Unlock Popup ====================
+const BadgeUnlockPopup = ({ badgeId, onClose }: { badgeId: BadgeId | null; onClose: () => void }) => {
+  useEffect(() => {
+    if (badgeId) {
+      const timer = setTimeout(onClose, 3000)
+      return () => clearTimeout(timer)
+    }
+  }, [badgeId, onClose])
+
+  const badge = badgeId ? getBadge(badgeId) : undefined
+  if (!badge) return null
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-[400] flex items-center justify-center pointer-events-auto"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+      >
+        {/* Backdrop */}
+        <motion.div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+        {/* Confetti Particles */}
+        {[...Array(30)].map((_, i) => (
+          <motion.div
+            key={i}
+            className="absolute w-3 h-3 rounded-full"
+            style={{
+              backgroundColor: ['#FFD700', '#00D4FF', '#FF6B6B', '#4ECDC4', '#A855F7'][i % 5],
+            }}
+            initial={{ x: 0, y: 0, scale: 0, opacity: 1 }}
+            animate={{
+              x: (Math.random() - 0.5) * 400,
+              y: (Math.random() - 0.5) * 400,
+              scale: [0, 1.5, 0],
+              opacity: [1, 1, 0],
+              rotate: Math.random() * 360,
+            }}
+            transition={{ duration: 2, delay: i * 0.03, ease: 'easeOut' }}
+          />
+        ))}
+
+        {/* Main Content */}
+        <motion.div
+          className="relative z-10 text-center p-8"
+          initial={{ scale: 0, rotate: -10 }}
+          animate={{ scale: [0, 1.2, 1], rotate: [10, -5, 0] }}
+          transition={{ duration: 0.6, ease: 'easeOut' }}
+        >
+          <motion.div
+            className="w-24 h-24 mx-auto mb-4 rounded-full bg-gradient-to-br from-yellow-400/30 to-orange-500/30 border-2 border-yellow-400 flex items-center justify-center text-5xl"
+            animate={{ y: [0, -10, 0] }}
+            transition={{ duration: 0.8, repeat: Infinity }}
+          >
+            {badge.icon}
+          </motion.div>
+
+          <motion.h2
+            className="text-4xl font-black mb-2"
+            animate={{ scale: [1, 1.05, 1] }}
+            transition={{ duration: 0.5, repeat: Infinity }}
+          >
+            <span className="text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 via-orange-400 to-pink-500">
+              NEW BADGE!
+            </span>
+          </motion.h2>
+
+          <motion.div
+            className="text-3xl font-black text-white mt-4"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+          >
+            {badge.name}
+          </motion.div>
+
+          <motion.p
+            className="text-slate-300 text-sm mt-3"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.5 }}
+          >
+            {badge.description}
+          </motion.p>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
+
+// ==================== Badge Sheet ====================
+const BadgeSheet = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const [progress, setProgress] = useState<BadgeProgress[] | null>(null)
+  const [loadFailed, setLoadFailed] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setLoadFailed(false)
+    fetchBadges()
+      .then(setProgress)
+      .catch(() => setLoadFailed(true))
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const earnedCount = progress?.filter((p) => p.earnedAt !== null).length ?? 0
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-[500] flex items-end justify-center"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        {/* Backdrop */}
+        <motion.div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+        {/* Sheet */}
+        <motion.div
+          className="relative w-full max-w-md max-h-[85vh] glass-strong rounded-t-3xl p-5 flex flex-col"
+          initial={{ y: '100%' }}
+          animate={{ y: 0 }}
+          exit={{ y: '100%' }}
+          transition={springConfig}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Award className="w-5 h-5 text-yellow-400" />
+              <h3 className="font-semibold text-white">뱃지</h3>
+              {progress && (
+                <span className="text-xs text-slate-500">{earnedCount}/{progress.length}</span>
+              )}
+            </div>
+            <motion.button
+              onClick={onClose}
+              className="text-slate-400 hover:text-white"
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+            >
+              <X className="w-5 h-5" />
+            </motion.button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto grid grid-cols-2 gap-3 pb-4">
+            {loadFailed && (
+              <p className="col-span-2 text-center text-sm text-slate-500 py-10">뱃지 정보를 불러오지 못했습니다</p>
+            )}
+            {progress?.map((item) => {
+              const badge = getBadge(item.id)
+              if (!badge) return null
+              const earned = item.earnedAt !== null
+              return (
+                <div
+                  key={item.id}
+                  className={`p-3 rounded-xl border text-center ${
+                    earned ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-white/5 border-white/10'
+                  }`}
+                >
+                  <div className={`text-3xl mb-1 ${earned ? '' : 'grayscale opacity-40'}`}>{badge.icon}</div>
+                  <p className={`text-sm font-medium ${earned ? 'text-yellow-400' : 'text-slate-300'}`}>{badge.name}</p>
+                  <p className="text-[11px] text-slate-500 mt-0.5" style={{ wordBreak: 'keep-all' }}>{badge.description}</p>
+                  {earned ? (
+                    <p className="text-[10px] text-yellow-400/70 mt-2">
+                      {new Date(item.earnedAt as number).toLocaleDateString('ko-KR')} 획득
+                    </p>
+                  ) : (
+                    <div className="mt-2">
+                      <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-kepco-blue to-kepco-cyan"
+                          style={{ width: `${item.target > 0 ? (item.current / item.target) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <p className="text-[10px] text-slate-500 mt-1">{item.current}/{item.target}</p>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
+
 // ==================== Golden Pass Animation ====================
 const GoldenPassAnimation = ({ show }: { show: boolean }) => {
+  const { nfc } = useRewardRules()
+
   if (!show) return null
 
   return (
@@ -907,7 +1107,7 @@ const GoldenPassAnimation = ({ show }: { show: boolean }) => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.3 }}
         >
-          +{EXP_NFC} EXP 하이패스 보너스!
+          +{nfc} EXP 하이패스 보너스!
         </motion.p>
       </motion.div>
     </motion.div>
@@ -918,17 +1118,20 @@ const GoldenPassAnimation = ({ show }: { show: boolean }) => {
 const CheckInModal = ({
   isOpen,
   onClose,
-  isNFC,
+  nfcToken,
+  sites,
   userData,
-  onCheckInSuccess,
+  onCheckIn,
   selectedCharacter,
   testMode,
 }: {
   isOpen: boolean
   onClose: () => void
-  isNFC: boolean
+  // NFC 태그로 접속한 경우 태그 토큰 (없으면 null = GPS 출석)
+  nfcToken: string | null
+  sites: Site[]
   userData: UserData
-  onCheckInSuccess: (exp: number, isNFC: boolean) => void
+  onCheckIn: (source: ExpSource, metadata?: ExpMetadata) => Promise<ExpGrantResult>
   selectedCharacter: Character | undefined
   testMode: boolean
 }) => {
@@ -937,9 +1140,15 @@ const CheckInModal = ({
   const [earnedExp, setEarnedExp] = useState(0)
   const [showBubble, setShowBubble] = useState(false)
   const [showGoldenPass, setShowGoldenPass] = useState(false)
-
-  const currentSlot = getCurrentTimeSlot(testMode)
-  const currentSlotInfo = TIME_SLOTS.find(s => s.id === currentSlot)
+  const [isNFC, setIsNFC] = useState(nfcToken !== null)
+  const [nfcFallbackMessage, setNfcFallbackMessage] = useState<string | null>(null)
+  const [checkedInSite, setCheckedInSite] = useState<Site | null>(null)
+  const [streakBonus, setStreakBonus] = useState<{ days: number; exp: number } | null>(null)
+  const { timeSlots } = useAppConfig()
+  const rules = useRewardRules()
+
+  const currentSlot = getCurrentTimeSlot(timeSlots, testMode)
+  const currentSlotInfo = timeSlots.find(s => s.id === currentSlot)
   const todayKey = testMode ? `test-${Date.now()}` : getTodayKey()
   const history = getCheckInHistory()
   const todayRecord = testMode ? { morning: false, lunch: false, evening: false } : (history[todayKey] || { morning: false, lunch: false, evening: false })
@@ -950,6 +1159,12 @@ const CheckInModal = ({
     }
   }
 
+  const fallbackToGPS = (reason: string) => {
+    setIsNFC(false)
+    setNfcFallbackMessage(reason)
+    setStatus('idle')
+  }
+
   const performCheckIn = async (viaGPS: boolean = false) => {
     if (!currentSlot && !testMode) {
       setStatus('no-slot')
@@ -967,7 +1182,17 @@ const CheckInModal = ({
 
     setStatus('loading')
 
+    // NFC 태그 토큰 서버 검증 (위조/만료/재사용 시 GPS 출석으로 전환)
+    if (isNFC) {
+      const verification = nfcToken ? await verifyNfcToken(nfcToken).catch(() => null) : null
+      if (!verification?.valid) {
+        fallbackToGPS(verification?.message || 'NFC 태그 정보를 확인할 수 없습니다')
+        return
+      }
+    }
+
     // GPS 인증 (NFC가 아닌 경우)
+    let location: ExpMetadata | undefined
     if (viaGPS && !isNFC && !testMode) {
       try {
         const position = await new Promise<GeolocationPosition>((resolve, reject) => {
@@ -978,18 +1203,18 @@ const CheckInModal = ({
           })
         })
 
-        const distance = calculateDistance(
-          position.coords.latitude,
-          position.coords.longitude,
-          TARGET_LAT,
-          TARGET_LNG
-        )
+        const point = { lat: position.coords.latitude, lng: position.coords.longitude }
+        const match = findSiteAt(sites, point)
 
-        if (distance > ALLOWED_RADIUS) {
+        if (!match.inside) {
           setStatus('error')
-          setMessage(`위치 확인 실패 (${Math.round(distance)}m 떨어져 있음)`)
+          setMessage(match.nearest
+            ? `위치 확인 실패 (${match.nearest.name}에서 ${Math.round(match.distance)}m 떨어져 있음)`
+            : '등록된 출석 근무지가 없습니다')
           return
         }
+
+        location = { ...point, accuracy: Math.round(position.coords.accuracy) }
       } catch {
         setStatus('error')
         setMessage('위치 정보를 가져올 수 없습니다')
@@ -997,9 +1222,28 @@ const CheckInModal = ({
       }
     }
 
+    // 서버에 출석 EXP 지급 요청 (시간대/중복 출석/근무지는 서버가 최종 검증)
+    let result: ExpGrantResult
+    try {
+      result = await onCheckIn(isNFC ? 'nfc' : 'gps', isNFC && nfcToken ? { token: nfcToken } : location)
+    } catch (error) {
+      if (isNFC && error instanceof ApiError && error.status === 403) {
+        fallbackToGPS(error.message)
+        return
+      }
+      setStatus('error')
+      setMessage(error instanceof Error ? error.message : '출석 처리에 실패했습니다')
+      return
+    }
+
     // 출석 성공 처리
-    const exp = isNFC ? EXP_NFC : EXP_GPS
+    const exp = result.transaction.amount
+    const site = sites.find((s) => s.id === result.transaction.metadata.siteId) ?? null
     setEarnedExp(exp)
+    setCheckedInSite(site)
+    setStreakBonus(result.streakBonus
+      ? { days: Number(result.streakBonus.metadata.days), exp: result.streakBonus.amount }
+      : null)
 
     // NFC 골든 패스 애니메이션
     if (isNFC) {
@@ -1007,33 +1251,22 @@ const CheckInModal = ({
       setTimeout(() => setShowGoldenPass(false), 2500)
     }
 
-    // 히스토리 업데이트 (테스트 모드가 아닌 경우만)
-    if (!testMode) {
-      const newHistory = {
-        ...history,
-        [todayKey]: {
-          ...todayRecord,
-          [checkSlot]: true,
-        },
-      }
-      saveCheckInHistory(newHistory)
-    }
-
-    // 유저 데이터 업데이트
-    onCheckInSuccess(exp, isNFC)
-
     setStatus('success')
-    setMessage(isNFC ? '🏆 GOLDEN PASS!' : '📍 GPS 인증 성공!')
+    setMessage(isNFC ? '🏆 GOLDEN PASS!' : site ? `📍 ${site.name} 인증 성공!` : '📍 GPS 인증 성공!')
     triggerVibration()
 
     setTimeout(() => setShowBubble(true), isNFC ? 2000 : 500)
   }
 
+  // NFC 태그로 열리면 바로 출석 (렌더마다 바뀌는 performCheckIn은 최신 것을 ref로 호출)
+  const performCheckInRef = useRef(performCheckIn)
+  performCheckInRef.current = performCheckIn
+
   useEffect(() => {
     if (isOpen && isNFC && status === 'idle') {
-      performCheckIn(false)
+      performCheckInRef.current(false)
     }
-  }, [isOpen, isNFC])
+  }, [isOpen, isNFC, status])
 
   useEffect(() => {
     if (!isOpen) {
@@ -1041,8 +1274,13 @@ const CheckInModal = ({
       setMessage('')
       setShowBubble(false)
       setShowGoldenPass(false)
+      setCheckedInSite(null)
+      setStreakBonus(null)
+    } else {
+      setIsNFC(nfcToken !== null)
+      setNfcFallbackMessage(null)
     }
-  }, [isOpen])
+  }, [isOpen, nfcToken])
 
   if (!isOpen) return null
 
@@ -1119,7 +1357,7 @@ const CheckInModal = ({
               {isNFC ? '🏆 NFC 하이패스' : '📍 GPS 출석'}
             </h2>
             <p className="text-slate-400 text-sm">
-              {isNFC ? `+${EXP_NFC} EXP 보너스!` : currentSlotInfo ? `${currentSlotInfo.icon} ${currentSlotInfo.name} 시간대` : '출석 가능 시간 확인'}
+              {isNFC ? `+${rules.nfc} EXP 보너스!` : currentSlotInfo ? `${currentSlotInfo.icon} ${currentSlotInfo.name} 시간대` : '출석 가능 시간 확인'}
             </p>
           </div>
 
@@ -1127,6 +1365,12 @@ const CheckInModal = ({
           <div className="mb-6 relative z-10">
             {status === 'idle' && !isNFC && (
               <div className="text-center">
+                {nfcFallbackMessage && (
+                  <div className="mb-4 px-3 py-2 bg-yellow-500/10 border border-yellow-500/30 rounded-xl text-left">
+                    <p className="text-xs text-yellow-400 font-medium">{nfcFallbackMessage}</p>
+                    <p className="text-xs text-slate-400 mt-0.5">NFC 보너스 대신 GPS로 출석할 수 있어요</p>
+                  </div>
+                )}
                 <p className="text-slate-300 mb-4">현재 위치를 확인하여 출석합니다</p>
                 <motion.button
                   className="w-full py-4 rounded-xl bg-gradient-to-r from-kepco-blue to-kepco-cyan text-white font-semibold flex items-center justify-center gap-2"
@@ -1135,7 +1379,7 @@ const CheckInModal = ({
                   whileTap={{ scale: 0.98 }}
                 >
                   <MapPin className="w-5 h-5" />
-                  GPS 인증하기 (+{EXP_GPS} EXP)
+                  GPS 인증하기 (+{rules.gps} EXP)
                 </motion.button>
               </div>
             )}
@@ -1193,6 +1437,25 @@ const CheckInModal = ({
                   <span className="font-bold">+{earnedExp} EXP 적립!</span>
                 </motion.div>
 
+                {isNFC && checkedInSite && (
+                  <p className="mt-2 text-xs text-slate-400 flex items-center justify-center gap-1">
+                    <MapPin className="w-3 h-3" /> {checkedInSite.name}
+                  </p>
+                )}
+
+                {/* 연속 출석 마일스톤 보너스 */}
+                {streakBonus && (
+                  <motion.div
+                    className="mt-3 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-orange-500/20 border border-orange-500/40 text-sm text-orange-300"
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ delay: 0.6 }}
+                  >
+                    <Flame className="w-4 h-4" />
+                    {streakBonus.days}일 연속 출석 보너스 +{streakBonus.exp} EXP
+                  </motion.div>
+                )}
+
                 {/* Character Bubble */}
                 <AnimatePresence>
                   {showBubble && selectedCharacter && (
@@ -1239,7 +1502,7 @@ const CheckInModal = ({
                 <p className="text-red-400 font-medium">{message}</p>
                 {status === 'no-slot' && (
                   <p className="text-slate-500 text-sm mt-2">
-                    출석 시간: 08-10시, 11-13시, 17-19시
+                    출석 시간: {formatTimeSlots(timeSlots)}
                   </p>
                 )}
               </motion.div>
@@ -1250,7 +1513,7 @@ const CheckInModal = ({
           <div className="border-t border-white/10 pt-4 relative z-10">
             <p className="text-xs text-slate-500 mb-3">오늘의 출석 현황</p>
             <div className="grid grid-cols-3 gap-2">
-              {TIME_SLOTS.map((slot) => (
+              {timeSlots.map((slot) => (
                 <div
                   key={slot.id}
                   className={`text-center p-2 rounded-lg ${
@@ -1264,6 +1527,11 @@ const CheckInModal = ({
                   <span className="text-lg">{slot.icon}</span>
                   <p className="text-xs mt-1">{slot.name}</p>
                   {todayRecord[slot.id] && <Check className="w-3 h-3 mx-auto mt-1" />}
+                  {todayRecord.sites?.[slot.id] && (
+                    <p className="text-[9px] mt-0.5 truncate opacity-80">
+                      {sites.find((s) => s.id === todayRecord.sites?.[slot.id])?.name}
+                    </p>
+                  )}
                 </div>
               ))}
             </div>
@@ -1273,11 +1541,11 @@ const CheckInModal = ({
           <div className="mt-4 pt-4 border-t border-white/10">
             <div className="flex justify-between text-xs">
               <span className="text-slate-500">NFC 하이패스</span>
-              <span className="text-yellow-400 font-medium">+{EXP_NFC} EXP</span>
+              <span className="text-yellow-400 font-medium">+{rules.nfc} EXP</span>
             </div>
             <div className="flex justify-between text-xs mt-1">
               <span className="text-slate-500">GPS 인증</span>
-              <span className="text-kepco-cyan font-medium">+{EXP_GPS} EXP</span>
+              <span className="text-kepco-cyan font-medium">+{rules.gps} EXP</span>
             </div>
           </div>
         </motion.div>
@@ -1289,6 +1557,7 @@ const CheckInModal = ({
 // ==================== EXP Accordion Section ====================
 const ExpAccordion = ({ aiClickCount }: { aiClickCount: number }) => {
   const [isOpen, setIsOpen] = useState(false)
+  const rules = useRewardRules()
 
   return (
     <div className="mt-4 border-t border-white/10 pt-4">
@@ -1325,7 +1594,7 @@ const ExpAccordion = ({ aiClickCount }: { aiClickCount: number }) => {
                   <Crown className="w-4 h-4 text-yellow-400" />
                   <span className="text-sm text-yellow-400">NFC 키링 태그</span>
                 </div>
-                <span className="text-sm font-bold text-yellow-400">+{EXP_NFC}</span>
+                <span className="text-sm font-bold text-yellow-400">+{rules.nfc}</span>
               </div>
 
               {/* GPS */}
@@ -1334,7 +1603,18 @@ const ExpAccordion = ({ aiClickCount }: { aiClickCount: number }) => {
                   <MapPin className="w-4 h-4 text-kepco-cyan" />
                   <span className="text-sm text-slate-300">일반 GPS 인증</span>
                 </div>
-                <span className="text-sm font-bold text-kepco-cyan">+{EXP_GPS}</span>
+                <span className="text-sm font-bold text-kepco-cyan">+{rules.gps}</span>
+              </div>
+
+              {/* 연속 출석 보너스 */}
+              <div className="flex items-center justify-between p-3 bg-gradient-to-r from-orange-500/10 to-red-500/10 rounded-xl border border-orange-500/20">
+                <div className="flex items-center gap-2">
+                  <Flame className="w-4 h-4 text-orange-400" />
+                  <span className="text-sm text-orange-400">연속 출석 보너스</span>
+                </div>
+                <span className="text-xs font-bold text-orange-400">
+                  {STREAK_MILESTONES.map((m) => `${m.days}일 +${m.exp}`).join(' · ')}
+                </span>
               </div>
 
               {/* AI 프롬프트 보안검증 */}
@@ -1343,10 +1623,10 @@ const ExpAccordion = ({ aiClickCount }: { aiClickCount: number }) => {
                   <Shield className="w-4 h-4 text-blue-400" />
                   <div className="flex flex-col">
                     <span className="text-sm text-blue-400">AI 프롬프트 보안검증 활용</span>
-                    <span className="text-xs text-slate-500">오늘 {aiClickCount}/{EXP_AI_CLICK_MAX_DAILY}회</span>
+                    <span className="text-xs text-slate-500">오늘 {aiClickCount}/{rules.aiClickMaxDaily}회</span>
                   </div>
                 </div>
-                <span className="text-sm font-bold text-blue-400">+{EXP_AI_CLICK}</span>
+                <span className="text-sm font-bold text-blue-400">+{rules.aiClick}</span>
               </div>
             </div>
           </motion.div>
@@ -1439,25 +1719,38 @@ const IntroVideoModal = ({
 // ==================== Onboarding Screen ====================
 const OnboardingScreen = ({
   onComplete,
+  onRestore,
 }: {
   onComplete: (data: UserData) => void
+  onRestore: (code: string) => Promise<boolean>
 }) => {
   const [nickname, setNickname] = useState('')
+  const [department, setDepartment] = useState<Department | null>(null)
   const [selectedCharacter, setSelectedCharacter] = useState<number | null>(null)
   const [step, setStep] = useState<'nickname' | 'character'>('nickname')
   const [showIntroVideo, setShowIntroVideo] = useState(false)
+  const [showRestore, setShowRestore] = useState(false)
+  const [restoreCode, setRestoreCode] = useState('')
+  const [restoreStatus, setRestoreStatus] = useState<'idle' | 'loading' | 'error'>('idle')
+
+  const handleRestore = async () => {
+    if (!restoreCode.trim()) return
+    setRestoreStatus('loading')
+    const restored = await onRestore(restoreCode.trim())
+    if (!restored) setRestoreStatus('error')
+  }
 
   const handleSubmit = () => {
-    if (nickname.trim() && selectedCharacter) {
+    if (nickname.trim() && department && selectedCharacter) {
       const userData: UserData = {
         nickname: nickname.trim(),
         characterId: selectedCharacter,
+        department,
         level: 1,
         exp: 0,
         badges: 0,
         totalExp: 0,
       }
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(userData))
       onComplete(userData)
     }
   }
@@ -1546,7 +1839,7 @@ const OnboardingScreen = ({
               <div className="text-center mb-6">
                 <Sparkles className="w-10 h-10 text-kepco-cyan mx-auto mb-3" />
                 <h2 className="text-xl font-semibold mb-1">환영합니다!</h2>
-                <p className="text-slate-400 text-sm">닉네임을 입력해주세요</p>
+                <p className="text-slate-400 text-sm">닉네임과 소속 부서를 입력해주세요</p>
               </div>
 
               <div className="relative mb-6">
@@ -1572,12 +1865,75 @@ const OnboardingScreen = ({
                 />
               </div>
 
+              {/* 소속 부서 (부서 랭킹용) */}
+              <p className="text-xs text-slate-400 mb-2">소속 부서</p>
+              <div className="grid grid-cols-3 gap-2 mb-6">
+                {DEPARTMENTS.map((dept) => (
+                  <motion.button
+                    key={dept}
+                    className={`py-2 rounded-lg text-xs transition-colors ${
+                      department === dept
+                        ? 'bg-kepco-cyan/20 text-kepco-cyan ring-1 ring-kepco-cyan'
+                        : 'bg-white/5 text-slate-400 hover:bg-white/10'
+                    }`}
+                    onClick={() => setDepartment(dept)}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {dept}
+                  </motion.button>
+                ))}
+              </div>
+
               <GradientButton
                 onClick={() => setStep('character')}
-                disabled={!nickname.trim()}
+                disabled={!nickname.trim() || !department}
               >
                 다음 <ChevronRight className="inline w-5 h-5 ml-1" />
               </GradientButton>
+
+              {/* 다른 기기에서 이어하기 */}
+              <div className="mt-4 pt-4 border-t border-white/10">
+                <button
+                  className="w-full text-xs text-slate-400 hover:text-white flex items-center justify-center gap-1"
+                  onClick={() => setShowRestore(!showRestore)}
+                >
+                  <Smartphone className="w-3.5 h-3.5" /> 다른 기기에서 이어하기
+                </button>
+                <AnimatePresence>
+                  {showRestore && (
+                    <motion.div
+                      className="overflow-hidden"
+                      initial={{ height: 0, opacity: 0 }}
+                      animate={{ height: 'auto', opacity: 1 }}
+                      exit={{ height: 0, opacity: 0 }}
+                    >
+                      <div className="flex gap-2 pt-3">
+                        <input
+                          type="text"
+                          value={restoreCode}
+                          onChange={(e) => {
+                            setRestoreCode(e.target.value)
+                            setRestoreStatus('idle')
+                          }}
+                          placeholder="기기 연동 코드"
+                          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-kepco-cyan/50"
+                        />
+                        <motion.button
+                          className="px-4 py-2 rounded-xl bg-white/10 text-sm text-slate-200 disabled:opacity-50"
+                          onClick={handleRestore}
+                          disabled={!restoreCode.trim() || restoreStatus === 'loading'}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          {restoreStatus === 'loading' ? '확인 중' : '불러오기'}
+                        </motion.button>
+                      </div>
+                      {restoreStatus === 'error' && (
+                        <p className="text-xs text-red-400 mt-2">해당 코드의 프로필을 찾을 수 없습니다</p>
+                      )}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
             </GlassCard>
           </motion.div>
         ) : (
@@ -1666,18 +2022,335 @@ const OnboardingScreen = ({
   )
 }
 
+// ==================== Leaderboard Sheet ====================
+const LEADERBOARD_PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  weekly: '주간',
+  monthly: '월간',
+  all: '전체',
+}
+
+const RANK_COLORS = ['text-yellow-400', 'text-slate-300', 'text-orange-400']
+
+const LeaderboardSheet = ({
+  isOpen,
+  onClose,
+  userData,
+  onSelectDepartment,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  userData: UserData
+  onSelectDepartment: (department: Department) => void
+}) => {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly')
+  const [view, setView] = useState<'personal' | 'department'>('personal')
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null)
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading')
+
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    setStatus('loading')
+    fetchLeaderboard(period)
+      .then((data) => {
+        if (cancelled) return
+        setLeaderboard(data)
+        setStatus('ready')
+      })
+      .catch(() => {
+        if (!cancelled) setStatus('error')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, period, userData.department])
+
+  if (!isOpen) return null
+
+  const meOutsideTop = leaderboard?.me && !leaderboard.entries.some((e) => e.isMe)
+
+  const renderEntry = (entry: Leaderboard['entries'][number]) => {
+    const character = CHARACTERS.find((c) => c.id === entry.characterId)
+    return (
+      <div
+        key={`${entry.rank}-${entry.nickname}-${entry.isMe}`}
+        className={`flex items-center gap-3 p-3 rounded-xl ${
+          entry.isMe ? 'bg-kepco-cyan/15 border border-kepco-cyan/40' : 'bg-white/5'
+        }`}
+      >
+        <span className={`w-7 text-center font-bold ${RANK_COLORS[entry.rank - 1] ?? 'text-slate-500'}`}>
+          {entry.rank}
+        </span>
+        <div className="w-9 h-9 rounded-full bg-deep-navy overflow-hidden relative flex-shrink-0">
+          {character && (
+            <Image src={`/images/character/${character.file}`} alt={character.name} fill className="object-contain p-0.5" sizes="36px" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white truncate">
+            {entry.nickname}
+            {entry.isMe && <span className="ml-1 text-[10px] text-kepco-cyan">나</span>}
+          </p>
+          <p className="text-[11px] text-slate-500">
+            Lv.{entry.level} · {entry.department ?? '부서 미지정'}
+          </p>
+        </div>
+        <span className="text-sm font-bold text-kepco-cyan">{entry.exp.toLocaleString()} EXP</span>
+      </div>
+    )
+  }
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-[500] flex items-end justify-center"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        {/* Backdrop */}
+        <motion.div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+        {/* Sheet */}
+        <motion.div
+          className="relative w-full max-w-md h-[85vh] glass-strong rounded-t-3xl p-5 flex flex-col"
+          initial={{ y: '100%' }}
+          animate={{ y: 0 }}
+          exit={{ y: '100%' }}
+          transition={springConfig}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-yellow-400" />
+              <h3 className="font-semibold text-white">랭킹</h3>
+            </div>
+            <motion.button
+              onClick={onClose}
+              className="text-slate-400 hover:text-white"
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+            >
+              <X className="w-5 h-5" />
+            </motion.button>
+          </div>
+
+          {/* Tabs */}
+          <div className="flex gap-2 mb-3">
+            {(['personal', 'department'] as const).map((v) => (
+              <button
+                key={v}
+                className={`flex-1 flex items-center justify-center gap-1 py-2 rounded-xl text-sm ${
+                  view === v ? 'bg-kepco-cyan/20 text-kepco-cyan' : 'bg-white/5 text-slate-400'
+                }`}
+                onClick={() => setView(v)}
+              >
+                {v === 'personal' ? <Medal className="w-4 h-4" /> : <Building2 className="w-4 h-4" />}
+                {v === 'personal' ? '개인' : '부서'}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1 p-1 mb-4 bg-white/5 rounded-xl">
+            {(Object.keys(LEADERBOARD_PERIOD_LABELS) as LeaderboardPeriod[]).map((p) => (
+              <button
+                key={p}
+                className={`flex-1 py-1.5 rounded-lg text-xs ${period === p ? 'bg-white/10 text-white' : 'text-slate-500'}`}
+                onClick={() => setPeriod(p)}
+              >
+                {LEADERBOARD_PERIOD_LABELS[p]}
+              </button>
+            ))}
+          </div>
+
+          {/* 부서 미지정 사용자 (온보딩에 부서 선택이 추가되기 전 가입) */}
+          {!userData.department && (
+            <div className="mb-4 p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/30">
+              <p className="text-xs text-yellow-400 mb-2">소속 부서를 선택하면 부서 랭킹에 반영됩니다</p>
+              <div className="flex flex-wrap gap-1.5">
+                {DEPARTMENTS.map((dept) => (
+                  <button
+                    key={dept}
+                    className="px-2.5 py-1 rounded-lg bg-white/5 text-[11px] text-slate-300 hover:bg-white/10"
+                    onClick={() => onSelectDepartment(dept)}
+                  >
+                    {dept}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* List */}
+          <div className="flex-1 overflow-y-auto space-y-2 pb-4">
+            {status === 'loading' && (
+              <div className="flex justify-center py-10">
+                <motion.div
+                  className="w-8 h-8 border-2 border-kepco-cyan/30 border-t-kepco-cyan rounded-full"
+                  animate={{ rotate: 360 }}
+                  transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                />
+              </div>
+            )}
+            {status === 'error' && (
+              <p className="text-center text-sm text-slate-500 py-10">랭킹을 불러오지 못했습니다. 네트워크를 확인해주세요.</p>
+            )}
+            {status === 'ready' && leaderboard && view === 'personal' && (
+              <>
+                {leaderboard.entries.map(renderEntry)}
+                {meOutsideTop && leaderboard.me && (
+                  <>
+                    <p className="text-center text-slate-600 text-xs">···</p>
+                    {renderEntry(leaderboard.me)}
+                  </>
+                )}
+              </>
+            )}
+            {status === 'ready' && leaderboard && view === 'department' && (
+              leaderboard.departments.length === 0 ? (
+                <p className="text-center text-sm text-slate-500 py-10">아직 부서 기록이 없습니다</p>
+              ) : (
+                leaderboard.departments.map((dept) => (
+                  <div
+                    key={dept.department}
+                    className={`flex items-center gap-3 p-3 rounded-xl ${
+                      dept.department === userData.department ? 'bg-kepco-cyan/15 border border-kepco-cyan/40' : 'bg-white/5'
+                    }`}
+                  >
+                    <span className={`w-7 text-center font-bold ${RANK_COLORS[dept.rank - 1] ?? 'text-slate-500'}`}>
+                      {dept.rank}
+                    </span>
+                    <div className="flex-1">
+                      <p className="text-sm text-white">{dept.department}</p>
+                      <p className="text-[11px] text-slate-500">{dept.members}명 참여</p>
+                    </div>
+                    <span className="text-sm font-bold text-kepco-cyan">{dept.exp.toLocaleString()} EXP</span>
+                  </div>
+                ))
+              )
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
+
+// ==================== Notification Sheet ====================
+const NOTIFICATION_STYLES: Record<NotificationType, { icon: typeof Bell; color: string }> = {
+  'level-up': { icon: Star, color: 'text-yellow-400 bg-yellow-500/15' },
+  badge: { icon: Award, color: 'text-orange-400 bg-orange-500/15' },
+  'check-in-reminder': { icon: CalendarCheck, color: 'text-kepco-cyan bg-kepco-cyan/15' },
+  announcement: { icon: Megaphone, color: 'text-purple-400 bg-purple-500/15' },
+}
+
+const formatRelativeTime = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000)
+  if (minutes < 1) return '방금 전'
+  if (minutes < 60) return `${minutes}분 전`
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}시간 전`
+  if (minutes < 60 * 24 * 7) return `${Math.floor(minutes / (60 * 24))}일 전`
+  return new Date(timestamp).toLocaleDateString('ko-KR')
+}
+
+const NotificationSheet = ({
+  isOpen,
+  onClose,
+  notifications,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  notifications: AppNotification[]
+}) => {
+  if (!isOpen) return null
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-[500] flex items-end justify-center"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        {/* Backdrop */}
+        <motion.div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+        {/* Sheet */}
+        <motion.div
+          className="relative w-full max-w-md h-[85vh] glass-strong rounded-t-3xl p-5 flex flex-col"
+          initial={{ y: '100%' }}
+          animate={{ y: 0 }}
+          exit={{ y: '100%' }}
+          transition={springConfig}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Bell className="w-5 h-5 text-kepco-cyan" />
+              <h3 className="font-semibold text-white">알림</h3>
+            </div>
+            <motion.button
+              onClick={onClose}
+              className="text-slate-400 hover:text-white"
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+            >
+              <X className="w-5 h-5" />
+            </motion.button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto space-y-2 pb-4">
+            {notifications.length === 0 && (
+              <p className="text-center text-sm text-slate-500 py-10">새로운 알림이 없습니다</p>
+            )}
+            {notifications.map((notification) => {
+              const { icon: Icon, color } = NOTIFICATION_STYLES[notification.type]
+              const unread = notification.readAt === null
+              return (
+                <div
+                  key={notification.id}
+                  className={`flex gap-3 p-3 rounded-xl ${unread ? 'bg-white/10' : 'bg-white/5'}`}
+                >
+                  <div className={`w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0 ${color}`}>
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-white truncate">{notification.title}</p>
+                      {unread && <span className="w-1.5 h-1.5 rounded-full bg-red-500 flex-shrink-0" />}
+                    </div>
+                    {notification.body && (
+                      <p className="text-xs text-slate-400 mt-0.5 whitespace-pre-line" style={{ wordBreak: 'keep-all' }}>
+                        {notification.body}
+                      </p>
+                    )}
+                    <p className="text-[10px] text-slate-500 mt-1">{formatRelativeTime(notification.createdAt)}</p>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
+
 // ==================== Dashboard Screen ====================
+const GAME_ICONS: Record<GameInfo['icon'], typeof Wind> = { Wind, Zap, Sun }
+
 const DashboardScreen = ({
   userData,
-  onUpdateUserData,
-  isNFCAccess,
+  onExpSynced,
+  onUpdateProfile,
+  nfcToken,
   testMode,
   onToggleTestMode,
   onResetData,
 }: {
   userData: UserData
-  onUpdateUserData: (data: UserData) => void
-  isNFCAccess: boolean
+  onExpSynced: (totals: { totalExp: number; badges: number }) => void
+  onUpdateProfile: (data: UserData) => void
+  nfcToken: string | null
   testMode: boolean
   onToggleTestMode: () => void
   onResetData: () => void
@@ -1686,130 +2359,240 @@ const DashboardScreen = ({
   const [showCheckInModal, setShowCheckInModal] = useState(false)
   const [showLevelUp, setShowLevelUp] = useState(false)
   const [newLevel, setNewLevel] = useState(1)
-  const [floatingPoint, setFloatingPoint] = useState<{ show: boolean; x: number; y: number; amount: number }>({ show: false, x: 0, y: 0, amount: 2 })
   const [aiClickRecord, setAIClickRecord] = useState<AIClickRecord>({ date: '', count: 0 })
   const [linkClickRecord, setLinkClickRecord] = useState<LinkClickRecord>({ date: '', clickedLinks: [] })
   const [showSettings, setShowSettings] = useState(false)
   const [showLinkCelebration, setShowLinkCelebration] = useState(false)
-  const [showWindTurbineGame, setShowWindTurbineGame] = useState(false)
+  // 실행 중인 앱 내 게임 (GameHost가 마운트)
+  const [activeGameId, setActiveGameId] = useState<string | null>(null)
+  // 서버 기준 오늘 게임별 플레이 현황 (받아오기 전에는 null)
+  const [gamesPlayed, setGamesPlayed] = useState<DailyExpSummary['games'] | null>(null)
+  const router = useRouter()
+  const [showLeaderboard, setShowLeaderboard] = useState(false)
+  const [showBadges, setShowBadges] = useState(false)
+  const [showNotifications, setShowNotifications] = useState(false)
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  // 새로 획득한 뱃지 (순서대로 하나씩 표시)
+  const [badgeQueue, setBadgeQueue] = useState<BadgeId[]>([])
   // AI TOOL 관련 state
   const [aiToolClickRecord, setAIToolClickRecord] = useState<AIToolClickRecord>({ date: '', clickedTools: [] })
   const [showSecurityModal, setShowSecurityModal] = useState(false)
   const [pendingTool, setPendingTool] = useState<AITool | null>(null)
   const [showAIToolToast, setShowAIToolToast] = useState(false)
+  const [expError, setExpError] = useState<string | null>(null)
+  // NFC 태그 토큰은 한 번의 출석 시도에만 사용
+  const [pendingNfcToken, setPendingNfcToken] = useState<string | null>(null)
+  const [sites, setSites] = useState<Site[]>(DEFAULT_SITES)
+
+  const rules = useRewardRules()
+  const { event } = useAppConfig()
 
   const selectedCharacter = CHARACTERS.find((c) => c.id === userData.characterId)
 
   // 레벨 계산: 누적 EXP 기반
-  const calculatedLevel = Math.floor(userData.totalExp / EXP_PER_LEVEL) + 1
-  const expPercent = (userData.totalExp % EXP_PER_LEVEL) / EXP_PER_LEVEL * 100
-  const currentLevelExp = userData.totalExp % EXP_PER_LEVEL
+  const calculatedLevel = getLevel(userData.totalExp, rules.perLevel)
+  const expPercent = (userData.totalExp % rules.perLevel) / rules.perLevel * 100
+  const currentLevelExp = userData.totalExp % rules.perLevel
 
   useEffect(() => {
     setAIClickRecord(getAIClickRecord())
     setLinkClickRecord(getLinkClickRecord())
     setAIToolClickRecord(getAIToolClickRecord())
+
+    // 출석 근무지 목록
+    fetchSites()
+      .then(setSites)
+      .catch(() => {
+        // 오프라인: 기본 근무지 사용
+      })
+
+    // 서버 기준 누적 EXP/오늘 현황으로 덮어쓰기 (로컬 값 변조 무효화)
+    fetchExpSummary()
+      .then(({ totalExp, badges, today }) => {
+        applyDailySummary(today)
+        onExpSynced({ totalExp, badges })
+      })
+      .catch(() => {
+        // 오프라인: 로컬 캐시 유지
+      })
+  }, [onExpSynced])
+
+  // 알림함 (출석 시간 알림이 생성되도록 1분마다 갱신)
+  const refreshNotifications = useCallback(() => {
+    fetchNotifications()
+      .then((inbox) => {
+        setNotifications(inbox.notifications)
+        setUnreadCount(inbox.unreadCount)
+      })
+      .catch(() => {
+        // 오프라인: 마지막 목록 유지
+      })
   }, [])
 
+  useEffect(() => {
+    refreshNotifications()
+    const timer = setInterval(refreshNotifications, 60 * 1000)
+    return () => clearInterval(timer)
+  }, [refreshNotifications])
+
+  // 알림함을 열면 목록은 읽기 전 상태로 보여주고 서버에는 전체 읽음 처리
+  const openNotifications = () => {
+    setShowNotifications(true)
+    setShowLeaderboard(false)
+    setUnreadCount(0)
+    markNotificationsRead()
+      .then((inbox) => setUnreadCount(inbox.unreadCount))
+      .catch(() => undefined)
+  }
+
   const toggleCard = (cardId: string) => {
     setExpandedCard(expandedCard === cardId ? null : cardId)
   }
 
-  const handleCheckInSuccess = (exp: number) => {
-    const newTotalExp = userData.totalExp + exp
-    const oldLevel = Math.floor(userData.totalExp / EXP_PER_LEVEL) + 1
-    const newLvl = Math.floor(newTotalExp / EXP_PER_LEVEL) + 1
+  const applyDailySummary = (today: DailyExpSummary) => {
+    cacheDailySummary(today)
+    setGamesPlayed(today.games)
+    setAIClickRecord(getAIClickRecord())
+    setLinkClickRecord(getLinkClickRecord())
+    setAIToolClickRecord(getAIToolClickRecord())
+  }
 
-    const updatedData: UserData = {
-      ...userData,
-      exp: newTotalExp % EXP_PER_LEVEL,
-      level: newLvl,
-      totalExp: newTotalExp,
-    }
-    onUpdateUserData(updatedData)
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedData))
+  const applyGrantResult = (result: ExpGrantResult) => {
+    applyDailySummary(result.today)
+    onExpSynced({ totalExp: result.totalExp, badges: result.badges })
+    if (result.newBadges.length > 0) setBadgeQueue((prev) => [...prev, ...result.newBadges])
+  }
 
-    // 레벨업 체크
-    if (newLvl > oldLevel) {
-      setNewLevel(newLvl)
-      setShowLevelUp(true)
+  // 서버에 EXP 지급 요청 → 서버가 계산한 누적 EXP 반영 (대기열에 먼저 저장, 오프라인이면 나중에 자동 전송)
+  const requestExp = async (source: ExpSource, metadata?: ExpMetadata): Promise<ExpGrantResult> => {
+    try {
+      const result = await submitExp({ source, metadata, testMode })
+      applyGrantResult(result)
+      refreshNotifications()
+      return result
+    } catch (error) {
+      if (!isOfflineError(error)) throw error
+      throw new Error('오프라인 상태입니다. 연결되면 자동으로 적립됩니다')
     }
   }
 
-  // 게임에서 EXP 획득 처리
-  const handleGameExp = useCallback((exp: number) => {
-    if (exp <= 0) return
-
-    const newTotalExp = userData.totalExp + exp
-    const oldLevel = Math.floor(userData.totalExp / EXP_PER_LEVEL) + 1
-    const newLvl = Math.floor(newTotalExp / EXP_PER_LEVEL) + 1
+  // 대기열에 남은 EXP 요청 재전송 (화면 진입, 온라인 복귀, 화면 복귀 시 + 30초마다)
+  const flushQueuedExp = useRef<() => void>(() => undefined)
+  flushQueuedExp.current = () => {
+    if (!navigator.onLine) return
+    flushExpQueue()
+      .then(({ granted, rejected }) => {
+        granted.forEach(applyGrantResult)
+        if (granted.length > 0) {
+          checkLevelUp(granted[granted.length - 1])
+          refreshNotifications()
+        }
+        if (rejected.length > 0) {
+          setExpError(`대기 중이던 EXP ${rejected.length}건이 적립되지 않았습니다 (${rejected[0].message})`)
+        }
+      })
+      .catch(() => undefined)
+  }
 
-    const updatedData: UserData = {
-      ...userData,
-      exp: newTotalExp % EXP_PER_LEVEL,
-      level: newLvl,
-      totalExp: newTotalExp,
+  useEffect(() => {
+    const sync = () => flushQueuedExp.current()
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') sync()
     }
-    onUpdateUserData(updatedData)
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedData))
+    sync()
+    const timer = setInterval(sync, 30 * 1000)
+    window.addEventListener('online', sync)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('online', sync)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [])
 
-    // 레벨업 체크
-    if (newLvl > oldLevel) {
+  // 레벨업 체크 (서버 지급 결과 기준)
+  const checkLevelUp = (result: ExpGrantResult, delay: number = 0) => {
+    const earned = result.transaction.amount + (result.streakBonus?.amount ?? 0)
+    const oldLevel = getLevel(result.totalExp - earned, rules.perLevel)
+    if (result.level > oldLevel) {
       setTimeout(() => {
-        setNewLevel(newLvl)
+        setNewLevel(result.level)
         setShowLevelUp(true)
-      }, 500)
+      }, delay)
     }
-  }, [userData, onUpdateUserData])
+  }
 
-  // 외부 링크 클릭 처리 (Simulation, News 등)
-  const handleExternalLinkClick = (e: React.MouseEvent, linkId: string, url: string) => {
-    e.stopPropagation()
+  const handleBadgePopupClose = useCallback(() => {
+    setBadgeQueue((prev) => prev.slice(1))
+  }, [])
 
-    // 오늘 이 링크를 클릭했는지 확인
-    const record = getLinkClickRecord()
-    const alreadyClicked = record.clickedLinks.includes(linkId)
+  const showExpError = (error: unknown) => {
+    setExpError(error instanceof Error ? error.message : 'EXP 적립에 실패했습니다')
+  }
 
-    // 아직 클릭 안한 경우 EXP 적립
-    if (!alreadyClicked) {
-      // 클릭 기록 업데이트
-      const newRecord: LinkClickRecord = {
-        date: getTodayKey(),
-        clickedLinks: [...record.clickedLinks, linkId],
-      }
-      saveLinkClickRecord(newRecord)
-      setLinkClickRecord(newRecord)
-
-      // EXP 추가
-      const newTotalExp = userData.totalExp + EXP_LINK_CLICK
-      const oldLevel = Math.floor(userData.totalExp / EXP_PER_LEVEL) + 1
-      const newLvl = Math.floor(newTotalExp / EXP_PER_LEVEL) + 1
-
-      const updatedData: UserData = {
-        ...userData,
-        exp: newTotalExp % EXP_PER_LEVEL,
-        level: newLvl,
-        totalExp: newTotalExp,
-      }
-      onUpdateUserData(updatedData)
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedData))
-
-      // 화려한 EXP 애니메이션
-      setShowLinkCelebration(true)
-
-      // 레벨업 체크
-      if (newLvl > oldLevel) {
-        setTimeout(() => {
-          setNewLevel(newLvl)
-          setShowLevelUp(true)
-        }, 2000)
-      }
+  const handleCheckIn = async (source: ExpSource, metadata?: ExpMetadata) => {
+    const result = await requestExp(source, metadata)
+    checkLevelUp(result)
+    return result
+  }
+
+  // 게임에서 EXP 획득 처리 (게임별 EXP 정책은 서버에서 검증)
+  const handleGameExp = (gameId: string, exp: number, stats: GameRoundStats) => {
+    if (exp <= 0) return
+    // 오늘 플레이 횟수/EXP를 다 쓴 게임은 요청하지 않음 (최종 판정은 서버)
+    const policy = getGame(gameId)?.policy
+    if (policy && gamesPlayed) {
+      const allowance = getGameAllowance(policy, gamesPlayed[gameId])
+      if (allowance.remainingRounds <= 0 || allowance.remainingExp <= 0) return
     }
 
+    requestExp('game', { gameId, exp, ...stats })
+      .then((result) => checkLevelUp(result, 500))
+      .catch(showExpError)
+  }
+
+  // 외부 게임 완료 결과 처리 (서명 사전 검증 → EXP 요청, 게임 창에는 지급 EXP 전달)
+  const handleBridgeResult = useRef<(result: GameBridgeResult) => Promise<number>>(async () => 0)
+  handleBridgeResult.current = async (result) => {
+    const check = await verifyGameResult(result)
+    if (!check.valid) throw new Error(check.message)
+    const granted = await requestExp('game', { ...result })
+    checkLevelUp(granted, 500)
+    return granted.transaction.amount
+  }
+
+  // 하루 1회 링크 방문 EXP (오늘 이 링크를 클릭했는지 확인, 최종 판정은 서버)
+  const earnLinkExp = (linkId: string) => {
+    const record = getLinkClickRecord()
+    if (record.clickedLinks.includes(linkId)) return
+
+    requestExp('link', { linkId })
+      .then((result) => {
+        // 화려한 EXP 애니메이션
+        setShowLinkCelebration(true)
+        // 레벨업 체크
+        checkLevelUp(result, 2000)
+      })
+      .catch(showExpError)
+  }
+
+  // 외부 링크 클릭 처리 (News 등)
+  const handleExternalLinkClick = (e: React.MouseEvent, linkId: string, url: string) => {
+    e.stopPropagation()
+    earnLinkExp(linkId)
+
     // 외부 링크로 이동
     window.open(url, '_blank', 'noopener,noreferrer')
   }
 
+  // SIMULATION 카드: 방문 EXP + 완료 결과 연동
+  const handleOpenSimulation = (e: React.MouseEvent, game: GameInfo) => {
+    e.stopPropagation()
+    earnLinkExp(game.id)
+    launchExternalGame(game, (result) => handleBridgeResult.current(result))
+  }
+
   // 링크 보상 가능 여부 확인
   const canEarnLinkExp = (linkId: string) => {
     return !linkClickRecord.clickedLinks.includes(linkId)
@@ -1827,127 +2610,61 @@ const DashboardScreen = ({
     setShowSecurityModal(true)
   }
 
-  // 보안 동의 후 외부 링크로 이동
+  // 보안 동의 저장 후 EXP 적립 (도구 창은 동의 화면이 엶)
   const handleSecurityConfirm = () => {
     if (!pendingTool) return
 
     const toolId = pendingTool.id
-    const url = pendingTool.url
 
-    // 오늘 이 툴을 클릭했는지 확인
+    // 오늘 이 툴을 클릭했는지 확인 (최종 판정은 서버)
     const record = getAIToolClickRecord()
     const alreadyClicked = record.clickedTools.includes(toolId)
 
     // 아직 클릭 안한 경우 EXP 적립
     if (!alreadyClicked) {
-      // 클릭 기록 업데이트
-      const newRecord: AIToolClickRecord = {
-        date: getTodayKey(),
-        clickedTools: [...record.clickedTools, toolId],
-      }
-      saveAIToolClickRecord(newRecord)
-      setAIToolClickRecord(newRecord)
-
-      // EXP 추가
-      const newTotalExp = userData.totalExp + EXP_LINK_CLICK
-      const oldLevel = Math.floor(userData.totalExp / EXP_PER_LEVEL) + 1
-      const newLvl = Math.floor(newTotalExp / EXP_PER_LEVEL) + 1
-
-      const updatedData: UserData = {
-        ...userData,
-        exp: newTotalExp % EXP_PER_LEVEL,
-        level: newLvl,
-        totalExp: newTotalExp,
-      }
-      onUpdateUserData(updatedData)
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedData))
-
-      // 토스트 메시지 표시
-      setShowAIToolToast(true)
-
-      // 레벨업 체크
-      if (newLvl > oldLevel) {
-        setTimeout(() => {
-          setNewLevel(newLvl)
-          setShowLevelUp(true)
-        }, 2500)
-      }
+      requestExp('ai-tool', { toolId })
+        .then((result) => {
+          // 토스트 메시지 표시
+          setShowAIToolToast(true)
+          // 레벨업 체크
+          checkLevelUp(result, 2500)
+        })
+        .catch(showExpError)
     }
 
-    // 모달 닫고 외부 링크로 이동
     setShowSecurityModal(false)
     setPendingTool(null)
-    window.open(url, '_blank', 'noopener,noreferrer')
   }
 
+  // AI 보안검증: 앱 안의 검사 화면으로 이동 (EXP는 검사를 마치면 검사 화면에서 지급)
   const handleAIClick = (e: React.MouseEvent) => {
     e.stopPropagation()
-
-    // 오늘 클릭 횟수 확인
-    const record = getAIClickRecord()
-    const canEarnExp = record.count < EXP_AI_CLICK_MAX_DAILY
-
-    // EXP 획득 가능한 경우에만 점수 추가
-    if (canEarnExp) {
-      // 클릭 기록 업데이트
-      const newRecord = {
-        date: getTodayKey(),
-        count: record.count + 1,
-      }
-      saveAIClickRecord(newRecord)
-      setAIClickRecord(newRecord)
-
-      // EXP 추가
-      const newTotalExp = userData.totalExp + EXP_AI_CLICK
-      const oldLevel = Math.floor(userData.totalExp / EXP_PER_LEVEL) + 1
-      const newLvl = Math.floor(newTotalExp / EXP_PER_LEVEL) + 1
-
-      const updatedData: UserData = {
-        ...userData,
-        exp: newTotalExp % EXP_PER_LEVEL,
-        level: newLvl,
-        totalExp: newTotalExp,
-      }
-      onUpdateUserData(updatedData)
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedData))
-
-      // +2 플로팅 애니메이션
-      const rect = (e.target as HTMLElement).getBoundingClientRect()
-      setFloatingPoint({
-        show: true,
-        x: rect.left + rect.width / 2,
-        y: rect.top,
-        amount: EXP_AI_CLICK,
-      })
-      setTimeout(() => setFloatingPoint({ show: false, x: 0, y: 0, amount: EXP_AI_CLICK }), 1200)
-
-      // 레벨업 체크
-      if (newLvl > oldLevel) {
-        setTimeout(() => {
-          setNewLevel(newLvl)
-          setShowLevelUp(true)
-        }, 500)
-      }
-    }
-
-    // 외부 링크로 이동 (EXP 획득 여부와 관계없이 항상 이동)
-    window.open('https://knai-safetyprompt-web.vercel.app/', '_blank', 'noopener,noreferrer')
+    router.push('/prompt-check')
   }
 
-  // EGG: 에너지그리드 게임 핸들러 (향후 EXP API 연동 대비)
-  const handleEnergyGridGame = (e: React.MouseEvent) => {
+  // 프롬프트 템플릿: 업무용 템플릿 라이브러리 화면으로 이동
+  const handleTemplatesClick = (e: React.MouseEvent) => {
     e.stopPropagation()
+    router.push('/prompt-templates')
+  }
 
-    // TODO: 추후 게임 완료 후 EXP 데이터를 받아올 API 연동 예정
-    // 현재는 외부 배포 URL로 이동만 처리
-    window.open('https://energy-grid-game.vercel.app/', '_blank', 'noopener,noreferrer')
+  // GAME 카드: 앱 내 게임은 GameHost로, 외부 게임은 새 창으로 실행 (완료 결과는 postMessage로 연동)
+  const handleOpenGame = (e: React.MouseEvent, game: GameInfo) => {
+    e.stopPropagation()
+    if (!game.available) return
+    if (game.kind === 'external') {
+      launchExternalGame(game, (result) => handleBridgeResult.current(result))
+    } else {
+      setActiveGameId(game.id)
+    }
   }
 
   useEffect(() => {
-    if (isNFCAccess) {
+    if (nfcToken !== null) {
+      setPendingNfcToken(nfcToken)
       setShowCheckInModal(true)
     }
-  }, [isNFCAccess])
+  }, [nfcToken])
 
   return (
     <motion.div
@@ -1976,15 +2693,21 @@ const DashboardScreen = ({
         onClose={() => setShowLevelUp(false)}
       />
 
+      {/* Badge Unlock Popup (레벨업 팝업이 닫힌 뒤 표시) */}
+      <BadgeUnlockPopup
+        badgeId={showLevelUp ? null : badgeQueue[0] ?? null}
+        onClose={handleBadgePopupClose}
+      />
+
+      {/* Badge Sheet */}
+      <BadgeSheet isOpen={showBadges} onClose={() => setShowBadges(false)} />
+
       {/* Link EXP Celebration */}
       <LinkExpCelebration
         show={showLinkCelebration}
         onComplete={() => setShowLinkCelebration(false)}
       />
 
-      {/* Floating EXP Animation */}
-      <FloatingPointAnimation show={floatingPoint.show} x={floatingPoint.x} y={floatingPoint.y} amount={floatingPoint.amount} />
-
       {/* Background Effects */}
       <div className="absolute inset-0 overflow-hidden pointer-events-none">
         <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[600px] h-[600px] bg-kepco-blue/10 rounded-full blur-3xl" />
@@ -2063,6 +2786,19 @@ const DashboardScreen = ({
         initial="initial"
         animate="animate"
       >
+        {/* EXP Event Banner */}
+        {rules.multiplier > 1 && (
+          <motion.div variants={fadeInUp} className="mb-4">
+            <div className="flex items-center gap-3 px-4 py-3 rounded-2xl bg-gradient-to-r from-yellow-500/20 to-orange-500/20 border border-yellow-500/30">
+              <Zap className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="text-sm font-bold text-yellow-400">{event.label || 'EXP 이벤트'} 진행 중!</p>
+                <p className="text-xs text-slate-400">출석 · AI 활용 · 미션 · 게임 EXP {rules.multiplier}배 적립</p>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
         {/* MY PAGE Card */}
         <motion.div variants={fadeInUp} className="mb-4">
           <GlassCard className="p-5">
@@ -2097,7 +2833,7 @@ const DashboardScreen = ({
               <div className="bg-white/5 rounded-xl p-3">
                 <div className="flex items-center justify-between mb-1">
                   <span className="text-xs text-slate-400">EXP</span>
-                  <span className="text-xs text-kepco-cyan">{currentLevelExp}/{EXP_PER_LEVEL}</span>
+                  <span className="text-xs text-kepco-cyan">{currentLevelExp}/{rules.perLevel}</span>
                 </div>
                 <div className="h-2 bg-white/10 rounded-full overflow-hidden">
                   <motion.div
@@ -2109,13 +2845,17 @@ const DashboardScreen = ({
                 </div>
               </div>
 
-              <div className="bg-white/5 rounded-xl p-3 text-center">
+              <motion.button
+                className="bg-white/5 rounded-xl p-3 text-center"
+                onClick={() => setShowBadges(true)}
+                whileTap={{ scale: 0.95 }}
+              >
                 <div className="flex items-center justify-center gap-1">
                   <Trophy className="w-5 h-5 text-yellow-500" />
                   <span className="text-2xl font-bold">{userData.badges}</span>
                 </div>
                 <div className="text-xs text-slate-400">뱃지</div>
-              </div>
+              </motion.button>
             </div>
 
             {/* Total EXP */}
@@ -2164,18 +2904,21 @@ const DashboardScreen = ({
                           className="absolute inset-0 bg-gradient-to-r from-kepco-cyan/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"
                         />
                         <span className="relative z-10 flex items-center gap-1">
-                          AI 보안검증 <ExternalLink className="w-3 h-3" />
+                          AI 보안검증 <ChevronRight className="w-3 h-3" />
                         </span>
-                        {aiClickRecord.count < EXP_AI_CLICK_MAX_DAILY && (
-                          <span className="relative z-10 text-green-400 text-[10px] font-medium">+{EXP_AI_CLICK}</span>
+                        {aiClickRecord.count < rules.aiClickMaxDaily && (
+                          <span className="relative z-10 text-green-400 text-[10px] font-medium">+{rules.aiClick}</span>
                         )}
                       </motion.button>
                       <motion.button
-                        className="w-full py-2 px-3 rounded-lg bg-white/5 text-[10px] text-slate-400 text-left flex items-center gap-2"
+                        className="w-full py-2 px-3 rounded-lg bg-white/5 text-[10px] text-slate-300 text-left flex items-center justify-between"
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
+                        onClick={handleTemplatesClick}
                       >
-                        <Construction className="w-3 h-3" /> 개발중
+                        <span className="flex items-center gap-1">
+                          프롬프트 템플릿 <ChevronRight className="w-3 h-3" />
+                        </span>
                       </motion.button>
                     </div>
                   </motion.div>
@@ -2214,60 +2957,52 @@ const DashboardScreen = ({
                     className="overflow-hidden"
                   >
                     <div className="space-y-2 pt-2 border-t border-white/10">
-                      {/* 풍력 끙차돌리기 게임 */}
-                      <motion.button
-                        className="w-full py-2 px-3 rounded-lg bg-gradient-to-r from-cyan-500/30 to-blue-500/30 text-[10px] text-left flex items-center justify-between relative overflow-hidden group"
-                        whileHover={{ scale: 1.02, boxShadow: '0 0 20px rgba(0, 212, 255, 0.4)' }}
-                        whileTap={{ scale: 0.98 }}
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          setShowWindTurbineGame(true)
-                        }}
-                      >
-                        <motion.div
-                          className="absolute inset-0 bg-gradient-to-r from-cyan-400/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"
-                        />
-                        <span className="relative z-10 flex items-center gap-1.5 text-cyan-300">
-                          <Wind className="w-3.5 h-3.5" />
-                          풍력 끙차돌리기
-                        </span>
-                        <span className="relative z-10 text-green-400 font-medium">EXP</span>
-                      </motion.button>
-
-                      {/* EGG: 에너지그리드 게임 (BETA) */}
-                      <motion.button
-                        className="w-full py-2.5 px-3 rounded-lg bg-gradient-to-r from-yellow-500/20 to-amber-500/20 text-[10px] text-left relative overflow-hidden group border border-yellow-400/30"
-                        whileHover={{ scale: 1.02, boxShadow: '0 0 25px rgba(250, 204, 21, 0.5)' }}
-                        whileTap={{ scale: 0.98 }}
-                        onClick={handleEnergyGridGame}
-                        style={{ wordBreak: 'keep-all' }}
-                      >
-                        <motion.div
-                          className="absolute inset-0 bg-gradient-to-r from-yellow-400/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"
-                        />
-                        {/* BETA Badge */}
-                        <div className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[8px] font-black px-1.5 py-0.5 rounded-bl-md rounded-tr-lg">
-                          BETA
-                        </div>
-                        <div className="relative z-10 flex items-center justify-between">
-                          <div className="flex items-center gap-1.5">
-                            <Zap className="w-3.5 h-3.5 text-yellow-400" />
-                            <div className="flex flex-col">
-                              <span className="text-yellow-300 font-semibold leading-tight">EGG: 에너지그리드</span>
-                              <span className="text-[8px] text-slate-400 leading-tight mt-0.5">경남 전력망 운영 시뮬레이션</span>
+                      {getGamesBySection('game').map((game) => {
+                        const IconComponent = GAME_ICONS[game.icon]
+                        if (!game.available) {
+                          return (
+                            <div
+                              key={game.id}
+                              className="w-full py-2 px-3 rounded-lg bg-white/5 text-[10px] text-slate-500 flex items-center gap-2 cursor-not-allowed"
+                            >
+                              <Construction className="w-3 h-3" /> {game.name} · 추가 예정
                             </div>
-                          </div>
-                          <ExternalLink className="w-3 h-3 text-yellow-400/70" />
-                        </div>
-                      </motion.button>
-
-                      {/* 개발중인 게임 슬롯 */}
-                      <motion.button
-                        className="w-full py-2 px-3 rounded-lg bg-white/5 text-[10px] text-slate-500 text-left flex items-center gap-2 cursor-not-allowed"
-                        whileTap={{ scale: 0.98 }}
-                      >
-                        <Construction className="w-3 h-3" /> 추가 예정
-                      </motion.button>
+                          )
+                        }
+                        return (
+                          <motion.button
+                            key={game.id}
+                            className={`w-full py-2.5 px-3 rounded-lg bg-gradient-to-r ${game.color} text-[10px] text-left relative overflow-hidden group ${
+                              game.beta ? 'border border-yellow-400/30' : ''
+                            }`}
+                            whileHover={{ scale: 1.02, boxShadow: `0 0 20px ${game.hoverShadow}` }}
+                            whileTap={{ scale: 0.98 }}
+                            onClick={(e) => handleOpenGame(e, game)}
+                            style={{ wordBreak: 'keep-all' }}
+                          >
+                            {game.beta && (
+                              <div className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[8px] font-black px-1.5 py-0.5 rounded-bl-md rounded-tr-lg">
+                                BETA
+                              </div>
+                            )}
+                            <div className="relative z-10 flex items-center justify-between gap-2">
+                              <div className="flex items-center gap-1.5">
+                                <IconComponent className={`w-3.5 h-3.5 flex-shrink-0 ${game.textClass}`} />
+                                <div className="flex flex-col">
+                                  <span className={`${game.textClass} font-semibold leading-tight`}>{game.name}</span>
+                                  <span className="text-[8px] text-slate-400 leading-tight mt-0.5">{game.description}</span>
+                                </div>
+                              </div>
+                              <div className="flex items-center gap-1 flex-shrink-0">
+                                {game.policy && <span className="text-green-400 font-medium">EXP</span>}
+                                {game.kind === 'external' && (
+                                  <ExternalLink className={`w-3 h-3 ${game.textClass} opacity-70`} />
+                                )}
+                              </div>
+                            </div>
+                          </motion.button>
+                        )
+                      })}
                     </div>
                   </motion.div>
                 )}
@@ -2293,7 +3028,7 @@ const DashboardScreen = ({
               </div>
               <h3 className="font-semibold text-sm mb-0.5">SIMULATION</h3>
               <p className="text-[10px] text-slate-400 mb-1">미래기술 경험해보기</p>
-              <p className="text-[10px] text-emerald-400">하루 1회 +{EXP_LINK_CLICK} EXP</p>
+              <p className="text-[10px] text-emerald-400">하루 1회 +{rules.linkClick} EXP</p>
 
               <AnimatePresence>
                 {expandedCard === 'simulation' && (
@@ -2305,41 +3040,25 @@ const DashboardScreen = ({
                     className="overflow-hidden"
                   >
                     <div className="space-y-2 pt-2 border-t border-white/10">
-                      {/* V2G System */}
-                      <motion.button
-                        className="w-full py-2 px-3 rounded-lg bg-gradient-to-r from-emerald-500/30 to-teal-500/30 text-[10px] text-left flex items-center justify-between relative overflow-hidden group"
-                        whileHover={{ scale: 1.02, boxShadow: '0 0 20px rgba(16, 185, 129, 0.4)' }}
-                        whileTap={{ scale: 0.98 }}
-                        onClick={(e) => handleExternalLinkClick(e, 'v2g', 'https://kepco-v2g-game.vercel.app/')}
-                      >
-                        <motion.div
-                          className="absolute inset-0 bg-gradient-to-r from-emerald-400/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"
-                        />
-                        <span className="relative z-10 flex items-center gap-1 text-emerald-300">
-                          V2G System <ExternalLink className="w-3 h-3" />
-                        </span>
-                        {canEarnLinkExp('v2g') && (
-                          <span className="relative z-10 text-green-400 font-medium">+{EXP_LINK_CLICK}</span>
-                        )}
-                      </motion.button>
-
-                      {/* VPP 가상발전소 */}
-                      <motion.button
-                        className="w-full py-2 px-3 rounded-lg bg-gradient-to-r from-teal-500/30 to-cyan-500/30 text-[10px] text-left flex items-center justify-between relative overflow-hidden group"
-                        whileHover={{ scale: 1.02, boxShadow: '0 0 20px rgba(20, 184, 166, 0.4)' }}
-                        whileTap={{ scale: 0.98 }}
-                        onClick={(e) => handleExternalLinkClick(e, 'vpp', 'https://vpp-game.vercel.app/')}
-                      >
-                        <motion.div
-                          className="absolute inset-0 bg-gradient-to-r from-teal-400/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"
-                        />
-                        <span className="relative z-10 flex items-center gap-1 text-teal-300">
-                          VPP 가상발전소 <ExternalLink className="w-3 h-3" />
-                        </span>
-                        {canEarnLinkExp('vpp') && (
-                          <span className="relative z-10 text-green-400 font-medium">+{EXP_LINK_CLICK}</span>
-                        )}
-                      </motion.button>
+                      {getGamesBySection('simulation').map((game) => (
+                        <motion.button
+                          key={game.id}
+                          className={`w-full py-2 px-3 rounded-lg bg-gradient-to-r ${game.color} text-[10px] text-left flex items-center justify-between relative overflow-hidden group`}
+                          whileHover={{ scale: 1.02, boxShadow: `0 0 20px ${game.hoverShadow}` }}
+                          whileTap={{ scale: 0.98 }}
+                          onClick={(e) => handleOpenSimulation(e, game)}
+                        >
+                          <motion.div
+                            className="absolute inset-0 bg-gradient-to-r from-white/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"
+                          />
+                          <span className={`relative z-10 flex items-center gap-1 ${game.textClass}`}>
+                            {game.name} <ExternalLink className="w-3 h-3" />
+                          </span>
+                          {canEarnLinkExp(game.id) && (
+                            <span className="relative z-10 text-green-400 font-medium">+{rules.linkClick}</span>
+                          )}
+                        </motion.button>
+                      ))}
                     </div>
                   </motion.div>
                 )}
@@ -2365,7 +3084,7 @@ const DashboardScreen = ({
               </div>
               <h3 className="font-semibold text-sm mb-0.5">News</h3>
               <p className="text-[10px] text-slate-400 mb-1">에너지 소식</p>
-              <p className="text-[10px] text-orange-400">하루 1회 +{EXP_LINK_CLICK} EXP</p>
+              <p className="text-[10px] text-orange-400">하루 1회 +{rules.linkClick} EXP</p>
 
               <AnimatePresence>
                 {expandedCard === 'news' && (
@@ -2391,7 +3110,7 @@ const DashboardScreen = ({
                           에너지인사이트 <ExternalLink className="w-3 h-3" />
                         </span>
                         {canEarnLinkExp('energy-insight') && (
-                          <span className="relative z-10 text-green-400 font-medium">+{EXP_LINK_CLICK}</span>
+                          <span className="relative z-10 text-green-400 font-medium">+{rules.linkClick}</span>
                         )}
                       </motion.button>
 
@@ -2432,7 +3151,7 @@ const DashboardScreen = ({
                 </div>
                 <div className="text-right">
                   <p className="text-[10px] text-purple-400" style={{ wordBreak: 'keep-all' }}>도구별 하루 1회</p>
-                  <p className="text-[10px] text-green-400 font-medium">+{EXP_LINK_CLICK} EXP</p>
+                  <p className="text-[10px] text-green-400 font-medium">+{rules.linkClick} EXP</p>
                 </div>
               </div>
 
@@ -2445,37 +3164,7 @@ const DashboardScreen = ({
                     transition={springConfig}
                     className="overflow-hidden"
                   >
-                    <div className="grid grid-cols-2 gap-2 pt-3 border-t border-white/10">
-                      {AI_TOOLS.map((tool) => {
-                        const IconComponent = tool.icon === 'BookOpen' ? BookOpen
-                          : tool.icon === 'Code2' ? Code2
-                          : tool.icon === 'Video' ? Video
-                          : Music
-                        return (
-                          <motion.button
-                            key={tool.id}
-                            className={`py-3 px-3 rounded-xl ${tool.bgClass} text-left relative overflow-hidden transition-colors`}
-                            whileHover={{ scale: 1.02, boxShadow: `0 0 20px ${tool.hoverShadow}` }}
-                            whileTap={{ scale: 0.98 }}
-                            onClick={(e) => handleToolClick(e, tool)}
-                          >
-                            <div className="relative z-10">
-                              <div className="flex items-center justify-between mb-1">
-                                <span className="text-[10px] text-slate-400 font-medium" style={{ wordBreak: 'keep-all' }}>[{tool.category}]</span>
-                                {canEarnToolExp(tool.id) && (
-                                  <span className="text-[10px] text-green-400 font-bold">+{EXP_LINK_CLICK}</span>
-                                )}
-                              </div>
-                              <div className="flex items-center gap-2">
-                                <IconComponent className="w-4 h-4 text-white/80" />
-                                <span className="text-xs text-white font-medium" style={{ wordBreak: 'keep-all', whiteSpace: 'nowrap' }}>{tool.name}</span>
-                                <ExternalLink className="w-3 h-3 text-slate-400 flex-shrink-0" />
-                              </div>
-                            </div>
-                          </motion.button>
-                        )
-                      })}
-                    </div>
+                    <AIToolCatalog onSelect={handleToolClick} canEarnExp={canEarnToolExp} expAmount={rules.linkClick} />
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -2499,39 +3188,89 @@ const DashboardScreen = ({
         transition={{ delay: 0.6, ...springConfig }}
       >
         <div className="glass-strong rounded-2xl px-8 py-4 flex items-center gap-8 shadow-2xl shadow-black/30">
-          <NavButton icon={<Home className="w-6 h-6" />} label="홈" active />
-          <NavButton icon={<Bell className="w-6 h-6" />} label="알림" />
-          <NavButton icon={<UserCircle className="w-6 h-6" />} label="프로필" />
+          <NavButton
+            icon={<Home className="w-6 h-6" />}
+            label="홈"
+            active={!showLeaderboard && !showNotifications}
+            onClick={() => {
+              setShowLeaderboard(false)
+              setShowNotifications(false)
+            }}
+          />
+          <NavButton
+            icon={<Trophy className="w-6 h-6" />}
+            label="랭킹"
+            active={showLeaderboard}
+            onClick={() => {
+              setShowLeaderboard(true)
+              setShowNotifications(false)
+            }}
+          />
+          <NavButton
+            icon={<Bell className="w-6 h-6" />}
+            label="알림"
+            active={showNotifications}
+            badgeCount={unreadCount}
+            onClick={openNotifications}
+          />
+          <NavButton
+            icon={<UserCircle className="w-6 h-6" />}
+            label="프로필"
+            active={false}
+            onClick={() => router.push('/profile')}
+          />
         </div>
       </motion.nav>
 
+      {/* Leaderboard */}
+      <LeaderboardSheet
+        isOpen={showLeaderboard}
+        onClose={() => setShowLeaderboard(false)}
+        userData={userData}
+        onSelectDepartment={(department) => onUpdateProfile({ ...userData, department })}
+      />
+
+      {/* Notifications */}
+      <NotificationSheet
+        isOpen={showNotifications}
+        onClose={() => {
+          setShowNotifications(false)
+          refreshNotifications()
+        }}
+        notifications={notifications}
+      />
+
       {/* Check-In Modal */}
       <CheckInModal
         isOpen={showCheckInModal}
-        onClose={() => setShowCheckInModal(false)}
-        isNFC={isNFCAccess}
+        onClose={() => {
+          setShowCheckInModal(false)
+          setPendingNfcToken(null)
+        }}
+        nfcToken={pendingNfcToken}
+        sites={sites}
         userData={userData}
-        onCheckInSuccess={handleCheckInSuccess}
+        onCheckIn={handleCheckIn}
         selectedCharacter={selectedCharacter}
         testMode={testMode}
       />
 
-      {/* Wind Turbine Game */}
-      <WindTurbineGame
-        isOpen={showWindTurbineGame}
-        onClose={() => setShowWindTurbineGame(false)}
+      {/* In-App Games */}
+      <GameHost
+        gameId={activeGameId}
+        onClose={() => setActiveGameId(null)}
         onEarnExp={handleGameExp}
+        played={gamesPlayed ?? undefined}
       />
 
       {/* Security Consent Modal */}
       <SecurityConsentModal
-        isOpen={showSecurityModal}
+        tool={showSecurityModal ? pendingTool : null}
         onClose={() => {
           setShowSecurityModal(false)
           setPendingTool(null)
         }}
         onConfirm={handleSecurityConfirm}
-        toolName={pendingTool?.name || ''}
       />
 
       {/* AI Tool EXP Toast */}
@@ -2543,6 +3282,16 @@ const DashboardScreen = ({
           />
         )}
       </AnimatePresence>
+
+      {/* EXP Error Toast */}
+      <AnimatePresence>
+        {expError && (
+          <ExpErrorToast
+            message={expError}
+            onComplete={() => setExpError(null)}
+          />
+        )}
+      </AnimatePresence>
     </motion.div>
   )
 }
@@ -2552,20 +3301,33 @@ const NavButton = ({
   icon,
   label,
   active = false,
+  badgeCount = 0,
+  onClick,
 }: {
   icon: React.ReactNode
   label: string
   active?: boolean
+  // 안 읽은 알림 수 (0이면 숨김)
+  badgeCount?: number
+  onClick?: () => void
 }) => (
   <motion.button
     className={`flex flex-col items-center gap-1 ${
       active ? 'text-kepco-cyan' : 'text-slate-500'
     }`}
+    onClick={onClick}
     whileHover={{ scale: 1.1 }}
     whileTap={{ scale: 0.9 }}
     transition={springConfig}
   >
-    {icon}
+    <span className="relative">
+      {icon}
+      {badgeCount > 0 && (
+        <span className="absolute -top-1.5 -right-2 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+          {badgeCount > 99 ? '99+' : badgeCount}
+        </span>
+      )}
+    </span>
     <span className="text-[10px]">{label}</span>
     {active && (
       <motion.div
@@ -2583,8 +3345,12 @@ function MainContent() {
   const [userData, setUserData] = useState<UserData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [showOnboarding, setShowOnboarding] = useState(false)
-  const [isNFCAccess, setIsNFCAccess] = useState(false)
+  const [nfcToken, setNfcToken] = useState<string | null>(null)
   const [testMode, setTestMode] = useState(false)
+  // 레벨 기준 EXP는 운영자 설정값 (콜백에서 최신 값을 읽도록 ref로 유지)
+  const { exp: { perLevel } } = useAppConfig()
+  const perLevelRef = useRef(perLevel)
+  perLevelRef.current = perLevel
   // 신규 사용자가 온보딩을 완료했는지 추적 (NFC 이벤트 방지용)
   const justCompletedOnboarding = useRef(false)
 
@@ -2599,31 +3365,18 @@ function MainContent() {
     const source = searchParams.get('source')
     const isNFC = source === 'nfc'
 
-    // Check localStorage for existing user
-    const storedData = localStorage.getItem(STORAGE_KEY)
-    if (storedData) {
-      try {
-        const parsed = JSON.parse(storedData)
-        // totalExp가 없으면 초기화
-        if (parsed.totalExp === undefined) {
-          parsed.totalExp = 0
-        }
-        // 레벨 동기화
-        parsed.level = Math.floor(parsed.totalExp / EXP_PER_LEVEL) + 1
-        parsed.exp = parsed.totalExp % EXP_PER_LEVEL
-        setUserData(parsed)
-
-        // 기존 사용자 + NFC 접속 = NFC 출석 이벤트 발생
-        if (isNFC) {
-          setIsNFCAccess(true)
-        }
-      } catch {
-        setShowOnboarding(true)
-        // 신규 사용자 (파싱 실패) + NFC 접속 = 온보딩 먼저, NFC 이벤트 발생 안함
+    // 로컬 캐시 먼저 표시 (오프라인에서도 바로 사용 가능)
+    const cachedData = getCachedUserData(perLevelRef.current)
+    if (cachedData) {
+      setUserData(cachedData)
+
+      // 기존 사용자 + NFC 접속 = NFC 출석 이벤트 발생 (태그 토큰은 서버에서 검증)
+      if (isNFC) {
+        setNfcToken(searchParams.get('t') ?? '')
       }
     } else {
       setShowOnboarding(true)
-      // 신규 사용자 (데이터 없음) + NFC 접속 = 온보딩 먼저, NFC 이벤트 발생 안함
+      // 신규 사용자 (데이터 없음/파싱 실패) + NFC 접속 = 온보딩 먼저, NFC 이벤트 발생 안함
     }
 
     // URL 파라미터 정리 (주소창 깔끔하게 유지)
@@ -2632,18 +3385,99 @@ function MainContent() {
     }
 
     setIsLoading(false)
+
+    // 서버 프로필과 동기화 (다른 기기에서 저장한 최신 데이터 반영)
+    let cancelled = false
+    fetchProfile()
+      .then((serverData) => {
+        if (cancelled) return
+        if (serverData && (serverData.updatedAt ?? 0) >= (cachedData?.updatedAt ?? 0)) {
+          const normalized = normalizeUserData(serverData, perLevelRef.current)
+          cacheUserData(normalized)
+          setUserData(normalized)
+          setShowOnboarding(false)
+          localStorage.removeItem(PROFILE_SYNC_PENDING_KEY)
+        } else if (cachedData) {
+          // 서버에 없거나 로컬이 더 최신이면 업로드 (EXP/뱃지는 서버 값으로 교체)
+          pushUserData(cachedData).then((saved) => {
+            if (!saved || cancelled) return
+            const synced = normalizeUserData({ ...cachedData, totalExp: saved.totalExp, badges: saved.badges }, perLevelRef.current)
+            cacheUserData(synced)
+            setUserData(synced)
+          })
+        }
+      })
+      .catch(() => {
+        // 서버 연결 실패 시 로컬 캐시로 계속 사용
+      })
+
+    return () => {
+      cancelled = true
+    }
   }, [searchParams, router])
 
+  // 온라인 복귀 시 저장되지 않은 변경사항 업로드
+  useEffect(() => {
+    const handleOnline = () => {
+      if (localStorage.getItem(PROFILE_SYNC_PENDING_KEY) !== 'true') return
+      const cachedData = getCachedUserData(perLevelRef.current)
+      if (cachedData) pushUserData(cachedData)
+    }
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [])
+
+  // 로컬 캐시 + 서버 저장 (write-through)
+  const persistUserData = useCallback((data: UserData) => {
+    const stamped = { ...data, updatedAt: Date.now() }
+    cacheUserData(stamped)
+    setUserData(stamped)
+    pushUserData(stamped).then((saved) => {
+      if (!saved) return
+      // 다른 기기에서 더 최근에 저장된 데이터가 있으면 서버 데이터 사용, EXP/뱃지는 항상 서버 값
+      const synced = normalizeUserData(
+        (saved.updatedAt ?? 0) > stamped.updatedAt ? saved : { ...stamped, totalExp: saved.totalExp, badges: saved.badges },
+        perLevelRef.current
+      )
+      cacheUserData(synced)
+      setUserData(synced)
+    })
+  }, [])
+
   const handleOnboardingComplete = useCallback((data: UserData) => {
     // 온보딩 완료 시 NFC 이벤트 방지 플래그 설정
     justCompletedOnboarding.current = true
-    setUserData(data)
+    persistUserData(data)
     setShowOnboarding(false)
-    // isNFCAccess는 false로 유지 (신규 사용자이므로 NFC 출석 이벤트 발생 안함)
+    // nfcToken은 null로 유지 (신규 사용자이므로 NFC 출석 이벤트 발생 안함)
+  }, [persistUserData])
+
+  // 다른 기기의 연동 코드로 기존 프로필 불러오기
+  const handleRestoreProfile = useCallback(async (code: string): Promise<boolean> => {
+    const previousUserId = getUserId()
+    setUserId(code)
+    try {
+      const serverData = await fetchProfile()
+      if (!serverData) throw new Error('profile not found')
+      const normalized = normalizeUserData(serverData, perLevelRef.current)
+      cacheUserData(normalized)
+      setUserData(normalized)
+      setShowOnboarding(false)
+      return true
+    } catch {
+      setUserId(previousUserId)
+      return false
+    }
   }, [])
 
-  const handleUpdateUserData = useCallback((data: UserData) => {
-    setUserData(data)
+  // 서버가 계산한 누적 EXP 반영 (로컬 캐시 값은 신뢰하지 않음)
+  const handleExpSynced = useCallback(({ totalExp, badges }: { totalExp: number; badges: number }) => {
+    setUserData((prev) => {
+      if (!prev) return prev
+      const synced = normalizeUserData({ ...prev, totalExp, badges }, perLevelRef.current)
+      cacheUserData(synced)
+      return synced
+    })
   }, [])
 
   const handleToggleTestMode = useCallback(() => {
@@ -2654,7 +3488,9 @@ function MainContent() {
     })
   }, [])
 
-  const handleResetData = useCallback(() => {
+  const handleResetData = useCallback(async () => {
+    // 서버 프로필도 함께 삭제 (오프라인이면 로컬만 초기화)
+    await deleteProfile().catch(() => undefined)
     localStorage.clear()
     window.location.reload()
   }, [])
@@ -2677,13 +3513,15 @@ function MainContent() {
         <OnboardingScreen
           key="onboarding"
           onComplete={handleOnboardingComplete}
+          onRestore={handleRestoreProfile}
         />
       ) : (
         <DashboardScreen
           key="dashboard"
           userData={userData}
-          onUpdateUserData={handleUpdateUserData}
-          isNFCAccess={isNFCAccess}
+          onExpSynced={handleExpSynced}
+          onUpdateProfile={persistUserData}
+          nfcToken={nfcToken}
           testMode={testMode}
           onToggleTestMode={handleToggleTestMode}
           onResetData={handleResetData}
@@ -2705,7 +3543,9 @@ export default function KepcoAIZone() {
           />
         </div>
       }>
-        <MainContent />
+        <ConfigProvider>
+          <MainContent />
+        </ConfigProvider>
       </Suspense>
     </main>
   )
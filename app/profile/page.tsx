@@ -0,0 +1,344 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import Image from 'next/image'
+import { useRouter } from 'next/navigation'
+import { Award, BarChart3, CalendarCheck, Check, ChevronLeft, Pencil, Star, X } from 'lucide-react'
+import { ApiError, fetchProfileOverview, saveProfile } from '../lib/api'
+import { ConfigProvider, useAppConfig } from '../lib/config-context'
+import { CHARACTERS, getCharacter } from '../lib/characters'
+import { EXP_SOURCE_LABELS, type ExpSource } from '../lib/exp-rules'
+import { getBadge } from '../lib/badges'
+import { cacheUserData, normalizeUserData } from '../lib/user-data'
+import { AttendanceHeatmap } from '../components/AttendanceHeatmap'
+import type { ProfileOverview } from '../lib/types'
+
+// ==================== Profile Page ====================
+// 하단 "프로필" 버튼으로 여는 전체 프로필: 레벨 기록, 경로별 EXP, 뱃지, 출석 통계
+// 닉네임/캐릭터 변경은 기존 기록(EXP/뱃지/출석)을 그대로 유지합니다.
+
+const springConfig = {
+  type: 'spring',
+  stiffness: 300,
+  damping: 30,
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('ko-KR')
+
+// ==================== Section Card ====================
+const Section = ({ icon: Icon, title, children }: { icon: typeof Star; title: string; children: React.ReactNode }) => (
+  <section className="glass rounded-2xl p-5 mb-4">
+    <div className="flex items-center gap-2 mb-4">
+      <Icon className="w-4 h-4 text-kepco-cyan" />
+      <h2 className="text-sm font-medium text-white">{title}</h2>
+    </div>
+    {children}
+  </section>
+)
+
+// ==================== Profile Editor ====================
+const ProfileEditor = ({
+  overview,
+  onSaved,
+  onCancel,
+}: {
+  overview: ProfileOverview
+  onSaved: (overview: ProfileOverview) => void
+  onCancel: () => void
+}) => {
+  const { exp: { perLevel } } = useAppConfig()
+  const [nickname, setNickname] = useState(overview.profile.nickname)
+  const [characterId, setCharacterId] = useState(overview.profile.characterId)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const saved = await saveProfile({ ...overview.profile, nickname: nickname.trim(), characterId, updatedAt: Date.now() })
+      // 메인 화면의 오프라인 캐시도 갱신 (EXP/뱃지는 서버 값 그대로)
+      cacheUserData(normalizeUserData(saved, perLevel))
+      onSaved({ ...overview, profile: saved })
+    } catch (e) {
+      setError(e instanceof ApiError ? e.message : '저장에 실패했습니다')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <label className="block text-xs text-slate-400 mb-1">닉네임</label>
+      <input
+        className="w-full px-3 py-2 mb-4 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-kepco-cyan"
+        value={nickname}
+        maxLength={10}
+        onChange={(e) => setNickname(e.target.value)}
+      />
+
+      <label className="block text-xs text-slate-400 mb-2">캐릭터</label>
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {CHARACTERS.map((char) => (
+          <motion.button
+            key={char.id}
+            className={`relative rounded-xl p-2 transition-all ${
+              characterId === char.id
+                ? 'bg-gradient-to-br from-kepco-blue/40 to-kepco-cyan/40 ring-2 ring-kepco-cyan'
+                : 'bg-white/5 hover:bg-white/10'
+            }`}
+            onClick={() => setCharacterId(char.id)}
+            whileTap={{ scale: 0.95 }}
+          >
+            <div className="aspect-square relative mb-1">
+              <Image src={`/images/character/${char.file}`} alt={char.name} fill className="object-contain" sizes="80px" />
+            </div>
+            <p className="text-xs text-center text-slate-300 truncate">{char.name}</p>
+          </motion.button>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+      <div className="flex gap-2">
+        <motion.button
+          className="flex-1 py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-slate-300"
+          onClick={onCancel}
+          whileTap={{ scale: 0.98 }}
+        >
+          취소
+        </motion.button>
+        <motion.button
+          className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-kepco-blue to-kepco-cyan text-sm text-white font-medium disabled:opacity-50"
+          onClick={handleSave}
+          disabled={saving || !nickname.trim()}
+          whileTap={{ scale: 0.98 }}
+        >
+          {saving ? '저장 중...' : '저장'}
+        </motion.button>
+      </div>
+    </div>
+  )
+}
+
+// ==================== Profile Content ====================
+const ProfileContent = () => {
+  const router = useRouter()
+  const { timeSlots, exp: { perLevel } } = useAppConfig()
+  const [overview, setOverview] = useState<ProfileOverview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState(false)
+
+  useEffect(() => {
+    fetchProfileOverview()
+      .then(setOverview)
+      .catch((e) => setError(e instanceof ApiError ? e.message : '프로필을 불러오지 못했습니다'))
+  }, [])
+
+  if (error || !overview) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-6">
+        {error ? (
+          <>
+            <p className="text-sm text-slate-400">{error}</p>
+            <button className="text-sm text-kepco-cyan" onClick={() => router.push('/')}>홈으로</button>
+          </>
+        ) : (
+          <motion.div
+            className="w-12 h-12 border-4 border-kepco-cyan/30 border-t-kepco-cyan rounded-full"
+            animate={{ rotate: 360 }}
+            transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+          />
+        )}
+      </div>
+    )
+  }
+
+  const { profile, levelHistory, expBySource, checkIns, badges } = overview
+  const character = getCharacter(profile.characterId)
+  const sources = (Object.entries(expBySource) as [ExpSource, number][])
+    .filter(([, exp]) => exp > 0)
+    .sort((a, b) => b[1] - a[1])
+  const maxSourceExp = Math.max(...sources.map(([, exp]) => exp), 1)
+  const earnedBadges = badges.filter((b) => b.earnedAt !== null)
+
+  return (
+    <div className="min-h-screen px-4 py-6 max-w-md mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-6">
+        <motion.button
+          className="p-1 text-slate-400 hover:text-white"
+          onClick={() => router.push('/')}
+          whileTap={{ scale: 0.9 }}
+          aria-label="홈으로"
+        >
+          <ChevronLeft className="w-6 h-6" />
+        </motion.button>
+        <h1 className="text-lg font-bold text-white">프로필</h1>
+      </div>
+
+      {/* Profile Card */}
+      <motion.section
+        className="glass rounded-2xl p-5 mb-4"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={springConfig}
+      >
+        {editing ? (
+          <ProfileEditor
+            overview={overview}
+            onSaved={(saved) => {
+              setOverview(saved)
+              setEditing(false)
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <>
+            <div className="flex items-center gap-4 mb-4">
+              <div className="w-20 h-20 rounded-2xl bg-deep-navy overflow-hidden relative flex-shrink-0">
+                {character && (
+                  <Image src={`/images/character/${character.file}`} alt={character.name} fill className="object-contain p-1" sizes="80px" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <h2 className="text-xl font-bold text-white truncate">{profile.nickname}</h2>
+                <p className="text-xs text-slate-400">{profile.department ?? '부서 미지정'} · {character?.name}</p>
+                <p className="text-[11px] text-slate-500 mt-1">{formatDate(overview.joinedAt)} 가입</p>
+              </div>
+              <motion.button
+                className="p-2 rounded-xl bg-white/5 text-slate-300 hover:text-white"
+                onClick={() => setEditing(true)}
+                whileTap={{ scale: 0.9 }}
+                aria-label="프로필 수정"
+              >
+                <Pencil className="w-4 h-4" />
+              </motion.button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-white/5 rounded-xl p-3 text-center">
+                <div className="text-xl font-bold text-kepco-cyan">Lv.{profile.level}</div>
+                <div className="text-xs text-slate-400">레벨</div>
+              </div>
+              <div className="bg-white/5 rounded-xl p-3 text-center">
+                <div className="text-xl font-bold text-white">{profile.totalExp}</div>
+                <div className="text-xs text-slate-400">누적 EXP</div>
+              </div>
+              <div className="bg-white/5 rounded-xl p-3 text-center">
+                <div className="text-xl font-bold text-white">{earnedBadges.length}</div>
+                <div className="text-xs text-slate-400">뱃지</div>
+              </div>
+            </div>
+            <div className="mt-3 h-2 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-kepco-blue to-kepco-cyan"
+                style={{ width: `${((profile.totalExp % perLevel) / perLevel) * 100}%` }}
+              />
+            </div>
+            <p className="text-[11px] text-slate-500 text-right mt-1">
+              다음 레벨까지 {perLevel - (profile.totalExp % perLevel)} EXP
+            </p>
+          </>
+        )}
+      </motion.section>
+
+      {/* Check-In Stats */}
+      <Section icon={CalendarCheck} title="출석 통계">
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          <div className="bg-white/5 rounded-xl p-3 text-center">
+            <div className="text-lg font-bold text-white">{checkIns.total}</div>
+            <div className="text-[11px] text-slate-400">누적 출석</div>
+          </div>
+          <div className="bg-white/5 rounded-xl p-3 text-center">
+            <div className="text-lg font-bold text-white">{checkIns.days}</div>
+            <div className="text-[11px] text-slate-400">출석한 날</div>
+          </div>
+          <div className="bg-white/5 rounded-xl p-3 text-center">
+            <div className="text-lg font-bold text-white">{checkIns.nfc}/{checkIns.gps}</div>
+            <div className="text-[11px] text-slate-400">NFC/GPS</div>
+          </div>
+        </div>
+        <div className="flex gap-2 mb-5">
+          {timeSlots.map((slot) => (
+            <div key={slot.id} className="flex-1 bg-white/5 rounded-lg py-2 text-center">
+              <p className="text-xs text-slate-400">{slot.icon} {slot.name}</p>
+              <p className="text-sm font-medium text-white">{checkIns.bySlot[slot.id] ?? 0}회</p>
+            </div>
+          ))}
+        </div>
+        <AttendanceHeatmap />
+      </Section>
+
+      {/* EXP Breakdown */}
+      <Section icon={BarChart3} title="EXP 획득 경로">
+        {sources.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-4">아직 획득한 EXP가 없습니다</p>
+        ) : (
+          <div className="space-y-3">
+            {sources.map(([source, exp]) => (
+              <div key={source}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="text-slate-300">{EXP_SOURCE_LABELS[source]}</span>
+                  <span className="text-kepco-cyan">{exp} EXP</span>
+                </div>
+                <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-kepco-blue to-kepco-cyan" style={{ width: `${(exp / maxSourceExp) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Section>
+
+      {/* Level History */}
+      <Section icon={Star} title="레벨 기록">
+        <div className="space-y-2">
+          {[...levelHistory].reverse().map((milestone) => (
+            <div key={milestone.level} className="flex items-center justify-between px-3 py-2 bg-white/5 rounded-lg">
+              <span className="text-sm font-medium text-white">Lv.{milestone.level}</span>
+              <span className="text-xs text-slate-400">{formatDate(milestone.reachedAt)}</span>
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      {/* Badges */}
+      <Section icon={Award} title={`뱃지 ${earnedBadges.length}/${badges.length}`}>
+        <div className="grid grid-cols-4 gap-2">
+          {badges.map((item) => {
+            const badge = getBadge(item.id)
+            if (!badge) return null
+            const earned = item.earnedAt !== null
+            return (
+              <div
+                key={item.id}
+                className={`p-2 rounded-xl border text-center ${earned ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-white/5 border-white/10'}`}
+                title={badge.description}
+              >
+                <div className={`text-2xl ${earned ? '' : 'grayscale opacity-40'}`}>{badge.icon}</div>
+                <p className={`text-[10px] mt-1 truncate ${earned ? 'text-yellow-400' : 'text-slate-500'}`}>{badge.name}</p>
+                {earned ? (
+                  <Check className="w-3 h-3 mx-auto mt-0.5 text-yellow-400" />
+                ) : (
+                  <X className="w-3 h-3 mx-auto mt-0.5 text-slate-600" />
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </Section>
+    </div>
+  )
+}
+
+export default function ProfilePage() {
+  return (
+    <main className="min-h-screen noise-overlay pb-10">
+      <ConfigProvider>
+        <ProfileContent />
+      </ConfigProvider>
+    </main>
+  )
+}
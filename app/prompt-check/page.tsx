@@ -0,0 +1,279 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { useRouter } from 'next/navigation'
+import { AlertTriangle, Check, ChevronLeft, Copy, ShieldAlert, ShieldCheck } from 'lucide-react'
+import { ApiError, fetchPromptRulePack, getUserId, recordPromptCheck } from '../lib/api'
+import { ConfigProvider, useRewardRules } from '../lib/config-context'
+import { isOfflineError, submitExp } from '../lib/exp-queue'
+import {
+  DEFAULT_PROMPT_RULE_PACK,
+  MAX_PROMPT_LENGTH,
+  scanPrompt,
+  summarizePromptScan,
+  type PromptRisk,
+  type PromptRulePack,
+  type PromptRuleSeverity,
+  type PromptScanResult,
+} from '../lib/prompt-security'
+
+// ==================== Prompt Check Page ====================
+// AI 카드의 "AI 보안검증"으로 여는 프롬프트 보안검사
+// 공개 AI에 보내기 전에 붙여넣은 프롬프트에서 개인정보/회사 정보를 찾아 표시하고, 가린 문장을 복사할 수 있습니다.
+// 검사는 운영자가 저장한 규칙 팩(/api/prompt-check/rules)으로 이 기기에서 하며, 원문은 서버로 보내지 않습니다.
+// EXP는 검사 요약(길이/발견 개수/위험도)을 기록해 받은 검사 ID로 요청 (서버가 검사 기록을 확인)
+
+const RISK_STYLES: Record<PromptRisk, { icon: typeof ShieldCheck; className: string; title: string; message: string }> = {
+  safe: {
+    icon: ShieldCheck,
+    className: 'bg-green-500/10 border-green-500/40 text-green-400',
+    title: '안전',
+    message: '찾은 민감정보가 없습니다. 그래도 보내기 전에 한 번 더 확인하세요.',
+  },
+  warning: {
+    icon: AlertTriangle,
+    className: 'bg-yellow-500/10 border-yellow-500/40 text-yellow-400',
+    title: '주의',
+    message: '회사 내부 정보가 있습니다. 아래 가린 문장을 사용하세요.',
+  },
+  danger: {
+    icon: ShieldAlert,
+    className: 'bg-red-500/10 border-red-500/40 text-red-400',
+    title: '위험',
+    message: '개인정보 또는 보안 표시 문서가 있습니다. 원문을 외부 AI에 보내지 마세요.',
+  },
+}
+
+const SEVERITY_COLORS: Record<PromptRuleSeverity, string> = {
+  high: 'bg-red-500/30 text-red-200',
+  medium: 'bg-yellow-500/30 text-yellow-200',
+  low: 'bg-slate-500/30 text-slate-200',
+}
+
+// ==================== Highlighted Prompt ====================
+const HighlightedPrompt = ({ prompt, result }: { prompt: string; result: PromptScanResult }) => {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  result.findings.forEach((finding, i) => {
+    if (finding.start > cursor) parts.push(prompt.slice(cursor, finding.start))
+    parts.push(
+      <mark
+        key={i}
+        className={`rounded px-0.5 ${SEVERITY_COLORS[finding.severity]}`}
+        title={finding.label}
+      >
+        {prompt.slice(finding.start, finding.end)}
+      </mark>
+    )
+    cursor = finding.end
+  })
+  parts.push(prompt.slice(cursor))
+
+  return <p className="text-sm text-slate-300 whitespace-pre-wrap break-all leading-relaxed">{parts}</p>
+}
+
+// ==================== Prompt Check Content ====================
+const PromptCheckContent = () => {
+  const router = useRouter()
+  const rules = useRewardRules()
+  const [prompt, setPrompt] = useState('')
+  // 검사한 원문 (결과 위치는 이 문장 기준)
+  const [checkedPrompt, setCheckedPrompt] = useState('')
+  const [result, setResult] = useState<PromptScanResult | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expMessage, setExpMessage] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  // 운영자 규칙 팩 (받기 전에는 검사하지 않음)
+  const [rulePack, setRulePack] = useState<PromptRulePack | null>(null)
+  const [packFallback, setPackFallback] = useState(false)
+
+  useEffect(() => {
+    fetchPromptRulePack()
+      .then(setRulePack)
+      .catch(() => {
+        // 받지 못하면 기본 팩으로 검사하고 안내
+        setRulePack(DEFAULT_PROMPT_RULE_PACK)
+        setPackFallback(true)
+      })
+  }, [])
+
+  const handleCheck = async () => {
+    if (!rulePack) return
+    setChecking(true)
+    setError(null)
+    setExpMessage(null)
+    setCopied(false)
+    try {
+      // 원문은 기기에서만 검사
+      const scan = scanPrompt(prompt, rulePack)
+      setCheckedPrompt(prompt)
+      setResult(scan)
+
+      // 요약만 기록하고 받은 검사 ID로 EXP 요청 (한도/중복 판정은 서버)
+      const summary = await summarizePromptScan(getUserId(), prompt, scan)
+      recordPromptCheck(summary)
+        .then(
+          (checked) =>
+            submitExp({ source: 'ai-click', metadata: { checkId: checked.checkId } })
+              .then((granted) => setExpMessage(`+${granted.transaction.amount} EXP 적립`))
+              .catch((e) => {
+                if (isOfflineError(e)) setExpMessage('오프라인 상태입니다. 연결되면 자동으로 적립됩니다')
+                else if (e instanceof ApiError) setExpMessage(e.message)
+              }),
+          // 검사 기록 전이면 대기열에 넣을 검사 ID가 없음
+          (e) => setExpMessage(e instanceof ApiError ? e.message : '오프라인 상태라 EXP를 적립하지 못했습니다')
+        )
+    } catch {
+      setError('검사에 실패했습니다. 잠시 후 다시 시도하세요')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!result) return
+    try {
+      await navigator.clipboard.writeText(result.redacted)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch {
+      setError('복사하지 못했습니다. 직접 선택해서 복사하세요')
+    }
+  }
+
+  // 항목별 발견 개수 (규칙 순서)
+  const counts = (result?.findings ?? []).reduce<{ ruleId: string; label: string; severity: PromptRuleSeverity; count: number }[]>(
+    (acc, finding) => {
+      const item = acc.find((c) => c.ruleId === finding.ruleId)
+      if (item) item.count += 1
+      else acc.push({ ruleId: finding.ruleId, label: finding.label, severity: finding.severity, count: 1 })
+      return acc
+    },
+    []
+  )
+  // 표시만 하고 가리지 않는 항목 (보안 표시 등)
+  const unredacted = counts.filter((c) => rulePack?.rules.some((r) => r.id === c.ruleId && !r.redact))
+  const risk = result ? RISK_STYLES[result.risk] : null
+  const changed = result !== null && prompt !== checkedPrompt
+
+  return (
+    <div className="min-h-screen px-4 py-6 max-w-md mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-6">
+        <motion.button
+          className="p-1 text-slate-400 hover:text-white"
+          onClick={() => router.push('/')}
+          whileTap={{ scale: 0.9 }}
+          aria-label="홈으로"
+        >
+          <ChevronLeft className="w-6 h-6" />
+        </motion.button>
+        <h1 className="text-lg font-bold text-white">AI 프롬프트 보안검증</h1>
+      </div>
+
+      {/* Input */}
+      <section className="glass rounded-2xl p-5 mb-4">
+        <p className="text-xs text-slate-400 mb-3">
+          공개 AI(ChatGPT 등)에 보내기 전에 프롬프트를 붙여넣어 검사하세요. 검사는 이 기기에서 하며, 입력한 내용은 서버로 보내거나 저장하지 않습니다.
+        </p>
+        <textarea
+          className="w-full h-40 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm resize-none focus:outline-none focus:border-kepco-cyan"
+          placeholder="검사할 프롬프트를 붙여넣으세요"
+          value={prompt}
+          maxLength={MAX_PROMPT_LENGTH}
+          onChange={(e) => setPrompt(e.target.value)}
+        />
+        <div className="flex justify-between items-center mt-1 mb-3 text-[11px] text-slate-500">
+          <span>{changed ? '내용이 바뀌었습니다. 다시 검사하세요' : `검사 완료 시 +${rules.aiClick} EXP (하루 ${rules.aiClickMaxDaily}회)`}</span>
+          <span>{prompt.length.toLocaleString()}/{MAX_PROMPT_LENGTH.toLocaleString()}</span>
+        </div>
+        {rulePack && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {rulePack.rules
+              .filter((r) => r.enabled)
+              .map((r) => (
+                <span key={r.id} className="px-1.5 py-0.5 rounded bg-white/5 text-[10px] text-slate-400">
+                  {r.label}
+                </span>
+              ))}
+            <span className="px-1.5 py-0.5 text-[10px] text-slate-600">규칙 v{rulePack.version}</span>
+          </div>
+        )}
+        {packFallback && <p className="text-[11px] text-yellow-400 mb-3">운영 규칙을 받지 못해 기본 규칙으로 검사합니다</p>}
+        {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+        <motion.button
+          className="w-full py-2.5 rounded-xl bg-gradient-to-r from-kepco-blue to-kepco-cyan text-sm text-white font-medium disabled:opacity-50"
+          onClick={handleCheck}
+          disabled={checking || !rulePack || !prompt.trim()}
+          whileTap={{ scale: 0.98 }}
+        >
+          {!rulePack ? '규칙 불러오는 중...' : checking ? '검사 중...' : '검사하기'}
+        </motion.button>
+      </section>
+
+      {result && risk && (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          {/* Summary */}
+          <section className={`rounded-2xl border p-4 mb-4 ${risk.className}`}>
+            <div className="flex items-center gap-2 mb-1">
+              <risk.icon className="w-5 h-5" />
+              <h2 className="font-bold">{risk.title}</h2>
+              {expMessage && <span className="ml-auto text-[11px] text-slate-300">{expMessage}</span>}
+            </div>
+            <p className="text-xs text-slate-300">{risk.message}</p>
+            {result.findings.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-3">
+                {counts.map((c) => (
+                  <span key={c.ruleId} className={`px-2 py-0.5 rounded-full text-[11px] ${SEVERITY_COLORS[c.severity]}`}>
+                    {c.label} {c.count}
+                  </span>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Findings */}
+          {result.findings.length > 0 && (
+            <section className="glass rounded-2xl p-5 mb-4">
+              <h2 className="text-sm font-medium text-white mb-3">검사 결과</h2>
+              <HighlightedPrompt prompt={checkedPrompt} result={result} />
+            </section>
+          )}
+
+          {/* Redacted */}
+          <section className="glass rounded-2xl p-5 mb-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-medium text-white">가린 문장</h2>
+              <motion.button
+                className="flex items-center gap-1 px-2.5 py-1 rounded-lg bg-white/5 text-xs text-slate-300 hover:text-white"
+                onClick={handleCopy}
+                whileTap={{ scale: 0.95 }}
+              >
+                {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+                {copied ? '복사됨' : '복사'}
+              </motion.button>
+            </div>
+            <p className="text-sm text-slate-300 whitespace-pre-wrap break-all leading-relaxed">{result.redacted}</p>
+            {unredacted.length > 0 && (
+              <p className="mt-3 text-[11px] text-purple-300">
+                {unredacted.map((c) => c.label).join(', ')} 항목은 가리지 않았습니다. 이런 문서는 외부 AI에 보내면 안 됩니다.
+              </p>
+            )}
+          </section>
+        </motion.div>
+      )}
+    </div>
+  )
+}
+
+export default function PromptCheckPage() {
+  return (
+    <main className="min-h-screen noise-overlay pb-10">
+      <ConfigProvider>
+        <PromptCheckContent />
+      </ConfigProvider>
+    </main>
+  )
+}
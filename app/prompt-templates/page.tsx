@@ -0,0 +1,253 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useRouter } from 'next/navigation'
+import { Check, ChevronLeft, Copy, ExternalLink, Star } from 'lucide-react'
+import { ApiError, fetchPromptTemplates, recordPromptTemplateUse, setPromptTemplateFavorite } from '../lib/api'
+import { AI_TOOL_COLORS, type AITool } from '../lib/ai-tools'
+import { ConfigProvider, useAITools } from '../lib/config-context'
+import { fillPromptTemplate, getMissingVariables } from '../lib/prompt-templates'
+import { SecurityConsentModal } from '../components/SecurityConsentModal'
+import type { PromptTemplateItem } from '../lib/types'
+
+// ==================== Prompt Templates Page ====================
+// AI app 카드의 "프롬프트 템플릿": 업무용 템플릿에 값을 채워 복사하거나 AI TOOL로 보냅니다.
+// 도구로 보내면 채운 프롬프트를 클립보드에 복사한 뒤 보안 준수 확인을 거쳐 도구를 엽니다 (EXP 없음).
+
+const ALL = '전체'
+const FAVORITES = '즐겨찾기'
+
+// ==================== Template Editor ====================
+const TemplateEditor = ({
+  template,
+  onUse,
+  onSend,
+  onError,
+}: {
+  template: PromptTemplateItem
+  onUse: () => void
+  onSend: (tool: AITool, prompt: string) => void
+  onError: (message: string) => void
+}) => {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [copied, setCopied] = useState(false)
+  const aiTools = useAITools()
+
+  const prompt = fillPromptTemplate(template, values)
+  const missing = getMissingVariables(template, values)
+  const tools = template.toolIds
+    .map((id) => aiTools.find((tool) => tool.id === id))
+    .filter((tool): tool is AITool => Boolean(tool))
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(prompt)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+      onUse()
+    } catch {
+      onError('복사하지 못했습니다. 미리보기에서 직접 선택해서 복사하세요')
+    }
+  }
+
+  return (
+    <div className="pt-3 mt-3 border-t border-white/10 space-y-3">
+      {template.variables.map((variable) => (
+        <label key={variable.key} className="block text-xs text-slate-400">
+          {variable.label}
+          {variable.multiline ? (
+            <textarea
+              className="mt-1 w-full h-24 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm resize-none focus:outline-none focus:border-kepco-cyan"
+              placeholder={variable.placeholder}
+              value={values[variable.key] ?? ''}
+              onChange={(e) => setValues({ ...values, [variable.key]: e.target.value })}
+            />
+          ) : (
+            <input
+              className="mt-1 w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-kepco-cyan"
+              placeholder={variable.placeholder}
+              value={values[variable.key] ?? ''}
+              onChange={(e) => setValues({ ...values, [variable.key]: e.target.value })}
+            />
+          )}
+        </label>
+      ))}
+
+      <div>
+        <p className="text-xs text-slate-400 mb-1">미리보기</p>
+        <p className="max-h-48 overflow-y-auto px-3 py-2 rounded-lg bg-black/20 text-xs text-slate-300 whitespace-pre-wrap break-all leading-relaxed">
+          {prompt}
+        </p>
+        {missing.length > 0 && (
+          <p className="mt-1 text-[11px] text-yellow-400">채우지 않은 항목: {missing.map((v) => v.label).join(', ')}</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <motion.button
+          className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/10 text-xs text-white"
+          onClick={handleCopy}
+          whileTap={{ scale: 0.95 }}
+        >
+          {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+          {copied ? '복사됨' : '복사'}
+        </motion.button>
+        {tools.map((tool) => (
+          <motion.button
+            key={tool.id}
+            className={`flex items-center gap-1 px-3 py-2 rounded-lg text-xs text-white ${AI_TOOL_COLORS[tool.color]?.bgClass ?? 'bg-white/10'}`}
+            onClick={() => onSend(tool, prompt)}
+            whileTap={{ scale: 0.95 }}
+          >
+            {tool.name}로 보내기 <ExternalLink className="w-3 h-3" />
+          </motion.button>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-500">보내기 전에 개인정보/회사 내부 정보가 없는지 AI 보안검증으로 확인하세요.</p>
+    </div>
+  )
+}
+
+// ==================== Template Library ====================
+const TemplateLibrary = () => {
+  const router = useRouter()
+  const [templates, setTemplates] = useState<PromptTemplateItem[] | null>(null)
+  const [category, setCategory] = useState(ALL)
+  const [openId, setOpenId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // 보안 준수 확인 대기 중인 보내기
+  const [pending, setPending] = useState<{ templateId: string; tool: AITool; prompt: string } | null>(null)
+
+  const showError = (e: unknown) => {
+    setError(e instanceof ApiError ? e.message : '요청에 실패했습니다. 잠시 후 다시 시도하세요')
+  }
+
+  useEffect(() => {
+    fetchPromptTemplates().then(setTemplates).catch(showError)
+  }, [])
+
+  const handleFavorite = (template: PromptTemplateItem) => {
+    setPromptTemplateFavorite(template.id, !template.favorite).then(setTemplates).catch(showError)
+  }
+
+  // 사용 기록 실패는 화면 동작에 영향 없음
+  const handleUse = (templateId: string) => {
+    recordPromptTemplateUse(templateId).then(setTemplates).catch(() => {})
+  }
+
+  // 새 창이 열리거나 동의 저장을 기다리면 클립보드 쓰기가 막힐 수 있으므로 확인을 누르는 즉시 복사
+  const handleSendStart = () => {
+    if (!pending) return
+    navigator.clipboard.writeText(pending.prompt).catch(() => setError('복사하지 못했습니다. 미리보기에서 직접 복사하세요'))
+  }
+
+  // 도구 창은 동의 화면이 엶
+  const handleSendConfirm = () => {
+    if (!pending) return
+    handleUse(pending.templateId)
+    setPending(null)
+  }
+
+  const categories = [ALL, FAVORITES, ...Array.from(new Set((templates ?? []).map((t) => t.category)))]
+  const visible = (templates ?? []).filter((t) =>
+    category === ALL ? true : category === FAVORITES ? t.favorite : t.category === category
+  )
+
+  return (
+    <>
+      <div className="min-h-screen px-4 py-6 max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-2 mb-6">
+          <motion.button
+            className="p-1 text-slate-400 hover:text-white"
+            onClick={() => router.push('/')}
+            whileTap={{ scale: 0.9 }}
+            aria-label="홈으로"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </motion.button>
+          <h1 className="text-lg font-bold text-white">프롬프트 템플릿</h1>
+        </div>
+
+        {/* Category Chips */}
+        <div className="flex gap-1.5 mb-4 overflow-x-auto">
+          {categories.map((c) => (
+            <button
+              key={c}
+              className={`px-3 py-1 rounded-full text-xs whitespace-nowrap ${
+                category === c ? 'bg-kepco-cyan/20 text-kepco-cyan' : 'bg-white/5 text-slate-400'
+              }`}
+              onClick={() => setCategory(c)}
+            >
+              {c}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="mb-4 px-4 py-3 rounded-xl bg-red-500/10 text-xs text-red-400">{error}</p>}
+
+        {templates === null && !error && <p className="py-10 text-center text-xs text-slate-500">불러오는 중...</p>}
+        {templates !== null && visible.length === 0 && (
+          <p className="py-10 text-center text-xs text-slate-500">
+            {category === FAVORITES ? '즐겨찾기한 템플릿이 없습니다' : '템플릿이 없습니다'}
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {visible.map((template) => (
+            <section key={template.id} className="glass rounded-2xl p-4">
+              <div className="flex items-start gap-2">
+                <button className="flex-1 min-w-0 text-left" onClick={() => setOpenId(openId === template.id ? null : template.id)}>
+                  <span className="text-[10px] text-slate-400">[{template.category}]</span>
+                  <h2 className="text-sm font-semibold text-white">{template.title}</h2>
+                  <p className="text-[11px] text-slate-400 mt-0.5" style={{ wordBreak: 'keep-all' }}>
+                    {template.description}
+                  </p>
+                  {template.uses > 0 && <p className="text-[10px] text-slate-500 mt-1">{template.uses}회 사용</p>}
+                </button>
+                <motion.button
+                  className="p-1"
+                  onClick={() => handleFavorite(template)}
+                  whileTap={{ scale: 0.85 }}
+                  aria-label={template.favorite ? '즐겨찾기 해제' : '즐겨찾기'}
+                >
+                  <Star className={`w-5 h-5 ${template.favorite ? 'fill-yellow-400 text-yellow-400' : 'text-slate-500'}`} />
+                </motion.button>
+              </div>
+              <AnimatePresence>
+                {openId === template.id && (
+                  <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                    <TemplateEditor
+                      template={template}
+                      onUse={() => handleUse(template.id)}
+                      onSend={(tool, prompt) => setPending({ templateId: template.id, tool, prompt })}
+                      onError={setError}
+                    />
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </section>
+          ))}
+        </div>
+      </div>
+
+      <SecurityConsentModal
+        tool={pending?.tool ?? null}
+        onClose={() => setPending(null)}
+        onStart={handleSendStart}
+        onConfirm={handleSendConfirm}
+      />
+    </>
+  )
+}
+
+export default function PromptTemplatesPage() {
+  return (
+    <main className="min-h-screen noise-overlay pb-10">
+      <ConfigProvider>
+        <TemplateLibrary />
+      </ConfigProvider>
+    </main>
+  )
+}
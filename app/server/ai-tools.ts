@@ -0,0 +1,23 @@
+import type { Database } from './db'
+import { HttpError } from './http'
+
+// ==================== AI Tool Favorites ====================
+// 사용자별로 AI TOOL 카드 맨 앞에 고정한 도구 (고정한 순서대로)
+// 운영자가 목록에서 뺀 도구는 조회할 때 제외합니다.
+
+const MAX_FAVORITES = 10
+
+export const getToolFavorites = (db: Database, userId: string): string[] =>
+  (db.aiToolFavorites[userId] ?? []).filter((id) => db.aiTools.some((tool) => tool.id === id))
+
+export const setToolFavorite = (db: Database, userId: string, toolId: string, pinned: boolean): string[] => {
+  if (!db.profiles[userId]) throw new HttpError(404, '프로필이 없습니다')
+  if (!db.aiTools.some((tool) => tool.id === toolId)) throw new HttpError(400, '알 수 없는 AI 도구입니다')
+
+  const current = getToolFavorites(db, userId).filter((id) => id !== toolId)
+  if (pinned && current.length >= MAX_FAVORITES) {
+    throw new HttpError(409, `즐겨찾기는 ${MAX_FAVORITES}개까지 고정할 수 있습니다`)
+  }
+  db.aiToolFavorites[userId] = pinned ? [...current, toolId] : current
+  return db.aiToolFavorites[userId]
+}
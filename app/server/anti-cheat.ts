@@ -0,0 +1,109 @@
+import { HttpError } from './http'
+import type { ExpMetadata } from '../lib/types'
+import {
+  GAME_DURATION,
+  MAX_GAME_DURATION_MS,
+  MAX_TRACE_STROKES,
+  TURBINE_MODES,
+  WIND_DURATION,
+  decodeTurbineTrace,
+  isTurbineMode,
+  replayTurbine,
+  type TurbineMode,
+  type TurbineReplay,
+} from '../lib/turbine'
+
+// ==================== Game Result Validation ====================
+// 풍력 게임은 클라이언트가 보낸 EXP/회전수를 믿지 않고, 함께 보낸 입력 기록(포인터 각도 + 시각)으로
+// 같은 물리(app/lib/turbine.ts)를 서버에서 다시 돌려 검증합니다.
+//   - 난이도(mode, 없으면 표준) 확인 후 같은 모드로 재현
+//   - 플레이 시간/기록 길이/획 수는 재현 전에 검사 (재현 비용이 플레이 시간에 비례하고 DB 쓰기 중에 실행되므로)
+//   - 기록 형식/시각 순서, 바람 구간(1회, 5초, 태풍 모드는 정해진 바람만) 검사
+//   - 사람이 낼 수 없는 입력 속도(0.5초 구간 기준 초당 회전각) 거부
+//   - 재현 결과보다 큰 회전수/EXP를 보고하면 조작으로 보고 거부, 지급은 재현 결과 기준
+
+// 입력 기록 문자열 최대 길이 (샘플 약 12,000개)
+const MAX_TRACE_LENGTH = 150 * 1000
+// 손가락으로 돌릴 수 있는 최대 속도 (초당 7바퀴)
+const MAX_INPUT_DEGREES_PER_SEC = 7 * 360
+// 게임 종료 처리 지연 허용치 (타이머 확인 주기, 백그라운드 탭에서는 1초까지 늦어짐)
+const DURATION_SLACK_MS = 1500
+// 프레임 경계 차이로 생기는 회전수 오차 허용치
+const SPIN_TOLERANCE = 2
+
+export interface ReplayedRound extends TurbineReplay {
+  mode: TurbineMode
+}
+
+export interface ValidatedRound {
+  exp: number
+  stats: ExpMetadata
+}
+
+const readNumber = (value: unknown): number | null => {
+  const number = Number(value)
+  return value !== undefined && Number.isFinite(number) ? number : null
+}
+
+// 입력 기록 검사 후 물리 재현 (기록 저장/EXP 검증 공통)
+export const replayTurbineRound = (round: Record<string, unknown>): ReplayedRound => {
+  const { trace } = round
+  const mode = round.mode ?? 'standard'
+  if (!isTurbineMode(mode)) throw new HttpError(400, '알 수 없는 게임 모드입니다')
+  const durationMs = readNumber(round.durationMs)
+  if (typeof trace !== 'string' || trace.length > MAX_TRACE_LENGTH || durationMs === null) {
+    throw new HttpError(400, '게임 기록이 없거나 올바르지 않습니다')
+  }
+  if (durationMs < GAME_DURATION * 1000 - DURATION_SLACK_MS || durationMs > MAX_GAME_DURATION_MS + DURATION_SLACK_MS) {
+    throw new HttpError(400, '게임 플레이 시간이 올바르지 않습니다')
+  }
+
+  const strokes = decodeTurbineTrace(trace)
+  if (!strokes) throw new HttpError(400, '게임 입력 기록 형식이 올바르지 않습니다')
+  if (strokes.length > MAX_TRACE_STROKES) throw new HttpError(400, '게임 입력 기록이 너무 많습니다')
+  const lastSample = strokes.length > 0 ? strokes[strokes.length - 1].slice(-1)[0] : undefined
+  if (lastSample && lastSample.t > durationMs) {
+    throw new HttpError(400, '게임 입력 기록이 플레이 시간을 벗어났습니다')
+  }
+
+  const windStart = readNumber(round.windStart)
+  const windEnd = readNumber(round.windEnd)
+  const wind = windStart !== null && windEnd !== null ? { start: windStart, end: windEnd } : null
+  if (wind && TURBINE_MODES[mode].windEvents) {
+    throw new HttpError(400, '이 모드에는 무작위 바람이 없습니다')
+  }
+  if (wind && (wind.start < 0 || wind.end < wind.start || wind.end - wind.start > WIND_DURATION * 1000 + DURATION_SLACK_MS)) {
+    throw new HttpError(400, '바람 구간이 올바르지 않습니다')
+  }
+
+  // Time Boost로 늘어난 실제 종료 시각과도 맞아야 함
+  const replay = replayTurbine(strokes, durationMs, wind, mode)
+  if (durationMs > replay.endTime + DURATION_SLACK_MS) {
+    throw new HttpError(400, '게임 플레이 시간이 올바르지 않습니다')
+  }
+  if (replay.peakInputRate > MAX_INPUT_DEGREES_PER_SEC) {
+    throw new HttpError(400, '비정상적인 회전 속도가 감지되었습니다')
+  }
+  return { ...replay, mode }
+}
+
+export const validateTurbineRound = (metadata: ExpMetadata): ValidatedRound => {
+  const claimedExp = readNumber(metadata.exp)
+  const claimedSpins = readNumber(metadata.spins) ?? 0
+  if (claimedExp === null) throw new HttpError(400, '게임 기록이 없거나 올바르지 않습니다')
+
+  const replay = replayTurbineRound(metadata)
+  if (claimedSpins > replay.spins + SPIN_TOLERANCE || claimedExp > replay.exp) {
+    throw new HttpError(400, '게임 기록이 입력과 일치하지 않습니다')
+  }
+
+  return {
+    exp: Math.min(claimedExp, replay.exp),
+    stats: {
+      spins: Math.min(Math.floor(claimedSpins), replay.spins),
+      timeBoosts: replay.timeBoosts,
+      maxCombo: Math.round(replay.maxCombo * 10) / 10,
+      mode: replay.mode,
+    },
+  }
+}
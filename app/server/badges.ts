@@ -0,0 +1,59 @@
+import type { Database } from './db'
+import { getUserTransactions } from './ledger'
+import { getLongestStreak } from '../lib/exp-rules'
+import { BADGES, type BadgeId, type BadgeProgress, type BadgeStats } from '../lib/badges'
+
+// ==================== Badge Evaluation ====================
+
+export interface UserBadge {
+  userId: string
+  badgeId: BadgeId
+  earnedAt: number
+}
+
+export const getBadgeStats = (db: Database, userId: string): BadgeStats => {
+  const transactions = getUserTransactions(db, userId)
+  // 테스트 모드 출석은 뱃지 조건에서 제외
+  const checkIns = transactions.filter((t) => (t.source === 'nfc' || t.source === 'gps') && !t.metadata.testMode)
+  const tools = new Set(transactions.filter((t) => t.source === 'ai-tool').map((t) => String(t.metadata.toolId)))
+
+  return {
+    checkIns: checkIns.length,
+    nfcCheckIns: checkIns.filter((t) => t.source === 'nfc').length,
+    longestStreak: getLongestStreak(checkIns.map((t) => t.dateKey)),
+    aiToolsTried: db.aiTools.filter((tool) => tools.has(tool.id)).length,
+    aiToolsTotal: db.aiTools.length,
+    aiClicks: transactions.filter((t) => t.source === 'ai-click').length,
+    turbineSpins: transactions
+      .filter((t) => t.source === 'game' && t.metadata.gameId === 'wind-turbine')
+      .reduce((sum, t) => sum + (Number(t.metadata.spins) || 0), 0),
+    level: db.profiles[userId]?.level ?? 1,
+  }
+}
+
+export const getBadgeProgress = (db: Database, userId: string): BadgeProgress[] => {
+  const stats = getBadgeStats(db, userId)
+  const earned = db.userBadges.filter((b) => b.userId === userId)
+  return BADGES.map((badge) => {
+    const { current, target } = badge.progress(stats)
+    return {
+      id: badge.id,
+      current: Math.min(current, target),
+      target,
+      earnedAt: earned.find((b) => b.badgeId === badge.id)?.earnedAt ?? null,
+    }
+  })
+}
+
+// 새로 조건을 달성한 뱃지 지급 (한 번 받은 뱃지는 회수하지 않음)
+export const awardBadges = (db: Database, userId: string, now: number = Date.now()): BadgeId[] => {
+  const newBadges = getBadgeProgress(db, userId)
+    .filter((b) => b.earnedAt === null && b.current >= b.target)
+    .map((b) => b.id)
+
+  newBadges.forEach((badgeId) => db.userBadges.push({ userId, badgeId, earnedAt: now }))
+
+  const profile = db.profiles[userId]
+  if (profile) profile.badges = db.userBadges.filter((b) => b.userId === userId).length
+  return newBadges
+}
@@ -0,0 +1,296 @@
+import { HttpError } from './http'
+import { TAG_ID_PATTERN } from './nfc'
+import type { AppConfig, ExpConfig } from '../lib/config'
+import type { TimeSlot, TimeSlotInfo } from '../lib/exp-rules'
+import type { Geofence, LatLng, Site } from '../lib/sites'
+import { AI_TOOL_COLORS, type AITool, type AIToolColor } from '../lib/ai-tools'
+import { toAIToolIconName } from '../lib/ai-tool-icons'
+import type { ConsentRuleItem, ConsentRules } from '../lib/security-consent'
+import {
+  PROMPT_VALIDATORS,
+  compilePromptRule,
+  runPromptRuleTests,
+  type PromptRule,
+  type PromptRulePack,
+  type PromptRuleSeverity,
+} from '../lib/prompt-security'
+
+// ==================== Config Validation ====================
+// 운영자 콘솔에서 저장하는 설정값 검증 (잘못된 값이면 400)
+
+const TIME_SLOT_IDS: TimeSlot[] = ['morning', 'lunch', 'evening']
+const SITE_ID_PATTERN = /^[a-z0-9-]{1,32}$/
+const MAX_AI_TOOLS = 60
+const MAX_CONSENT_ITEMS = 10
+const RULE_ID_PATTERN = /^[a-z0-9-]{1,32}$/
+const RULE_SEVERITIES: PromptRuleSeverity[] = ['high', 'medium', 'low']
+const MAX_PROMPT_RULES = 50
+// 정규식이 길수록 검사 시간이 늘어나므로 제한
+const MAX_RULE_PATTERN_LENGTH = 500
+const MAX_RULE_WORDS = 200
+const MAX_RULE_TESTS = 20
+
+const requireInteger = (value: unknown, label: string, min: number, max: number): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new HttpError(400, `${label}은(는) ${min}~${max} 사이의 정수여야 합니다`)
+  }
+  return value
+}
+
+const requireText = (value: unknown, label: string, maxLength: number): string => {
+  if (typeof value !== 'string' || !value.trim() || value.trim().length > maxLength) {
+    throw new HttpError(400, `${label}은(는) 1~${maxLength}자여야 합니다`)
+  }
+  return value.trim()
+}
+
+const parseExpConfig = (exp: Partial<ExpConfig>): ExpConfig => ({
+  nfc: requireInteger(exp.nfc, 'NFC 출석 EXP', 0, 1000),
+  gps: requireInteger(exp.gps, 'GPS 출석 EXP', 0, 1000),
+  aiClick: requireInteger(exp.aiClick, 'AI 보안검증 EXP', 0, 1000),
+  aiClickMaxDaily: requireInteger(exp.aiClickMaxDaily, 'AI 보안검증 일일 횟수', 0, 100),
+  linkClick: requireInteger(exp.linkClick, '링크 EXP', 0, 1000),
+  perLevel: requireInteger(exp.perLevel, '레벨당 EXP', 1, 100000),
+  gameMaxPerRound: requireInteger(exp.gameMaxPerRound, '게임 1회 최대 EXP', 0, 1000),
+})
+
+const parseTimeSlots = (timeSlots: Partial<TimeSlotInfo>[]): TimeSlotInfo[] => {
+  if (!Array.isArray(timeSlots) || timeSlots.length !== TIME_SLOT_IDS.length) {
+    throw new HttpError(400, '출석 시간대는 출근/점심/퇴근 3개여야 합니다')
+  }
+  const parsed = TIME_SLOT_IDS.map((id) => {
+    const slot = timeSlots.find((s) => s.id === id)
+    if (!slot) throw new HttpError(400, `${id} 시간대가 없습니다`)
+    const startHour = requireInteger(slot.startHour, `${id} 시작 시각`, 0, 23)
+    const endHour = requireInteger(slot.endHour, `${id} 종료 시각`, 1, 24)
+    if (endHour <= startHour) throw new HttpError(400, `${id} 종료 시각은 시작 시각보다 늦어야 합니다`)
+    return {
+      id,
+      name: requireText(slot.name, `${id} 이름`, 10),
+      startHour,
+      endHour,
+      icon: requireText(slot.icon, `${id} 아이콘`, 4),
+    }
+  })
+  const sorted = [...parsed].sort((a, b) => a.startHour - b.startHour)
+  sorted.forEach((slot, i) => {
+    if (i > 0 && slot.startHour < sorted[i - 1].endHour) {
+      throw new HttpError(400, '출석 시간대가 서로 겹칩니다')
+    }
+  })
+  return parsed
+}
+
+const parseEvent = (event: Partial<AppConfig['event']>): AppConfig['event'] => {
+  const multiplier = event.multiplier
+  if (typeof multiplier !== 'number' || !Number.isFinite(multiplier) || multiplier < 1 || multiplier > 5) {
+    throw new HttpError(400, 'EXP 배율은 1~5 사이여야 합니다')
+  }
+  const startsAt = event.startsAt || null
+  const endsAt = event.endsAt || null
+  if ((startsAt === null) !== (endsAt === null)) {
+    throw new HttpError(400, '이벤트 시작/종료 시각을 모두 입력해주세요')
+  }
+  if (startsAt && endsAt) {
+    const start = Date.parse(startsAt)
+    const end = Date.parse(endsAt)
+    if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+      throw new HttpError(400, '이벤트 기간이 올바르지 않습니다')
+    }
+  }
+  return {
+    label: typeof event.label === 'string' ? event.label.trim().slice(0, 30) : '',
+    multiplier,
+    startsAt,
+    endsAt,
+  }
+}
+
+export const parseAppConfig = (body: Partial<AppConfig>): AppConfig => ({
+  exp: parseExpConfig(body.exp ?? {}),
+  timeSlots: parseTimeSlots(body.timeSlots ?? []),
+  event: parseEvent(body.event ?? {}),
+  updatedAt: Date.now(),
+})
+
+const parseLatLng = (point: Partial<LatLng>, label: string): LatLng => {
+  const { lat, lng } = point ?? {}
+  if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new HttpError(400, `${label} 좌표가 올바르지 않습니다`)
+  }
+  return { lat, lng }
+}
+
+const parseGeofence = (geofence: Partial<Geofence> & Record<string, unknown>, label: string): Geofence => {
+  if (geofence?.type === 'circle') {
+    return {
+      type: 'circle',
+      center: parseLatLng(geofence.center as LatLng, label),
+      radius: requireInteger(geofence.radius, `${label} 반경(m)`, 10, 5000),
+    }
+  }
+  if (geofence?.type === 'polygon') {
+    const points = geofence.points as LatLng[]
+    if (!Array.isArray(points) || points.length < 3) {
+      throw new HttpError(400, `${label} 다각형은 꼭짓점이 3개 이상이어야 합니다`)
+    }
+    return { type: 'polygon', points: points.map((p) => parseLatLng(p, label)) }
+  }
+  throw new HttpError(400, `${label} 지오펜스 형식은 circle 또는 polygon 이어야 합니다`)
+}
+
+export const parseSites = (sites: Partial<Site>[]): Site[] => {
+  if (!Array.isArray(sites)) throw new HttpError(400, '근무지 목록이 필요합니다')
+  const parsed = sites.map((site) => {
+    const id = String(site.id ?? '')
+    if (!SITE_ID_PATTERN.test(id)) {
+      throw new HttpError(400, '근무지 ID는 영문 소문자, 숫자, 하이픈만 사용할 수 있습니다')
+    }
+    const name = requireText(site.name, '근무지 이름', 20)
+    const nfcTagIds = Array.isArray(site.nfcTagIds) ? site.nfcTagIds.map((tagId) => String(tagId).trim()).filter(Boolean) : []
+    // NFC 토큰과 같은 형식이 아니면 토큰의 태그 ID와 절대 일치하지 않음
+    const invalidTagId = nfcTagIds.find((tagId) => !TAG_ID_PATTERN.test(tagId))
+    if (invalidTagId !== undefined) {
+      throw new HttpError(400, `${name} NFC 태그 ID(${invalidTagId.slice(0, 40)})는 영문 소문자, 숫자, 하이픈 32자 이내여야 합니다`)
+    }
+    return {
+      id,
+      name,
+      geofence: parseGeofence(site.geofence as Geofence & Record<string, unknown>, name),
+      nfcTagIds,
+    }
+  })
+  if (new Set(parsed.map((s) => s.id)).size !== parsed.length) {
+    throw new HttpError(400, '근무지 ID가 중복됩니다')
+  }
+  // 태그 하나는 한 근무지에만 (findSiteByTag는 첫 근무지만 찾음)
+  const tagIds = parsed.flatMap((s) => s.nfcTagIds)
+  const duplicateTagId = tagIds.find((tagId, index) => tagIds.indexOf(tagId) !== index)
+  if (duplicateTagId !== undefined) {
+    throw new HttpError(400, `NFC 태그 ID(${duplicateTagId})가 여러 근무지에 등록되어 있습니다`)
+  }
+  return parsed
+}
+
+export const parseAITools = (tools: Partial<AITool>[]): AITool[] => {
+  if (!Array.isArray(tools) || tools.length > MAX_AI_TOOLS) {
+    throw new HttpError(400, `AI TOOL은 ${MAX_AI_TOOLS}개까지 저장할 수 있습니다`)
+  }
+  const parsed = tools.map((tool) => {
+    const id = String(tool.id ?? '')
+    if (!SITE_ID_PATTERN.test(id)) {
+      throw new HttpError(400, 'AI TOOL ID는 영문 소문자, 숫자, 하이픈만 사용할 수 있습니다')
+    }
+    const name = requireText(tool.name, 'AI TOOL 이름', 30)
+    const url = requireText(tool.url, `${name} 주소`, 300)
+    if (!/^https:\/\//.test(url)) throw new HttpError(400, `${name} 주소는 https:// 로 시작해야 합니다`)
+    const icon = toAIToolIconName(String(tool.icon ?? ''))
+    if (!icon) {
+      throw new HttpError(400, `${name} 아이콘(${String(tool.icon ?? '')})은 lucide 아이콘 이름이 아닙니다`)
+    }
+    if (!Object.prototype.hasOwnProperty.call(AI_TOOL_COLORS, String(tool.color))) {
+      throw new HttpError(400, `${name} 색상을 알 수 없습니다`)
+    }
+    return {
+      id,
+      name,
+      category: requireText(tool.category, `${name} 분류`, 10),
+      description: typeof tool.description === 'string' ? tool.description.trim().slice(0, 60) : '',
+      url,
+      icon,
+      color: tool.color as AIToolColor,
+      approved: tool.approved === true,
+    }
+  })
+  if (new Set(parsed.map((t) => t.id)).size !== parsed.length) {
+    throw new HttpError(400, 'AI TOOL ID가 중복됩니다')
+  }
+  return parsed
+}
+
+// 문구가 바뀌었거나 재동의를 요청하면 버전 증가 (사용자는 다음 이동 때 다시 명시적으로 동의)
+export const parseConsentRules = (
+  body: { items?: Partial<ConsentRuleItem>[]; forceReconsent?: unknown },
+  previous: ConsentRules
+): ConsentRules => {
+  const { items } = body
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_CONSENT_ITEMS) {
+    throw new HttpError(400, `보안 준수 문구는 1~${MAX_CONSENT_ITEMS}개여야 합니다`)
+  }
+  const parsed = items.map((item) => ({
+    allowed: item?.allowed === true,
+    text: requireText(item?.text, '보안 준수 문구', 60),
+  }))
+  const changed = JSON.stringify(parsed) !== JSON.stringify(previous.items)
+  if (!changed && body.forceReconsent !== true) return previous
+  return { version: previous.version + 1, items: parsed, updatedAt: Date.now() }
+}
+
+const parsePromptRule = (rule: Partial<PromptRule>): PromptRule => {
+  const id = String(rule.id ?? '')
+  if (!RULE_ID_PATTERN.test(id)) {
+    throw new HttpError(400, '규칙 ID는 영문 소문자, 숫자, 하이픈만 사용할 수 있습니다')
+  }
+  const label = requireText(rule.label, `${id} 규칙 이름`, 20)
+  if (rule.kind !== 'regex' && rule.kind !== 'dictionary') {
+    throw new HttpError(400, `${label} 규칙 형식은 regex 또는 dictionary 여야 합니다`)
+  }
+  if (!RULE_SEVERITIES.includes(rule.severity as PromptRuleSeverity)) {
+    throw new HttpError(400, `${label} 심각도는 high, medium, low 중 하나여야 합니다`)
+  }
+  if (rule.validator !== undefined && !PROMPT_VALIDATORS.some((v) => v.id === rule.validator)) {
+    throw new HttpError(400, `${label} 검증기를 알 수 없습니다`)
+  }
+  if (!Array.isArray(rule.tests) || rule.tests.length > MAX_RULE_TESTS) {
+    throw new HttpError(400, `${label} 테스트 문장은 ${MAX_RULE_TESTS}개까지 입력할 수 있습니다`)
+  }
+
+  const parsed: PromptRule = {
+    id,
+    label,
+    kind: rule.kind,
+    ignoreCase: rule.ignoreCase === true,
+    severity: rule.severity as PromptRuleSeverity,
+    redact: rule.redact !== false,
+    enabled: rule.enabled !== false,
+    tests: rule.tests.map((test) => ({
+      text: requireText(test?.text, `${label} 테스트 문장`, 500),
+      shouldMatch: test?.shouldMatch === true,
+    })),
+  }
+  if (rule.kind === 'regex') {
+    parsed.pattern = requireText(rule.pattern, `${label} 정규식`, MAX_RULE_PATTERN_LENGTH)
+    if (rule.group !== undefined) parsed.group = requireInteger(rule.group, `${label} 캡처 그룹`, 1, 9)
+    if (rule.validator) parsed.validator = rule.validator
+  } else {
+    const words = Array.isArray(rule.words) ? rule.words.map((w) => String(w).trim()).filter(Boolean) : []
+    if (words.length === 0 || words.length > MAX_RULE_WORDS) {
+      throw new HttpError(400, `${label} 단어는 1~${MAX_RULE_WORDS}개여야 합니다`)
+    }
+    parsed.words = words
+  }
+
+  try {
+    compilePromptRule(parsed)
+  } catch {
+    throw new HttpError(400, `${label} 정규식이 올바르지 않습니다`)
+  }
+  const failed = runPromptRuleTests(parsed).find((result) => !result.passed)
+  if (failed) {
+    throw new HttpError(400, `${label} 테스트 실패: "${failed.text}" (${failed.shouldMatch ? '찾아야 함' : '찾으면 안 됨'})`)
+  }
+  return parsed
+}
+
+// 저장할 때마다 버전 증가, 모든 규칙의 테스트 문장을 통과해야 저장
+export const parsePromptRulePack = (body: Partial<PromptRulePack>, previous: PromptRulePack): PromptRulePack => {
+  const { rules } = body
+  if (!Array.isArray(rules) || rules.length > MAX_PROMPT_RULES) {
+    throw new HttpError(400, `보안 규칙은 ${MAX_PROMPT_RULES}개까지 저장할 수 있습니다`)
+  }
+  const parsed = rules.map(parsePromptRule)
+  if (new Set(parsed.map((r) => r.id)).size !== parsed.length) {
+    throw new HttpError(400, '보안 규칙 ID가 중복됩니다')
+  }
+  return { version: previous.version + 1, updatedAt: Date.now(), rules: parsed }
+}
@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto'
+import type { Database } from './db'
+import { HttpError } from './http'
+import { getDateKey } from '../lib/exp-rules'
+import type { ConsentLogEntry } from '../lib/security-consent'
+
+// ==================== Security Consent Log ====================
+// 외부 AI 도구로 이동하기 전 보안 준수 확인 감사 기록 (보안팀 감사용, 삭제/보관 기간 없음)
+//   - 누가(사용자 ID + 당시 닉네임/부서), 어떤 도구, 어떤 문구 버전에, 언제 동의했는지
+//   - 사용자의 마지막 동의 버전이 최신 버전과 다르면 화면에서 명시적 재동의를 요구
+
+const CSV_COLUMNS: (keyof ConsentLogEntry)[] = [
+  'id',
+  'createdAt',
+  'dateKey',
+  'userId',
+  'nickname',
+  'department',
+  'toolId',
+  'toolName',
+  'rulesVersion',
+  'currentVersion',
+  'userDeletedAt',
+]
+
+export const recordConsent = (
+  db: Database,
+  userId: string,
+  toolId: string,
+  rulesVersion: number,
+  now: number = Date.now()
+): ConsentLogEntry => {
+  const profile = db.profiles[userId]
+  if (!profile) throw new HttpError(404, '프로필이 없습니다')
+  const tool = db.aiTools.find((t) => t.id === toolId)
+  if (!tool) throw new HttpError(400, '알 수 없는 AI 도구입니다')
+  if (!Number.isInteger(rulesVersion) || rulesVersion < 1 || rulesVersion > db.consentRules.version) {
+    throw new HttpError(400, '보안 준수 문구 버전이 올바르지 않습니다')
+  }
+
+  // 오래된 문구에 동의한 경우도 그대로 기록 (사용자가 실제로 본 버전)
+  const entry: ConsentLogEntry = {
+    id: randomUUID(),
+    userId,
+    nickname: profile.nickname,
+    department: profile.department ?? '',
+    toolId,
+    toolName: tool.name,
+    rulesVersion,
+    currentVersion: db.consentRules.version,
+    createdAt: now,
+    dateKey: getDateKey(now),
+  }
+  db.consentLogs.push(entry)
+  return entry
+}
+
+// 최신 버전에 동의한 적이 있는지 (없으면 null)
+export const getConsentedVersion = (db: Database, userId: string): number | null => {
+  const versions = db.consentLogs.filter((c) => c.userId === userId).map((c) => c.rulesVersion)
+  return versions.length > 0 ? Math.max(...versions) : null
+}
+
+export const getConsentLogs = (db: Database, from: string, to: string): ConsentLogEntry[] =>
+  db.consentLogs.filter((c) => c.dateKey >= from && c.dateKey <= to)
+
+// 닉네임 등 사용자 입력이 엑셀 수식으로 실행되지 않도록 =,+,-,@, 탭, CR 로 시작하면 ' 를 붙임
+const escapeCsv = (value: unknown): string => {
+  const raw = String(value ?? '')
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const formatCsvValue = (entry: ConsentLogEntry, key: keyof ConsentLogEntry) => {
+  const value = entry[key]
+  return (key === 'createdAt' || key === 'userDeletedAt') && typeof value === 'number' ? new Date(value).toISOString() : value
+}
+
+// 엑셀에서 한글이 깨지지 않도록 BOM 포함, 시각은 ISO 8601
+export const toConsentCsv = (entries: ConsentLogEntry[]): string =>
+  '\uFEFF' +
+  [
+    CSV_COLUMNS.join(','),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((key) => escapeCsv(formatCsvValue(entry, key))).join(',')
+    ),
+  ].join('\r\n')
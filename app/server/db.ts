@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { Announcement, ExpTransaction, TurbineRoundStats, UserData } from '../lib/types'
+import type { TurbineMode } from '../lib/turbine'
+import type { NfcTokenUse } from './nfc'
+import type { UserBadge } from './badges'
+import type { NotificationKey, StoredNotification } from './notifications'
+import type { PushDelivery, PushOutboxEntry, PushSubscriptionRecord } from './push'
+import type { GameSession } from './game-bridge'
+import type { TurbineRound } from './turbine-records'
+import type { PromptCheck } from './prompt-checks'
+import type { TemplatePreference } from './prompt-templates'
+import { DEFAULT_SITES, type Site } from '../lib/sites'
+import { DEFAULT_APP_CONFIG, type AppConfig } from '../lib/config'
+import { DEFAULT_PROMPT_RULE_PACK, type PromptRulePack } from '../lib/prompt-security'
+import { DEFAULT_PROMPT_TEMPLATES, type PromptTemplate } from '../lib/prompt-templates'
+import { DEFAULT_AI_TOOLS, type AITool } from '../lib/ai-tools'
+import { DEFAULT_CONSENT_RULES, type ConsentLogEntry, type ConsentRules } from '../lib/security-consent'
+
+// ==================== File Store ====================
+// 로컬 JSON 파일 기반 저장소 (data/db.json)
+// 모든 쓰기는 큐로 직렬화하고, 임시 파일에 쓴 뒤 rename 하여 파일이 깨지지 않게 합니다.
+// 쓰기 큐가 프로세스 하나에만 있으므로 앱은 영구 디스크가 있는 서버 한 대(단일 프로세스)에서 실행해야 합니다.
+
+export interface StoredProfile extends UserData {
+  userId: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface Database {
+  profiles: Record<string, StoredProfile>
+  // EXP 원장 (추가만 가능, 수정/삭제 없음)
+  ledger: ExpTransaction[]
+  // NFC 토큰 사용 기록 (재사용 방지)
+  nfcTokenUses: NfcTokenUse[]
+  // 획득한 뱃지
+  userBadges: UserBadge[]
+  // 사용자별 알림함 / 중복 생성 방지 키 (알림 보관 한도와 별도)
+  notifications: StoredNotification[]
+  notificationKeys: NotificationKey[]
+  // 운영자 공지
+  announcements: Announcement[]
+  // Web Push 구독 / 발송 기록 / 로컬 발송함(PUSH_TRANSPORT=local)
+  pushSubscriptions: PushSubscriptionRecord[]
+  pushDeliveries: PushDelivery[]
+  pushOutbox: PushOutboxEntry[]
+  // 외부 게임 결과 연동용 일회용 nonce
+  gameSessions: GameSession[]
+  // 풍력 게임 판별 기록(최근 8일) / 사용자별·모드별 개인 최고 기록
+  turbineRounds: TurbineRound[]
+  turbineBests: Record<string, Partial<Record<TurbineMode, TurbineRoundStats>>>
+  // AI 보안검증 검사 기록 (원문 없이 해시만, 최근 2일)
+  promptChecks: PromptCheck[]
+  // 운영자 콘솔에서 수정하는 프롬프트 보안 규칙 팩
+  promptRulePack: PromptRulePack
+  // 프롬프트 템플릿 / 사용자별·템플릿별 즐겨찾기와 사용 횟수
+  promptTemplates: PromptTemplate[]
+  templatePreferences: Record<string, Record<string, TemplatePreference>>
+  // GPS/NFC 출석 근무지
+  sites: Site[]
+  // 운영자 콘솔에서 수정하는 보상 설정
+  config: AppConfig
+  // 운영자 콘솔에서 수정하는 AI TOOL 목록 / 사용자별 고정한 도구 ID (고정한 순서)
+  aiTools: AITool[]
+  aiToolFavorites: Record<string, string[]>
+  // 외부 AI 이동 전 보안 준수 문구 / 동의 감사 기록 (삭제하지 않음)
+  consentRules: ConsentRules
+  consentLogs: ConsentLogEntry[]
+}
+
+const DATA_DIR = process.env.KEPCO_DATA_DIR || path.join(process.cwd(), 'data')
+const DB_FILE = path.join(DATA_DIR, 'db.json')
+
+export const createEmptyDatabase = (): Database => ({
+  profiles: {},
+  ledger: [],
+  nfcTokenUses: [],
+  userBadges: [],
+  notifications: [],
+  notificationKeys: [],
+  announcements: [],
+  pushSubscriptions: [],
+  pushDeliveries: [],
+  pushOutbox: [],
+  gameSessions: [],
+  turbineRounds: [],
+  turbineBests: {},
+  promptChecks: [],
+  promptRulePack: DEFAULT_PROMPT_RULE_PACK,
+  promptTemplates: DEFAULT_PROMPT_TEMPLATES,
+  templatePreferences: {},
+  sites: DEFAULT_SITES,
+  config: DEFAULT_APP_CONFIG,
+  aiTools: DEFAULT_AI_TOOLS,
+  aiToolFavorites: {},
+  consentRules: DEFAULT_CONSENT_RULES,
+  consentLogs: [],
+})
+
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+export const readDatabase = async (): Promise<Database> => {
+  try {
+    const raw = await fs.readFile(DB_FILE, 'utf8')
+    return { ...createEmptyDatabase(), ...JSON.parse(raw) }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createEmptyDatabase()
+    }
+    throw error
+  }
+}
+
+export const updateDatabase = <T>(mutate: (db: Database) => T | Promise<T>): Promise<T> => {
+  const task = writeQueue.then(async () => {
+    const db = await readDatabase()
+    const result = await mutate(db)
+
+    await fs.mkdir(DATA_DIR, { recursive: true })
+    const tempFile = `${DB_FILE}.${process.pid}.tmp`
+    await fs.writeFile(tempFile, JSON.stringify(db))
+    await fs.rename(tempFile, DB_FILE)
+
+    return result
+  })
+
+  // 한 번 실패해도 다음 쓰기는 계속 진행
+  writeQueue = task.catch(() => undefined)
+  return task
+}
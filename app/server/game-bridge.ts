@@ -0,0 +1,132 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { Database } from './db'
+import { HttpError } from './http'
+import { getGame, type GameInfo } from '../lib/games'
+import type { GameBridgeResult } from '../lib/types'
+
+// ==================== External Game Bridge ====================
+// 새 창으로 여는 외부 게임(에너지그리드, V2G, VPP)의 완료 결과를 받아 EXP를 지급합니다.
+//   1) 대시보드가 /api/games/session 으로 일회용 nonce 발급 → 게임 URL에 kepco_game/kepco_nonce/kepco_origin 을 붙여 열기
+//   2) 게임이 끝나면 게임 서버가 결과에 서명
+//        signature = HMAC-SHA256(GAME_BRIDGE_SECRET_<게임ID>, `게임ID.nonce.score.durationMs`) (base64url)
+//   3) 게임 창이 window.opener.postMessage({ type: 'kepco:game-result', gameId, nonce, score, durationMs, signature }, kepco_origin)
+//   4) 대시보드가 /api/games/verify 로 사전 검증 → EXP 요청(source: 'game')에 결과를 담아 전송
+//      → 서버가 지급 직전에 다시 검증하고 nonce를 사용 처리 (재사용 불가)
+//   5) 대시보드가 게임 창에 { type: 'kepco:game-result-ack', nonce, ok, exp?, message? } 응답
+// 게임 ID의 하이픈은 밑줄로 바꿔 환경변수 이름을 만듭니다 (energy-grid → GAME_BRIDGE_SECRET_ENERGY_GRID).
+
+export interface GameSession {
+  nonce: string
+  userId: string
+  gameId: string
+  issuedAt: number
+  expiresAt: number
+  usedAt?: number
+}
+
+export type GameResultVerification =
+  | { valid: true; game: GameInfo; result: GameBridgeResult; exp: number }
+  | { valid: false; message: string }
+
+// 게임 한 판을 끝내고 돌아올 때까지 nonce 유효 시간
+const SESSION_TTL_MS = 2 * 60 * 60 * 1000
+// 사용자별 미사용 nonce 보관 수 (오래된 것부터 폐기)
+const MAX_OPEN_SESSIONS_PER_USER = 10
+// 게임 창과 서버 시계 차이 허용치
+const DURATION_SLACK_MS = 5 * 1000
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/
+const DEV_SECRET = 'kepco-ai-zone-dev-game-bridge-secret'
+
+const getSecret = (gameId: string): string => {
+  const secret = process.env[`GAME_BRIDGE_SECRET_${gameId.toUpperCase().replace(/-/g, '_')}`]
+  if (secret) return secret
+  if (process.env.NODE_ENV !== 'production') return DEV_SECRET
+  throw new HttpError(503, '외부 게임 서명 키가 설정되지 않았습니다')
+}
+
+export const signGameResult = (result: Omit<GameBridgeResult, 'signature'>): string =>
+  createHmac('sha256', getSecret(result.gameId))
+    .update(`${result.gameId}.${result.nonce}.${result.score}.${result.durationMs}`)
+    .digest('base64url')
+
+const getBridgeGame = (gameId: string): GameInfo => {
+  const game = getGame(gameId)
+  if (!game?.available || game.kind !== 'external' || !game.bridge || !game.policy) {
+    throw new HttpError(400, 'EXP 연동을 지원하지 않는 게임입니다')
+  }
+  return game
+}
+
+export const issueGameSession = (db: Database, userId: string, gameId: string, now: number = Date.now()) => {
+  getBridgeGame(gameId)
+  const session: GameSession = {
+    nonce: randomBytes(18).toString('base64url'),
+    userId,
+    gameId,
+    issuedAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  }
+
+  // 만료/사용된 nonce 정리 + 사용자별 미사용 nonce 수 제한
+  const open = db.gameSessions.filter((s) => s.expiresAt > now && !s.usedAt)
+  const mine = open.filter((s) => s.userId === userId)
+  const dropped = new Set(mine.slice(0, Math.max(mine.length - MAX_OPEN_SESSIONS_PER_USER + 1, 0)))
+  db.gameSessions = [...open.filter((s) => !dropped.has(s)), session]
+
+  return { nonce: session.nonce, expiresAt: session.expiresAt }
+}
+
+// 요청 본문/EXP 메타데이터에서 결과 읽기
+export const parseGameResult = (input: Record<string, unknown>): GameBridgeResult | null => {
+  const { gameId, nonce, score, durationMs, signature } = input
+  if (typeof gameId !== 'string' || typeof nonce !== 'string' || typeof signature !== 'string') return null
+  if (!NONCE_PATTERN.test(nonce)) return null
+  const scoreValue = Number(score)
+  const durationValue = Number(durationMs)
+  if (!Number.isInteger(scoreValue) || !Number.isInteger(durationValue)) return null
+  return { gameId, nonce, score: scoreValue, durationMs: durationValue, signature }
+}
+
+export const verifyGameResult = (
+  db: Database,
+  userId: string,
+  result: GameBridgeResult,
+  now: number = Date.now()
+): GameResultVerification => {
+  const game = getBridgeGame(result.gameId)
+  const { bridge } = game
+  if (!bridge) return { valid: false, message: 'EXP 연동을 지원하지 않는 게임입니다' }
+
+  const expected = Buffer.from(signGameResult(result))
+  const actual = Buffer.from(result.signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, message: '인증되지 않은 게임 결과입니다' }
+  }
+
+  const session = db.gameSessions.find((s) => s.nonce === result.nonce)
+  if (!session || session.userId !== userId || session.gameId !== result.gameId) {
+    return { valid: false, message: '이 게임 세션의 결과가 아닙니다' }
+  }
+  if (session.usedAt) return { valid: false, message: '이미 적립한 게임 결과입니다' }
+  if (session.expiresAt <= now) return { valid: false, message: '만료된 게임 세션입니다' }
+
+  if (result.score < 0 || result.score > bridge.maxScore) {
+    return { valid: false, message: '게임 점수가 올바르지 않습니다' }
+  }
+  // 세션 발급 이후 흐른 시간보다 길게 플레이할 수 없음
+  if (result.durationMs < bridge.minDurationMs || result.durationMs > now - session.issuedAt + DURATION_SLACK_MS) {
+    return { valid: false, message: '게임 플레이 시간이 올바르지 않습니다' }
+  }
+
+  return { valid: true, game, result, exp: Math.floor(result.score / bridge.scorePerExp) }
+}
+
+// EXP 지급 직전 호출: 검증 후 nonce 사용 처리 (실패 시 403)
+export const consumeGameResult = (db: Database, userId: string, result: GameBridgeResult, now: number = Date.now()) => {
+  const verification = verifyGameResult(db, userId, result, now)
+  if (!verification.valid) throw new HttpError(403, verification.message)
+
+  const session = db.gameSessions.find((s) => s.nonce === result.nonce)
+  if (session) session.usedAt = now
+  return verification
+}
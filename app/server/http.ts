@@ -0,0 +1,68 @@
+import { timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+
+// ==================== Route Handler Helpers ====================
+
+const USER_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+// 클라이언트가 발급한 익명 사용자 ID (x-user-id 헤더)
+export const requireUserId = (request: Request): string => {
+  const userId = request.headers.get('x-user-id')
+  if (!userId || !USER_ID_PATTERN.test(userId)) {
+    throw new HttpError(401, '사용자 ID가 없거나 올바르지 않습니다')
+  }
+  return userId
+}
+
+// 모든 API 본문은 JSON 객체 (null, 배열, 숫자 등은 필드를 읽기 전에 400)
+export const readJson = async <T>(request: Request): Promise<T> => {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new HttpError(400, '요청 본문이 올바른 JSON이 아닙니다')
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, '요청 본문은 JSON 객체여야 합니다')
+  }
+  return body as T
+}
+
+export const handleError = (error: unknown) => {
+  if (error instanceof HttpError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  console.error(error)
+  return NextResponse.json({ error: '서버 오류가 발생했습니다' }, { status: 500 })
+}
+
+// 비교 시간으로 비밀번호가 드러나지 않도록 같은 길이일 때만 상수 시간 비교
+const isSameSecret = (input: string, secret: string) => {
+  const a = Buffer.from(input)
+  const b = Buffer.from(secret)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+// 운영자 전용 API (x-admin-password 헤더 = ADMIN_PASSWORD 환경변수)
+export const requireAdmin = (request: Request) => {
+  const password = process.env.ADMIN_PASSWORD
+  if (!password) {
+    throw new HttpError(503, '관리자 비밀번호(ADMIN_PASSWORD)가 설정되지 않았습니다')
+  }
+  if (!isSameSecret(request.headers.get('x-admin-password') ?? '', password)) {
+    throw new HttpError(403, '관리자 인증에 실패했습니다')
+  }
+}
+
+// 스케줄러 전용 API (Authorization: Bearer CRON_SECRET). 운영자 비밀번호로도 수동 실행 가능
+export const requireScheduler = (request: Request) => {
+  const secret = process.env.CRON_SECRET
+  if (secret && isSameSecret(request.headers.get('authorization') ?? '', `Bearer ${secret}`)) return
+  requireAdmin(request)
+}
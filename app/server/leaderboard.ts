@@ -0,0 +1,85 @@
+import type { Database, StoredProfile } from './db'
+import { getDateKey, getWeekStartKey } from '../lib/exp-rules'
+import { DEPARTMENTS } from '../lib/departments'
+import type { DepartmentRanking, Leaderboard, LeaderboardEntry, LeaderboardPeriod } from '../lib/types'
+
+// ==================== Leaderboard ====================
+// 저장된 프로필 + EXP 원장을 기간별로 집계한 랭킹 (사용자 ID는 응답에 포함하지 않음)
+
+const LEADERBOARD_SIZE = 50
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['weekly', 'monthly', 'all']
+
+const getPeriodStart = (period: LeaderboardPeriod, now: number): string | null => {
+  const today = getDateKey(now)
+  if (period === 'weekly') return getWeekStartKey(today)
+  if (period === 'monthly') return `${today.slice(0, 7)}-01`
+  return null
+}
+
+// 사용자별 기간 EXP (all = 프로필 누적 EXP)
+const getPeriodExp = (db: Database, from: string | null): Map<string, number> => {
+  const totals = new Map<string, number>()
+  if (from === null) {
+    Object.values(db.profiles).forEach((p) => totals.set(p.userId, p.totalExp))
+    return totals
+  }
+  db.ledger.forEach((t) => {
+    if (t.dateKey < from || !db.profiles[t.userId]) return
+    totals.set(t.userId, (totals.get(t.userId) ?? 0) + t.amount)
+  })
+  return totals
+}
+
+// 동점자는 같은 순위 (1, 2, 2, 4 ...)
+const assignRanks = <T extends { exp: number }>(items: T[]): (T & { rank: number })[] => {
+  const sorted = [...items].sort((a, b) => b.exp - a.exp)
+  let rank = 0
+  return sorted.map((item, i) => {
+    if (i === 0 || sorted[i - 1].exp !== item.exp) rank = i + 1
+    return { ...item, rank }
+  })
+}
+
+const toEntry = (profile: StoredProfile, exp: number, userId: string) => ({
+  nickname: profile.nickname,
+  characterId: profile.characterId,
+  department: profile.department,
+  level: profile.level,
+  exp,
+  isMe: profile.userId === userId,
+})
+
+export const getLeaderboard = (
+  db: Database,
+  userId: string,
+  period: LeaderboardPeriod,
+  now: number = Date.now()
+): Leaderboard => {
+  const from = getPeriodStart(period, now)
+  const totals = getPeriodExp(db, from)
+  const profiles = Object.values(db.profiles)
+
+  const ranked: LeaderboardEntry[] = assignRanks(
+    profiles.map((p) => toEntry(p, totals.get(p.userId) ?? 0, userId))
+  )
+
+  const departments: DepartmentRanking[] = assignRanks(
+    DEPARTMENTS.map((department) => {
+      const members = profiles.filter((p) => p.department === department)
+      return {
+        department,
+        members: members.length,
+        exp: members.reduce((sum, p) => sum + (totals.get(p.userId) ?? 0), 0),
+      }
+    }).filter((d) => d.members > 0)
+  )
+
+  return {
+    period,
+    from,
+    entries: ranked.slice(0, LEADERBOARD_SIZE),
+    me: ranked.find((e) => e.isMe) ?? null,
+    departments,
+  }
+}
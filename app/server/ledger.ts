@@ -0,0 +1,325 @@
+import { randomUUID } from 'crypto'
+import { updateDatabase, type Database } from './db'
+import { HttpError } from './http'
+import { consumeNfcToken } from './nfc'
+import { consumeGameResult, parseGameResult } from './game-bridge'
+import { validateTurbineRound } from './anti-cheat'
+import { consumePromptCheck } from './prompt-checks'
+import { awardBadges } from './badges'
+import { grantStreakBonus } from './streaks'
+import { pushNotification } from './notifications'
+import { getGame, getGameAllowance } from '../lib/games'
+import { getBadge } from '../lib/badges'
+import { findSiteAt, findSiteByTag, type Site } from '../lib/sites'
+import { getActiveMultiplier, getRewardRules } from '../lib/config'
+import {
+  REWARD_LINK_IDS,
+  getDateKey,
+  getLevel,
+  getTimeSlotAt,
+  type ExpSource,
+  type TimeSlot,
+} from '../lib/exp-rules'
+import type { DailyExpSummary, ExpGrantRequest, ExpGrantResult, ExpMetadata, ExpTransaction } from '../lib/types'
+
+// ==================== EXP Ledger ====================
+// 모든 EXP는 서버 원장에 거래로 기록되고, 누적 EXP는 원장 합계로만 계산합니다.
+
+const CHECK_IN_SOURCES: ExpSource[] = ['nfc', 'gps']
+
+// 태양광 게임 1회 최대 햇빛 수 (30초 동안 최소 생성 간격 기준)
+const MAX_SOLAR_CATCHES_PER_ROUND = 80
+
+// 오프라인 대기열 재전송 규칙
+//   - 같은 사용자 + 같은 멱등 키는 한 번만 지급 (재전송 시 기존 거래를 그대로 반환)
+//   - 시간 규칙(출석 시간대, 일일 한도, 날짜)은 실제 획득 시각(occurredAt = 대기열 저장 시각) 기준으로 판정
+//   - occurredAt은 클라이언트 값이므로 서버가 받은 날과 같은 날(서비스 날짜)의 기록만 인정
+//     (긴 오프라인 구간도 그날 안에 연결되면 적립, 전날 출석 시간대나 일일 한도는 소급해서 채울 수 없음)
+//     그날 안에서도 출석 시간대/일일 한도는 occurredAt 기준으로 같은 규칙을 적용하고, 이미 받은 시간대는 다시 받을 수 없음
+//   - NFC 토큰 유효기간은 occurredAt이 아니라 서버 수신 시각으로 검증 (지난 토큰 재사용 방지)
+//   - 여러 기기의 요청은 서버 도착 순서대로 원장에 쌓이며, 한도를 넘는 나중 요청만 거절
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9-]{8,64}$/
+// 이보다 늦게 도착한 요청은 지연 전송으로 기록 (metadata.syncedAt)
+const DELAYED_SYNC_MS = 60 * 1000
+
+// 운영 환경에서는 ALLOW_TEST_MODE=true 일 때만 테스트 모드(시간/위치 제한 해제) 허용
+const isTestModeAllowed = () =>
+  process.env.ALLOW_TEST_MODE === 'true' || process.env.NODE_ENV !== 'production'
+
+export const getUserTransactions = (db: Database, userId: string): ExpTransaction[] =>
+  db.ledger.filter((t) => t.userId === userId)
+
+export const getTotalExp = (db: Database, userId: string): number =>
+  getUserTransactions(db, userId).reduce((sum, t) => sum + t.amount, 0)
+
+export const getDailySummary = (db: Database, userId: string, dateKey: string = getDateKey()): DailyExpSummary => {
+  const today = getUserTransactions(db, userId).filter((t) => t.dateKey === dateKey)
+  const checkIns = today.filter((t) => CHECK_IN_SOURCES.includes(t.source) && !t.metadata.testMode)
+  return {
+    date: dateKey,
+    checkIns: checkIns.map((t) => t.metadata.slot as TimeSlot),
+    checkInSites: Object.fromEntries(
+      checkIns.filter((t) => t.metadata.siteId).map((t) => [t.metadata.slot, String(t.metadata.siteId)])
+    ),
+    aiClicks: today.filter((t) => t.source === 'ai-click').length,
+    links: today.filter((t) => t.source === 'link').map((t) => String(t.metadata.linkId)),
+    tools: today.filter((t) => t.source === 'ai-tool').map((t) => String(t.metadata.toolId)),
+    games: today
+      .filter((t) => t.source === 'game')
+      .reduce<DailyExpSummary['games']>((games, t) => {
+        const gameId = String(t.metadata.gameId)
+        const played = games[gameId] ?? { rounds: 0, exp: 0 }
+        return { ...games, [gameId]: { rounds: played.rounds + 1, exp: played.exp + t.amount } }
+      }, {}),
+  }
+}
+
+export const appendTransaction = (
+  db: Database,
+  userId: string,
+  source: ExpSource,
+  amount: number,
+  metadata: ExpMetadata = {},
+  now: number = Date.now(),
+  idempotencyKey?: string
+): ExpTransaction => {
+  const transaction: ExpTransaction = {
+    id: randomUUID(),
+    userId,
+    source,
+    amount,
+    createdAt: now,
+    dateKey: getDateKey(now),
+    metadata,
+    ...(idempotencyKey ? { idempotencyKey } : {}),
+  }
+  db.ledger.push(transaction)
+  return transaction
+}
+
+// 프로필에 캐시된 누적 EXP/레벨을 원장 합계로 갱신
+export const syncProfileTotals = (db: Database, userId: string): number => {
+  const totalExp = getTotalExp(db, userId)
+  const profile = db.profiles[userId]
+  const { perLevel } = db.config.exp
+  if (profile) {
+    profile.totalExp = totalExp
+    profile.level = getLevel(totalExp, perLevel)
+    profile.exp = totalExp % perLevel
+  }
+  return totalExp
+}
+
+// GPS 좌표가 등록된 근무지 지오펜스 안인지 검증
+const resolveGpsSite = (sites: Site[], metadata: ExpMetadata): Site => {
+  const lat = Number(metadata.lat)
+  const lng = Number(metadata.lng)
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    throw new HttpError(400, '위치 정보가 필요합니다')
+  }
+  const match = findSiteAt(sites, { lat, lng })
+  if (!match.inside) {
+    throw new HttpError(
+      403,
+      match.nearest
+        ? `위치 확인 실패 (${match.nearest.name}에서 ${Math.round(match.distance)}m 떨어져 있음)`
+        : '등록된 출석 근무지가 없습니다'
+    )
+  }
+  return match.site
+}
+
+// 규칙 검증 후 지급할 EXP 계산 (지급 불가 시 HttpError)
+const resolveGrant = (
+  db: Database,
+  userId: string,
+  today: DailyExpSummary,
+  { source, metadata = {}, testMode = false }: ExpGrantRequest,
+  now: number
+): { amount: number; metadata: ExpMetadata } => {
+  // 이벤트 배율이 적용된 현재 지급 규칙
+  const rules = getRewardRules(db.config, now)
+
+  switch (source) {
+    case 'nfc':
+    case 'gps': {
+      const bypass = testMode && isTestModeAllowed()
+      const slot = bypass ? 'morning' : getTimeSlotAt(db.config.timeSlots, now)
+      if (!slot) throw new HttpError(409, '현재는 출석 가능 시간이 아닙니다')
+      if (!bypass && today.checkIns.includes(slot)) {
+        throw new HttpError(409, '이미 이 시간대에 출석하셨습니다')
+      }
+      // GPS 출석은 근무지 지오펜스 검증 (테스트 모드 제외)
+      const site = source === 'gps' && !bypass ? resolveGpsSite(db.sites, metadata) : null
+      return {
+        amount: source === 'nfc' ? rules.nfc : rules.gps,
+        metadata: {
+          slot,
+          ...(site ? { siteId: site.id } : {}),
+          ...(bypass ? { testMode: true } : {}),
+        },
+      }
+    }
+    case 'ai-click': {
+      if (today.aiClicks >= rules.aiClickMaxDaily) {
+        throw new HttpError(409, '오늘의 AI 보안검증 EXP를 모두 받았습니다')
+      }
+      // 실제로 검사를 마친 경우에만 지급 (검사 ID는 한 번만 사용)
+      const check = consumePromptCheck(db, userId, String(metadata.checkId ?? ''), now)
+      return { amount: rules.aiClick, metadata: { checkId: check.id, findings: check.findingCount } }
+    }
+    case 'link': {
+      const linkId = String(metadata.linkId ?? '')
+      if (!REWARD_LINK_IDS.includes(linkId)) throw new HttpError(400, '알 수 없는 링크입니다')
+      if (today.links.includes(linkId)) throw new HttpError(409, '오늘 이미 EXP를 받은 링크입니다')
+      return { amount: rules.linkClick, metadata: { linkId } }
+    }
+    case 'ai-tool': {
+      const toolId = String(metadata.toolId ?? '')
+      if (!db.aiTools.some((tool) => tool.id === toolId)) throw new HttpError(400, '알 수 없는 AI 도구입니다')
+      if (today.tools.includes(toolId)) throw new HttpError(409, '오늘 이미 EXP를 받은 도구입니다')
+      return { amount: rules.linkClick, metadata: { toolId } }
+    }
+    case 'game': {
+      const gameId = String(metadata.gameId ?? '')
+      const game = getGame(gameId)
+      if (!game?.available || !game.policy || (game.kind === 'external' && !game.bridge)) {
+        throw new HttpError(400, '알 수 없는 게임입니다')
+      }
+      // 외부 게임은 서명된 완료 결과로만 지급 (점수 → EXP 환산은 서버에서)
+      const bridged = game.kind === 'external' ? parseGameResult(metadata) : null
+      if (game.kind === 'external' && !bridged) {
+        throw new HttpError(400, '게임 결과가 올바르지 않습니다')
+      }
+      // 풍력 게임은 입력 기록으로 물리를 재현해 검증
+      const verified = gameId === 'wind-turbine' ? validateTurbineRound(metadata) : null
+      const claimed = bridged
+        ? consumeGameResult(db, userId, bridged, now).exp
+        : verified ? verified.exp : Number(metadata.exp)
+      if (!Number.isFinite(claimed) || claimed <= 0) {
+        throw new HttpError(400, bridged ? '점수가 낮아 받을 EXP가 없습니다' : '게임 결과가 올바르지 않습니다')
+      }
+      // 게임별 일일 정책 (플레이 횟수, 획득 EXP 상한, 일정 판수 이후 감소 배율)
+      const { policy } = game
+      const allowance = getGameAllowance(policy, today.games[gameId])
+      if (allowance.remainingRounds <= 0) {
+        throw new HttpError(409, `오늘의 ${game.name} 플레이 횟수를 모두 사용했습니다`)
+      }
+      if (allowance.remainingExp <= 0) throw new HttpError(409, `오늘의 ${game.name} EXP를 모두 받았습니다`)
+
+      const perRound = Math.min(Math.floor(claimed), rules.gameMaxPerRound, policy.maxExpPerRound)
+      const amount = Math.max(1, Math.round(perRound * allowance.multiplier * rules.multiplier))
+      return {
+        amount: Math.min(amount, allowance.remainingExp),
+        metadata: {
+          gameId,
+          claimedExp: claimed,
+          ...(allowance.multiplier < 1 ? { diminish: allowance.multiplier } : {}),
+          ...(bridged
+            ? { score: bridged.score, durationMs: bridged.durationMs, nonce: bridged.nonce }
+            : verified?.stats ?? getGameRoundStats(gameId, metadata)),
+        },
+      }
+    }
+    default:
+      throw new HttpError(400, '지원하지 않는 EXP 경로입니다')
+  }
+}
+
+// 게임별 기록 (뱃지/기록 집계용, 1회 최대치로 보정)
+const clampStat = (value: unknown, max: number): number => Math.min(Math.max(Math.floor(Number(value) || 0), 0), max)
+
+const getGameRoundStats = (gameId: string, metadata: ExpMetadata): ExpMetadata => {
+  switch (gameId) {
+    case 'solar-catch':
+      return {
+        catches: clampStat(metadata.catches, MAX_SOLAR_CATCHES_PER_ROUND),
+        maxCombo: clampStat(metadata.maxCombo, MAX_SOLAR_CATCHES_PER_ROUND),
+      }
+    default:
+      return {}
+  }
+}
+
+// 오프라인에서 획득한 EXP의 실제 시각 (기기 시계가 빠르면 서버 시각으로 보정)
+const resolveOccurredAt = (occurredAt: number | undefined, now: number): number => {
+  if (occurredAt === undefined) return now
+  if (!Number.isFinite(occurredAt)) {
+    throw new HttpError(400, 'EXP 획득 시각이 올바르지 않습니다')
+  }
+  const resolved = Math.min(occurredAt, now)
+  if (getDateKey(resolved) !== getDateKey(now)) {
+    throw new HttpError(409, '지난 날짜의 오프라인 기록은 적립할 수 없습니다')
+  }
+  return resolved
+}
+
+export const grantExp = (userId: string, grantRequest: ExpGrantRequest): Promise<ExpGrantResult> =>
+  updateDatabase((db) => {
+    if (!db.profiles[userId]) throw new HttpError(404, '프로필이 없습니다')
+
+    const now = Date.now()
+    const { idempotencyKey } = grantRequest
+    if (idempotencyKey !== undefined && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      throw new HttpError(400, '멱등 키가 올바르지 않습니다')
+    }
+
+    // 이미 처리된 요청의 재전송: 새로 지급하지 않고 현재 상태 반환
+    const existing = idempotencyKey
+      ? db.ledger.find((t) => t.userId === userId && t.idempotencyKey === idempotencyKey)
+      : undefined
+    if (existing) {
+      const totalExp = getTotalExp(db, userId)
+      return {
+        transaction: existing,
+        totalExp,
+        level: getLevel(totalExp, db.config.exp.perLevel),
+        badges: db.profiles[userId].badges,
+        newBadges: [],
+        streakBonus: null,
+        today: getDailySummary(db, userId, getDateKey(now)),
+        replayed: true,
+      }
+    }
+
+    const occurredAt = resolveOccurredAt(grantRequest.occurredAt, now)
+    const previousLevel = db.profiles[userId].level
+    const { amount, metadata } = resolveGrant(db, userId, getDailySummary(db, userId, getDateKey(occurredAt)), grantRequest, occurredAt)
+
+    // NFC 출석은 서명된 태그 토큰이 있어야만 지급 (토큰 유효기간은 서버 수신 시각 기준)
+    if (grantRequest.source === 'nfc') {
+      const { tagId } = consumeNfcToken(db, userId, String(grantRequest.metadata?.token ?? ''), now)
+      metadata.tagId = tagId
+      const site = findSiteByTag(db.sites, tagId)
+      if (site) metadata.siteId = site.id
+    }
+
+    const multiplier = getActiveMultiplier(db.config, occurredAt)
+    if (multiplier !== 1) metadata.multiplier = multiplier
+    if (now - occurredAt >= DELAYED_SYNC_MS) metadata.syncedAt = now
+    const transaction = appendTransaction(db, userId, grantRequest.source, amount, metadata, occurredAt, idempotencyKey)
+    // 연속 출석 마일스톤 보너스 (출석 지급과 같은 요청에서 처리)
+    const streakBonus = CHECK_IN_SOURCES.includes(grantRequest.source) ? grantStreakBonus(db, userId, occurredAt) : null
+    const totalExp = syncProfileTotals(db, userId)
+    const newBadges = awardBadges(db, userId, now)
+    const level = getLevel(totalExp, db.config.exp.perLevel)
+
+    // 알림함 기록
+    if (level > previousLevel) {
+      pushNotification(db, userId, 'level-up', `⭐ Lv.${level} 달성!`, `누적 ${totalExp} EXP로 레벨이 올랐습니다.`, { now })
+    }
+    newBadges.forEach((badgeId) => {
+      const badge = getBadge(badgeId)
+      if (badge) pushNotification(db, userId, 'badge', `${badge.icon} ${badge.name} 뱃지 획득`, badge.description, { now })
+    })
+
+    return {
+      transaction,
+      totalExp,
+      level,
+      badges: db.profiles[userId].badges,
+      newBadges,
+      streakBonus,
+      today: getDailySummary(db, userId, getDateKey(now)),
+    }
+  })
@@ -0,0 +1,100 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { Database } from './db'
+import { HttpError } from './http'
+
+// ==================== NFC Tag Tokens ====================
+// NFC 태그 URL에는 `태그ID.시간창.nonce.서명` 형태의 토큰이 담깁니다.
+//   - 서명: HMAC-SHA256(NFC_TAG_SECRET, `태그ID.시간창.nonce`)
+//   - 시간창: NFC_TOKEN_WINDOW_MINUTES(기본 10분) 단위로 바뀌며, 직전 시간창까지 허용
+//   - 토큰 하나는 모든 사용자를 통틀어 한 번만 출석에 쓸 수 있음 (태그 URL을 찍어 공유해도 다른 사람은 못 씀)
+// 태그 기록기(동적 NFC 태그)는 /api/nfc/token 으로 토큰을 발급받아 태그에 쓰고, 출석에 쓰인 뒤에는 새 토큰으로 바꿔 씁니다.
+
+export interface NfcTokenUse {
+  userId: string
+  tagId: string
+  window: number
+  nonce: string
+  usedAt: number
+}
+
+export type NfcVerification =
+  | { valid: true; tagId: string; window: number; nonce: string }
+  | { valid: false; message: string }
+
+// 근무지 설정(parseSites)도 같은 규칙으로 검증
+export const TAG_ID_PATTERN = /^[a-z0-9-]{1,32}$/
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{8,32}$/
+const DEV_SECRET = 'kepco-ai-zone-dev-nfc-secret'
+
+const getWindowMs = () => Number(process.env.NFC_TOKEN_WINDOW_MINUTES || 10) * 60 * 1000
+
+const getSecret = (): string => {
+  const secret = process.env.NFC_TAG_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV !== 'production') return DEV_SECRET
+  throw new HttpError(503, 'NFC 서명 키(NFC_TAG_SECRET)가 설정되지 않았습니다')
+}
+
+const sign = (tagId: string, window: number, nonce: string) =>
+  createHmac('sha256', getSecret()).update(`${tagId}.${window}.${nonce}`).digest('base64url')
+
+export const getCurrentWindow = (now: number = Date.now()) => Math.floor(now / getWindowMs())
+
+export const issueNfcToken = (tagId: string, now: number = Date.now()) => {
+  if (!TAG_ID_PATTERN.test(tagId)) {
+    throw new HttpError(400, '태그 ID는 영문 소문자, 숫자, 하이픈만 사용할 수 있습니다')
+  }
+  const window = getCurrentWindow(now)
+  const nonce = randomBytes(9).toString('base64url')
+  return {
+    token: `${tagId}.${window}.${nonce}.${sign(tagId, window, nonce)}`,
+    expiresAt: (window + 2) * getWindowMs(),
+  }
+}
+
+export const verifyNfcToken = (
+  db: Database,
+  userId: string,
+  token: string,
+  now: number = Date.now()
+): NfcVerification => {
+  const [tagId, windowText, nonce, signature, ...rest] = token.split('.')
+  const window = Number(windowText)
+  if (rest.length > 0 || !TAG_ID_PATTERN.test(tagId ?? '') || !Number.isInteger(window) || !NONCE_PATTERN.test(nonce ?? '') || !signature) {
+    return { valid: false, message: 'NFC 태그 정보가 올바르지 않습니다' }
+  }
+
+  const expected = Buffer.from(sign(tagId, window, nonce))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, message: '인증되지 않은 NFC 태그입니다' }
+  }
+
+  const currentWindow = getCurrentWindow(now)
+  if (window > currentWindow || window < currentWindow - 1) {
+    return { valid: false, message: '만료된 NFC 태그입니다' }
+  }
+
+  const used = db.nfcTokenUses.find((use) => use.tagId === tagId && use.window === window && use.nonce === nonce)
+  if (used) {
+    return {
+      valid: false,
+      message: used.userId === userId ? '이미 사용한 NFC 태그입니다' : '다른 사람이 이미 사용한 NFC 태그입니다. 태그를 다시 대 주세요',
+    }
+  }
+
+  return { valid: true, tagId, window, nonce }
+}
+
+// 출석 EXP 지급 직전 호출: 검증 후 사용 기록 (실패 시 403)
+export const consumeNfcToken = (db: Database, userId: string, token: string, now: number = Date.now()) => {
+  const verification = verifyNfcToken(db, userId, token, now)
+  if (!verification.valid) throw new HttpError(403, verification.message)
+
+  db.nfcTokenUses.push({ userId, tagId: verification.tagId, window: verification.window, nonce: verification.nonce, usedAt: now })
+  // 만료된 사용 기록 정리
+  const oldestWindow = getCurrentWindow(now) - 1
+  db.nfcTokenUses = db.nfcTokenUses.filter((use) => use.window >= oldestWindow)
+
+  return verification
+}
@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto'
+import type { Database } from './db'
+import { getDailySummary } from './ledger'
+import { getDateKey, getServiceHour } from '../lib/exp-rules'
+import type { AppNotification, NotificationType } from '../lib/types'
+
+// ==================== Notifications ====================
+// 사용자별 알림함. 레벨업/뱃지 알림은 EXP 지급 시 생성하고,
+// 출석 시간 알림과 운영자 공지는 알림함을 열 때(GET) 필요한 만큼 생성합니다.
+// 조회는 새로 만들 알림이 있을 때만 DB에 쓰고, 프로필이 없는 사용자 ID에는 알림을 만들지 않습니다.
+// 중복 생성 방지 키는 알림과 따로 보관하므로(db.notificationKeys) 보관 한도로 지운 알림이 다시 생기지 않습니다.
+
+// 사용자당 보관하는 최대 알림 수 (오래된 것부터 삭제)
+const MAX_NOTIFICATIONS_PER_USER = 100
+// 공지는 게시 후 이 기간 안에 알림함을 연 사용자에게만 전달
+const ANNOUNCEMENT_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+export interface StoredNotification extends AppNotification {
+  userId: string
+  // 같은 알림 중복 생성 방지 키 (예: reminder:2025-01-01:lunch)
+  key?: string
+}
+
+// 이미 만든 알림의 키 (알림이 보관 한도로 지워져도 공지 전달 기간 동안 유지)
+export interface NotificationKey {
+  userId: string
+  key: string
+  createdAt: number
+}
+
+// 이전 버전 데이터는 알림에만 키가 있으므로 함께 확인
+const hasNotificationKey = (db: Database, userId: string, key: string) =>
+  db.notificationKeys.some((k) => k.userId === userId && k.key === key) ||
+  db.notifications.some((n) => n.userId === userId && n.key === key)
+
+export const pushNotification = (
+  db: Database,
+  userId: string,
+  type: NotificationType,
+  title: string,
+  body: string,
+  { key, now = Date.now() }: { key?: string; now?: number } = {}
+): StoredNotification | null => {
+  if (key && hasNotificationKey(db, userId, key)) return null
+
+  const notification: StoredNotification = {
+    id: randomUUID(),
+    userId,
+    type,
+    title,
+    body,
+    createdAt: now,
+    readAt: null,
+    ...(key ? { key } : {}),
+  }
+  db.notifications.push(notification)
+  if (key) db.notificationKeys.push({ userId, key, createdAt: now })
+
+  const mine = db.notifications.filter((n) => n.userId === userId)
+  if (mine.length > MAX_NOTIFICATIONS_PER_USER) {
+    const expired = new Set(mine.slice(0, mine.length - MAX_NOTIFICATIONS_PER_USER).map((n) => n.id))
+    db.notifications = db.notifications.filter((n) => !expired.has(n.id))
+  }
+  return notification
+}
+
+// 출석 시간 알림/공지처럼 조회 시점에 만들어지는 알림 (키로 중복 생성 방지)
+interface NotificationDraft {
+  type: NotificationType
+  title: string
+  body: string
+  key: string
+  createdAt: number
+}
+
+// 지금 열려 있는 출석 시간대 중 아직 출석하지 않은 시간대 알림
+const getCheckInReminders = (db: Database, userId: string, now: number): NotificationDraft[] => {
+  const dateKey = getDateKey(now)
+  const hour = getServiceHour(now)
+  const { checkIns } = getDailySummary(db, userId, dateKey)
+
+  return db.config.timeSlots
+    .filter((slot) => hour >= slot.startHour && hour < slot.endHour && !checkIns.includes(slot.id))
+    .map((slot) => ({
+      type: 'check-in-reminder',
+      title: `${slot.icon} ${slot.name} 출석 시간입니다`,
+      body: `${String(slot.endHour).padStart(2, '0')}시까지 출석하고 EXP를 받으세요!`,
+      key: `reminder:${dateKey}:${slot.id}`,
+      createdAt: now,
+    }))
+}
+
+const getAnnouncements = (db: Database, now: number): NotificationDraft[] =>
+  db.announcements
+    .filter((a) => now - a.createdAt < ANNOUNCEMENT_TTL_MS)
+    .map((a) => ({ type: 'announcement', title: a.title, body: a.body, key: `announcement:${a.id}`, createdAt: a.createdAt }))
+
+// 아직 알림함에 없는 알림 (프로필이 없는 사용자는 만들지 않음)
+const getPendingNotifications = (db: Database, userId: string, now: number): NotificationDraft[] => {
+  if (!db.profiles[userId]) return []
+  return [...getCheckInReminders(db, userId, now), ...getAnnouncements(db, now)].filter(
+    (draft) => !hasNotificationKey(db, userId, draft.key)
+  )
+}
+
+// 새로 만들 알림이 있을 때만 DB에 쓰도록 조회 전에 확인
+export const hasPendingNotifications = (db: Database, userId: string, now: number = Date.now()): boolean =>
+  getPendingNotifications(db, userId, now).length > 0
+
+const toAppNotification = ({ id, type, title, body, createdAt, readAt }: StoredNotification): AppNotification => ({
+  id,
+  type,
+  title,
+  body,
+  createdAt,
+  readAt,
+})
+
+// 알림 목록 + 안 읽은 수 (읽기 전용)
+export const listNotifications = (db: Database, userId: string) => {
+  const notifications = db.notifications
+    .filter((n) => n.userId === userId)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(toAppNotification)
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => n.readAt === null).length,
+  }
+}
+
+// 필요한 알림을 만든 뒤 목록 반환 (updateDatabase 안에서 호출)
+export const getNotifications = (db: Database, userId: string, now: number = Date.now()) => {
+  // 전달 기간이 지난 키 정리 (그보다 오래된 공지/출석 알림은 다시 만들지 않음)
+  db.notificationKeys = db.notificationKeys.filter((k) => now - k.createdAt < ANNOUNCEMENT_TTL_MS)
+  getPendingNotifications(db, userId, now).forEach(({ type, title, body, key, createdAt }) =>
+    pushNotification(db, userId, type, title, body, { key, now: createdAt })
+  )
+  return listNotifications(db, userId)
+}
+
+// ids가 없으면 전체 읽음 처리
+export const markNotificationsRead = (db: Database, userId: string, ids?: string[], now: number = Date.now()) => {
+  db.notifications.forEach((n) => {
+    if (n.userId === userId && n.readAt === null && (!ids || ids.includes(n.id))) {
+      n.readAt = now
+    }
+  })
+}
@@ -0,0 +1,98 @@
+import type { Database, StoredProfile } from './db'
+import { HttpError } from './http'
+import { getUserTransactions } from './ledger'
+import { getBadgeProgress } from './badges'
+import { getCheckInDays, getStreakSummary } from './streaks'
+import { getLevel, type ExpSource, type TimeSlot } from '../lib/exp-rules'
+import type { LevelMilestone, ProfileOverview, UserData } from '../lib/types'
+
+// ==================== Profile Overview ====================
+// 프로필 화면용 집계: 레벨 달성 기록, 경로별 EXP, 출석 통계, 뱃지
+
+export const toUserData = ({ nickname, characterId, department, level, exp, badges, totalExp, updatedAt }: StoredProfile): UserData => ({
+  nickname,
+  characterId,
+  department,
+  level,
+  exp,
+  badges,
+  totalExp,
+  updatedAt,
+})
+
+// 원장을 시간순으로 누적하며 레벨이 오른 시점 기록 (레벨 기준 EXP는 현재 설정값)
+const getLevelHistory = (db: Database, profile: StoredProfile): LevelMilestone[] => {
+  const { perLevel } = db.config.exp
+  const history: LevelMilestone[] = [{ level: 1, reachedAt: profile.createdAt }]
+  let totalExp = 0
+  ;[...getUserTransactions(db, profile.userId)]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach((t) => {
+      const before = getLevel(totalExp, perLevel)
+      totalExp += t.amount
+      for (let level = before + 1; level <= getLevel(totalExp, perLevel); level++) {
+        history.push({ level, reachedAt: t.createdAt })
+      }
+    })
+  return history
+}
+
+export const getProfileOverview = (db: Database, userId: string): ProfileOverview => {
+  const profile = db.profiles[userId]
+  if (!profile) throw new HttpError(404, '프로필이 없습니다')
+
+  const transactions = getUserTransactions(db, userId)
+  const expBySource: Partial<Record<ExpSource, number>> = {}
+  transactions.forEach((t) => {
+    expBySource[t.source] = (expBySource[t.source] ?? 0) + t.amount
+  })
+
+  const checkIns = transactions.filter((t) => (t.source === 'nfc' || t.source === 'gps') && !t.metadata.testMode)
+  const bySlot: Partial<Record<TimeSlot, number>> = {}
+  checkIns.forEach((t) => {
+    const slot = t.metadata.slot as TimeSlot
+    bySlot[slot] = (bySlot[slot] ?? 0) + 1
+  })
+
+  return {
+    profile: toUserData(profile),
+    joinedAt: profile.createdAt,
+    levelHistory: getLevelHistory(db, profile),
+    expBySource,
+    checkIns: {
+      total: checkIns.length,
+      days: Object.keys(getCheckInDays(db, userId)).length,
+      bySlot,
+      nfc: checkIns.filter((t) => t.source === 'nfc').length,
+      gps: checkIns.filter((t) => t.source === 'gps').length,
+      streak: getStreakSummary(db, userId),
+    },
+    badges: getBadgeProgress(db, userId),
+  }
+}
+
+// ==================== Profile Deletion ====================
+// 데이터 초기화: 프로필과 함께 사용자의 원장/기록/구독을 모두 지웁니다.
+// 원장이 남으면 순위표·부서 기여도에 남고, 같은 ID로 다시 가입할 때 EXP가 되살아나므로 같은 쓰기에서 처리합니다.
+// 보안 준수 동의 기록은 감사용이므로 지우지 않고 삭제 시각만 표시합니다.
+export const deleteUserData = (db: Database, userId: string, now: number = Date.now()) => {
+  const others = <T extends { userId: string }>(rows: T[]) => rows.filter((row) => row.userId !== userId)
+
+  delete db.profiles[userId]
+  db.ledger = others(db.ledger)
+  db.nfcTokenUses = others(db.nfcTokenUses)
+  db.userBadges = others(db.userBadges)
+  db.notifications = others(db.notifications)
+  db.notificationKeys = others(db.notificationKeys)
+  db.pushSubscriptions = others(db.pushSubscriptions)
+  db.pushOutbox = others(db.pushOutbox)
+  db.gameSessions = others(db.gameSessions)
+  db.turbineRounds = others(db.turbineRounds)
+  db.promptChecks = others(db.promptChecks)
+  delete db.turbineBests[userId]
+  delete db.templatePreferences[userId]
+  delete db.aiToolFavorites[userId]
+  db.consentLogs.forEach((entry) => {
+    if (entry.userId === userId && !entry.userDeletedAt) entry.userDeletedAt = now
+  })
+}
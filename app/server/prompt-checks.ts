@@ -0,0 +1,93 @@
+import { randomBytes } from 'crypto'
+import type { Database } from './db'
+import { HttpError } from './http'
+import { MAX_PROMPT_LENGTH, type PromptCheckSummary, type PromptRisk } from '../lib/prompt-security'
+import type { PromptCheckResult } from '../lib/types'
+
+// ==================== Prompt Checks ====================
+// AI 보안검증 EXP는 실제로 검사를 마친 경우에만 지급합니다.
+//   1) 보안검증 화면이 운영자 규칙 팩(db.promptRulePack)으로 기기에서 검사하고, 요약만 /api/prompt-check 에 보내 일회용 checkId 발급
+//      (프롬프트 원문과 찾은 민감정보는 서버로 오지 않음)
+//   2) EXP 요청(source: 'ai-click')에 checkId를 담아 보내면 지급 직전에 사용 처리 (재사용 불가)
+//   3) 같은 프롬프트(해시)를 반복 검사해도 EXP는 한 번만
+// 요약은 클라이언트 값이므로 EXP 남용은 하루 지급 횟수(aiClickMaxDaily)로 제한합니다.
+
+export interface PromptCheck {
+  id: string
+  userId: string
+  // sha256(userId + 프롬프트), 클라이언트가 해시를 만들 수 없으면 없음
+  promptHash?: string
+  length: number
+  findingCount: number
+  risk: PromptRisk
+  // 검사에 쓴 규칙 팩 버전
+  packVersion: number
+  createdAt: number
+  usedAt?: number
+}
+
+// EXP를 받을 수 있는 최소 길이 (공백 제외)
+const MIN_REWARD_LENGTH = 10
+// 검사 후 EXP 요청까지 허용 시간 (오프라인 대기열 재전송 포함)
+const CHECK_TTL_MS = 24 * 60 * 60 * 1000
+// 반복 검사 판별용 기록 보관 기간
+const RETENTION_MS = 2 * 24 * 60 * 60 * 1000
+const CHECK_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/
+// sha256 base64url
+const PROMPT_HASH_PATTERN = /^[A-Za-z0-9_-]{43}$/
+const RISKS: PromptRisk[] = ['safe', 'warning', 'danger']
+
+const isCount = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max
+
+export const parsePromptCheckSummary = (body: Record<string, unknown>): PromptCheckSummary => {
+  const { length, findingCount, risk, packVersion, promptHash } = body
+  if (!isCount(length, MAX_PROMPT_LENGTH) || length === 0) {
+    throw new HttpError(400, `검사한 프롬프트 길이가 올바르지 않습니다 (최대 ${MAX_PROMPT_LENGTH.toLocaleString()}자)`)
+  }
+  if (!isCount(findingCount, MAX_PROMPT_LENGTH) || !RISKS.includes(risk as PromptRisk) || !isCount(packVersion, Number.MAX_SAFE_INTEGER)) {
+    throw new HttpError(400, '검사 결과가 올바르지 않습니다')
+  }
+  if (promptHash !== undefined && (typeof promptHash !== 'string' || !PROMPT_HASH_PATTERN.test(promptHash))) {
+    throw new HttpError(400, '검사 해시가 올바르지 않습니다')
+  }
+  return { length, findingCount, risk: risk as PromptRisk, packVersion, ...(promptHash ? { promptHash } : {}) }
+}
+
+export const recordPromptCheck = (
+  db: Database,
+  userId: string,
+  summary: PromptCheckSummary,
+  now: number = Date.now()
+): PromptCheckResult => {
+  if (!db.profiles[userId]) throw new HttpError(404, '프로필이 없습니다')
+
+  const check: PromptCheck = {
+    id: randomBytes(18).toString('base64url'),
+    userId,
+    ...(summary.promptHash ? { promptHash: summary.promptHash } : {}),
+    length: summary.length,
+    findingCount: summary.findingCount,
+    risk: summary.risk,
+    packVersion: summary.packVersion,
+    createdAt: now,
+  }
+  db.promptChecks = [...db.promptChecks.filter((c) => c.createdAt > now - RETENTION_MS), check]
+
+  return { checkId: check.id }
+}
+
+// EXP 지급 직전 검사 기록 확인 + 사용 처리
+export const consumePromptCheck = (db: Database, userId: string, checkId: string, now: number = Date.now()): PromptCheck => {
+  const check = CHECK_ID_PATTERN.test(checkId) ? db.promptChecks.find((c) => c.id === checkId) : undefined
+  if (!check || check.userId !== userId) throw new HttpError(400, '보안검증을 먼저 완료하세요')
+  if (check.usedAt) throw new HttpError(409, '이미 EXP를 받은 검사입니다')
+  if (now - check.createdAt > CHECK_TTL_MS) throw new HttpError(409, '만료된 검사입니다. 다시 검사하세요')
+  if (check.length < MIN_REWARD_LENGTH) throw new HttpError(400, `${MIN_REWARD_LENGTH}자 이상 프롬프트를 검사해야 EXP를 받을 수 있습니다`)
+  if (check.promptHash && db.promptChecks.some((c) => c.usedAt && c.userId === userId && c.promptHash === check.promptHash)) {
+    throw new HttpError(409, '같은 프롬프트로는 EXP를 한 번만 받을 수 있습니다')
+  }
+
+  check.usedAt = now
+  return check
+}
@@ -0,0 +1,43 @@
+import type { Database } from './db'
+import { HttpError } from './http'
+import type { PromptTemplateItem } from '../lib/types'
+
+// ==================== Prompt Template Library ====================
+// 프롬프트 템플릿 목록 + 사용자별 즐겨찾기/사용 횟수
+// 사용 횟수는 복사하거나 AI TOOL로 보낼 때 1씩 증가 (EXP 지급 없음)
+
+export interface TemplatePreference {
+  favorite: boolean
+  uses: number
+  lastUsedAt: number | null
+}
+
+const EMPTY_PREFERENCE: TemplatePreference = { favorite: false, uses: 0, lastUsedAt: null }
+
+const getPreference = (db: Database, userId: string, templateId: string): TemplatePreference => {
+  if (!db.profiles[userId]) throw new HttpError(404, '프로필이 없습니다')
+  if (!db.promptTemplates.some((t) => t.id === templateId)) throw new HttpError(404, '템플릿이 없습니다')
+  return db.templatePreferences[userId]?.[templateId] ?? EMPTY_PREFERENCE
+}
+
+const savePreference = (db: Database, userId: string, templateId: string, preference: TemplatePreference) => {
+  db.templatePreferences[userId] = { ...db.templatePreferences[userId], [templateId]: preference }
+}
+
+// 즐겨찾기 → 많이 쓴 순 → 기본 순서
+export const getPromptTemplates = (db: Database, userId: string): PromptTemplateItem[] => {
+  const preferences = db.templatePreferences[userId] ?? {}
+  return db.promptTemplates
+    .map((template, order) => ({ template, order, ...(preferences[template.id] ?? EMPTY_PREFERENCE) }))
+    .sort((a, b) => Number(b.favorite) - Number(a.favorite) || b.uses - a.uses || a.order - b.order)
+    .map(({ template, favorite, uses, lastUsedAt }) => ({ ...template, favorite, uses, lastUsedAt }))
+}
+
+export const setTemplateFavorite = (db: Database, userId: string, templateId: string, favorite: boolean) => {
+  savePreference(db, userId, templateId, { ...getPreference(db, userId, templateId), favorite })
+}
+
+export const recordTemplateUse = (db: Database, userId: string, templateId: string, now: number = Date.now()) => {
+  const preference = getPreference(db, userId, templateId)
+  savePreference(db, userId, templateId, { ...preference, uses: preference.uses + 1, lastUsedAt: now })
+}
@@ -0,0 +1,227 @@
+import webpush from 'web-push'
+import { readDatabase, updateDatabase, type Database } from './db'
+import { HttpError } from './http'
+import { getDailySummary } from './ledger'
+import { pushNotification } from './notifications'
+import { getDateKey, getServiceHour, type TimeSlot } from '../lib/exp-rules'
+
+// ==================== Web Push ====================
+// 출석 시간 알림을 Web Push로 보냅니다.
+//   - 구독: 브라우저 PushSubscription + 알림 받을 시간대를 /api/push/subscription 에 저장
+//   - 발송: 스케줄러가 /api/push/dispatch 를 호출하면, 지금 열려 있는 시간대를 구독했고
+//           아직 그 시간대에 출석하지 않은 사용자에게 하루 한 번 알림을 보냄
+//   - PUSH_TRANSPORT=local 이면 실제 푸시 서비스 대신 db.pushOutbox 에 기록 (로컬 테스트용, VAPID 키가 없으면 실행 중에만 쓰는 키를 만듦)
+//   - 그 밖에는 VAPID 키가 설정되지 않으면 구독/발송 모두 503
+//   - 발송이 일시적으로 실패한 알림은 예약을 풀어 다음 스케줄러 호출 때 다시 보냄
+// 데이터가 로컬 JSON 파일(db.ts)에 있으므로 스케줄러는 앱이 실행 중인 같은 서버에서 호출해야 합니다.
+//   예) crontab: */10 * * * * curl -fsS -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/push/dispatch
+
+export interface PushSubscriptionRecord {
+  userId: string
+  endpoint: string
+  keys: { p256dh: string; auth: string }
+  slots: TimeSlot[]
+  createdAt: number
+  updatedAt: number
+}
+
+// 같은 사용자/날짜/시간대 알림은 한 번만 발송
+export interface PushDelivery {
+  key: string
+  sentAt: number
+}
+
+export interface PushPayload {
+  title: string
+  body: string
+  url: string
+  tag: string
+}
+
+export interface PushOutboxEntry {
+  endpoint: string
+  userId: string
+  payload: PushPayload
+  sentAt: number
+}
+
+type SendResult = 'sent' | 'expired' | 'failed'
+
+// 로컬 테스트 기록 / 발송 기록 보관 수
+const MAX_OUTBOX_ENTRIES = 200
+const DELIVERY_TTL_MS = 3 * 24 * 60 * 60 * 1000
+
+const isLocalTransport = () => process.env.PUSH_TRANSPORT === 'local'
+
+// 로컬 발송함 모드에서 키가 없을 때 쓰는 키 (저장하지 않으므로 서버를 다시 켜면 바뀜, 실제 발송에는 쓰지 않음)
+let localVapidKeys: { publicKey: string; privateKey: string } | null = null
+
+// VAPID 키는 저장소에 두지 않음: VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY 가 없으면 로컬 발송함 모드가 아닌 한 푸시 기능을 끔
+const getVapidKeys = () => {
+  const publicKey = process.env.VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+  if (publicKey && privateKey) return { publicKey, privateKey }
+  if (!isLocalTransport()) return null
+  localVapidKeys ??= webpush.generateVAPIDKeys()
+  return localVapidKeys
+}
+
+export const requireVapidKeys = () => {
+  const keys = getVapidKeys()
+  if (!keys) throw new HttpError(503, 'Web Push 키(VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY)가 설정되지 않아 푸시 알림을 사용할 수 없습니다')
+  return keys
+}
+
+// 푸시를 쓸 수 없으면 null
+export const getVapidPublicKey = (): string | null => getVapidKeys()?.publicKey ?? null
+
+// ==================== Subscriptions ====================
+export const getSubscription = (db: Database, userId: string, endpoint?: string) =>
+  db.pushSubscriptions.find((s) => s.userId === userId && (!endpoint || s.endpoint === endpoint)) ?? null
+
+export const parseSubscription = (
+  db: Database,
+  input: unknown
+): Pick<PushSubscriptionRecord, 'endpoint' | 'keys' | 'slots'> => {
+  const { subscription, slots } = (input ?? {}) as {
+    subscription?: { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } }
+    slots?: unknown
+  }
+  const endpoint = subscription?.endpoint
+  const p256dh = subscription?.keys?.p256dh
+  const auth = subscription?.keys?.auth
+  if (typeof endpoint !== 'string' || !/^https?:\/\//.test(endpoint)) {
+    throw new HttpError(400, '푸시 구독 정보가 올바르지 않습니다')
+  }
+  if (typeof p256dh !== 'string' || typeof auth !== 'string' || !p256dh || !auth) {
+    throw new HttpError(400, '푸시 구독 키가 올바르지 않습니다')
+  }
+  if (!Array.isArray(slots) || !slots.every((id) => db.config.timeSlots.some((slot) => slot.id === id))) {
+    throw new HttpError(400, '알림 받을 시간대가 올바르지 않습니다')
+  }
+  return { endpoint, keys: { p256dh, auth }, slots: Array.from(new Set(slots as TimeSlot[])) }
+}
+
+export const saveSubscription = (
+  db: Database,
+  userId: string,
+  input: Pick<PushSubscriptionRecord, 'endpoint' | 'keys' | 'slots'>,
+  now: number = Date.now()
+): PushSubscriptionRecord => {
+  // 같은 endpoint는 한 명만 (기기 연동 코드로 사용자가 바뀐 경우 포함)
+  const existing = db.pushSubscriptions.find((s) => s.endpoint === input.endpoint)
+  db.pushSubscriptions = db.pushSubscriptions.filter((s) => s.endpoint !== input.endpoint)
+
+  const record: PushSubscriptionRecord = {
+    userId,
+    ...input,
+    createdAt: existing?.userId === userId ? existing.createdAt : now,
+    updatedAt: now,
+  }
+  db.pushSubscriptions.push(record)
+  return record
+}
+
+export const removeSubscription = (db: Database, userId: string, endpoint: string) => {
+  db.pushSubscriptions = db.pushSubscriptions.filter((s) => !(s.userId === userId && s.endpoint === endpoint))
+}
+
+// ==================== Dispatch ====================
+const sendPush = async (subscription: PushSubscriptionRecord, payload: PushPayload): Promise<SendResult> => {
+  const { publicKey, privateKey } = requireVapidKeys()
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: subscription.keys },
+      JSON.stringify(payload),
+      {
+        TTL: 60 * 60,
+        vapidDetails: {
+          subject: process.env.VAPID_SUBJECT || 'mailto:admin@kepco-ai-zone.local',
+          publicKey,
+          privateKey,
+        },
+      }
+    )
+    return 'sent'
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode
+    // 404/410: 브라우저에서 구독이 해지됨
+    if (statusCode === 404 || statusCode === 410) return 'expired'
+    console.error('Web Push 발송 실패', statusCode ?? error)
+    return 'failed'
+  }
+}
+
+// 지금 열려 있는 시간대의 알림 대상 선정 + 발송 기록 (중복 발송 방지를 위해 먼저 예약)
+const reserveReminders = (db: Database, now: number) => {
+  const dateKey = getDateKey(now)
+  const hour = getServiceHour(now)
+  const openSlots = db.config.timeSlots.filter((slot) => hour >= slot.startHour && hour < slot.endHour)
+
+  db.pushDeliveries = db.pushDeliveries.filter((d) => now - d.sentAt < DELIVERY_TTL_MS)
+  const delivered = new Set(db.pushDeliveries.map((d) => d.key))
+
+  return openSlots.flatMap((slot) =>
+    db.pushSubscriptions
+      .filter((subscription) => subscription.slots.includes(slot.id))
+      .filter((subscription) => !getDailySummary(db, subscription.userId, dateKey).checkIns.includes(slot.id))
+      .filter((subscription) => !delivered.has(`${subscription.endpoint}:${dateKey}:${slot.id}`))
+      .map((subscription) => {
+        const key = `${subscription.endpoint}:${dateKey}:${slot.id}`
+        const title = `${slot.icon} ${slot.name} 출석 시간입니다`
+        const body = `${String(slot.endHour).padStart(2, '0')}시까지 출석하고 EXP를 받으세요!`
+        db.pushDeliveries.push({ key, sentAt: now })
+        // 알림함에도 같은 키로 남겨 GET /api/notifications 에서 중복 생성되지 않게 함
+        pushNotification(db, subscription.userId, 'check-in-reminder', title, body, {
+          key: `reminder:${dateKey}:${slot.id}`,
+          now,
+        })
+        return { subscription, deliveryKey: key, payload: { title, body, url: '/', tag: `check-in-${slot.id}` } }
+      })
+  )
+}
+
+export const dispatchSlotReminders = async (now: number = Date.now()) => {
+  requireVapidKeys()
+  const targets = await updateDatabase((db) => reserveReminders(db, now))
+  const local = isLocalTransport()
+
+  const results = await Promise.all(
+    targets.map(async (target) => ({
+      ...target,
+      result: local ? ('sent' as const) : await sendPush(target.subscription, target.payload),
+    }))
+  )
+  const expired = results.filter((r) => r.result === 'expired').map((r) => r.subscription.endpoint)
+  const failed = results.filter((r) => r.result === 'failed').map((r) => r.deliveryKey)
+
+  if (expired.length > 0 || failed.length > 0 || (local && results.length > 0)) {
+    await updateDatabase((db) => {
+      db.pushSubscriptions = db.pushSubscriptions.filter((s) => !expired.includes(s.endpoint))
+      // 푸시 서비스 오류는 예약을 풀어 다음 호출 때 다시 발송 (시간대가 끝나거나 출석하면 대상에서 빠짐)
+      db.pushDeliveries = db.pushDeliveries.filter((d) => !failed.includes(d.key))
+      if (local) {
+        db.pushOutbox.push(
+          ...results.map(({ subscription, payload }) => ({
+            endpoint: subscription.endpoint,
+            userId: subscription.userId,
+            payload,
+            sentAt: now,
+          }))
+        )
+        db.pushOutbox = db.pushOutbox.slice(-MAX_OUTBOX_ENTRIES)
+      }
+    })
+  }
+
+  return {
+    sent: results.filter((r) => r.result === 'sent').length,
+    failed: failed.length,
+    expired: expired.length,
+  }
+}
+
+export const getPushOutbox = async (): Promise<PushOutboxEntry[]> => {
+  const db = await readDatabase()
+  return [...db.pushOutbox].reverse()
+}
@@ -0,0 +1,49 @@
+import type { Database } from './db'
+import { appendTransaction, getUserTransactions } from './ledger'
+import { STREAK_MILESTONES, getCurrentStreak, getDateKey, getLongestStreak, type TimeSlot } from '../lib/exp-rules'
+import type { AttendanceCalendar, ExpTransaction, StreakSummary } from '../lib/types'
+
+// ==================== Check-In Streaks ====================
+// 출석(NFC/GPS) 원장 기록으로 출석 달력과 연속 출석 일수를 계산 (테스트 모드 출석 제외)
+
+export const getCheckInDays = (db: Database, userId: string): Record<string, TimeSlot[]> => {
+  const days: Record<string, TimeSlot[]> = {}
+  getUserTransactions(db, userId)
+    .filter((t) => (t.source === 'nfc' || t.source === 'gps') && !t.metadata.testMode)
+    .forEach((t) => {
+      days[t.dateKey] = [...(days[t.dateKey] ?? []), t.metadata.slot as TimeSlot]
+    })
+  return days
+}
+
+export const getStreakSummary = (db: Database, userId: string, today: string = getDateKey()): StreakSummary => {
+  const dateKeys = Object.keys(getCheckInDays(db, userId))
+  const current = getCurrentStreak(dateKeys, today)
+  return {
+    current,
+    longest: getLongestStreak(dateKeys),
+    nextMilestone: STREAK_MILESTONES.find((m) => m.days > current)?.days ?? null,
+  }
+}
+
+export const getAttendanceCalendar = (db: Database, userId: string, month: string): AttendanceCalendar => {
+  const days = getCheckInDays(db, userId)
+  return {
+    month,
+    days: Object.fromEntries(Object.entries(days).filter(([dateKey]) => dateKey.startsWith(month))),
+    streak: getStreakSummary(db, userId),
+  }
+}
+
+// 오늘 첫 출석으로 마일스톤 일수에 도달하면 보너스 지급
+export const grantStreakBonus = (db: Database, userId: string, now: number = Date.now()): ExpTransaction | null => {
+  const today = getDateKey(now)
+  const days = getCheckInDays(db, userId)
+  if (days[today]?.length !== 1) return null
+
+  const streak = getCurrentStreak(Object.keys(days), today)
+  const milestone = STREAK_MILESTONES.find((m) => m.days === streak)
+  if (!milestone) return null
+
+  return appendTransaction(db, userId, 'streak-bonus', milestone.exp, { days: milestone.days }, now)
+}
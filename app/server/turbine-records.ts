@@ -0,0 +1,150 @@
+import { createHash } from 'crypto'
+import type { Database } from './db'
+import { HttpError } from './http'
+import { replayTurbineRound } from './anti-cheat'
+import { getDateKey, getWeekStartKey } from '../lib/exp-rules'
+import type { TurbineMode } from '../lib/turbine'
+import type {
+  TurbineHighScoreEntry,
+  TurbineHighScores,
+  TurbineRecordPeriod,
+  TurbineRecordResult,
+  TurbineRoundStats,
+  TurbineStatKey,
+} from '../lib/types'
+
+// ==================== Turbine Records ====================
+// 풍력 게임 한 판이 끝나면 입력 기록을 서버에서 재현해 기록을 저장합니다 (EXP 지급과 별개).
+//   - 개인 최고 기록: 항목별(회전수, 평균/최고 RPS, 최장 콤보, Time Boost) 최댓값
+//   - 일간/주간 순위표: 기간 내 사용자별 최고 회전수 기준 (동점이면 최고 RPS)
+//   - 난이도(입문/표준/태풍)마다 최고 기록과 순위표를 따로 둠
+// 같은 입력 기록을 다시 보내도 한 번만 저장합니다.
+
+export interface TurbineRound {
+  // 입력 기록 해시 (중복 저장 방지)
+  id: string
+  userId: string
+  mode: TurbineMode
+  stats: TurbineRoundStats
+  dateKey: string
+  createdAt: number
+}
+
+export const TURBINE_RECORD_PERIODS: TurbineRecordPeriod[] = ['daily', 'weekly']
+export const TURBINE_STAT_KEYS: TurbineStatKey[] = ['spins', 'avgRps', 'maxRps', 'maxCombo', 'timeBoosts']
+
+const HIGH_SCORE_SIZE = 10
+// 주간 순위표에 필요한 기간만 보관 (개인 최고 기록은 따로 유지)
+const ROUND_RETENTION_DAYS = 8
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+const getPeriodStart = (period: TurbineRecordPeriod, now: number): string => {
+  const today = getDateKey(now)
+  return period === 'weekly' ? getWeekStartKey(today) : today
+}
+
+const mergeBest = (best: TurbineRoundStats | null, stats: TurbineRoundStats): TurbineRoundStats =>
+  best
+    ? {
+        spins: Math.max(best.spins, stats.spins),
+        avgRps: Math.max(best.avgRps, stats.avgRps),
+        maxRps: Math.max(best.maxRps, stats.maxRps),
+        maxCombo: Math.max(best.maxCombo, stats.maxCombo),
+        timeBoosts: Math.max(best.timeBoosts, stats.timeBoosts),
+      }
+    : stats
+
+export const recordTurbineRound = (
+  db: Database,
+  userId: string,
+  round: Record<string, unknown>,
+  now: number = Date.now()
+): TurbineRecordResult => {
+  if (!db.profiles[userId]) throw new HttpError(404, '프로필이 없습니다')
+
+  const replay = replayTurbineRound(round)
+  const stats: TurbineRoundStats = {
+    spins: replay.spins,
+    avgRps: round2(replay.avgRps),
+    maxRps: round2(replay.maxRps),
+    maxCombo: Math.round(replay.maxCombo * 10) / 10,
+    timeBoosts: replay.timeBoosts,
+  }
+
+  const { mode } = replay
+  const id = createHash('sha256').update(`${userId}:${mode}:${String(round.trace)}`).digest('base64url')
+  const bests = db.turbineBests[userId] ?? {}
+  const previousBest = bests[mode] ?? null
+  const duplicate = db.turbineRounds.some((r) => r.id === id)
+  // 0회전 판은 순위표/최고 기록에 남기지 않음
+  const counted = !duplicate && stats.spins > 0
+
+  const newRecords = counted
+    ? TURBINE_STAT_KEYS.filter((key) => stats[key] > 0 && (!previousBest || stats[key] > previousBest[key]))
+    : []
+
+  if (counted) {
+    db.turbineRounds.push({ id, userId, mode, stats, dateKey: getDateKey(now), createdAt: now })
+    db.turbineBests[userId] = { ...bests, [mode]: mergeBest(previousBest, stats) }
+
+    const oldest = getDateKey(now - ROUND_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    db.turbineRounds = db.turbineRounds.filter((r) => r.dateKey >= oldest)
+  }
+
+  return {
+    mode,
+    stats,
+    previousBest,
+    personalBest: db.turbineBests[userId]?.[mode] ?? stats,
+    newRecords,
+  }
+}
+
+export const getTurbineHighScores = (
+  db: Database,
+  userId: string,
+  period: TurbineRecordPeriod,
+  mode: TurbineMode,
+  now: number = Date.now()
+): TurbineHighScores => {
+  const from = getPeriodStart(period, now)
+
+  // 사용자별 기간 최고 기록
+  const bestByUser = new Map<string, TurbineRoundStats>()
+  db.turbineRounds.forEach((r) => {
+    if (r.mode !== mode || r.dateKey < from || !db.profiles[r.userId]) return
+    const best = bestByUser.get(r.userId)
+    if (!best || r.stats.spins > best.spins || (r.stats.spins === best.spins && r.stats.maxRps > best.maxRps)) {
+      bestByUser.set(r.userId, r.stats)
+    }
+  })
+
+  const sorted = Array.from(bestByUser.entries()).sort(
+    ([, a], [, b]) => b.spins - a.spins || b.maxRps - a.maxRps
+  )
+  // 동점자는 같은 순위 (1, 2, 2, 4 ...)
+  let rank = 0
+  const ranked: TurbineHighScoreEntry[] = sorted.map(([id, stats], i) => {
+    const prev = sorted[i - 1]?.[1]
+    if (!prev || prev.spins !== stats.spins || prev.maxRps !== stats.maxRps) rank = i + 1
+    const profile = db.profiles[id]
+    return {
+      rank,
+      nickname: profile.nickname,
+      characterId: profile.characterId,
+      spins: stats.spins,
+      maxRps: stats.maxRps,
+      isMe: id === userId,
+    }
+  })
+
+  return {
+    mode,
+    period,
+    from,
+    entries: ranked.slice(0, HIGH_SCORE_SIZE),
+    me: ranked.find((entry) => entry.isMe) ?? null,
+    personalBest: db.turbineBests[userId]?.[mode] ?? null,
+  }
+}
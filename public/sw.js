@@ -0,0 +1,192 @@
+// ==================== Service Worker ====================
+// 1) 오프라인 셸: 대시보드/프로필 화면, 아이콘, 캐릭터 이미지와 그 화면이 쓰는 Next 빌드 산출물
+//    (/_next/static: JS/CSS/폰트)을 미리 캐시. 그 밖의 빌드 산출물은 처음 받을 때 캐시
+//    새로 배포되어 셸 화면이 참조하는 산출물이 바뀌면 새 산출물을 받고 이전 배포의 산출물은 지움
+// 2) 출석 시간 Web Push 알림 표시 / 알림 클릭 시 앱 열기
+// 캐시 구성이 바뀌면 CACHE_VERSION을 올려 이전 캐시를 정리합니다.
+// 개발 모드(/sw.js?mode=push)에서는 캐시 없이 푸시만 처리합니다 (캐시가 HMR을 방해하므로).
+
+const CACHE_VERSION = 'v3'
+const SHELL_CACHE = `kepco-shell-${CACHE_VERSION}`
+const STATIC_CACHE = `kepco-static-${CACHE_VERSION}`
+const PUSH_ONLY = new URL(self.location.href).searchParams.get('mode') === 'push'
+
+const SHELL_PAGES = ['/', '/profile']
+const SHELL_URLS = [
+  ...SHELL_PAGES,
+  '/manifest.json',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/apple-touch-icon.png',
+  '/images/character/-.png',
+  '/images/character/1. Tobby.png',
+  '/images/character/2. Volty.png',
+  '/images/character/3. Lumi.png',
+  '/images/character/4. Windy.png',
+  '/images/character/5. Solar.png',
+  '/images/character/7. Green.png',
+]
+
+// ==================== Shell Assets ====================
+// 셸 화면 HTML(스크립트/스타일 태그와 RSC 데이터)과 CSS(폰트)에서 찾은 빌드 산출물 목록을 SHELL_CACHE에 보관
+const SHELL_ASSETS_KEY = '/__kepco-shell-assets'
+const ASSET_PATTERN = /(?:\/_next\/)?static\/(?:chunks|css|media)\/[^"'\\\s)]+/g
+
+const extractAssets = (text) =>
+  Array.from(text.matchAll(ASSET_PATTERN), ([match]) => (match.startsWith('/') ? match : `/_next/${match}`))
+
+const readCached = async (cache, url) => {
+  const response = await cache.match(url)
+  return response ? response.text() : ''
+}
+
+// 하나가 실패해도 나머지는 캐시 (다음 화면 갱신 때 다시 시도)
+const addMissing = (cache, urls) =>
+  Promise.all(urls.map(async (url) => ((await cache.match(url)) ? undefined : cache.add(url).catch(() => undefined))))
+
+const precacheShellAssets = async () => {
+  const shellCache = await caches.open(SHELL_CACHE)
+  const staticCache = await caches.open(STATIC_CACHE)
+  const pages = await Promise.all(SHELL_PAGES.map((url) => readCached(shellCache, url)))
+  const assets = new Set(pages.flatMap(extractAssets))
+
+  const saved = await shellCache.match(SHELL_ASSETS_KEY)
+  const previous = saved ? await saved.json() : []
+  if (previous.length > 0 && [...assets].every((url) => previous.includes(url))) return
+
+  await addMissing(staticCache, [...assets])
+  const styles = [...assets].filter((url) => url.endsWith('.css'))
+  const fonts = (await Promise.all(styles.map((url) => readCached(staticCache, url)))).flatMap(extractAssets)
+  await addMissing(staticCache, fonts)
+  fonts.forEach((url) => assets.add(url))
+
+  // 새 배포: 셸이 참조하지 않는 이전 빌드 산출물 삭제 (지금 빌드의 나머지 산출물은 다시 받을 때 캐시)
+  const keys = await staticCache.keys()
+  await Promise.all(
+    keys
+      .filter((request) => {
+        const { pathname } = new URL(request.url)
+        return pathname.startsWith('/_next/static/') && !assets.has(pathname)
+      })
+      .map((request) => staticCache.delete(request))
+  )
+  await shellCache.put(SHELL_ASSETS_KEY, new Response(JSON.stringify([...assets]), { headers: { 'Content-Type': 'application/json' } }))
+}
+
+self.addEventListener('install', (event) => {
+  if (PUSH_ONLY) {
+    event.waitUntil(self.skipWaiting())
+    return
+  }
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(precacheShellAssets)
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('kepco-') && (PUSH_ONLY || (key !== SHELL_CACHE && key !== STATIC_CACHE)))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+// ==================== Fetch ====================
+// 오류 응답, 리다이렉트/외부(opaque) 응답은 캐시하지 않음
+const isCacheable = (response) => response.ok && response.type === 'basic'
+
+// 캐시하지 않는 경로: API, 운영자 콘솔
+const isBypassed = (pathname) =>
+  pathname.startsWith('/api/') || pathname === '/admin' || pathname.startsWith('/admin/')
+
+// 화면(navigate): 네트워크 우선, 실패하면 캐시된 셸
+// 셸 화면을 새로 받으면 그 화면이 참조하는 빌드 산출물도 갱신 (새 배포 반영)
+const handleNavigation = async (event) => {
+  const { request } = event
+  try {
+    const response = await fetch(request)
+    if (isCacheable(response)) {
+      const { pathname } = new URL(request.url)
+      const cache = await caches.open(SHELL_CACHE)
+      const saved = cache.put(pathname, response.clone())
+      if (SHELL_PAGES.includes(pathname)) event.waitUntil(saved.then(precacheShellAssets))
+    }
+    return response
+  } catch {
+    const url = new URL(request.url)
+    return (await caches.match(url.pathname)) || (await caches.match('/')) || Response.error()
+  }
+}
+
+// 정적 자원: 캐시 우선 (파일명에 해시가 있거나 바뀌지 않는 이미지)
+const handleStatic = async (request) => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (isCacheable(response)) {
+    const cache = await caches.open(STATIC_CACHE)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (PUSH_ONLY || request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  // API와 운영자 콘솔은 항상 네트워크 (오프라인 데이터는 앱의 localStorage 캐시/EXP 대기열이 담당)
+  if (url.origin !== self.location.origin || isBypassed(url.pathname)) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event))
+  } else if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/images/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(handleStatic(request))
+  }
+})
+
+// ==================== Push ====================
+self.addEventListener('push', (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'KEPCO AI ZONE', {
+      body: payload.body || '',
+      tag: payload.tag,
+      icon: '/icons/icon-192.png',
+      data: { url: payload.url || '/' },
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin)
+      if (client) {
+        client.navigate(url)
+        return client.focus()
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
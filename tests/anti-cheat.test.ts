@@ -0,0 +1,67 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { HttpError } from '../app/server/http'
+import { validateTurbineRound } from '../app/server/anti-cheat'
+import { encodeTurbineTrace, replayTurbine, type TraceSample } from '../app/lib/turbine'
+
+// ==================== Turbine Round Validation ====================
+
+const DURATION_MS = 30 * 1000
+
+// 30초 동안 일정한 속도(초당 회전수)로 시계 방향으로 돌린 입력 기록 (16ms 간격)
+const createStroke = (revsPerSec: number): TraceSample[] => {
+  const stroke: TraceSample[] = []
+  for (let t = 0; t <= DURATION_MS; t += 16) {
+    const degrees = (t / 1000) * revsPerSec * 360
+    stroke.push({ t, angle: Math.round(((((degrees + 180) % 360) + 360) % 360 - 180) * 10) / 10 })
+  }
+  return stroke
+}
+
+const HUMAN_STROKE = createStroke(3)
+const REPLAY = replayTurbine([HUMAN_STROKE], DURATION_MS, null, 'standard')
+
+const round = (overrides: Record<string, unknown> = {}) => ({
+  trace: encodeTurbineTrace([HUMAN_STROKE]),
+  durationMs: DURATION_MS,
+  exp: REPLAY.exp,
+  spins: REPLAY.spins,
+  ...overrides,
+})
+
+const isBadRequest = (message: string) => (error: unknown) =>
+  error instanceof HttpError && error.status === 400 && error.message.includes(message)
+
+test('입력 기록과 맞는 결과는 재현 결과로 지급', () => {
+  assert.ok(REPLAY.exp > 0)
+  const validated = validateTurbineRound(round())
+  assert.equal(validated.exp, REPLAY.exp)
+  assert.equal(validated.stats.spins, REPLAY.spins)
+  assert.equal(validated.stats.mode, 'standard')
+
+  // 재현보다 적게 보고하면 보고한 값까지만
+  assert.equal(validateTurbineRound(round({ exp: REPLAY.exp - 1 })).exp, REPLAY.exp - 1)
+})
+
+test('재현보다 큰 EXP/회전수는 거부', () => {
+  assert.throws(() => validateTurbineRound(round({ exp: REPLAY.exp + 1 })), isBadRequest('일치하지 않습니다'))
+  assert.throws(() => validateTurbineRound(round({ spins: REPLAY.spins + 10 })), isBadRequest('일치하지 않습니다'))
+})
+
+test('사람이 낼 수 없는 회전 속도는 거부', () => {
+  const bot = createStroke(8)
+  assert.throws(
+    () => validateTurbineRound(round({ trace: encodeTurbineTrace([bot]), exp: 0, spins: 0 })),
+    isBadRequest('비정상적인 회전 속도')
+  )
+})
+
+test('플레이 시간, 기록 형식, 모드가 맞지 않으면 거부', () => {
+  assert.throws(() => validateTurbineRound(round({ durationMs: 10 * 1000 })), isBadRequest('플레이 시간'))
+  assert.throws(() => validateTurbineRound(round({ durationMs: 90 * 1000 })), isBadRequest('플레이 시간'))
+  assert.throws(() => validateTurbineRound(round({ trace: '16,abc' })), isBadRequest('형식'))
+  assert.throws(() => validateTurbineRound(round({ trace: undefined })), isBadRequest('올바르지 않습니다'))
+  assert.throws(() => validateTurbineRound(round({ mode: 'hardcore' })), isBadRequest('게임 모드'))
+  // 태풍 모드는 정해진 바람만 있음
+  assert.throws(() => validateTurbineRound(round({ mode: 'typhoon', windStart: 1000, windEnd: 6000 })), isBadRequest('무작위 바람'))
+})
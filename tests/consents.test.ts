@@ -0,0 +1,45 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { toConsentCsv } from '../app/server/consents'
+import type { ConsentLogEntry } from '../app/lib/security-consent'
+
+// ==================== Consent CSV ====================
+
+const entry = (nickname: string): ConsentLogEntry => ({
+  id: 'consent-1',
+  userId: 'user-aaaaaaaa',
+  nickname,
+  department: '',
+  toolId: 'claude-ai',
+  toolName: 'Claude AI',
+  rulesVersion: 1,
+  currentVersion: 1,
+  createdAt: Date.UTC(2026, 9, 19, 3, 0),
+  dateKey: '2026-10-19',
+})
+
+const nicknameCell = (nickname: string) => {
+  const [, row] = toConsentCsv([entry(nickname)]).slice(1).split('\r\n')
+  return row.split(',user-aaaaaaaa,')[1].split(',,claude-ai')[0]
+}
+
+test('수식으로 해석될 수 있는 값은 앞에 따옴표를 붙임', () => {
+  assert.equal(nicknameCell('=HYPERLINK("x")'), `"'=HYPERLINK(""x"")"`)
+  assert.equal(nicknameCell('+1'), "'+1")
+  assert.equal(nicknameCell('-1'), "'-1")
+  assert.equal(nicknameCell('@SUM(A1)'), "'@SUM(A1)")
+  assert.equal(nicknameCell('\t=1'), "'\t=1")
+  assert.equal(nicknameCell('\r=1'), `"'\r=1"`)
+})
+
+test('일반 값은 그대로, 쉼표/따옴표가 있으면 감쌈', () => {
+  assert.equal(nicknameCell('김한전'), '김한전')
+  assert.equal(nicknameCell('김,한전'), '"김,한전"')
+  assert.equal(nicknameCell('김"한전"'), '"김""한전"""')
+})
+
+test('BOM과 헤더, ISO 시각', () => {
+  const csv = toConsentCsv([entry('김한전')])
+  assert.ok(csv.startsWith('\uFEFFid,createdAt,dateKey,'))
+  assert.ok(csv.includes(',2026-10-19T03:00:00.000Z,'))
+})
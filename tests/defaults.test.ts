@@ -0,0 +1,54 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { HttpError } from '../app/server/http'
+import { parseAITools, parseAppConfig, parseConsentRules, parsePromptRulePack, parseSites } from '../app/server/config'
+import { DEFAULT_APP_CONFIG } from '../app/lib/config'
+import { DEFAULT_SITES } from '../app/lib/sites'
+import { DEFAULT_AI_TOOLS } from '../app/lib/ai-tools'
+import { DEFAULT_CONSENT_RULES } from '../app/lib/security-consent'
+import { DEFAULT_PROMPT_RULE_PACK, runPromptRuleTests } from '../app/lib/prompt-security'
+
+// ==================== Default Data ====================
+// 기본 설정이 운영자 콘솔 저장 검증(app/server/config.ts)을 통과하는지, 프롬프트 보안 규칙의 테스트 문장이 모두 맞는지 확인합니다.
+// 기본값은 DB가 비어 있을 때 그대로 쓰이므로, 검증 규칙을 바꾸면 기본값도 함께 맞춰야 합니다.
+
+test('보상 설정 기본값', () => {
+  parseAppConfig(DEFAULT_APP_CONFIG)
+})
+
+test('근무지 기본값', () => {
+  parseSites(DEFAULT_SITES)
+})
+
+test('AI TOOL 기본 목록', () => {
+  parseAITools(DEFAULT_AI_TOOLS)
+})
+
+test('보안 준수 문구 기본값', () => {
+  parseConsentRules({ items: DEFAULT_CONSENT_RULES.items }, DEFAULT_CONSENT_RULES)
+})
+
+test('프롬프트 보안 규칙 기본 팩', () => {
+  parsePromptRulePack(DEFAULT_PROMPT_RULE_PACK, DEFAULT_PROMPT_RULE_PACK)
+})
+
+for (const rule of DEFAULT_PROMPT_RULE_PACK.rules) {
+  test(`규칙 테스트 문장: ${rule.label}`, () => {
+    const failed = runPromptRuleTests(rule).filter((result) => !result.passed)
+    assert.deepEqual(
+      failed.map((f) => `"${f.text}" (${f.shouldMatch ? '검출돼야 함' : '검출되면 안 됨'})`),
+      []
+    )
+  })
+}
+
+test('AI TOOL 아이콘은 lucide 아이콘 이름으로 저장 (이전 컴포넌트 이름도 허용)', () => {
+  const tool = { ...DEFAULT_AI_TOOLS[0] }
+  assert.deepEqual(
+    ['book-open', 'BookOpen', 'Code2', 'Wand2', 'a-arrow-down'].map((icon) => parseAITools([{ ...tool, icon }])[0].icon),
+    ['book-open', 'book-open', 'code-xml', 'wand-sparkles', 'a-arrow-down']
+  )
+  for (const icon of ['', 'not-an-icon', 'constructor', 'toString']) {
+    assert.throws(() => parseAITools([{ ...tool, icon }]), (error) => error instanceof HttpError && error.status === 400)
+  }
+})
@@ -0,0 +1,95 @@
+import 'fake-indexeddb/auto'
+import { test, mock, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ExpGrantRequest } from '../app/lib/types'
+
+// ==================== Offline EXP Queue ====================
+// 브라우저 대기열(IndexedDB)의 재전송 규칙을 확인합니다. 서버 응답은 fetch를 바꿔 흉내 냅니다.
+
+const storage = new Map<string, string>()
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+})
+Object.defineProperty(globalThis, 'navigator', { value: { onLine: true }, configurable: true })
+
+const USER_A = 'user-aaaaaaaa'
+const USER_B = 'user-bbbbbbbb'
+
+interface SentRequest {
+  userId: string | null
+  body: ExpGrantRequest
+}
+
+// 서버 흉내: respond가 null이면 네트워크 오류(오프라인)
+const serve = (respond: (body: ExpGrantRequest) => { status: number; body: object } | null) => {
+  const sent: SentRequest[] = []
+  mock.method(globalThis, 'fetch', async (_path: string, init: RequestInit) => {
+    const body = JSON.parse(String(init.body)) as ExpGrantRequest
+    const response = respond(body)
+    if (!response) throw new TypeError('Failed to fetch')
+    sent.push({ userId: new Headers(init.headers).get('x-user-id'), body })
+    return new Response(JSON.stringify(response.body), { status: response.status })
+  })
+  return sent
+}
+
+const granted = (body: ExpGrantRequest) => ({
+  status: 200,
+  body: { transaction: { id: body.idempotencyKey, amount: 10 }, totalExp: 10, replayed: false },
+})
+
+beforeEach(async () => {
+  mock.restoreAll()
+  const { setUserId } = await import('../app/lib/api')
+  setUserId(USER_A)
+})
+
+test('오프라인에서 저장한 요청은 같은 멱등 키와 획득 시각으로 다시 전송', async () => {
+  const { flushExpQueue, isOfflineError, submitExp } = await import('../app/lib/exp-queue')
+  serve(() => null)
+  const error = await submitExp({ source: 'ai-tool', metadata: { toolId: 'claude-ai' } }).catch((e) => e)
+  assert.equal(isOfflineError(error), true)
+
+  const sent = serve(granted)
+  const result = await flushExpQueue()
+  assert.equal(result.granted.length, 1)
+  assert.equal(result.remaining, 0)
+  assert.equal(sent.length, 1)
+  assert.ok(sent[0].body.idempotencyKey)
+  assert.ok(sent[0].body.occurredAt)
+
+  // 보낸 요청은 대기열에서 빠짐
+  assert.equal((await flushExpQueue()).granted.length, 0)
+  assert.equal(sent.length, 1)
+})
+
+test('서버 일시 오류는 남겨 두고, 거절은 사유와 함께 알림', async () => {
+  const { flushExpQueue, submitExp } = await import('../app/lib/exp-queue')
+  serve(() => null)
+  await submitExp({ source: 'link', metadata: { linkId: 'a' } }).catch(() => undefined)
+
+  serve(() => ({ status: 503, body: { error: '서버 점검 중' } }))
+  assert.equal((await flushExpQueue()).remaining, 1)
+
+  serve(() => ({ status: 409, body: { error: '오늘 이미 EXP를 받은 링크입니다' } }))
+  const result = await flushExpQueue()
+  assert.deepEqual(result.rejected.map((r) => r.message), ['오늘 이미 EXP를 받은 링크입니다'])
+  assert.equal(result.remaining, 0)
+})
+
+test('사용자가 바뀌어도 저장할 때의 사용자에게 적립하고 화면에는 표시하지 않음', async () => {
+  const { setUserId } = await import('../app/lib/api')
+  const { flushExpQueue, submitExp } = await import('../app/lib/exp-queue')
+  serve(() => null)
+  await submitExp({ source: 'ai-tool', metadata: { toolId: 'notebooklm' } }).catch(() => undefined)
+
+  setUserId(USER_B)
+  const sent = serve(granted)
+  const result = await flushExpQueue()
+  assert.deepEqual(sent.map((s) => s.userId), [USER_A])
+  assert.equal(result.granted.length, 0)
+})
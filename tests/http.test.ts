@@ -0,0 +1,26 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { HttpError, readJson, requireAdmin } from '../app/server/http'
+
+// ==================== Route Handler Helpers ====================
+
+const jsonRequest = (body: string) => new Request('http://localhost/api/test', { method: 'POST', body })
+
+test('readJson은 JSON 객체를 그대로 돌려줌', async () => {
+  assert.deepEqual(await readJson(jsonRequest('{"source":"ai-tool"}')), { source: 'ai-tool' })
+})
+
+test('readJson은 객체가 아닌 본문을 400으로 거절', async () => {
+  for (const body of ['null', '[]', '42', '"text"', 'not json']) {
+    await assert.rejects(readJson(jsonRequest(body)), (error) => error instanceof HttpError && error.status === 400)
+  }
+})
+
+test('requireAdmin은 비밀번호가 정확히 같을 때만 통과', () => {
+  process.env.ADMIN_PASSWORD = 'correct-horse'
+  const adminRequest = (password: string) => new Request('http://localhost/api/admin', { headers: { 'x-admin-password': password } })
+  assert.doesNotThrow(() => requireAdmin(adminRequest('correct-horse')))
+  for (const password of ['', 'correct-hors', 'correct-horse!', 'CORRECT-HORSE']) {
+    assert.throws(() => requireAdmin(adminRequest(password)), (error) => error instanceof HttpError && error.status === 403)
+  }
+})
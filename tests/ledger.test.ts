@@ -0,0 +1,80 @@
+import { test, mock, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { ExpGrantRequest } from '../app/lib/types'
+
+// ==================== EXP Ledger: Offline Sync ====================
+// 대기열 재전송 규칙(멱등 키, 획득 시각 기준 판정, 같은 날만 인정)을 확인합니다. 데이터는 임시 폴더에 씁니다.
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'kepco-ledger-'))
+process.env.KEPCO_DATA_DIR = dataDir
+
+const USER_ID = 'user-aaaaaaaa'
+// 기본 근무지(부산 본사) 지오펜스 중심
+const AT_SITE = { lat: 35.1795, lng: 129.0756 }
+const HOUR = 60 * 60 * 1000
+// 2026-10-19 (KST) 08:30 출근 시간대 / 11:30 점심 시간대 (10:30은 시간대 밖)
+const MORNING = Date.UTC(2026, 9, 18, 23, 30)
+const LATE_MORNING = MORNING + 3 * HOUR
+
+const gps = (occurredAt: number, idempotencyKey: string): ExpGrantRequest => ({
+  source: 'gps',
+  metadata: AT_SITE,
+  occurredAt,
+  idempotencyKey,
+})
+
+const at = (now: number) => mock.method(Date, 'now', () => now)
+
+beforeEach(() => {
+  mock.restoreAll()
+  writeFileSync(
+    path.join(dataDir, 'db.json'),
+    JSON.stringify({ profiles: { [USER_ID]: { userId: USER_ID, nickname: '테스터', level: 1, exp: 0, totalExp: 0, badges: 0 } } })
+  )
+})
+
+test.after(() => rmSync(dataDir, { recursive: true, force: true }))
+
+test('오프라인 출석은 몇 시간 뒤에 도착해도 획득 시각의 시간대로 적립', async () => {
+  const { grantExp } = await import('../app/server/ledger')
+  at(LATE_MORNING)
+  const result = await grantExp(USER_ID, gps(MORNING, 'event-0001'))
+  assert.equal(result.transaction.metadata.slot, 'morning')
+  assert.equal(result.transaction.createdAt, MORNING)
+  assert.equal(result.transaction.metadata.syncedAt, LATE_MORNING)
+})
+
+test('같은 멱등 키는 한 번만 지급', async () => {
+  const { grantExp } = await import('../app/server/ledger')
+  at(MORNING)
+  const first = await grantExp(USER_ID, gps(MORNING, 'event-0001'))
+  const retried = await grantExp(USER_ID, gps(MORNING, 'event-0001'))
+  assert.equal(retried.replayed, true)
+  assert.equal(retried.transaction.id, first.transaction.id)
+  assert.equal(retried.totalExp, first.totalExp)
+})
+
+test('두 기기에서 같은 시간대 출석이 오면 먼저 도착한 것만 지급', async () => {
+  const { grantExp } = await import('../app/server/ledger')
+  at(LATE_MORNING)
+  await grantExp(USER_ID, gps(MORNING, 'phone-0001'))
+  await assert.rejects(grantExp(USER_ID, gps(MORNING + 5 * 60 * 1000, 'tablet-0001')), { status: 409 })
+})
+
+test('전날 기록이나 획득 시각이 시간대 밖인 기록은 거절', async () => {
+  const { grantExp } = await import('../app/server/ledger')
+  at(MORNING + 24 * HOUR)
+  await assert.rejects(grantExp(USER_ID, gps(MORNING, 'event-0001')), { status: 409 })
+  at(LATE_MORNING)
+  await assert.rejects(grantExp(USER_ID, gps(MORNING + 2 * HOUR, 'event-0002')), { status: 409 })
+})
+
+test('기기 시계가 빠르면 서버 시각으로 보정', async () => {
+  const { grantExp } = await import('../app/server/ledger')
+  at(MORNING)
+  const result = await grantExp(USER_ID, gps(MORNING + HOUR, 'event-0001'))
+  assert.equal(result.transaction.createdAt, MORNING)
+})
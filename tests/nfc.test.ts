@@ -0,0 +1,41 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createEmptyDatabase } from '../app/server/db'
+import { HttpError } from '../app/server/http'
+import { consumeNfcToken, issueNfcToken, verifyNfcToken } from '../app/server/nfc'
+
+// ==================== NFC Tag Tokens ====================
+
+const NOW = Date.UTC(2026, 9, 19, 3, 0)
+const WINDOW_MS = 10 * 60 * 1000
+
+test('발급한 토큰은 직전 시간창까지 유효', () => {
+  const db = createEmptyDatabase()
+  const { token } = issueNfcToken('gn-lobby', NOW)
+  assert.equal(verifyNfcToken(db, 'user-aaaaaaaa', token, NOW).valid, true)
+  assert.equal(verifyNfcToken(db, 'user-aaaaaaaa', token, NOW + WINDOW_MS).valid, true)
+  assert.equal(verifyNfcToken(db, 'user-aaaaaaaa', token, NOW + 2 * WINDOW_MS).valid, false)
+})
+
+test('서명이나 nonce를 바꾼 토큰은 거부', () => {
+  const db = createEmptyDatabase()
+  const [tagId, window, nonce, signature] = issueNfcToken('gn-lobby', NOW).token.split('.')
+  const tampered = [
+    `${tagId}.${window}.${nonce}x.${signature}`,
+    `gn-other.${window}.${nonce}.${signature}`,
+    `${tagId}.${window}.${signature}`,
+  ]
+  tampered.forEach((token) => assert.equal(verifyNfcToken(db, 'user-aaaaaaaa', token, NOW).valid, false))
+})
+
+test('토큰 하나는 모든 사용자를 통틀어 한 번만 사용', () => {
+  const db = createEmptyDatabase()
+  const { token } = issueNfcToken('gn-lobby', NOW)
+  consumeNfcToken(db, 'user-aaaaaaaa', token, NOW)
+
+  for (const userId of ['user-aaaaaaaa', 'user-bbbbbbbb']) {
+    assert.throws(() => consumeNfcToken(db, userId, token, NOW + 1000), (error) => error instanceof HttpError && error.status === 403)
+  }
+  // 새로 발급한 토큰은 다른 사용자가 쓸 수 있음
+  consumeNfcToken(db, 'user-bbbbbbbb', issueNfcToken('gn-lobby', NOW).token, NOW + 1000)
+})
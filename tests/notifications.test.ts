@@ -0,0 +1,43 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createEmptyDatabase, type StoredProfile } from '../app/server/db'
+import { getNotifications, hasPendingNotifications, pushNotification } from '../app/server/notifications'
+
+// ==================== Notifications ====================
+
+const USER_ID = 'user-aaaaaaaa'
+// 23시 (KST): 열린 출석 시간대가 없어 출석 알림은 만들어지지 않음
+const NOW = Date.UTC(2026, 9, 19, 14, 0)
+
+const createDatabase = () => {
+  const db = createEmptyDatabase()
+  db.profiles[USER_ID] = { userId: USER_ID } as StoredProfile
+  db.announcements = [{ id: 'notice-1', title: '점검 안내', body: '토요일 점검', createdAt: NOW - 24 * 60 * 60 * 1000 }]
+  return db
+}
+
+test('공지는 알림함을 처음 열 때 한 번만 생성', () => {
+  const db = createDatabase()
+  assert.equal(getNotifications(db, USER_ID, NOW).notifications.length, 1)
+  assert.equal(hasPendingNotifications(db, USER_ID, NOW + 60 * 1000), false)
+  assert.equal(getNotifications(db, USER_ID, NOW + 60 * 1000).notifications.length, 1)
+})
+
+test('보관 한도로 지운 알림은 다시 생성하지 않음', () => {
+  const db = createDatabase()
+  getNotifications(db, USER_ID, NOW)
+  for (let i = 1; i <= 101; i++) {
+    pushNotification(db, USER_ID, 'level-up', `Lv.${i}`, '레벨업', { now: NOW + i })
+  }
+
+  const later = NOW + 60 * 1000
+  assert.equal(hasPendingNotifications(db, USER_ID, later), false)
+  const { notifications } = getNotifications(db, USER_ID, later)
+  assert.equal(notifications.length, 100)
+  assert.equal(notifications.some((n) => n.type === 'announcement'), false)
+})
+
+test('프로필이 없는 사용자에게는 알림을 만들지 않음', () => {
+  const db = createDatabase()
+  assert.equal(hasPendingNotifications(db, 'user-unknown1', NOW), false)
+})
@@ -0,0 +1,50 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+// ==================== Profile API ====================
+// 데이터는 임시 폴더에 씁니다.
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'kepco-profile-'))
+process.env.KEPCO_DATA_DIR = dataDir
+
+const USER_ID = 'user-aaaaaaaa'
+
+const putProfile = async (body: object) => {
+  const { PUT } = await import('../app/api/profile/route')
+  const response = await PUT(
+    new Request('http://localhost/api/profile', {
+      method: 'PUT',
+      headers: { 'x-user-id': USER_ID },
+      body: JSON.stringify(body),
+    })
+  )
+  return { status: response.status, body: await response.json() }
+}
+
+test.after(() => rmSync(dataDir, { recursive: true, force: true }))
+
+test('기기에만 있던 EXP는 옮기지 않고 초기화 안내를 한 번 남김', async () => {
+  const { readDatabase } = await import('../app/server/db')
+  const local = { nickname: '테스터', characterId: 1, level: 6, exp: 20, badges: 3, totalExp: 520, updatedAt: 1 }
+
+  const created = await putProfile(local)
+  assert.equal(created.status, 200)
+  assert.equal(created.body.profile.totalExp, 0)
+  assert.equal(created.body.profile.level, 1)
+
+  await putProfile({ ...local, updatedAt: 2 })
+  const db = await readDatabase()
+  assert.equal(db.ledger.length, 0)
+  assert.deepEqual(db.notifications.map((n) => n.type), ['announcement'])
+})
+
+test('본문이 JSON 객체가 아니면 400', async () => {
+  const { POST } = await import('../app/api/exp/route')
+  const response = await POST(
+    new Request('http://localhost/api/exp', { method: 'POST', headers: { 'x-user-id': USER_ID }, body: 'null' })
+  )
+  assert.equal(response.status, 400)
+})
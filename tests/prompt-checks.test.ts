@@ -0,0 +1,75 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createEmptyDatabase, type StoredProfile } from '../app/server/db'
+import { HttpError } from '../app/server/http'
+import { consumePromptCheck, parsePromptCheckSummary, recordPromptCheck } from '../app/server/prompt-checks'
+import { DEFAULT_PROMPT_RULE_PACK, scanPrompt, summarizePromptScan } from '../app/lib/prompt-security'
+
+// ==================== Prompt Checks ====================
+
+const USER_ID = 'user-aaaaaaaa'
+const NOW = Date.UTC(2026, 9, 19, 3, 0)
+const PROMPT = '주민번호 900101-1234567 인 고객 민원 답변 초안을 써 줘'
+
+const createDatabase = () => {
+  const db = createEmptyDatabase()
+  db.profiles[USER_ID] = { userId: USER_ID } as StoredProfile
+  return db
+}
+
+const isHttpError = (status: number) => (error: unknown) => error instanceof HttpError && error.status === status
+
+test('요약에는 원문과 찾은 값이 들어가지 않음', async () => {
+  const scan = scanPrompt(PROMPT, DEFAULT_PROMPT_RULE_PACK)
+  const summary = await summarizePromptScan(USER_ID, PROMPT, scan)
+
+  assert.deepEqual(Object.keys(summary).sort(), ['findingCount', 'length', 'packVersion', 'promptHash', 'risk'])
+  assert.equal(summary.findingCount, scan.findings.length)
+  assert.equal(summary.packVersion, DEFAULT_PROMPT_RULE_PACK.version)
+  assert.equal(JSON.stringify(summary).includes('900101'), false)
+  assert.deepEqual(parsePromptCheckSummary({ ...summary }), summary)
+})
+
+test('형식이 맞지 않는 요약은 400으로 거절', () => {
+  const valid = { length: 20, findingCount: 1, risk: 'danger', packVersion: 1 }
+  const invalid = [
+    { ...valid, length: 0 },
+    { ...valid, length: 10001 },
+    { ...valid, findingCount: -1 },
+    { ...valid, findingCount: 1.5 },
+    { ...valid, risk: 'unknown' },
+    { ...valid, packVersion: '1' },
+    { ...valid, promptHash: 'short' },
+    { prompt: PROMPT },
+  ]
+  invalid.forEach((body) => assert.throws(() => parsePromptCheckSummary(body), isHttpError(400)))
+})
+
+test('검사 ID는 한 번만 EXP에 사용', async () => {
+  const db = createDatabase()
+  const summary = await summarizePromptScan(USER_ID, PROMPT, scanPrompt(PROMPT))
+  const { checkId } = recordPromptCheck(db, USER_ID, summary, NOW)
+
+  assert.equal(db.promptChecks[0].packVersion, summary.packVersion)
+  assert.throws(() => consumePromptCheck(db, 'user-bbbbbbbb', checkId, NOW), isHttpError(400))
+  consumePromptCheck(db, USER_ID, checkId, NOW)
+  assert.throws(() => consumePromptCheck(db, USER_ID, checkId, NOW), isHttpError(409))
+})
+
+test('같은 프롬프트를 다시 검사해도 EXP는 한 번만', async () => {
+  const db = createDatabase()
+  const summary = await summarizePromptScan(USER_ID, PROMPT, scanPrompt(PROMPT))
+  consumePromptCheck(db, USER_ID, recordPromptCheck(db, USER_ID, summary, NOW).checkId, NOW)
+
+  const again = recordPromptCheck(db, USER_ID, summary, NOW + 1000)
+  assert.throws(() => consumePromptCheck(db, USER_ID, again.checkId, NOW + 1000), isHttpError(409))
+})
+
+test('짧은 프롬프트나 만료된 검사는 EXP 불가', async () => {
+  const db = createDatabase()
+  const short = recordPromptCheck(db, USER_ID, await summarizePromptScan(USER_ID, '요약해 줘', scanPrompt('요약해 줘')), NOW)
+  assert.throws(() => consumePromptCheck(db, USER_ID, short.checkId, NOW), isHttpError(400))
+
+  const stale = recordPromptCheck(db, USER_ID, await summarizePromptScan(USER_ID, PROMPT, scanPrompt(PROMPT)), NOW)
+  assert.throws(() => consumePromptCheck(db, USER_ID, stale.checkId, NOW + 25 * 60 * 60 * 1000), isHttpError(409))
+})
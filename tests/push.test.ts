@@ -0,0 +1,69 @@
+import { test, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import webpush from 'web-push'
+
+// ==================== Web Push Dispatch ====================
+// 발송 결과에 따라 예약(pushDeliveries)을 유지하거나 풀어 주는지 확인합니다. 데이터는 임시 폴더에 씁니다.
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'kepco-push-'))
+process.env.KEPCO_DATA_DIR = dataDir
+Object.assign(process.env, { VAPID_PUBLIC_KEY: '', VAPID_PRIVATE_KEY: '', PUSH_TRANSPORT: '' })
+
+const USER_ID = 'user-aaaaaaaa'
+// 12시 (KST): 점심 출석 시간대
+const NOW = Date.UTC(2026, 9, 19, 3, 0)
+
+const seed = () =>
+  writeFileSync(
+    path.join(dataDir, 'db.json'),
+    JSON.stringify({
+      profiles: { [USER_ID]: { userId: USER_ID } },
+      pushSubscriptions: [
+        {
+          userId: USER_ID,
+          endpoint: 'https://push.example.com/sub-1',
+          keys: { p256dh: 'p256dh', auth: 'auth' },
+          slots: ['lunch'],
+          createdAt: NOW,
+          updatedAt: NOW,
+        },
+      ],
+    })
+  )
+
+test.after(() => rmSync(dataDir, { recursive: true, force: true }))
+
+test('VAPID 키가 없으면 발송하지 않음, 로컬 발송함 모드는 키 없이 동작', async () => {
+  const { dispatchSlotReminders, getPushOutbox } = await import('../app/server/push')
+  seed()
+  await assert.rejects(dispatchSlotReminders(NOW), { status: 503 })
+
+  process.env.PUSH_TRANSPORT = 'local'
+  try {
+    assert.deepEqual(await dispatchSlotReminders(NOW), { sent: 1, failed: 0, expired: 0 })
+    assert.equal((await getPushOutbox()).length, 1)
+  } finally {
+    process.env.PUSH_TRANSPORT = ''
+  }
+})
+
+test('일시적으로 실패한 알림은 다음 호출 때 다시 발송', async () => {
+  const { dispatchSlotReminders } = await import('../app/server/push')
+  const keys = webpush.generateVAPIDKeys()
+  Object.assign(process.env, { VAPID_PUBLIC_KEY: keys.publicKey, VAPID_PRIVATE_KEY: keys.privateKey })
+  seed()
+
+  const send = mock.method(webpush, 'sendNotification', async () => {
+    throw Object.assign(new Error('Service Unavailable'), { statusCode: 503 })
+  })
+  mock.method(console, 'error', () => undefined)
+  assert.deepEqual(await dispatchSlotReminders(NOW), { sent: 0, failed: 1, expired: 0 })
+
+  send.mock.mockImplementation(async () => ({ statusCode: 201, body: '', headers: {} }))
+  assert.deepEqual(await dispatchSlotReminders(NOW + 10 * 60 * 1000), { sent: 1, failed: 0, expired: 0 })
+  assert.deepEqual(await dispatchSlotReminders(NOW + 20 * 60 * 1000), { sent: 0, failed: 0, expired: 0 })
+  mock.restoreAll()
+})